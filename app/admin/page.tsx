@@ -1,15 +1,27 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 
 import LayoutShell from "@/components/LayoutShell";
 import AnalyticsCharts from "@/components/admin/AnalyticsCharts";
+import ConditionComparisons from "@/components/admin/ConditionComparisons";
 import DataTable from "@/components/admin/DataTable";
+import CompletionCodeChecker from "@/components/admin/CompletionCodeChecker";
+import SessionFilters, {
+  activeFilterCount,
+  appendSessionFilters,
+  EMPTY_SESSION_FILTERS,
+  type SessionFilterValues,
+} from "@/components/admin/SessionFilters";
+import SessionReplay from "@/components/admin/SessionReplay";
+import StudyManager, { type AdminStudy, type StudyOptions } from "@/components/admin/StudyManager";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
 import { usePageView } from "@/hooks/usePageView";
+import type { MetricComparison, SummaryMetrics } from "@/lib/analytics";
 import { cn } from "@/lib/utils";
 
 type AdminSession = {
@@ -18,37 +30,18 @@ type AdminSession = {
   session_id: string;
   created_at: string;
   condition_id: string;
+  persona_tag: string | null;
+  simulated: boolean;
   participant_id: string;
+  study_id: string | null;
+  arm_id: string | null;
   outcome_reason: string | null;
   turns: number;
   duration_seconds: number;
-};
-
-type SummaryMetrics = {
-  sessions?: number;
-  agreement_rate: number | null;
-  avg_joint_utility: number | null;
-  avg_efficiency: number | null;
-  avg_fairness_index: number | null;
-  avg_nash_product?: number | null;
-  avg_nash_ratio: number | null;
-  avg_nash_distance?: number | null;
-  avg_pareto_distance?: number | null;
-  pareto_efficiency_rate: number | null;
-  avg_human_share?: number | null;
-  avg_human_utility_ratio?: number | null;
-  avg_agent_utility_ratio?: number | null;
-  avg_ks_gap?: number | null;
-  avg_acceptor_ratio?: number | null;
-  avg_offer_nash_distance?: number | null;
-  avg_offer_pareto_distance?: number | null;
-  avg_duration?: number | null;
-  avg_turns?: number | null;
-  avg_response: number | null;
-  avg_human_concession?: number | null;
-  avg_agent_concession?: number | null;
-  avg_burstiness?: number | null;
-  avg_cri?: number | null;
+  has_survey: boolean;
+  version: number;
+  version_count: number;
+  canonical: boolean;
 };
 
 type SummaryRow = SummaryMetrics & {
@@ -79,6 +72,17 @@ type LegendRow = {
   notes: string;
 };
 
+const SESSION_SORTS = [
+  { value: "stored_at:desc", label: "Newest saved" },
+  { value: "stored_at:asc", label: "Oldest saved" },
+  { value: "created_at:desc", label: "Newest started" },
+  { value: "participant_id:asc", label: "Participant ID" },
+  { value: "turns:desc", label: "Most turns" },
+  { value: "turns:asc", label: "Fewest turns" },
+  { value: "duration_seconds:desc", label: "Longest" },
+  { value: "duration_seconds:asc", label: "Shortest" },
+];
+
 type AnalyticsResponse = {
   ok: boolean;
   generated_at: string;
@@ -86,6 +90,7 @@ type AnalyticsResponse = {
   summary: SummaryRow[];
   summary_personas: SummaryPersonaRow[];
   summary_overall: SummaryOverallRow[];
+  comparisons: MetricComparison[];
   sessions: Array<Record<string, unknown>>;
   offers: Array<Record<string, unknown>>;
   chats: Array<Record<string, unknown>>;
@@ -94,45 +99,115 @@ type AnalyticsResponse = {
   concession_curves: Array<Record<string, unknown>>;
   plots: PlotRow[];
   legend: LegendRow[];
+  funnel: Array<Record<string, unknown>>;
+  dropoffs: Array<Record<string, unknown>>;
 };
 
 export default function AdminPage() {
   usePageView("/admin");
   const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [sessionTotal, setSessionTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [sessionSort, setSessionSort] = useState(SESSION_SORTS[0].value);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [downloading, setDownloading] = useState<string | null>(null);
+  const [showAllVersions, setShowAllVersions] = useState(false);
+  const [replayFilename, setReplayFilename] = useState<string | null>(null);
   const [analytics, setAnalytics] = useState<AnalyticsResponse | null>(null);
   const [analyticsLoading, setAnalyticsLoading] = useState(false);
   const [analyticsError, setAnalyticsError] = useState<string | null>(null);
   const [legendOpen, setLegendOpen] = useState(false);
+  const [studies, setStudies] = useState<AdminStudy[]>([]);
+  const [studyOptions, setStudyOptions] = useState<StudyOptions>({
+    personas: [],
+    strategies: [],
+    providers: [],
+    algorithms: [],
+    strata: [],
+  });
+  const [studiesError, setStudiesError] = useState<string | null>(null);
+  // Empty means every stored session; otherwise analytics and logs show one study only.
+  const [studyFilter, setStudyFilter] = useState("");
+  const [filters, setFilters] = useState<SessionFilterValues>(EMPTY_SESSION_FILTERS);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  // The same subset drives analytics and the session list.
+  const filterQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    if (studyFilter) {
+      params.set("study_id", studyFilter);
+    }
+    return appendSessionFilters(params, filters).toString();
+  }, [filters, studyFilter]);
 
-  const loadSessions = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  const loadStudies = useCallback(async () => {
+    setStudiesError(null);
     try {
-      const response = await fetch("/api/admin/sessions");
+      const response = await fetch("/api/admin/studies", { cache: "no-store" });
       if (!response.ok) {
         throw new Error(`Load failed: ${response.status}`);
       }
-      const data = (await response.json()) as { ok: boolean; sessions: AdminSession[] };
-      setSessions(data.sessions ?? []);
+      const data = (await response.json()) as {
+        ok: boolean;
+        studies: AdminStudy[];
+        options: StudyOptions;
+      };
+      setStudies(data.studies ?? []);
+      setStudyOptions(data.options);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error");
-    } finally {
-      setLoading(false);
+      setStudiesError(err instanceof Error ? err.message : "Unknown error");
     }
   }, []);
 
+  // Without a cursor the list starts over; with one, the next page is appended.
+  const loadSessions = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams(filterQuery);
+        if (showAllVersions) {
+          params.set("versions", "all");
+        }
+        const [sort, order] = sessionSort.split(":");
+        params.set("sort", sort);
+        params.set("order", order);
+        if (cursor) {
+          params.set("cursor", cursor);
+        }
+        const response = await fetch(`/api/admin/sessions?${params.toString()}`);
+        const data = (await response.json()) as {
+          ok: boolean;
+          sessions?: AdminSession[];
+          total?: number;
+          next_cursor?: string | null;
+          error?: string;
+        };
+        if (!response.ok) {
+          throw new Error(data.error ?? `Load failed: ${response.status}`);
+        }
+        const page = data.sessions ?? [];
+        setSessions((prev) => (cursor ? [...prev, ...page] : page));
+        setSessionTotal(data.total ?? page.length);
+        setNextCursor(data.next_cursor ?? null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filterQuery, sessionSort, showAllVersions]
+  );
+
   const loadAnalytics = useCallback(async () => {
     setAnalyticsLoading(true);
     setAnalyticsError(null);
     try {
-      const response = await fetch("/api/admin/analytics", { cache: "no-store" });
+      const response = await fetch(`/api/admin/analytics?${filterQuery}`, { cache: "no-store" });
+      const data = (await response.json()) as AnalyticsResponse & { error?: string };
       if (!response.ok) {
-        throw new Error(`Analytics failed: ${response.status}`);
+        throw new Error(data.error ?? `Analytics failed: ${response.status}`);
       }
-      const data = (await response.json()) as AnalyticsResponse;
       if (!data.ok) {
         throw new Error("Analytics response returned ok=false.");
       }
@@ -142,13 +217,17 @@ export default function AdminPage() {
     } finally {
       setAnalyticsLoading(false);
     }
-  }, []);
+  }, [filterQuery]);
 
   useEffect(() => {
     void loadSessions();
     void loadAnalytics();
   }, [loadAnalytics, loadSessions]);
 
+  useEffect(() => {
+    void loadStudies();
+  }, [loadStudies]);
+
   const handleDownload = async (filename: string) => {
     setDownloading(filename);
     setError(null);
@@ -173,6 +252,27 @@ export default function AdminPage() {
 
   return (
     <LayoutShell className="max-w-7xl">
+      <Card className="glass-panel">
+        <CardHeader>
+          <CardTitle className="text-2xl">Admin: Studies</CardTitle>
+          <CardDescription>
+            Named experiments with condition arms. Share a study link, or per-participant invitation
+            links, and participants are enrolled in an arm that has not reached its target.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {studiesError ? (
+            <div className="rounded-xl border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+              {studiesError}
+            </div>
+          ) : null}
+          <StudyManager studies={studies} options={studyOptions} onChanged={loadStudies} />
+          <CompletionCodeChecker />
+        </CardContent>
+      </Card>
+
+      <div className="h-10" />
+
       <Card className="glass-panel">
         <CardHeader>
           <CardTitle className="text-2xl">Admin: Analytics</CardTitle>
@@ -190,15 +290,52 @@ export default function AdminPage() {
                   ? `Last updated ${new Date(analytics.generated_at).toLocaleString()} (${analytics.file_count} files)`
                   : "No analytics data loaded yet."}
             </div>
-            <Button
-              variant="outline"
-              onClick={() => void Promise.all([loadSessions(), loadAnalytics()])}
-              disabled={loading || analyticsLoading}
-            >
-              Refresh Analytics
-            </Button>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                aria-label="Study"
+                className="h-10 rounded-lg border border-input bg-background/70 px-3 text-sm shadow-sm"
+                value={studyFilter}
+                onChange={(event) => setStudyFilter(event.target.value)}
+              >
+                <option value="">All sessions</option>
+                {studies.map((study) => (
+                  <option key={study.study_id} value={study.study_id}>
+                    {study.name}
+                  </option>
+                ))}
+              </select>
+              <Button variant="ghost" onClick={() => setFiltersOpen((prev) => !prev)}>
+                {filtersOpen ? "Hide filters" : "Filters"}
+                {activeFilterCount(filters) ? ` (${activeFilterCount(filters)})` : ""}
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/admin/export?${filterQuery}`} download>
+                  Export CSV (zip)
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/admin/report?${filterQuery}`} download>
+                  Excel report
+                </a>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => void Promise.all([loadSessions(), loadAnalytics(), loadStudies()])}
+                disabled={loading || analyticsLoading}
+              >
+                Refresh Analytics
+              </Button>
+            </div>
           </div>
 
+          {filtersOpen ? (
+            <SessionFilters
+              value={filters}
+              personas={studyOptions.personas}
+              onApply={setFilters}
+            />
+          ) : null}
+
           {analyticsError ? (
             <div className="rounded-xl border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
               {analyticsError}
@@ -284,6 +421,16 @@ export default function AdminPage() {
               />
             </div>
 
+            <div className="space-y-4">
+              <div>
+                <div className="text-base font-semibold text-foreground">Comparisons</div>
+                <div className="text-sm text-muted-foreground">
+                  Differences between conditions, personas and study arms, metric by metric.
+                </div>
+              </div>
+              <ConditionComparisons comparisons={analytics?.comparisons ?? []} />
+            </div>
+
             <DataTable
               title="Summary Metrics"
               description="Aggregate outcomes by condition."
@@ -353,6 +500,22 @@ export default function AdminPage() {
               maxHeight="320px"
               dense
             />
+
+            <DataTable
+              title="Drop-off Funnel"
+              description="Streamed sessions reaching each step, overall and per condition."
+              rows={analytics?.funnel ?? []}
+              maxHeight="320px"
+              dense
+            />
+
+            <DataTable
+              title="Abandoned Sessions"
+              description="Unsubmitted sessions and the step where they stopped."
+              rows={analytics?.dropoffs ?? []}
+              maxHeight="320px"
+              dense
+            />
           </div>
         </CardContent>
       </Card>
@@ -369,11 +532,32 @@ export default function AdminPage() {
         <CardContent className="space-y-6">
           <div className="flex flex-wrap items-center justify-between gap-3">
             <div className="text-sm text-muted-foreground">
-              {loading ? "Loading sessions..." : `${sessions.length} session(s) found.`}
+              {loading
+                ? "Loading sessions..."
+                : `Showing ${sessions.length} of ${sessionTotal} session(s)${
+                    activeFilterCount(filters) ? " matching the filters" : ""
+                  }.`}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <select
+                aria-label="Sort sessions"
+                className="h-10 rounded-lg border border-input bg-background/70 px-3 text-sm shadow-sm"
+                value={sessionSort}
+                onChange={(event) => setSessionSort(event.target.value)}
+              >
+                {SESSION_SORTS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <Button variant="ghost" onClick={() => setShowAllVersions((value) => !value)}>
+                {showAllVersions ? "Canonical versions only" : "Show all versions"}
+              </Button>
+              <Button variant="outline" onClick={() => void loadSessions()} disabled={loading}>
+                Refresh List
+              </Button>
             </div>
-            <Button variant="outline" onClick={loadSessions} disabled={loading}>
-              Refresh List
-            </Button>
           </div>
 
           {error ? (
@@ -399,15 +583,32 @@ export default function AdminPage() {
                   <div className="text-xs text-muted-foreground">
                     Saved {new Date(session.stored_at).toLocaleString()}
                   </div>
+                  {session.version_count > 1 ? (
+                    <div className="text-xs text-muted-foreground">
+                      Version {session.version} of {session.version_count}
+                      {session.canonical ? " (canonical)" : " (superseded)"}
+                    </div>
+                  ) : null}
                 </div>
                 <div className="space-y-1">
                   <div className="text-xs uppercase text-muted-foreground">Participant</div>
                   <div className="text-sm font-semibold text-foreground">
                     {session.participant_id}
                   </div>
+                  {session.simulated ? (
+                    <Badge variant="secondary" className="w-fit">
+                      Simulated
+                    </Badge>
+                  ) : null}
                   <div className="text-xs text-muted-foreground">
                     Condition: {session.condition_id}
+                    {session.persona_tag ? ` (${session.persona_tag})` : ""}
                   </div>
+                  {session.study_id ? (
+                    <div className="text-xs text-muted-foreground">
+                      Study: {session.study_id} / {session.arm_id}
+                    </div>
+                  ) : null}
                 </div>
                 <div className="space-y-1">
                   <div className="text-xs uppercase text-muted-foreground">Outcome</div>
@@ -421,9 +622,14 @@ export default function AdminPage() {
                   >
                     {session.outcome_reason ?? "incomplete"}
                   </div>
-                  <div className="text-xs text-muted-foreground">Turns: {session.turns}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Turns: {session.turns} · {session.has_survey ? "Survey done" : "No survey"}
+                  </div>
                 </div>
-                <div className="flex items-center justify-start md:justify-end">
+                <div className="flex flex-wrap items-center justify-start gap-2 md:justify-end">
+                  <Button variant="outline" onClick={() => setReplayFilename(session.filename)}>
+                    Replay
+                  </Button>
                   <Button
                     variant="secondary"
                     onClick={() => handleDownload(session.filename)}
@@ -434,9 +640,34 @@ export default function AdminPage() {
                 </div>
               </div>
             ))}
+            {nextCursor ? (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={() => void loadSessions(nextCursor)}
+                  disabled={loading}
+                >
+                  Load more
+                </Button>
+              </div>
+            ) : null}
           </div>
         </CardContent>
       </Card>
+
+      <Dialog
+        open={replayFilename !== null}
+        onOpenChange={(open) => {
+          if (!open) setReplayFilename(null);
+        }}
+      >
+        <DialogContent className="max-h-[90vh] max-w-6xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Session Replay</DialogTitle>
+          </DialogHeader>
+          {replayFilename ? <SessionReplay filename={replayFilename} /> : null}
+        </DialogContent>
+      </Dialog>
     </LayoutShell>
   );
 }
@@ -1,368 +1,101 @@
 import { NextResponse } from "next/server";
-import weightsJson from "@/lib/weights.json";
-import type { ExperimentEvent, ExperimentSession, Offer, OfferAllocation } from "@/lib/types";
-import { listStoredSessions } from "@/lib/server/sessionStore";
+import {
+  average,
+  buildComparisons,
+  buildOfferRows,
+  COMPARISON_ALPHA,
+  computeSessionMetrics,
+  summarizeSessionMetrics,
+  type SessionMetrics,
+} from "@/lib/analytics";
+import { listCheckpoints } from "@/lib/server/checkpoints";
+import { FUNNEL_STAGES, furthestStage, listEventLogs } from "@/lib/server/eventLog";
+import { parseSessionFilters, SessionFilterError } from "@/lib/server/sessionFilters";
+import { listAllSessionSummaries, listStoredSessions } from "@/lib/server/sessionStore";
 
 export const dynamic = "force-dynamic";
 
-type WeightMap = Record<string, number>;
-type Weights = { human: WeightMap; agent: WeightMap };
-
-type WeightedUtility = {
-  human: number;
-  agent: number;
-  joint: number;
-};
-
-type AllocationPoint = {
-  allocation: OfferAllocation;
-  utilities: WeightedUtility;
-};
-
-type AllocationStats = {
-  allocations: AllocationPoint[];
-  frontier: AllocationPoint[];
-  frontierSet: Set<string>;
-  nash: { best: AllocationPoint | null; bestValue: number };
-  maxJoint: number | null;
-  maxHuman: number | null;
-  maxAgent: number | null;
-};
-
-const weights = (weightsJson as Weights) ?? { human: {}, agent: {} };
-
-function computeWeightedUtility(allocation: OfferAllocation, weightConfig: Weights) {
-  let human = 0;
-  let agent = 0;
-  Object.entries(allocation || {}).forEach(([issue, split]) => {
-    const humanWeight = weightConfig.human[issue] ?? 1;
-    const agentWeight = weightConfig.agent[issue] ?? 1;
-    human += (split?.human ?? 0) * humanWeight;
-    agent += (split?.agent ?? 0) * agentWeight;
-  });
-  return { human, agent, joint: human + agent };
-}
-
-function computeMaxJointUtility(session: ExperimentSession, weightConfig: Weights) {
-  const issues = session.config?.issues ?? [];
-  if (!issues.length) return null;
-  return issues.reduce((sum, issue) => {
-    const humanWeight = weightConfig.human[issue.key] ?? 1;
-    const agentWeight = weightConfig.agent[issue.key] ?? 1;
-    return sum + issue.total * Math.max(humanWeight, agentWeight);
-  }, 0);
-}
-
-function generateAllocations(issues: ExperimentSession["config"]["issues"]) {
-  const results: OfferAllocation[] = [];
-  const recurse = (index: number, current: OfferAllocation) => {
-    if (index >= issues.length) {
-      results.push(JSON.parse(JSON.stringify(current)));
-      return;
-    }
-    const issue = issues[index];
-    for (let human = 0; human <= issue.total; human += 1) {
-      current[issue.key] = { human, agent: issue.total - human };
-      recurse(index + 1, current);
-    }
-  };
-  recurse(0, {});
-  return results;
-}
-
-function computeParetoFrontier(points: AllocationPoint[]) {
-  const sorted = [...points].sort((a, b) => {
-    if (b.utilities.human !== a.utilities.human) {
-      return b.utilities.human - a.utilities.human;
-    }
-    return b.utilities.agent - a.utilities.agent;
-  });
-  const frontier: AllocationPoint[] = [];
-  let maxAgent = -Infinity;
-  for (const point of sorted) {
-    if (point.utilities.agent > maxAgent) {
-      frontier.push(point);
-      maxAgent = point.utilities.agent;
-    }
-  }
-  return frontier;
-}
-
-function computeNashPoint(points: AllocationPoint[]) {
-  let best: AllocationPoint | null = null;
-  let bestValue = -Infinity;
-  for (const point of points) {
-    const value = point.utilities.human * point.utilities.agent;
-    if (value > bestValue) {
-      bestValue = value;
-      best = point;
-    }
-  }
-  return { best, bestValue };
-}
-
-function computeParetoDistance(
-  utilities: { human: number; agent: number },
-  frontier: AllocationPoint[]
-) {
-  if (!frontier.length) return null;
-  let min = Infinity;
-  frontier.forEach((point) => {
-    const distance = Math.sqrt(
-      (utilities.human - point.utilities.human) ** 2 +
-        (utilities.agent - point.utilities.agent) ** 2
-    );
-    if (distance < min) {
-      min = distance;
-    }
-  });
-  return Number.isFinite(min) ? min : null;
-}
-
-const allocationCache = new Map<string, AllocationStats>();
-
-function getAllocationStats(
-  issues: ExperimentSession["config"]["issues"],
-  weightConfig: Weights
-) {
-  const key = JSON.stringify(issues.map((issue) => ({ key: issue.key, total: issue.total })));
-  if (allocationCache.has(key)) {
-    return allocationCache.get(key) as AllocationStats;
-  }
-  const allocations = generateAllocations(issues).map((allocation) => ({
-    allocation,
-    utilities: computeWeightedUtility(allocation, weightConfig),
-  }));
-  const frontier = computeParetoFrontier(allocations);
-  const maxHuman = allocations.reduce(
-    (max, point) => Math.max(max, point.utilities.human),
-    0
-  );
-  const maxAgent = allocations.reduce(
-    (max, point) => Math.max(max, point.utilities.agent),
-    0
+// Sessions quiet for longer than this count as abandoned rather than still running.
+const ABANDONED_AFTER_MINUTES = 15;
+
+/**
+ * Drop-off from the streamed event logs: how many sessions reached each step of the flow
+ * (overall and per condition) and where every unsubmitted session stopped. Sessions that
+ * never streamed events (simulations, bots, older logs) are not part of the funnel.
+ */
+async function buildDropoff(studyId: string | null, storedSessionIds: Set<string>) {
+  const [logs, checkpoints] = await Promise.all([listEventLogs(), listCheckpoints()]);
+  const snapshots = new Map(
+    checkpoints.map((checkpoint) => [checkpoint.session.session_id, checkpoint.session])
   );
-  const frontierSet = new Set(
-    frontier.map((point) => `${point.utilities.human}|${point.utilities.agent}`)
-  );
-  const nash = computeNashPoint(allocations);
-  const maxJoint =
-    issues.length > 0
-      ? issues.reduce((sum, issue) => {
-          const humanWeight = weightConfig.human[issue.key] ?? 1;
-          const agentWeight = weightConfig.agent[issue.key] ?? 1;
-          return sum + issue.total * Math.max(humanWeight, agentWeight);
-        }, 0)
-      : null;
-  const stats = { allocations, frontier, frontierSet, nash, maxJoint, maxHuman, maxAgent };
-  allocationCache.set(key, stats);
-  return stats;
-}
-
-function getEvents(session: ExperimentSession) {
-  return Array.isArray(session.events) ? session.events : [];
-}
-
-function collectOffers(events: ExperimentEvent[]) {
-  return events
-    .filter((event) => event.type === "offer_propose" || event.type === "offer_receive")
-    .map((event) => {
-      const payload = event.payload as { offer?: Offer };
-      const offer = payload?.offer;
-      if (!offer?.allocation) return null;
-      return {
-        ...offer,
-        by: offer.by ?? (event.type === "offer_propose" ? "human" : "agent"),
-        t: event.t,
-      };
-    })
-    .filter((offer): offer is Offer & { t: string } => Boolean(offer));
-}
-
-function collectChats(events: ExperimentEvent[]) {
-  return events
-    .filter((event) => event.type === "chat_send" || event.type === "chat_receive")
-    .map((event) => ({
-      role: event.type === "chat_send" ? "human" : "agent",
-      t: event.t,
-      content: String((event.payload as { content?: string })?.content ?? ""),
-    }));
-}
-
-function computeOfferLatencies(offers: Array<Offer & { t?: string }>) {
-  const pairs: number[] = [];
-  const byTurn = new Map<string, Offer & { t?: string }>();
-  offers.forEach((offer) => {
-    const key = `${offer.turn}-${offer.by}`;
-    byTurn.set(key, offer);
-  });
-  offers
-    .filter((offer) => offer.by === "human")
-    .forEach((offer) => {
-      const agentOffer = byTurn.get(`${offer.turn + 1}-agent`);
-      if (agentOffer?.created_at && offer.created_at) {
-        const latency =
-          (Date.parse(agentOffer.created_at) - Date.parse(offer.created_at)) / 1000;
-        if (!Number.isNaN(latency)) {
-          pairs.push(latency);
-        }
+  const reachedCounts = new Map<string, number[]>();
+  const dropoffRows: Array<Record<string, unknown>> = [];
+  const now = Date.now();
+
+  logs.forEach((events, sessionId) => {
+    const snapshot = snapshots.get(sessionId);
+    if (studyId && snapshot?.study_id !== studyId) return;
+    const submitted = storedSessionIds.has(sessionId);
+    const stage = furthestStage(events, submitted);
+    const stageIndex = FUNNEL_STAGES.indexOf(stage);
+    const conditionId = snapshot?.condition.id ?? "unknown";
+    ["overall", conditionId].forEach((key) => {
+      const counts = reachedCounts.get(key) ?? FUNNEL_STAGES.map(() => 0);
+      for (let index = 0; index <= stageIndex; index += 1) {
+        counts[index] += 1;
       }
+      reachedCounts.set(key, counts);
     });
-  return pairs;
-}
-
-function getOfferTime(offer: Offer & { t?: string }) {
-  const stamp = offer.created_at ?? offer.t ?? "";
-  const parsed = Date.parse(stamp);
-  return Number.isNaN(parsed) ? 0 : parsed;
-}
-
-function sortOffers(offers: Array<Offer & { t?: string }>) {
-  return [...offers].sort((a, b) => {
-    const turnDiff = (a.turn ?? 0) - (b.turn ?? 0);
-    if (turnDiff !== 0) return turnDiff;
-    return getOfferTime(a) - getOfferTime(b);
-  });
-}
-
-function computeConcessions(offers: Array<Offer & { t?: string }>, weightConfig: Weights) {
-  const byRole: Record<"human" | "agent", Array<Record<string, number | string | null>>> = {
-    human: [],
-    agent: [],
-  };
-
-  sortOffers(offers).forEach((offer) => {
-    if (!offer?.allocation || !offer?.by) return;
-    const utilities = computeWeightedUtility(offer.allocation, weightConfig);
-    const own = offer.by === "human" ? utilities.human : utilities.agent;
-    const opponent = offer.by === "human" ? utilities.agent : utilities.human;
-    byRole[offer.by].push({
-      turn: offer.turn ?? "",
-      created_at: offer.created_at ?? offer.t ?? "",
-      own_utility: own,
-      opponent_utility: opponent,
-      joint_utility: utilities.joint,
-    });
-  });
-
-  const rows: Array<Record<string, number | string | null>> = [];
-  Object.entries(byRole).forEach(([by, roleOffers]) => {
-    let previousOwn: number | null = null;
-    let cumulative = 0;
-    roleOffers.forEach((offer) => {
-      const ownUtility = Number(offer.own_utility ?? 0);
-      let concession: number | null = null;
-      if (previousOwn !== null) {
-        concession = previousOwn - ownUtility;
-        cumulative += concession;
-      }
-      rows.push({
-        by,
-        turn: offer.turn ?? "",
-        created_at: offer.created_at ?? "",
-        own_utility: offer.own_utility ?? null,
-        opponent_utility: offer.opponent_utility ?? null,
-        joint_utility: offer.joint_utility ?? null,
-        concession,
-        cumulative_concession: previousOwn === null ? null : cumulative,
-        own_share:
-          offer.joint_utility && typeof offer.own_utility === "number"
-            ? Number(offer.own_utility) / Number(offer.joint_utility)
-            : null,
-      });
-      previousOwn = ownUtility;
+    if (submitted) return;
+
+    const last = events[events.length - 1];
+    const lastPage = [...events]
+      .reverse()
+      .find((event) => event.type === "page_view" && event.payload.action === "enter");
+    const idleMinutes = last ? (now - Date.parse(last.t)) / 60000 : null;
+    dropoffRows.push({
+      session_id: sessionId,
+      participant_id: snapshot?.participant.participant_id ?? "",
+      condition_id: conditionId,
+      persona_tag: snapshot?.condition.persona_tag ?? "",
+      study_id: snapshot?.study_id ?? "",
+      arm_id: snapshot?.arm_id ?? "",
+      last_stage: stage,
+      last_page: lastPage?.payload.path ?? "",
+      last_event_type: last?.type ?? "",
+      last_event_at: last?.t ?? "",
+      event_count: events.length,
+      idle_minutes: idleMinutes === null ? null : Math.round(idleMinutes),
+      status:
+        idleMinutes !== null && idleMinutes < ABANDONED_AFTER_MINUTES ? "in_progress" : "abandoned",
     });
   });
-  return rows;
-}
 
-function average(values: number[]) {
-  if (!values.length) return null;
-  return values.reduce((sum, val) => sum + val, 0) / values.length;
-}
-
-type MetricBucket = Record<string, number[]>;
-type MetricBuckets = {
-  agreement_rate: MetricBucket;
-  avg_joint_utility: MetricBucket;
-  avg_efficiency: MetricBucket;
-  avg_fairness_index: MetricBucket;
-  avg_nash_product: MetricBucket;
-  avg_nash_ratio: MetricBucket;
-  avg_nash_distance: MetricBucket;
-  avg_pareto_distance: MetricBucket;
-  pareto_efficiency_rate: MetricBucket;
-  avg_human_share: MetricBucket;
-  avg_human_utility_ratio: MetricBucket;
-  avg_agent_utility_ratio: MetricBucket;
-  avg_ks_gap: MetricBucket;
-  avg_acceptor_ratio: MetricBucket;
-  avg_offer_nash_distance: MetricBucket;
-  avg_offer_pareto_distance: MetricBucket;
-  avg_duration: MetricBucket;
-  avg_turns: MetricBucket;
-  avg_response: MetricBucket;
-  avg_human_concession: MetricBucket;
-  avg_agent_concession: MetricBucket;
-  avg_burstiness: MetricBucket;
-  avg_cri: MetricBucket;
-};
-
-function createMetricBuckets(): MetricBuckets {
-  return {
-    agreement_rate: {},
-    avg_joint_utility: {},
-    avg_efficiency: {},
-    avg_fairness_index: {},
-    avg_nash_product: {},
-    avg_nash_ratio: {},
-    avg_nash_distance: {},
-    avg_pareto_distance: {},
-    pareto_efficiency_rate: {},
-    avg_human_share: {},
-    avg_human_utility_ratio: {},
-    avg_agent_utility_ratio: {},
-    avg_ks_gap: {},
-    avg_acceptor_ratio: {},
-    avg_offer_nash_distance: {},
-    avg_offer_pareto_distance: {},
-    avg_duration: {},
-    avg_turns: {},
-    avg_response: {},
-    avg_human_concession: {},
-    avg_agent_concession: {},
-    avg_burstiness: {},
-    avg_cri: {},
-  };
-}
-
-function pushMetric(bucket: MetricBucket, key: string, value: number | null) {
-  if (value === null || value === undefined || Number.isNaN(value)) return;
-  bucket[key] = bucket[key] || [];
-  bucket[key].push(value);
-}
-
-function computeBurstiness(chats: Array<{ t: string }>) {
-  const times = chats
-    .map((chat) => Date.parse(chat.t))
-    .filter((time) => !Number.isNaN(time))
-    .sort((a, b) => a - b);
-  if (times.length < 2) return null;
-  const intervals = times.slice(1).map((time, idx) => (time - times[idx]) / 1000);
-  if (intervals.length === 0) return null;
-  const mean = intervals.reduce((sum, value) => sum + value, 0) / intervals.length;
-  if (mean === 0) return null;
-  const variance =
-    intervals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / intervals.length;
-  const std = Math.sqrt(variance);
-  const denom = std + mean;
-  if (denom === 0) return null;
-  return (std - mean) / denom;
+  const funnelRows = [...reachedCounts.entries()].flatMap(([conditionId, counts]) =>
+    FUNNEL_STAGES.map((stage, index) => ({
+      condition_id: conditionId,
+      stage,
+      reached: counts[index],
+      share_of_started: counts[0] ? counts[index] / counts[0] : null,
+      dropped_here: counts[index] - (counts[index + 1] ?? 0),
+    }))
+  );
+  dropoffRows.sort((a, b) => (String(a.last_event_at) < String(b.last_event_at) ? 1 : -1));
+  return { funnelRows, dropoffRows };
 }
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    const sessions = await listStoredSessions();
+    // ?study_id=<id> keeps one study's data apart from other experiments on the deployment;
+    // the session list filters (condition, outcome, dates, ...) narrow it further.
+    const params = new URL(req.url).searchParams;
+    const studyId = params.get("study_id");
+    const filters = parseSessionFilters(params);
+    const [sessions, submitted] = await Promise.all([
+      listStoredSessions({ studyId, filters }),
+      // Every submitted session, so sessions hidden by the filters are not counted as abandoned.
+      listAllSessionSummaries({ studyId }),
+    ]);
 
     const sessionRows: Array<Record<string, unknown>> = [];
     const offerRows: Array<Record<string, unknown>> = [];
@@ -370,13 +103,9 @@ export async function GET() {
     const surveyRows: Array<Record<string, unknown>> = [];
     const concessionRows: Array<Record<string, unknown>> = [];
 
-    const conditionCounts: Record<string, number> = {};
-    const personaCounts: Record<string, number> = {};
-    const overallKey = "overall";
-    const overallCounts: Record<string, number> = { [overallKey]: 0 };
-    const conditionMetrics = createMetricBuckets();
-    const personaMetrics = createMetricBuckets();
-    const overallMetrics = createMetricBuckets();
+    const conditionGroups: Record<string, SessionMetrics[]> = {};
+    const personaGroups: Record<string, SessionMetrics[]> = {};
+    const overallMetrics: SessionMetrics[] = [];
     const concessionCurveMap = new Map<
       string,
       {
@@ -392,128 +121,25 @@ export async function GET() {
     >();
 
     sessions.forEach(({ filename, stored_at, session }) => {
-      const events = getEvents(session);
-      const offers = collectOffers(events);
-      const chats = collectChats(events);
-      const outcome = session.outcome ?? {};
-      const conditionId = session.condition?.id ?? "unknown";
-      const personaTag = session.condition?.persona_tag ?? "";
-      const issues = session.config?.issues ?? [];
-      const allocationStats = issues.length ? getAllocationStats(issues, weights) : null;
-      const maxJoint = allocationStats?.maxJoint ?? computeMaxJointUtility(session, weights);
+      const metrics = computeSessionMetrics(session);
+      const { offers, chats, utilities, reservation } = metrics;
+      const conditionId = metrics.condition_id;
+      const personaTag = metrics.persona_tag;
       const personaKey =
         personaTag || (conditionId === "neutral" ? "neutral" : "unspecified");
 
-      conditionCounts[conditionId] = (conditionCounts[conditionId] ?? 0) + 1;
-      personaCounts[personaKey] = (personaCounts[personaKey] ?? 0) + 1;
-      overallCounts[overallKey] = (overallCounts[overallKey] ?? 0) + 1;
-
-      const pushAll = (metric: keyof MetricBuckets, value: number | null) => {
-        pushMetric(conditionMetrics[metric], conditionId, value);
-        pushMetric(personaMetrics[metric], personaKey, value);
-        pushMetric(overallMetrics[metric], overallKey, value);
-      };
-
-      const agreement = outcome.reason === "agreement";
-      const agreedAllocation = outcome.agreed_offer?.allocation ?? null;
-      const utilities = agreedAllocation
-        ? computeWeightedUtility(agreedAllocation, weights)
-        : { human: null, agent: null, joint: null };
-
-      const maxHuman = allocationStats?.maxHuman ?? null;
-      const maxAgent = allocationStats?.maxAgent ?? null;
-      const fairnessIndex =
-        utilities.joint && utilities.human !== null && utilities.agent !== null
-          ? 1 - Math.abs(utilities.human - utilities.agent) / utilities.joint
-          : null;
-      const efficiency = maxJoint && utilities.joint ? utilities.joint / maxJoint : null;
-      const nashProduct =
-        utilities.human !== null && utilities.agent !== null
-          ? utilities.human * utilities.agent
-          : null;
-      const nashMax = allocationStats?.nash?.bestValue ?? null;
-      const nashRatio = nashMax && nashProduct !== null ? nashProduct / nashMax : null;
-      const nashPoint = allocationStats?.nash?.best?.utilities ?? null;
-      const nashDistance =
-        nashPoint && utilities.human !== null && utilities.agent !== null
-          ? Math.sqrt(
-              (utilities.human - nashPoint.human) ** 2 +
-                (utilities.agent - nashPoint.agent) ** 2
-            )
-          : null;
-      const paretoDistance =
-        allocationStats && utilities.human !== null && utilities.agent !== null
-          ? computeParetoDistance(
-              { human: utilities.human, agent: utilities.agent },
-              allocationStats.frontier
-            )
-          : null;
-      const paretoEfficient =
-        allocationStats && utilities.human !== null && utilities.agent !== null
-          ? allocationStats.frontierSet.has(`${utilities.human}|${utilities.agent}`)
-          : null;
-      const humanShare =
-        utilities.joint && utilities.human !== null ? utilities.human / utilities.joint : null;
-      const humanRatio =
-        utilities.human !== null && maxHuman ? utilities.human / maxHuman : null;
-      const agentRatio =
-        utilities.agent !== null && maxAgent ? utilities.agent / maxAgent : null;
-      const ksGap =
-        humanRatio !== null && agentRatio !== null
-          ? Math.abs(humanRatio - agentRatio)
-          : null;
-
-      const acceptEvent = [...events].reverse().find((event) => event.type === "offer_accept");
-      const acceptBy = (acceptEvent?.payload as { by?: string } | undefined)?.by ?? "";
-      const acceptorRatio =
-        acceptBy === "human" ? humanRatio : acceptBy === "agent" ? agentRatio : null;
-
-      pushAll("agreement_rate", agreement ? 1 : 0);
-      pushAll("avg_joint_utility", utilities.joint ?? null);
-      pushAll("avg_efficiency", efficiency);
-      pushAll("avg_fairness_index", fairnessIndex);
-      pushAll("avg_nash_product", nashProduct);
-      pushAll("avg_nash_ratio", nashRatio);
-      pushAll("avg_nash_distance", nashDistance);
-      pushAll("avg_pareto_distance", paretoDistance);
-      pushAll(
-        "pareto_efficiency_rate",
-        paretoEfficient === null ? null : paretoEfficient ? 1 : 0
-      );
-      pushAll("avg_human_share", humanShare);
-      pushAll("avg_human_utility_ratio", humanRatio);
-      pushAll("avg_agent_utility_ratio", agentRatio);
-      pushAll("avg_ks_gap", ksGap);
-      pushAll("avg_acceptor_ratio", acceptorRatio);
-      pushAll(
-        "avg_duration",
-        typeof outcome.duration_seconds === "number" ? outcome.duration_seconds : null
-      );
-      pushAll("avg_turns", typeof outcome.turns === "number" ? outcome.turns : null);
+      (conditionGroups[conditionId] ??= []).push(metrics);
+      (personaGroups[personaKey] ??= []).push(metrics);
+      overallMetrics.push(metrics);
 
-      const latencies = computeOfferLatencies(offers);
-      const avgResponse = average(latencies);
-      latencies.forEach((latency) => pushAll("avg_response", latency));
-
-      const concessions = computeConcessions(offers, weights);
-      const concessionTotals = { human: 0, agent: 0 };
-      concessions.forEach((row) => {
-        const enriched = {
+      metrics.concessions.forEach((row) => {
+        concessionRows.push({
           session_id: session.session_id,
           condition_id: conditionId,
           persona_tag: personaTag,
           ...row,
-        };
-        concessionRows.push(enriched);
+        });
         if (row.concession === null || typeof row.concession !== "number") return;
-        const positiveConcession = row.concession > 0 ? row.concession : 0;
-        if (row.by === "human") {
-          pushAll("avg_human_concession", row.concession);
-          concessionTotals.human += positiveConcession;
-        } else if (row.by === "agent") {
-          pushAll("avg_agent_concession", row.concession);
-          concessionTotals.agent += positiveConcession;
-        }
         const key = `${conditionId}|${personaTag}|${row.by}|${row.turn}`;
         const entry =
           concessionCurveMap.get(key) || {
@@ -533,27 +159,28 @@ export async function GET() {
         concessionCurveMap.set(key, entry);
       });
 
-      const criDenominator = concessionTotals.human + concessionTotals.agent;
-      const cri =
-        criDenominator > 0
-          ? (concessionTotals.agent - concessionTotals.human) / criDenominator
-          : null;
-      pushAll("avg_cri", cri);
-
-      const burstiness = computeBurstiness(chats);
-      pushAll("avg_burstiness", burstiness);
-
+      const yesNo = (value: boolean | null) => (value === null ? "" : value ? "yes" : "no");
       sessionRows.push({
         session_id: session.session_id,
         participant_id: session.participant?.participant_id ?? "",
         condition_id: conditionId,
         persona_tag: personaTag,
+        domain_id: session.config?.domain_id ?? "",
+        weight_profile: session.config?.weight_profile ?? "",
+        study_id: session.study_id ?? "",
+        arm_id: session.arm_id ?? "",
+        assignment: session.assignment
+          ? [session.assignment.algorithm, session.assignment.stratum].filter(Boolean).join(" ")
+          : "",
+        simulation: session.simulation
+          ? `${session.simulation.human} vs ${session.simulation.agent}`
+          : "",
         created_at: session.created_at,
         stored_at,
-        outcome_reason: outcome.reason ?? "",
-        agreement: agreement ? "yes" : "no",
-        duration_seconds: outcome.duration_seconds ?? "",
-        turns: outcome.turns ?? "",
+        outcome_reason: metrics.outcome_reason,
+        agreement: metrics.agreement ? "yes" : "no",
+        duration_seconds: session.outcome?.duration_seconds ?? "",
+        turns: session.outcome?.turns ?? "",
         offers_total: offers.length,
         offers_human: offers.filter((offer) => offer.by === "human").length,
         offers_agent: offers.filter((offer) => offer.by === "agent").length,
@@ -563,77 +190,37 @@ export async function GET() {
         weighted_human_utility: utilities.human ?? "",
         weighted_agent_utility: utilities.agent ?? "",
         weighted_joint_utility: utilities.joint ?? "",
-        max_human_utility: maxHuman ?? "",
-        max_agent_utility: maxAgent ?? "",
-        human_utility_ratio: humanRatio ?? "",
-        agent_utility_ratio: agentRatio ?? "",
-        ks_gap: ksGap ?? "",
-        fairness_index: fairnessIndex ?? "",
-        efficiency: efficiency ?? "",
-        max_joint_utility: maxJoint ?? "",
-        nash_product: nashProduct ?? "",
-        nash_ratio: nashRatio ?? "",
-        nash_distance: nashDistance ?? "",
-        pareto_distance: paretoDistance ?? "",
-        pareto_efficient:
-          paretoEfficient === null ? "" : paretoEfficient ? "yes" : "no",
-        human_share: humanShare ?? "",
-        acceptor: acceptBy,
-        acceptor_ratio: acceptorRatio ?? "",
-        avg_response: avgResponse ?? "",
-        burstiness: burstiness ?? "",
-        cri: cri ?? "",
+        max_human_utility: metrics.max_human_utility ?? "",
+        max_agent_utility: metrics.max_agent_utility ?? "",
+        human_utility_ratio: metrics.human_utility_ratio ?? "",
+        agent_utility_ratio: metrics.agent_utility_ratio ?? "",
+        ks_gap: metrics.ks_gap ?? "",
+        human_reservation: reservation.human,
+        agent_reservation: reservation.agent,
+        human_surplus: metrics.human_surplus ?? "",
+        agent_surplus: metrics.agent_surplus ?? "",
+        human_below_batna: yesNo(metrics.human_below_batna),
+        agent_below_batna: yesNo(metrics.agent_below_batna),
+        fairness_index: metrics.fairness_index ?? "",
+        efficiency: metrics.efficiency ?? "",
+        max_joint_utility: metrics.max_joint_utility ?? "",
+        nash_product: metrics.nash_product ?? "",
+        nash_ratio: metrics.nash_ratio ?? "",
+        nash_distance: metrics.nash_distance ?? "",
+        pareto_distance: metrics.pareto_distance ?? "",
+        pareto_efficient: yesNo(metrics.pareto_efficient),
+        human_share: metrics.human_share ?? "",
+        acceptor: metrics.acceptor ?? "",
+        acceptor_ratio: metrics.acceptor_ratio ?? "",
+        avg_response: metrics.avg_response ?? "",
+        burstiness: metrics.chat_burstiness ?? "",
+        cri: metrics.cri ?? "",
         file: filename,
+        avg_offer_nash_distance: metrics.avg_offer_nash_distance ?? "",
+        avg_offer_pareto_distance: metrics.avg_offer_pareto_distance ?? "",
       });
 
-      if (allocationStats) {
-        const offerNashDistancesForSession: number[] = [];
-        const offerParetoDistancesForSession: number[] = [];
-        offers.forEach((offer) => {
-          const offerUtilities = computeWeightedUtility(offer.allocation, weights);
-          if (allocationStats.nash.best?.utilities) {
-            const distance = Math.sqrt(
-              (offerUtilities.human - allocationStats.nash.best.utilities.human) ** 2 +
-                (offerUtilities.agent - allocationStats.nash.best.utilities.agent) ** 2
-            );
-            offerNashDistancesForSession.push(distance);
-          }
-          const distanceToPareto = computeParetoDistance(
-            { human: offerUtilities.human, agent: offerUtilities.agent },
-            allocationStats.frontier
-          );
-          if (distanceToPareto !== null) {
-            offerParetoDistancesForSession.push(distanceToPareto);
-          }
-        });
-        const avgOfferNash = average(offerNashDistancesForSession);
-        const avgOfferPareto = average(offerParetoDistancesForSession);
-        pushAll("avg_offer_nash_distance", avgOfferNash);
-        pushAll("avg_offer_pareto_distance", avgOfferPareto);
-        const lastSessionRow = sessionRows[sessionRows.length - 1];
-        lastSessionRow.avg_offer_nash_distance = avgOfferNash ?? "";
-        lastSessionRow.avg_offer_pareto_distance = avgOfferPareto ?? "";
-      }
-
-      offers.forEach((offer) => {
-        const offerUtilities = computeWeightedUtility(offer.allocation, weights);
-        const row: Record<string, unknown> = {
-          session_id: session.session_id,
-          condition_id: conditionId,
-          turn: offer.turn,
-          by: offer.by,
-          created_at: offer.created_at ?? offer.t ?? "",
-          human_utility: offerUtilities.human,
-          agent_utility: offerUtilities.agent,
-          joint_utility: offerUtilities.joint,
-        };
-        for (const issue of session.config?.issues ?? []) {
-          const allocation = offer.allocation?.[issue.key] ?? { human: 0, agent: 0 };
-          row[`${issue.key}_human`] = allocation.human;
-          row[`${issue.key}_agent`] = allocation.agent;
-        }
-        offerRows.push(row);
-      });
+      offerRows.push(...buildOfferRows(metrics, session.config?.issues ?? []));
 
       chats.forEach((chat) => {
         chatRows.push({
@@ -663,59 +250,23 @@ export async function GET() {
 
     const conditionOrder = ["neutral", "persona"];
     const orderedConditions = [
-      ...conditionOrder.filter((key) => conditionCounts[key]),
-      ...Object.keys(conditionCounts).filter((key) => !conditionOrder.includes(key)),
+      ...conditionOrder.filter((key) => conditionGroups[key]),
+      ...Object.keys(conditionGroups).filter((key) => !conditionOrder.includes(key)),
     ];
 
-    const buildSummaryRow = (
-      key: string,
-      counts: Record<string, number>,
-      buckets: MetricBuckets
-    ) => ({
-      sessions: counts[key] ?? 0,
-      agreement_rate: average(buckets.agreement_rate[key] ?? []),
-      avg_joint_utility: average(buckets.avg_joint_utility[key] ?? []),
-      avg_efficiency: average(buckets.avg_efficiency[key] ?? []),
-      avg_fairness_index: average(buckets.avg_fairness_index[key] ?? []),
-      avg_nash_product: average(buckets.avg_nash_product[key] ?? []),
-      avg_nash_ratio: average(buckets.avg_nash_ratio[key] ?? []),
-      avg_nash_distance: average(buckets.avg_nash_distance[key] ?? []),
-      avg_pareto_distance: average(buckets.avg_pareto_distance[key] ?? []),
-      pareto_efficiency_rate: average(buckets.pareto_efficiency_rate[key] ?? []),
-      avg_human_share: average(buckets.avg_human_share[key] ?? []),
-      avg_human_utility_ratio: average(buckets.avg_human_utility_ratio[key] ?? []),
-      avg_agent_utility_ratio: average(buckets.avg_agent_utility_ratio[key] ?? []),
-      avg_ks_gap: average(buckets.avg_ks_gap[key] ?? []),
-      avg_acceptor_ratio: average(buckets.avg_acceptor_ratio[key] ?? []),
-      avg_offer_nash_distance: average(buckets.avg_offer_nash_distance[key] ?? []),
-      avg_offer_pareto_distance: average(buckets.avg_offer_pareto_distance[key] ?? []),
-      avg_duration: average(buckets.avg_duration[key] ?? []),
-      avg_turns: average(buckets.avg_turns[key] ?? []),
-      avg_response: average(buckets.avg_response[key] ?? []),
-      avg_human_concession: average(buckets.avg_human_concession[key] ?? []),
-      avg_agent_concession: average(buckets.avg_agent_concession[key] ?? []),
-      avg_burstiness: average(buckets.avg_burstiness[key] ?? []),
-      avg_cri: average(buckets.avg_cri[key] ?? []),
-    });
-
     const summaryRows = orderedConditions.map((conditionId) => ({
       condition_id: conditionId,
-      ...buildSummaryRow(conditionId, conditionCounts, conditionMetrics),
+      ...summarizeSessionMetrics(conditionGroups[conditionId]),
     }));
 
-    const orderedPersonas = Object.keys(personaCounts).sort((a, b) => a.localeCompare(b));
+    const orderedPersonas = Object.keys(personaGroups).sort((a, b) => a.localeCompare(b));
     const summaryPersonas = orderedPersonas.map((personaTag) => ({
       persona_tag: personaTag,
-      ...buildSummaryRow(personaTag, personaCounts, personaMetrics),
+      ...summarizeSessionMetrics(personaGroups[personaTag]),
     }));
 
-    const summaryOverall = overallCounts[overallKey]
-      ? [
-          {
-            label: overallKey,
-            ...buildSummaryRow(overallKey, overallCounts, overallMetrics),
-          },
-        ]
+    const summaryOverall = overallMetrics.length
+      ? [{ label: "overall", ...summarizeSessionMetrics(overallMetrics) }]
       : [];
 
     const concessionCurveRows = Array.from(concessionCurveMap.values()).map((entry) => ({
@@ -846,6 +397,20 @@ export async function GET() {
         direction: "Lower is better",
         notes: "0 = proportional (Kalai-Smorodinsky aligned).",
       },
+      {
+        metric: "Surplus over BATNA",
+        definition: "Utility at agreement minus the role's reservation (walk-away) value.",
+        range: "Any",
+        direction: "Higher is better",
+        notes: "No deal counts as 0 surplus; negative = deal worse than walking away.",
+      },
+      {
+        metric: "Below-BATNA Rate",
+        definition: "Share of agreements where a role got less than its reservation value.",
+        range: "0-1",
+        direction: "Lower is better",
+        notes: "Only agreements are counted.",
+      },
       {
         metric: "Pareto Distance",
         definition: "Distance from agreement utility to Pareto frontier.",
@@ -969,8 +534,55 @@ export async function GET() {
         direction: "Context dependent",
         notes: "Higher = larger total concession.",
       },
+      {
+        metric: "Comparison 95% CI",
+        definition: "Percentile bootstrap interval of a group mean or of the difference A - B.",
+        range: "Any",
+        direction: "Context dependent",
+        notes: "A difference interval that excludes 0 suggests a real gap between the arms.",
+      },
+      {
+        metric: "Cohen's d",
+        definition: "Difference of means divided by the pooled standard deviation.",
+        range: "Any",
+        direction: "Context dependent",
+        notes: "Roughly 0.2 small, 0.5 medium, 0.8 large.",
+      },
+      {
+        metric: "Permutation p",
+        definition: "Two-sided permutation test of the difference in means between two groups.",
+        range: "0-1",
+        direction: "Lower is better",
+        notes: "Sessions are the units; per-offer metrics are averaged within each session.",
+      },
+      {
+        metric: "Holm-adjusted p",
+        definition: "Permutation p corrected (Holm) across all metrics of the same comparison.",
+        range: "0-1",
+        direction: "Lower is better",
+        notes: `Marked significant below ${COMPARISON_ALPHA}.`,
+      },
+      {
+        metric: "Funnel reached",
+        definition: "Sessions whose streamed events show this step (or a later one).",
+        range: "0 to N",
+        direction: "Higher = fewer drop-offs",
+        notes: "Only browser sessions stream events; simulations are not counted.",
+      },
+      {
+        metric: "Abandoned session",
+        definition: `Unsubmitted session idle for ${ABANDONED_AFTER_MINUTES}+ minutes.`,
+        range: "Status",
+        direction: "Context dependent",
+        notes: "last_stage shows where the participant stopped.",
+      },
     ];
 
+    const { funnelRows, dropoffRows } = await buildDropoff(
+      studyId,
+      new Set(submitted.map((summary) => summary.session_id))
+    );
+
     return NextResponse.json({
       ok: true,
       generated_at: new Date().toISOString(),
@@ -978,6 +590,7 @@ export async function GET() {
       summary: summaryRows,
       summary_personas: summaryPersonas,
       summary_overall: summaryOverall,
+      comparisons: buildComparisons(overallMetrics),
       sessions: sessionRows,
       offers: offerRows,
       chats: chatRows,
@@ -986,8 +599,13 @@ export async function GET() {
       concession_curves: concessionCurveRows,
       plots: plotRows,
       legend: legendRows,
+      funnel: funnelRows,
+      dropoffs: dropoffRows,
     });
   } catch (error) {
+    if (error instanceof SessionFilterError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
     return NextResponse.json(
       { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
       { status: 500 }
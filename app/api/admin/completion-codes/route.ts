@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+
+import {
+  completionCode,
+  earnsCompletionCode,
+  normalizeCompletionCode,
+} from "@/lib/server/invites";
+import { listStoredSessions } from "@/lib/server/sessionStore";
+
+export const dynamic = "force-dynamic";
+
+const MAX_CODES = 1000;
+
+/**
+ * Checks completion codes (e.g. a credit or payment list) against stored sessions. A code
+ * is valid when a stored session carries it and it matches the code derived from that
+ * session's id, so edited session files do not verify. Codes of aborted sessions (stored
+ * before aborts stopped earning codes) are reported but not valid.
+ */
+export async function POST(req: Request) {
+  let body: { codes?: unknown };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!Array.isArray(body.codes) || body.codes.some((code) => typeof code !== "string")) {
+    return NextResponse.json(
+      { ok: false, error: "codes must be a list of strings" },
+      { status: 400 }
+    );
+  }
+  if (body.codes.length > MAX_CODES) {
+    return NextResponse.json(
+      { ok: false, error: `At most ${MAX_CODES} codes can be checked at once` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const stored = await listStoredSessions();
+    const byCode = new Map(
+      stored
+        .filter((entry) => entry.session.completion_code)
+        .map((entry) => [entry.session.completion_code, entry])
+    );
+    const results = (body.codes as string[]).map((input) => {
+      const code = normalizeCompletionCode(input);
+      const entry = byCode.get(code);
+      if (!entry || completionCode(entry.session.session_id) !== code) {
+        return { code: input, valid: false };
+      }
+      const { session } = entry;
+      return {
+        code,
+        valid: earnsCompletionCode(session.outcome.reason),
+        session_id: session.session_id,
+        participant_id: session.participant.participant_id,
+        study_id: session.study_id ?? null,
+        arm_id: session.arm_id ?? null,
+        invite_id: session.invite_id ?? null,
+        outcome_reason: session.outcome.reason ?? null,
+        stored_at: entry.stored_at,
+      };
+    });
+    return NextResponse.json({ ok: true, results });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { Readable } from "stream";
+
+import { exportSessionsZip } from "@/lib/server/sessionExport";
+import { parseSessionFilters, SessionFilterError } from "@/lib/server/sessionFilters";
+import { listStoredSessions } from "@/lib/server/sessionStore";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Streams a zip of tidy CSV tables for the sessions matching `?study_id=` and the session
+ * list filters (see `lib/server/sessionExport.ts`).
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const studyId = params.get("study_id");
+    const filters = parseSessionFilters(params);
+    const sessions = await listStoredSessions({ studyId, filters });
+    const generatedAt = new Date().toISOString();
+    const archive = exportSessionsZip(sessions, {
+      generated_at: generatedAt,
+      study_id: studyId,
+      filters,
+    });
+
+    return new Response(Readable.toWeb(archive) as ReadableStream, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename=sessions-${generatedAt.slice(0, 10)}.zip`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SessionFilterError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
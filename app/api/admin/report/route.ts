@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { buildExcelReport } from "@/lib/server/excelReport";
+import { parseSessionFilters, SessionFilterError } from "@/lib/server/sessionFilters";
+import { listStoredSessions } from "@/lib/server/sessionStore";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The Excel negotiation report (see `lib/server/excelReport.ts`) for the sessions matching
+ * `?study_id=` and the session list filters, read from whichever session backend is configured.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const studyId = params.get("study_id");
+    const filters = parseSessionFilters(params);
+    const sessions = await listStoredSessions({ studyId, filters });
+    const report = await buildExcelReport(sessions);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(new Uint8Array(report), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename=negotiation-report-${date}.xlsx`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SessionFilterError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
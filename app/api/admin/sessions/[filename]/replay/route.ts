@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { buildReplay } from "@/lib/server/sessionReplay";
+import { readStoredSession } from "@/lib/server/sessionStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_req: Request, context: { params: Promise<{ filename: string }> }) {
+  try {
+    const { filename } = await context.params;
+    const { session } = await readStoredSession(filename);
+    return NextResponse.json({ ok: true, replay: buildReplay(filename, session) });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 404 }
+    );
+  }
+}
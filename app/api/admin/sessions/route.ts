@@ -1,23 +1,31 @@
 import { NextResponse } from "next/server";
-import { listStoredSessions } from "@/lib/server/sessionStore";
+import {
+  parseSessionFilters,
+  parseSessionPage,
+  SessionFilterError,
+} from "@/lib/server/sessionFilters";
+import { listSessionSummaries } from "@/lib/server/sessionStore";
 
-export async function GET() {
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
   try {
-    const stored = await listStoredSessions();
-    const sessions = stored.map(({ filename, stored_at, session }) => ({
-      filename,
-      stored_at,
-      session_id: session.session_id,
-      created_at: session.created_at,
-      condition_id: session.condition.id,
-      participant_id: session.participant.participant_id,
-      outcome_reason: session.outcome.reason ?? null,
-      turns: session.outcome.turns,
-      duration_seconds: session.outcome.duration_seconds,
-    }));
+    const params = new URL(req.url).searchParams;
+    // Canonical versions by default; `?versions=all` also lists superseded submissions.
+    const page = await listSessionSummaries(
+      {
+        studyId: params.get("study_id"),
+        versions: params.get("versions") === "all" ? "all" : "canonical",
+        filters: parseSessionFilters(params),
+      },
+      parseSessionPage(params)
+    );
 
-    return NextResponse.json({ ok: true, sessions });
+    return NextResponse.json({ ok: true, ...page });
   } catch (error) {
+    if (error instanceof SessionFilterError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
     return NextResponse.json(
       { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
       { status: 500 }
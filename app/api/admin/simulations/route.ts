@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import type { ExperimentSession } from "@/lib/types";
+import { SimulationError, parsePlayerSpec, runSimulation } from "@/lib/server/simulation";
+import { storeSession } from "@/lib/server/sessionStore";
+
+export const dynamic = "force-dynamic";
+
+const MAX_RUNS = 50;
+
+export async function POST(req: Request) {
+  let body: {
+    domain_id?: string;
+    weight_profile?: string;
+    human?: string;
+    agent?: string;
+    runs?: number;
+    seconds_per_move?: number;
+    store?: boolean;
+  };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const human = parsePlayerSpec(body.human);
+    const agent = parsePlayerSpec(body.agent);
+    const runs = body.runs ?? 1;
+    if (!Number.isInteger(runs) || runs < 1 || runs > MAX_RUNS) {
+      throw new SimulationError(`runs must be an integer between 1 and ${MAX_RUNS}.`);
+    }
+
+    // Runs are sequential so LLM-backed players stay within provider rate limits.
+    const results: Array<{ session: ExperimentSession; stored_as?: string; warning?: string }> = [];
+    for (let index = 0; index < runs; index += 1) {
+      const session = await runSimulation({
+        domainId: body.domain_id,
+        weightProfile: body.weight_profile,
+        human,
+        agent,
+        secondsPerMove: body.seconds_per_move,
+      });
+      if (body.store === false) {
+        results.push({ session });
+        continue;
+      }
+      const stored = await storeSession(session);
+      results.push({ session, stored_as: stored.stored_as, warning: stored.warning });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      runs: results.map(({ session, stored_as, warning }) => ({
+        session_id: session.session_id,
+        stored_as: stored_as ?? null,
+        warning,
+        outcome_reason: session.outcome.reason ?? null,
+        turns: session.outcome.turns,
+        utilities: session.outcome.utilities ?? null,
+      })),
+      sessions: results.map(({ session }) => session),
+    });
+  } catch (error) {
+    if (error instanceof SimulationError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { migrateSessions } from "@/lib/server/sessionMigration";
+import { STORAGE_KINDS, StorageError, isStorageKind } from "@/lib/server/sessionStorage";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Copies all stored sessions from one backend to another and verifies the copy (see
+ * `scripts/migrate-sessions.mjs`). Responds 409 when conflicts or mismatches remain.
+ */
+export async function POST(req: Request) {
+  let body: { from?: unknown; to?: unknown; dry_run?: boolean };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!isStorageKind(body.from) || !isStorageKind(body.to)) {
+    return NextResponse.json(
+      { ok: false, error: `from and to must be one of: ${STORAGE_KINDS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await migrateSessions({
+      from: body.from,
+      to: body.to,
+      dryRun: body.dry_run,
+    });
+    return NextResponse.json(report, { status: report.ok ? 200 : 409 });
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+
+import { InviteError, createInvites, inviteUrl, listInvites } from "@/lib/server/invites";
+import { listStoredSessions } from "@/lib/server/sessionStore";
+import { StudyError, getStudy } from "@/lib/server/studies";
+import type { StudyInvite } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+function errorResponse(error: unknown) {
+  if (error instanceof StudyError || error instanceof InviteError) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+  }
+  return NextResponse.json(
+    { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+    { status: 500 }
+  );
+}
+
+/** Links are built for the deployment the admin is on unless PUBLIC_BASE_URL says otherwise. */
+function linkOrigin(req: Request) {
+  return process.env.PUBLIC_BASE_URL ?? new URL(req.url).origin;
+}
+
+function withLinks(req: Request, studyId: string, invites: StudyInvite[]) {
+  const origin = linkOrigin(req);
+  return invites.map((invite) => ({ ...invite, url: inviteUrl(origin, studyId, invite) }));
+}
+
+/** Invites of a study with their links and whether the invited session was submitted. */
+export async function GET(req: Request, context: { params: Promise<{ studyId: string }> }) {
+  try {
+    const { studyId } = await context.params;
+    const study = await getStudy(studyId);
+    const [invites, stored] = await Promise.all([
+      listInvites(study.study_id),
+      listStoredSessions({ studyId: study.study_id }),
+    ]);
+    const submitted = new Map(
+      stored
+        .filter((entry) => entry.session.study_id === study.study_id && entry.session.invite_id)
+        .map((entry) => [entry.session.invite_id, entry.session])
+    );
+    return NextResponse.json({
+      ok: true,
+      invites: withLinks(req, study.study_id, invites).map((invite) => ({
+        ...invite,
+        completion_code: submitted.get(invite.invite_id)?.completion_code ?? null,
+        submitted: submitted.has(invite.invite_id),
+      })),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Issues invites. Send `participant_ids` to invite an existing roster (ids that already
+ * have an invite get it back) or `count` to generate ids; `arm_id` pins the arm.
+ */
+export async function POST(req: Request, context: { params: Promise<{ studyId: string }> }) {
+  let body: { participant_ids?: unknown; count?: unknown; arm_id?: unknown };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (
+    body.participant_ids !== undefined &&
+    (!Array.isArray(body.participant_ids) ||
+      body.participant_ids.some((value) => typeof value !== "string"))
+  ) {
+    return NextResponse.json(
+      { ok: false, error: "participant_ids must be a list of strings" },
+      { status: 400 }
+    );
+  }
+  if (
+    body.count !== undefined &&
+    (typeof body.count !== "number" || !Number.isInteger(body.count) || body.count < 1)
+  ) {
+    return NextResponse.json(
+      { ok: false, error: "count must be a positive integer" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { studyId } = await context.params;
+    const study = await getStudy(studyId);
+    const invites = await createInvites({
+      study,
+      participantIds: body.participant_ids as string[] | undefined,
+      count: body.count as number | undefined,
+      armId: typeof body.arm_id === "string" && body.arm_id ? body.arm_id : undefined,
+    });
+    return NextResponse.json({ ok: true, invites: withLinks(req, study.study_id, invites) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { StudyError, setStudyStatus } from "@/lib/server/studies";
+
+export const dynamic = "force-dynamic";
+
+/** Opens or closes a study; closed studies stop enrolling new participants. */
+export async function PATCH(req: Request, context: { params: Promise<{ studyId: string }> }) {
+  let body: { status?: string };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (body.status !== "open" && body.status !== "closed") {
+    return NextResponse.json(
+      { ok: false, error: "status must be open or closed" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { studyId } = await context.params;
+    const study = await setStudyStatus(studyId, body.status);
+    return NextResponse.json({ ok: true, study });
+  } catch (error) {
+    if (error instanceof StudyError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { PERSONA_TAGS } from "@/lib/config";
+import { LLM_PROVIDER_IDS } from "@/lib/llm";
+import { ASSIGNMENT_ALGORITHMS, DEMOGRAPHIC_FIELDS, countByStratum } from "@/lib/server/assignment";
+import { listAllSessionSummaries } from "@/lib/server/sessionStore";
+import {
+  StudyError,
+  countArmSessions,
+  countAssignedSessions,
+  getAssignmentLedger,
+  listStudies,
+  parseStudyInput,
+  saveStudy,
+} from "@/lib/server/studies";
+import { STRATEGY_IDS } from "@/lib/strategy";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const [studies, sessions] = await Promise.all([listStudies(), listAllSessionSummaries()]);
+    const ledgers = await Promise.all(studies.map((study) => getAssignmentLedger(study.study_id)));
+    return NextResponse.json({
+      ok: true,
+      studies: studies.map((study, index) => ({
+        ...study,
+        arm_counts: countArmSessions(study, sessions),
+        // Assigned includes participants who have not finished (or dropped out).
+        assigned_counts: countAssignedSessions(study, ledgers[index]),
+        stratum_counts: countByStratum(ledgers[index]),
+      })),
+      options: {
+        personas: PERSONA_TAGS,
+        strategies: STRATEGY_IDS,
+        providers: LLM_PROVIDER_IDS,
+        algorithms: ASSIGNMENT_ALGORITHMS,
+        strata: DEMOGRAPHIC_FIELDS,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const study = await saveStudy(parseStudyInput(body));
+    return NextResponse.json({ ok: true, study });
+  } catch (error) {
+    if (error instanceof StudyError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
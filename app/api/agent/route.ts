@@ -1,14 +1,27 @@
 import { NextResponse } from "next/server";
 
-import { DEFAULT_DOMAIN } from "@/lib/config";
-import type { Offer } from "@/lib/types";
+import type { OfferAllocation } from "@/lib/types";
 import {
+  buildDecisionFallbackMessage,
+  buildGeminiDecisionMessagePrompt,
   buildGeminiOfferPrompt,
   buildGeminiOfferRepairPrompt,
   buildFallbackOfferAllocation,
-  callGemini,
   parseGeminiOfferResponse,
 } from "@/lib/agent";
+import { callLlm } from "@/lib/llm";
+import {
+  NegotiationStateError,
+  buildPromptContext,
+  getNegotiation,
+  recordAgentResponse,
+  recordChatMessage,
+  recordHumanOffer,
+  toStateView,
+  withNegotiationLock,
+} from "@/lib/server/negotiationState";
+import { resolveAgentSetup } from "@/lib/server/studies";
+import { runStrategy } from "@/lib/strategy";
 
 const rateLimits = new Map<string, { count: number; resetAt: number }>();
 const RATE_LIMIT = 30;
@@ -28,19 +41,156 @@ function checkRateLimit(sessionId: string) {
   return true;
 }
 
+/** Records the human offer and answers it; runs under the session lock. */
+async function answerOffer(sessionId: string, allocation: unknown) {
+  const state = getNegotiation(sessionId);
+  const humanOffer = recordHumanOffer(state, allocation);
+  const context = buildPromptContext(state);
+  const { issues, personaTag, weights } = context;
+  const { strategy, llm } = resolveAgentSetup(state.condition.id, state.study?.arm);
+
+  const respond = (params: {
+    message: string;
+    decision: "accept" | "counter";
+    allocation?: OfferAllocation;
+    model: string;
+    extra?: Record<string, unknown>;
+  }) => {
+    const agentOffer = recordAgentResponse(state, {
+      decision: params.decision,
+      allocation: params.allocation,
+    });
+    recordChatMessage(state, "agent", params.message);
+    return NextResponse.json({
+      agent_message: params.message,
+      ...(agentOffer ? { agent_offer: agentOffer.allocation } : {}),
+      decision: params.decision,
+      model: params.model,
+      provider: llm.provider,
+      ...params.extra,
+      state: toStateView(state),
+    });
+  };
+  const fallbackResponse = (reason?: string) => {
+    if (reason) {
+      console.warn(`[agent] using fallback offer: ${reason}`);
+    }
+    return respond({
+      message: "Counteroffer based on priorities.",
+      decision: "counter",
+      allocation: buildFallbackOfferAllocation(issues, weights),
+      model: "local-fallback",
+    });
+  };
+
+  if (strategy) {
+    const result = runStrategy(strategy, {
+      issues,
+      weights,
+      offers: state.offers,
+      turn: context.turn,
+      maxTurns: context.maxTurns,
+      deadlineRemaining: context.deadlineRemaining,
+      deadlineSeconds: state.config.deadline_seconds,
+      reservation: context.reservation?.agent,
+    });
+    if (result.decision === "counter" && !result.offer) {
+      return fallbackResponse(`Strategy ${strategy} produced no offer`);
+    }
+    const messagePrompt = buildGeminiDecisionMessagePrompt({
+      personaTag,
+      issues,
+      decision: result.decision,
+      offer: result.offer,
+      humanOffer,
+      chatContext: context.chatContext,
+      turn: context.turn,
+      maxTurns: context.maxTurns,
+    });
+    let agentMessage = buildDecisionFallbackMessage(result.decision, result.offer, issues);
+    let messageModel = "local-template";
+    try {
+      const messageResult = await callLlm(messagePrompt.system, messagePrompt.prompt, {
+        provider: llm.provider,
+        model: llm.model,
+        temperature: 0.3,
+        maxOutputTokens: 320000,
+      });
+      agentMessage = messageResult.text.trim() || agentMessage;
+      messageModel = messageResult.model;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown LLM error";
+      console.warn(`[agent] using template message for ${strategy}: ${message}`);
+    }
+    return respond({
+      message: agentMessage,
+      decision: result.decision,
+      allocation: result.offer,
+      model: messageModel,
+      extra: { strategy, strategy_target: result.target },
+    });
+  }
+
+  const { system, prompt } = buildGeminiOfferPrompt(context);
+
+  let raw = "";
+  let model = "unknown";
+  try {
+    const result = await callLlm(system, prompt, {
+      provider: llm.provider,
+      model: llm.model,
+      temperature: 0.3,
+      maxOutputTokens: 700000,
+      responseMimeType: "application/json",
+    });
+    raw = result.text;
+    model = result.model;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown LLM error";
+    return fallbackResponse(message);
+  }
+  let parsed;
+  let parsedModel = model;
+  try {
+    parsed = parseGeminiOfferResponse(raw, issues);
+  } catch (error) {
+    const repair = buildGeminiOfferRepairPrompt({
+      ...context,
+      errorMessage: error instanceof Error ? error.message : "Unknown parse error",
+      rawResponse: raw,
+    });
+    try {
+      const repairResult = await callLlm(repair.system, repair.prompt, {
+        provider: llm.provider,
+        model: llm.model,
+        temperature: 0.2,
+        maxOutputTokens: 700000,
+        responseMimeType: "application/json",
+      });
+      parsedModel = repairResult.model;
+      parsed = parseGeminiOfferResponse(repairResult.text, issues);
+    } catch {
+      return fallbackResponse("Repair attempt failed");
+    }
+  }
+
+  if (parsed.decision === "accept") {
+    return respond({ message: parsed.message, decision: "accept", model: parsedModel });
+  }
+
+  return respond({
+    message: parsed.message,
+    decision: "counter",
+    allocation: parsed.offer,
+    model: parsedModel,
+  });
+}
 
 export async function POST(req: Request) {
   try {
     let body: {
       session_id?: string;
-      condition_id?: "neutral" | "persona";
-      persona_tag?: string;
-      last_human_offer?: Offer;
-      turn?: number;
-      history_summary?: string;
-      decision_summary?: string;
-      deadline_remaining?: number;
-      chat_context?: Array<{ role: string; content: string }>;
+      offer?: OfferAllocation;
     };
     try {
       body = (await req.json()) as typeof body;
@@ -57,95 +207,13 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Rate limit exceeded" }, { status: 429 });
     }
 
-    const issues = DEFAULT_DOMAIN.issues;
-    const personaTag = body.condition_id === "persona" ? body.persona_tag : "neutral";
-    const fallbackResponse = (reason?: string) => {
-      if (reason) {
-        console.warn(`[agent] using fallback offer: ${reason}`);
-      }
-      const fallbackOffer = buildFallbackOfferAllocation(issues);
-      return NextResponse.json({
-        agent_message: "Counteroffer based on priorities.",
-        agent_offer: fallbackOffer,
-        decision: "counter",
-        model: "local-fallback",
-      });
-    };
-    const { system, prompt } = buildGeminiOfferPrompt({
-      personaTag,
-      issues,
-      humanOffer: body.last_human_offer ?? null,
-      historySummary: body.history_summary,
-      decisionSummary: body.decision_summary,
-      chatContext: body.chat_context,
-      deadlineRemaining: body.deadline_remaining,
-      turn: body.turn,
-      maxTurns: DEFAULT_DOMAIN.max_turns,
-    });
-
-    let raw = "";
-    let model = "unknown";
-    try {
-      const result = await callGemini(system, prompt, {
-        temperature: 0.3,
-        maxOutputTokens: 700000,
-        responseMimeType: "application/json",
-      });
-      raw = result.text;
-      model = result.model;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown Gemini error";
-      return fallbackResponse(message);
-    }
-    let parsed;
-    let parsedModel = model;
-    try {
-      parsed = parseGeminiOfferResponse(raw, issues);
-    } catch (error) {
-      const repair = buildGeminiOfferRepairPrompt({
-        personaTag,
-        issues,
-        humanOffer: body.last_human_offer ?? null,
-        historySummary: body.history_summary,
-        decisionSummary: body.decision_summary,
-        chatContext: body.chat_context,
-        deadlineRemaining: body.deadline_remaining,
-        turn: body.turn,
-        maxTurns: DEFAULT_DOMAIN.max_turns,
-        errorMessage: error instanceof Error ? error.message : "Unknown parse error",
-        rawResponse: raw,
-      });
-      try {
-        const repairResult = await callGemini(repair.system, repair.prompt, {
-          temperature: 0.2,
-          maxOutputTokens: 700000,
-          responseMimeType: "application/json",
-        });
-        parsedModel = repairResult.model;
-        parsed = parseGeminiOfferResponse(repairResult.text, issues);
-      } catch {
-        return fallbackResponse("Repair attempt failed");
-      }
-    }
-
-    if (parsed.decision === "accept") {
-      if (!body.last_human_offer) {
-        return fallbackResponse("Accept without human offer");
-      }
-      return NextResponse.json({
-        agent_message: parsed.message,
-        decision: "accept",
-        model: parsedModel,
-      });
-    }
-
-    return NextResponse.json({
-      agent_message: parsed.message,
-      agent_offer: parsed.offer,
-      decision: "counter",
-      model: parsedModel,
-    });
+    // One offer at a time per session, so a retry or double submit cannot interleave with
+    // an answer that is still waiting on the model.
+    return await withNegotiationLock(sessionId, () => answerOffer(sessionId, body.offer));
   } catch (error) {
+    if (error instanceof NegotiationStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error(`[agent] unexpected error: ${message}`);
     return NextResponse.json({ error: message }, { status: 500 });
@@ -1,11 +1,16 @@
 import { NextResponse } from "next/server";
 
-import { DEFAULT_DOMAIN } from "@/lib/config";
-import type { Offer, OfferAllocation } from "@/lib/types";
+import { buildGeminiChatPrompt } from "@/lib/agent";
+import { callLlm } from "@/lib/llm";
 import {
-  buildGeminiChatPrompt,
-  callGemini,
-} from "@/lib/agent";
+  NegotiationStateError,
+  assertNegotiationOpen,
+  buildPromptContext,
+  getNegotiation,
+  recordChatMessage,
+  toStateView,
+} from "@/lib/server/negotiationState";
+import { resolveAgentSetup } from "@/lib/server/studies";
 
 const rateLimits = new Map<string, { count: number; resetAt: number }>();
 const RATE_LIMIT = 60;
@@ -29,53 +34,52 @@ export async function POST(req: Request) {
   try {
     const body = (await req.json()) as {
       session_id?: string;
-      condition_id?: "neutral" | "persona";
-      persona_tag?: string;
-      current_offer?: OfferAllocation | null;
-      last_human_offer?: Offer;
-      turn?: number;
-      history_summary?: string;
-      deadline_remaining?: number;
-      chat_context?: Array<{ role: string; content: string }>;
-      latest_user_message?: string;
-      decision_summary?: string;
+      message?: string;
     };
 
     const sessionId = body.session_id ?? "";
     if (!sessionId) {
       return NextResponse.json({ error: "Missing session_id" }, { status: 400 });
     }
+    const userMessage = typeof body.message === "string" ? body.message.trim() : "";
+    if (!userMessage) {
+      return NextResponse.json({ error: "Missing message" }, { status: 400 });
+    }
 
     if (!checkRateLimit(sessionId)) {
       return NextResponse.json({ error: "Rate limit exceeded" }, { status: 429 });
     }
 
-    const issues = DEFAULT_DOMAIN.issues;
-    const personaTag = body.condition_id === "persona" ? body.persona_tag : "neutral";
+    const state = getNegotiation(sessionId);
+    assertNegotiationOpen(state);
+    recordChatMessage(state, "human", userMessage);
+    const { llm } = resolveAgentSetup(state.condition.id, state.study?.arm);
     const { system, prompt } = buildGeminiChatPrompt({
-      personaTag,
-      issues,
-      currentOffer: body.current_offer ?? null,
-      humanOffer: body.last_human_offer ?? null,
-      historySummary: body.history_summary,
-      chatContext: body.chat_context,
-      latestUserMessage: body.latest_user_message,
-      decisionSummary: body.decision_summary,
-      deadlineRemaining: body.deadline_remaining,
-      turn: body.turn,
-      maxTurns: DEFAULT_DOMAIN.max_turns,
+      ...buildPromptContext(state),
+      latestUserMessage: userMessage,
     });
-    const { text: agentMessage, model } = await callGemini(system, prompt, {
+    const { text: agentMessage, model, provider } = await callLlm(system, prompt, {
+      provider: llm.provider,
+      model: llm.model,
       temperature: 0.3,
       maxOutputTokens: 320000,
     });
     const trimmed = agentMessage.trim();
     if (!trimmed) {
-      throw new Error("Gemini returned an empty response.");
+      throw new Error(`${provider} returned an empty response.`);
     }
+    recordChatMessage(state, "agent", trimmed);
 
-    return NextResponse.json({ agent_message: trimmed, model });
+    return NextResponse.json({
+      agent_message: trimmed,
+      model,
+      provider,
+      state: toStateView(state),
+    });
   } catch (error) {
+    if (error instanceof NegotiationStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
       { status: 500 }
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { CheckpointError, saveCheckpoint } from "@/lib/server/checkpoints";
+import { EventLogError, appendEvents } from "@/lib/server/eventLog";
+import { parseSession } from "@/lib/sessionSchema";
+
+/**
+ * Batched event ingest. The browser sends events logged since its last flush (also via
+ * `navigator.sendBeacon` when the tab is hidden), appended to the session's event log.
+ * The optional `session` snapshot refreshes the checkpoint used for resuming.
+ */
+export async function POST(req: Request) {
+  let body: { session_id?: string; events?: unknown; session?: unknown };
+  try {
+    // Beacons may arrive as text/plain; the body is JSON either way.
+    body = JSON.parse(await req.text()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const sessionId = body.session_id ?? "";
+  if (!sessionId || !Array.isArray(body.events)) {
+    return NextResponse.json({ error: "Missing session_id or events" }, { status: 400 });
+  }
+  // The snapshot becomes the resume checkpoint, so it must be a valid session.
+  const snapshot = body.session === undefined ? null : parseSession(body.session);
+  if (snapshot && !snapshot.ok) {
+    return NextResponse.json(
+      { error: "Invalid session snapshot", issues: snapshot.issues },
+      { status: 400 }
+    );
+  }
+  if (snapshot && snapshot.session.session_id !== sessionId) {
+    return NextResponse.json({ error: "Session snapshot does not match" }, { status: 400 });
+  }
+
+  try {
+    const received = await appendEvents(sessionId, body.events);
+    if (snapshot) {
+      await saveCheckpoint(snapshot.session);
+    }
+    return NextResponse.json({ received });
+  } catch (error) {
+    if (error instanceof EventLogError || error instanceof CheckpointError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import {
+  NegotiationStateError,
+  endNegotiation,
+  getNegotiation,
+  toStateView,
+} from "@/lib/server/negotiationState";
+import type { NegotiationEndReason } from "@/lib/types";
+
+const END_REASONS: NegotiationEndReason[] = ["agreement", "timeout", "turn_limit", "abort"];
+
+export async function POST(req: Request) {
+  try {
+    let body: { session_id?: string; reason?: NegotiationEndReason };
+    try {
+      body = (await req.json()) as typeof body;
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const sessionId = body.session_id ?? "";
+    if (!sessionId) {
+      return NextResponse.json({ error: "Missing session_id" }, { status: 400 });
+    }
+    if (!body.reason || !END_REASONS.includes(body.reason)) {
+      return NextResponse.json({ error: "Invalid reason" }, { status: 400 });
+    }
+
+    const state = getNegotiation(sessionId);
+    endNegotiation(state, body.reason);
+    return NextResponse.json({ state: toStateView(state) });
+  } catch (error) {
+    if (error instanceof NegotiationStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
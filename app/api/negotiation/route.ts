@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import {
+  NegotiationStateError,
+  getNegotiation,
+  toStateView,
+} from "@/lib/server/negotiationState";
+
+export async function GET(req: Request) {
+  const sessionId = new URL(req.url).searchParams.get("session_id") ?? "";
+  if (!sessionId) {
+    return NextResponse.json({ error: "Missing session_id" }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ state: toStateView(getNegotiation(sessionId)) });
+  } catch (error) {
+    if (error instanceof NegotiationStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+
+import {
+  NegotiationStateError,
+  startNegotiation,
+  toStateView,
+  toStudyView,
+} from "@/lib/server/negotiationState";
+import { CheckpointError, restoreCheckpointedNegotiation } from "@/lib/server/checkpoints";
+import { InviteError, redeemInvite, releaseInvite, resumeCode } from "@/lib/server/invites";
+import { listAllSessionSummaries } from "@/lib/server/sessionStore";
+import { StudyError, assignStudyArm, countArmSessions, getStudy } from "@/lib/server/studies";
+import type { ConditionId, ExperimentSession } from "@/lib/types";
+
+export async function POST(req: Request) {
+  let body: {
+    session_id?: string;
+    condition_id?: ConditionId;
+    persona_tag?: string;
+    domain_id?: string;
+    weight_profile?: string;
+    study_id?: string;
+    arm_id?: string;
+    invite_id?: string;
+    participant?: Pick<ExperimentSession["participant"], "age_range" | "gender">;
+  };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const sessionId = body.session_id ?? "";
+  if (!sessionId) {
+    return NextResponse.json({ error: "Missing session_id" }, { status: 400 });
+  }
+  if (body.condition_id !== "neutral" && body.condition_id !== "persona") {
+    return NextResponse.json({ error: "Invalid condition_id" }, { status: 400 });
+  }
+
+  try {
+    // After a server restart the negotiation continues from its last checkpoint.
+    await restoreCheckpointedNegotiation(sessionId);
+    let studyParams;
+    let inviteParams;
+    if (body.study_id) {
+      // Study sessions get their arm here, after consent, so stratified designs can use
+      // the demographics; the client-sent condition is ignored.
+      const study = await getStudy(body.study_id);
+      // Invites are used up by the first session that starts with them.
+      const invite = body.invite_id
+        ? await redeemInvite(study.study_id, body.invite_id, sessionId)
+        : undefined;
+      if (invite) {
+        inviteParams = { invite_id: invite.invite_id, participant_id: invite.participant_id };
+      }
+      const stored = await listAllSessionSummaries({ studyId: study.study_id });
+      const assigned = await assignStudyArm({
+        study,
+        sessionId,
+        completedCounts: countArmSessions(study, stored),
+        participant: body.participant ?? {},
+        pinnedArmId: invite?.arm_id ?? body.arm_id,
+      }).catch(async (error) => {
+        // A session that gets no arm (full or closed study) has not used the invitation.
+        if (invite) {
+          await releaseInvite(study.study_id, invite.invite_id, sessionId);
+        }
+        throw error;
+      });
+      studyParams = { study, ...assigned };
+    }
+    const state = startNegotiation({
+      sessionId,
+      conditionId: body.condition_id,
+      personaTag: body.persona_tag,
+      domainId: body.domain_id,
+      weightProfile: body.weight_profile,
+      study: studyParams,
+      invite: inviteParams,
+    });
+    return NextResponse.json({
+      state: toStateView(state),
+      study: toStudyView(state),
+      // Study sessions resume on another device with this code and the participant ID.
+      resume_code: state.study ? resumeCode(state.session_id) : undefined,
+    });
+  } catch (error) {
+    if (
+      error instanceof NegotiationStateError ||
+      error instanceof StudyError ||
+      error instanceof InviteError ||
+      error instanceof CheckpointError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+
+import {
+  CheckpointError,
+  findParticipantCheckpoint,
+  readCheckpoint,
+  restoreCheckpointedNegotiation,
+} from "@/lib/server/checkpoints";
+import { readEventLog } from "@/lib/server/eventLog";
+import { InviteError, findInvite, normalizeCompletionCode, resumeCode } from "@/lib/server/invites";
+import { toStateView, toStudyView } from "@/lib/server/negotiationState";
+import { upgradeSession } from "@/lib/sessionSchema";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Finds an interrupted session by invitation token or participant id and returns the
+ * checkpointed session, its streamed events and the server's negotiation, so another
+ * browser can continue it. Study sessions found by participant id also need the resume
+ * code issued when their negotiation started. The negotiation clock is the server's and
+ * kept running while the participant was away.
+ */
+export async function POST(req: Request) {
+  let body: { invite?: string; participant_id?: string; resume_code?: string };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const participantId = body.participant_id?.trim();
+  if (!body.invite && !participantId) {
+    return NextResponse.json({ error: "Provide an invite or a participant_id" }, { status: 400 });
+  }
+
+  try {
+    let checkpoint;
+    if (body.invite) {
+      const { study_id: studyId, invite } = await findInvite(body.invite);
+      if (!invite.session_id) {
+        throw new CheckpointError("This invitation has not started a session yet.", 404);
+      }
+      checkpoint = await readCheckpoint(invite.session_id);
+      if (checkpoint && checkpoint.session.study_id !== studyId) {
+        checkpoint = null;
+      }
+    } else {
+      checkpoint = await findParticipantCheckpoint(participantId ?? "");
+    }
+    if (!checkpoint) {
+      throw new CheckpointError("No interrupted session was found.", 404);
+    }
+    // Participant ids can be guessed or read off a screen; the invite token is signed.
+    if (
+      !body.invite &&
+      checkpoint.session.study_id &&
+      normalizeCompletionCode(body.resume_code ?? "") !== resumeCode(checkpoint.session.session_id)
+    ) {
+      throw new CheckpointError(
+        "Enter the resume code shown during your negotiation, or open your invitation link.",
+        403
+      );
+    }
+    if (checkpoint.submitted_at) {
+      throw new CheckpointError("This session was already completed.", 409);
+    }
+
+    const negotiation = await restoreCheckpointedNegotiation(
+      checkpoint.session.session_id,
+      checkpoint
+    );
+    return NextResponse.json({
+      // Checkpoints written before the schema version existed are upgraded like sessions.
+      session: upgradeSession({
+        ...checkpoint.session,
+        events: await readEventLog(checkpoint.session.session_id),
+      }),
+      state: negotiation ? toStateView(negotiation) : null,
+      study: negotiation ? toStudyView(negotiation) : null,
+    });
+  } catch (error) {
+    if (error instanceof CheckpointError || error instanceof InviteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
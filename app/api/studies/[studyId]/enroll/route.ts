@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { InviteError, checkInvite } from "@/lib/server/invites";
+import { listAllSessionSummaries } from "@/lib/server/sessionStore";
+import { StudyError, checkEnrollment, countArmSessions, getStudy } from "@/lib/server/studies";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Checks a study link before the participant starts. The arm itself is assigned when the
+ * negotiation starts (after consent, so stratified designs can use the demographics);
+ * only per-arm links get their arm id back here. Invitation links are checked too, and
+ * give back the invited participant's id.
+ */
+export async function POST(req: Request, context: { params: Promise<{ studyId: string }> }) {
+  let body: { arm_id?: string; invite?: string } = {};
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    // An empty body is a plain study link without a pinned arm.
+  }
+
+  try {
+    const { studyId } = await context.params;
+    const study = await getStudy(studyId);
+    const invite = body.invite ? await checkInvite(study.study_id, body.invite) : undefined;
+    const stored = await listAllSessionSummaries({ studyId: study.study_id });
+    const counts = countArmSessions(study, stored);
+    const pinned = checkEnrollment(study, counts, invite ? invite.arm_id : body.arm_id);
+    return NextResponse.json({
+      study_id: study.study_id,
+      study_name: study.name,
+      arm_id: pinned?.arm_id,
+      domain_id: study.domain_id,
+      weight_profile: study.weight_profile,
+      invite_id: invite?.invite_id,
+      participant_id: invite?.participant_id,
+    });
+  } catch (error) {
+    if (error instanceof InviteError && error.status === 409) {
+      // A used invite can still continue the session it started, from `/resume`.
+      return NextResponse.json({ error: error.message, resumable: true }, { status: 409 });
+    }
+    if (error instanceof StudyError || error instanceof InviteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,67 @@
 import { NextResponse } from "next/server";
 import type { ExperimentSession } from "@/lib/types";
+import { markCheckpointSubmitted, restoreCheckpointedNegotiation } from "@/lib/server/checkpoints";
+import { mergeEvents, readEventLog } from "@/lib/server/eventLog";
+import { completionCode, earnsCompletionCode } from "@/lib/server/invites";
+import { applyServerOutcome, negotiationEnded } from "@/lib/server/negotiationState";
 import { storeSession } from "@/lib/server/sessionStore";
+import { parseSession } from "@/lib/sessionSchema";
 
 const inMemoryStore: ExperimentSession[] = [];
 
+/**
+ * Completion code for sessions the server saw end with a credited outcome (not an abort). A
+ * code sent back by the client is kept only if it is the one the server issued, so resubmits
+ * after a restart keep their code.
+ */
+function withCompletionCode(session: ExperimentSession): ExperimentSession {
+  const { completion_code: claimed, ...rest } = session;
+  try {
+    const code = completionCode(session.session_id);
+    const ended = negotiationEnded(session.session_id) || claimed === code;
+    if (ended && earnsCompletionCode(session.outcome.reason)) {
+      return { ...rest, completion_code: code };
+    }
+  } catch {
+    // Without a signing secret no codes are issued, but the session is still stored.
+  }
+  return rest;
+}
+
 export async function POST(req: Request) {
   try {
-    const payload = (await req.json()) as ExperimentSession;
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+    }
+    // Older clients send older shapes; they are upgraded before validation.
+    const parsed = parseSession(body);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid session payload", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+    const submitted = parsed.session;
+    // The server record may only survive in the checkpoint if the server restarted.
+    await restoreCheckpointedNegotiation(submitted.session_id).catch(() => null);
+    // Streamed events fill in what this browser never saw, e.g. before a resume elsewhere.
+    const streamed = await readEventLog(submitted.session_id).catch(() => []);
+    const session = { ...submitted, events: mergeEvents(submitted.events ?? [], streamed) };
+    const payload = withCompletionCode(applyServerOutcome(session));
     try {
       const result = await storeSession(payload);
+      // A stored session is finished; its checkpoint is no longer offered for resuming.
+      await markCheckpointSubmitted(payload.session_id).catch(() => undefined);
       return NextResponse.json({
         ok: true,
         stored_as: result.stored_as,
         storage: result.storage,
+        version: result.version,
+        duplicate: result.duplicate,
+        completion_code: payload.completion_code,
         warning: result.warning,
       });
     } catch (error) {
@@ -20,6 +69,7 @@ export async function POST(req: Request) {
       return NextResponse.json({
         ok: true,
         stored_as: "memory-fallback",
+        completion_code: payload.completion_code,
         warning: error instanceof Error ? error.message : "Store failed",
       });
     }
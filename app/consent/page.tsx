@@ -12,10 +12,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { usePageView } from "@/hooks/usePageView";
 import { useSessionStore } from "@/store/useSessionStore";
 
+const AGE_RANGES = ["under-18", "18-24", "25-34", "35-44", "45-plus"];
+const GENDERS = ["female", "male", "non-binary"];
+
 const consentSchema = z.object({
   consent: z
     .boolean()
     .refine((value) => value, { message: "Please check this box before proceeding." }),
+  // Optional; studies with stratified assignment balance arms within these groups.
+  age_range: z.string().optional(),
+  gender: z.string().optional(),
 });
 
 type ConsentValues = z.infer<typeof consentSchema>;
@@ -23,7 +29,7 @@ type ConsentValues = z.infer<typeof consentSchema>;
 export default function ConsentPage() {
   usePageView("/consent");
   const router = useRouter();
-  const { session, addEvent } = useSessionStore();
+  const { session, addEvent, updateParticipant } = useSessionStore();
 
   const {
     register,
@@ -33,6 +39,8 @@ export default function ConsentPage() {
     resolver: zodResolver(consentSchema),
     defaultValues: {
       consent: false,
+      age_range: "",
+      gender: "",
     },
   });
 
@@ -42,7 +50,12 @@ export default function ConsentPage() {
     }
   }, [router, session]);
 
-  const onSubmit = () => {
+  const onSubmit = (values: ConsentValues) => {
+    updateParticipant({
+      participant_id: session?.participant.participant_id ?? "",
+      age_range: values.age_range || undefined,
+      gender: values.gender || undefined,
+    });
     addEvent("consent", { accepted: true });
     router.push("/instructions");
   };
@@ -64,6 +77,16 @@ export default function ConsentPage() {
               No personally identifying information is collected.
             </p>
             <p>Estimated time: 6-8 minutes.</p>
+            {session ? (
+              <p>
+                Your participant ID is{" "}
+                <span className="font-mono text-foreground">
+                  {session.participant.participant_id}
+                </span>
+                . If your browser closes, continue on the resume page with this ID
+                {session.study_id ? " and the resume code shown during the negotiation" : ""}.
+              </p>
+            ) : null}
           </div>
           <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
             <label className="flex items-start gap-3 rounded-xl border border-border/60 bg-background/70 p-4 text-sm">
@@ -76,6 +99,37 @@ export default function ConsentPage() {
               <div className="text-sm text-destructive">{errors.consent.message}</div>
             ) : null}
 
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="space-y-2 text-sm">
+                <span className="font-medium text-foreground">Age range (optional)</span>
+                <select
+                  className="h-10 w-full rounded-lg border border-input bg-background/70 px-3 text-sm"
+                  {...register("age_range")}
+                >
+                  <option value="">Prefer not to say</option>
+                  {AGE_RANGES.map((range) => (
+                    <option key={range} value={range}>
+                      {range.replace("-plus", "+").replace("under-", "Under ")}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-2 text-sm">
+                <span className="font-medium text-foreground">Gender (optional)</span>
+                <select
+                  className="h-10 w-full rounded-lg border border-input bg-background/70 px-3 text-sm"
+                  {...register("gender")}
+                >
+                  <option value="">Prefer not to say</option>
+                  {GENDERS.map((gender) => (
+                    <option key={gender} value={gender}>
+                      {gender.charAt(0).toUpperCase() + gender.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
             <Button type="submit" size="lg" className="w-full">
               Continue to Instructions
             </Button>
@@ -32,8 +32,16 @@ export default function DonePage() {
         if (!response.ok) {
           throw new Error(`Submit failed: ${response.status}`);
         }
-        const data = (await response.json()) as { ok: boolean; stored_as?: string };
-        setSubmission({ ok: true, stored_as: data.stored_as });
+        const data = (await response.json()) as {
+          ok: boolean;
+          stored_as?: string;
+          completion_code?: string;
+        };
+        setSubmission({
+          ok: true,
+          stored_as: data.stored_as,
+          completion_code: data.completion_code,
+        });
       } catch (error) {
         const message = error instanceof Error ? error.message : "Unknown error";
         addEvent("error", { source: "submit", message });
@@ -83,6 +91,20 @@ export default function DonePage() {
             </div>
           </div>
 
+          {submission?.completion_code ? (
+            <div className="rounded-xl border border-primary/40 bg-primary/10 p-4">
+              <div className="text-xs uppercase tracking-wide text-muted-foreground">
+                Completion code
+              </div>
+              <div className="mt-2 font-mono text-2xl font-semibold tracking-[0.2em] text-foreground">
+                {submission.completion_code}
+              </div>
+              <p className="mt-2 text-sm text-muted-foreground">
+                Enter this code where your course or panel asks for it to receive credit.
+              </p>
+            </div>
+          ) : null}
+
           <div className="rounded-xl border border-border/60 bg-background/70 p-4">
             <div className="flex items-center gap-2 text-sm font-semibold">
               {submission?.ok ? (
@@ -9,7 +9,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { UTILITY_WEIGHTS } from "@/lib/config";
+import { getDomain, sessionReservation, sessionWeights } from "@/lib/domains";
+import { describeIssueValue, isChoiceIssue, issueOptions } from "@/lib/issues";
 import { usePageView } from "@/hooks/usePageView";
 import { useSessionStore } from "@/store/useSessionStore";
 
@@ -32,13 +33,18 @@ export default function InstructionsPage() {
 
   if (!session) return null;
 
+  const domain = getDomain(session.config.domain_id);
+  const weights = sessionWeights(session.config);
+  const reservation = sessionReservation(session.config);
+
   const exampleOffer = session.config.issues.map((issue) => {
     const human = Math.ceil(issue.total * 0.6);
     return {
       key: issue.key,
       label: issue.label,
-      human,
-      agent: issue.total - human,
+      text: isChoiceIssue(issue)
+        ? (issueOptions(issue)[0]?.label ?? "")
+        : `You ${human} / Agent ${issue.total - human}`,
     };
   });
 
@@ -59,9 +65,7 @@ export default function InstructionsPage() {
             </TabsList>
             <TabsContent value="issues" className="space-y-4">
               <div className="rounded-xl border border-border/60 bg-background/70 p-4 text-sm text-muted-foreground">
-                Scenario: You and the agent are splitting simple classroom perks for a group
-                activity (snacks, break time, music picks, prize tickets). The agent wants more
-                perks for itself; you want more for your side.
+                Scenario: {domain.scenario}
               </div>
               
               {/* KEY: Show asymmetric preferences to motivate trading */}
@@ -75,15 +79,20 @@ export default function InstructionsPage() {
                 </p>
                 <div className="grid gap-2 sm:grid-cols-2">
                   {session.config.issues.map((issue) => {
-                    const weight = UTILITY_WEIGHTS.human[issue.key] ?? 1;
-                    const stars = "★".repeat(weight) + "☆".repeat(4 - weight);
+                    const weight = weights.human[issue.key] ?? 1;
+                    const stars = "★".repeat(weight) + "☆".repeat(Math.max(0, 4 - weight));
+                    const linear = !isChoiceIssue(issue) && !issue.curve;
                     return (
                       <div
                         key={issue.key}
                         className="flex items-center justify-between rounded-lg border border-border/40 bg-background/50 px-3 py-2 text-sm"
                       >
                         <span className="font-medium">{issue.label}</span>
-                        <span className="text-amber-500 font-mono">{stars} ({weight} pts/unit)</span>
+                        {linear ? (
+                          <span className="text-amber-500 font-mono">{stars} ({weight} pts/unit)</span>
+                        ) : (
+                          <span className="text-amber-500">{describeIssueValue(issue, weights, "human")}</span>
+                        )}
                       </div>
                     );
                   })}
@@ -95,8 +104,10 @@ export default function InstructionsPage() {
               </div>
 
               <div className="rounded-xl border border-border/60 bg-background/70 p-4 text-sm text-muted-foreground">
-                Your score = Σ (units you receive × point value). If no agreement is reached, 
-                your score is 0. Maximize your total points while reaching agreement!
+                Your score = Σ (units you receive × point value). If no agreement is reached,
+                your score is{" "}
+                {reservation.human > 0 ? `${reservation.human} pts (your walk-away value)` : "0"}.
+                Maximize your total points while reaching agreement!
               </div>
               <div className="grid gap-3 sm:grid-cols-2">
                 {session.config.issues.map((issue) => (
@@ -105,7 +116,13 @@ export default function InstructionsPage() {
                     className="flex items-center justify-between rounded-xl border border-border/60 bg-background/70 px-4 py-3 text-sm"
                   >
                     <span className="font-semibold text-foreground">{issue.label}</span>
-                    <span className="text-xs text-muted-foreground">{issue.total} units total</span>
+                    <span className="text-xs text-muted-foreground">
+                      {isChoiceIssue(issue)
+                        ? `Pick one: ${issueOptions(issue)
+                            .map((option) => option.label)
+                            .join(" / ")}`
+                        : `${issue.total} units total`}
+                    </span>
                   </div>
                 ))}
               </div>
@@ -125,9 +142,7 @@ export default function InstructionsPage() {
                   {exampleOffer.map((issue) => (
                     <div key={issue.key} className="flex items-center justify-between">
                       <span>{issue.label}</span>
-                      <span>
-                        You {issue.human} / Agent {issue.agent}
-                      </span>
+                      <span>{issue.text}</span>
                     </div>
                   ))}
                 </div>
@@ -159,6 +174,9 @@ export default function InstructionsPage() {
               <div className="rounded-xl border border-border/60 bg-background/70 p-4 text-sm text-muted-foreground">
                 Each issue has a fixed number of units to allocate between you and the agent. The
                 offer builder ensures totals remain valid.
+                {session.config.issues.some(isChoiceIssue)
+                  ? " Issues with options (like yes/no terms) settle on one choice for both of you."
+                  : null}
               </div>
               <div className="rounded-xl border border-border/60 bg-background/70 p-4 text-sm text-muted-foreground">
                 You can accept the agent&apos;s last offer or propose a counteroffer. Agreement ends
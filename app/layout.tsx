@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { IBM_Plex_Mono, IBM_Plex_Sans, Space_Grotesk } from "next/font/google";
 
 import "./globals.css";
+import EventStreamer from "@/components/EventStreamer";
 import { Toaster } from "@/components/ui/toaster";
 
 const plexSans = IBM_Plex_Sans({
@@ -40,6 +41,7 @@ export default function RootLayout({
     >
       <body className="min-h-screen font-sans">
         {children}
+        <EventStreamer />
         <Toaster />
       </body>
     </html>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { AlertTriangle, ClipboardList, MessageCircle, ThumbsUp } from "lucide-react";
 import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from "recharts";
@@ -16,11 +16,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/components/ui/use-toast";
-import { DEFAULT_DOMAIN, UTILITY_WEIGHTS } from "@/lib/config";
-import type { Offer } from "@/lib/types";
-import { allocationFromIssues, computeUtilities, nowIso, summarizeHistory, summarizeDecisions } from "@/lib/utils";
+import { DEFAULT_DOMAIN } from "@/lib/config";
+import { sessionReservation, sessionWeights } from "@/lib/domains";
+import {
+  describeIssueValue,
+  formatIssueEntry,
+  isChoiceIssue,
+  issuePoints,
+  isValidIssueEntry,
+  roundPoints,
+} from "@/lib/issues";
+import type { NegotiationOutcome, NegotiationStateView, Offer } from "@/lib/types";
+import { allocationFromIssues, computeUtilities, nowIso } from "@/lib/utils";
 import { usePageView } from "@/hooks/usePageView";
-import { useSessionStore } from "@/store/useSessionStore";
+import { useSessionStore, type StudyAssignmentView } from "@/store/useSessionStore";
 
 const ISSUE_PALETTE = ["#0ea5e9", "#22d3ee", "#10b981", "#f97316", "#6366f1", "#f59e0b"];
 
@@ -41,24 +50,111 @@ export default function NegotiatePage() {
     setAwaitingAgent,
     deadlineEndsAt,
     startNegotiation,
+    applyServerState,
+    applyStudyAssignment,
     endSession,
   } = useSessionStore();
 
   const issues = session?.config.issues ?? DEFAULT_DOMAIN.issues;
+  const weights = sessionWeights(session?.config);
+  const reservation = sessionReservation(session?.config);
 
   const [abortOpen, setAbortOpen] = useState(false);
   const [chatOpen, setChatOpen] = useState(false);
+  // Study sessions only: with the participant ID, it continues the session on another device.
+  const [resumeCode, setResumeCode] = useState<string | null>(null);
+  const endingRef = useRef(false);
+
+  const sessionId = session?.session_id;
+  const conditionId = session?.condition.id;
+  const personaTag = session?.condition.persona_tag;
+  const domainId = session?.config.domain_id;
+  const weightProfile = session?.config.weight_profile;
+  const studyId = session?.study_id;
+  const armId = session?.arm_id;
+  const inviteId = session?.invite_id;
+  const ageRange = session?.participant.age_range;
+  const gender = session?.participant.gender;
 
   useEffect(() => {
     if (!session) {
       router.replace("/");
       return;
     }
-    startNegotiation();
     if (!draftOffer) {
       setCurrentOfferDraft(allocationFromIssues(issues, "equal"));
     }
-  }, [draftOffer, issues, router, session, setCurrentOfferDraft, startNegotiation]);
+  }, [draftOffer, issues, router, session, setCurrentOfferDraft]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    // The server owns the clock, turn count and offer history; mirror whatever it has.
+    fetch("/api/negotiation/start", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        session_id: sessionId,
+        condition_id: conditionId,
+        persona_tag: personaTag,
+        domain_id: domainId,
+        weight_profile: weightProfile,
+        study_id: studyId,
+        arm_id: armId,
+        invite_id: inviteId,
+        participant: studyId ? { age_range: ageRange, gender } : undefined,
+      }),
+    })
+      .then(async (response) => {
+        const data = (await response.json()) as {
+          state?: NegotiationStateView;
+          study?: StudyAssignmentView | null;
+          resume_code?: string;
+          error?: string;
+        };
+        if (!response.ok || !data.state) {
+          throw new Error(data.error ?? `Negotiation start failed: ${response.status}`);
+        }
+        if (data.study) {
+          applyStudyAssignment(data.study);
+        }
+        setResumeCode(data.resume_code ?? null);
+        applyServerState(data.state);
+      })
+      .catch((error) => {
+        startNegotiation();
+        addEvent("error", {
+          source: "negotiation",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      });
+  }, [
+    addEvent,
+    ageRange,
+    applyServerState,
+    applyStudyAssignment,
+    armId,
+    conditionId,
+    domainId,
+    gender,
+    inviteId,
+    personaTag,
+    sessionId,
+    startNegotiation,
+    studyId,
+    weightProfile,
+  ]);
+
+  const refreshState = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const response = await fetch(`/api/negotiation?session_id=${encodeURIComponent(sessionId)}`);
+      if (!response.ok) return;
+      const data = (await response.json()) as { state: NegotiationStateView };
+      applyServerState(data.state);
+    } catch {
+      // Keep the local copy; the next successful response resyncs it.
+    }
+  }, [applyServerState, sessionId]);
 
   const currentAgentOffer = useMemo(
     () => [...offers].reverse().find((offer) => offer.by === "agent"),
@@ -70,40 +166,73 @@ export default function NegotiatePage() {
     [offers]
   );
 
-  const decisionSummary = useMemo(() => {
-    if (!session) return "";
-    return summarizeDecisions(session.events, 10);
-  }, [session]);
-
   const offerIsValid = useMemo(() => {
     if (!draftOffer) return false;
-    return issues.every((issue) => {
-      const entry = draftOffer[issue.key];
-      return entry && entry.human + entry.agent === issue.total && entry.human >= 0;
-    });
+    return issues.every((issue) => isValidIssueEntry(issue, draftOffer[issue.key]));
   }, [draftOffer, issues]);
 
-  const deadlineRemaining = useMemo(() => {
-    if (!deadlineEndsAt) return 0;
-    return Math.max(0, Math.floor((Date.parse(deadlineEndsAt) - Date.now()) / 1000));
-  }, [deadlineEndsAt]);
-
   const completeSession = useCallback(
-    (reason: "agreement" | "timeout" | "turn_limit" | "abort", agreedOffer?: Offer) => {
-      if (!session) return;
-      const finalOffer = reason === "agreement" ? agreedOffer ?? currentAgentOffer : undefined;
-      const utilities = finalOffer
-        ? computeUtilities(finalOffer.allocation, UTILITY_WEIGHTS)
-        : undefined;
-      endSession({ reason, agreedOffer: finalOffer, utilities });
-      addEvent("end", { reason, agreed_offer: finalOffer });
-      if (reason === "abort") {
+    async (reason: "agreement" | "timeout" | "turn_limit" | "abort", agreedOffer?: Offer) => {
+      if (!session || endingRef.current) return;
+      endingRef.current = true;
+      let outcome: NegotiationOutcome | undefined;
+      try {
+        const response = await fetch("/api/negotiation/end", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ session_id: session.session_id, reason }),
+        });
+        const data = (await response.json().catch(() => ({}))) as {
+          state?: NegotiationStateView;
+          error?: string;
+        };
+        if (response.ok && data.state) {
+          applyServerState(data.state);
+          outcome = data.state.outcome;
+        } else if (response.status !== 404 && reason !== "abort") {
+          // The server disagrees (e.g. the deadline has not passed), so the negotiation goes on.
+          endingRef.current = false;
+          const message = data.error ?? `End request failed: ${response.status}`;
+          addEvent("error", { source: "negotiation", message });
+          toast({ title: "Cannot end negotiation", description: message, variant: "destructive" });
+          return;
+        }
+      } catch (error) {
+        addEvent("error", {
+          source: "negotiation",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+      const finalReason = outcome?.reason ?? reason;
+      const finalOffer = outcome
+        ? outcome.agreed_offer
+        : reason === "agreement"
+          ? agreedOffer ?? currentAgentOffer
+          : undefined;
+      const utilities = outcome
+        ? outcome.utilities
+        : finalOffer
+          ? computeUtilities(finalOffer.allocation, weights, issues)
+          : undefined;
+      endSession({ reason: finalReason, agreedOffer: finalOffer, utilities });
+      addEvent("end", { reason: finalReason, agreed_offer: finalOffer });
+      if (finalReason === "abort") {
         router.push("/done");
       } else {
         router.push("/survey");
       }
     },
-    [addEvent, currentAgentOffer, endSession, router, session]
+    [
+      addEvent,
+      applyServerState,
+      currentAgentOffer,
+      endSession,
+      issues,
+      router,
+      session,
+      toast,
+      weights,
+    ]
   );
 
   useEffect(() => {
@@ -118,21 +247,19 @@ export default function NegotiatePage() {
     if (!offerIsValid) {
       toast({
         title: "Invalid offer",
-        description: "Each issue must allocate all units between you and the agent.",
+        description:
+          "Each issue must allocate all units between you and the agent, or pick an option.",
         variant: "destructive",
       });
       return;
     }
 
-    const nextTurn = offers.length + 1;
-    const offer: Offer = {
-      turn: nextTurn,
+    pushOffer({
+      turn: offers.length + 1,
       by: "human",
       allocation: draftOffer,
       created_at: nowIso(),
-    };
-    pushOffer(offer);
-    addEvent("offer_propose", { offer });
+    });
 
     setAwaitingAgent(true);
 
@@ -142,17 +269,7 @@ export default function NegotiatePage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           session_id: session.session_id,
-          condition_id: session.condition.id,
-          persona_tag: session.condition.persona_tag,
-          last_human_offer: offer,
-          turn: nextTurn,
-          history_summary: summarizeHistory([...offers, offer], session.config.max_turns),
-          decision_summary: decisionSummary,
-          deadline_remaining: deadlineRemaining,
-          chat_context: chat.slice(-12).map((message) => ({
-            role: message.role,
-            content: message.content,
-          })),
+          offer: draftOffer,
         }),
       });
 
@@ -169,42 +286,70 @@ export default function NegotiatePage() {
         agent_offer?: Offer["allocation"];
         decision?: "accept" | "counter";
         model?: string;
+        provider?: string;
+        strategy?: string;
+        state: NegotiationStateView;
       };
 
+      applyServerState(data.state);
+      const serverOffers = data.state.offers;
+      const offer = [...serverOffers].reverse().find((entry) => entry.by === "human");
+      if (!offer) {
+        throw new Error("Server did not record the proposal.");
+      }
+      addEvent("offer_propose", { offer });
+
       if (data.decision === "accept") {
-        pushChat({ role: "agent", content: data.agent_message });
         addEvent("chat_receive", {
           content: data.agent_message,
           turn: offer.turn,
           model: data.model,
+          provider: data.provider,
+        });
+        addEvent("offer_accept", {
+          offer,
+          by: "agent",
+          model: data.model,
+          provider: data.provider,
+          strategy: data.strategy,
         });
-        addEvent("offer_accept", { offer, by: "agent", model: data.model });
         completeSession("agreement", offer);
         return;
       }
 
-      if (!data.agent_offer) {
-        throw new Error("Agent did not return a counteroffer.");
+      if (!data.agent_offer && data.state.outcome?.reason === "turn_limit") {
+        // The proposal used the last turn and the agent rejected it; the turn limit ends it.
+        addEvent("chat_receive", {
+          content: data.agent_message,
+          turn: offer.turn,
+          model: data.model,
+          provider: data.provider,
+        });
+        addEvent("offer_reject", { offer, by: "agent" });
+        return;
       }
 
-      const agentOffer: Offer = {
-        turn: nextTurn + 1,
-        by: "agent",
-        allocation: data.agent_offer,
-        created_at: nowIso(),
-      };
+      const agentOffer = serverOffers[serverOffers.length - 1];
+      if (!data.agent_offer || agentOffer?.by !== "agent") {
+        throw new Error("Agent did not return a counteroffer.");
+      }
 
-      pushOffer(agentOffer);
-      addEvent("offer_receive", { offer: agentOffer, model: data.model });
-      pushChat({ role: "agent", content: data.agent_message });
+      addEvent("offer_receive", {
+        offer: agentOffer,
+        model: data.model,
+        provider: data.provider,
+        strategy: data.strategy,
+      });
       addEvent("chat_receive", {
         content: data.agent_message,
         turn: agentOffer.turn,
         model: data.model,
+        provider: data.provider,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       addEvent("error", { source: "agent", message });
+      await refreshState();
       toast({
         title: "Agent error",
         description: message,
@@ -240,16 +385,7 @@ export default function NegotiatePage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           session_id: session.session_id,
-          condition_id: session.condition.id,
-          persona_tag: session.condition.persona_tag,
-          current_offer: currentAgentOffer?.allocation ?? null,
-          last_human_offer: lastHumanOffer ?? null,
-          turn: offers.length,
-          history_summary: summarizeHistory(offers, session.config.max_turns),
-          decision_summary: decisionSummary,
-          deadline_remaining: deadlineRemaining,
-          chat_context: [...chat, { role: "human", content: message }].slice(-12),
-          latest_user_message: message,
+          message,
         }),
       });
 
@@ -261,16 +397,23 @@ export default function NegotiatePage() {
             : `Chat response failed: ${response.status}`;
         throw new Error(errorMessage);
       }
-      const data = (await response.json()) as { agent_message: string; model?: string };
-      pushChat({ role: "agent", content: data.agent_message });
+      const data = (await response.json()) as {
+        agent_message: string;
+        model?: string;
+        provider?: string;
+        state: NegotiationStateView;
+      };
+      applyServerState(data.state);
       addEvent("chat_receive", {
         content: data.agent_message,
         source: "chat",
         model: data.model,
+        provider: data.provider,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       addEvent("error", { source: "chat", message });
+      await refreshState();
       toast({
         title: "Chat error",
         description: message,
@@ -288,6 +431,7 @@ export default function NegotiatePage() {
       if (!offer) return null;
       const totals = issues.reduce(
         (acc, issue) => {
+          if (isChoiceIssue(issue)) return acc;
           const allocation = offer.allocation?.[issue.key] ?? { human: 0, agent: 0 };
           acc.human += allocation.human;
           acc.agent += allocation.agent;
@@ -296,16 +440,16 @@ export default function NegotiatePage() {
         },
         { human: 0, agent: 0, total: 0 }
       );
-      const utilities = computeUtilities(offer.allocation, UTILITY_WEIGHTS);
+      const utilities = computeUtilities(offer.allocation, weights, issues);
       const issueRows = issues.map((issue, index) => {
         const allocation = offer.allocation?.[issue.key] ?? { human: 0, agent: 0 };
-        const humanPoints = allocation.human * (UTILITY_WEIGHTS.human[issue.key] ?? 1);
-        const agentPoints = allocation.agent * (UTILITY_WEIGHTS.agent[issue.key] ?? 1);
+        const points = issuePoints(issue, allocation, weights);
         return {
           issue,
           allocation,
-          humanPoints,
-          agentPoints,
+          choice: isChoiceIssue(issue) ? formatIssueEntry(issue, allocation) : null,
+          humanPoints: roundPoints(points.human),
+          agentPoints: roundPoints(points.agent),
           color: ISSUE_PALETTE[index % ISSUE_PALETTE.length],
         };
       });
@@ -315,7 +459,7 @@ export default function NegotiatePage() {
       ];
       return { offer, totals, utilities, issueRows, pieData };
     },
-    [issues]
+    [issues, weights]
   );
 
   const agentOfferSummary = useMemo(
@@ -354,17 +498,25 @@ export default function NegotiatePage() {
               </div>
               <div className="text-right">
                 <span className="inline-flex items-center rounded-full bg-primary/10 px-2 py-1 text-xs font-semibold text-primary">
-                  {UTILITY_WEIGHTS.human[issue.key] ?? 1} pts
+                  {describeIssueValue(issue, weights, "human")}
                 </span>
               </div>
               <div className="text-right">
                 <span className="inline-flex items-center rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-700">
-                  {UTILITY_WEIGHTS.agent[issue.key] ?? 1} pts
+                  {describeIssueValue(issue, weights, "agent")}
                 </span>
               </div>
             </div>
           ))}
         </div>
+        {reservation.human > 0 ? (
+          <div className="flex items-center justify-between rounded-xl border border-dashed border-border/70 bg-muted/30 px-3 py-2">
+            <span className="text-sm font-semibold text-foreground">No deal (walk-away)</span>
+            <span className="inline-flex items-center rounded-full bg-primary/10 px-2 py-1 text-xs font-semibold text-primary">
+              {reservation.human} pts for you
+            </span>
+          </div>
+        ) : null}
       </CardContent>
     </Card>
   );
@@ -412,6 +564,11 @@ export default function NegotiatePage() {
             <span className="h-4 w-px bg-slate-200" />
             <ConditionBadge condition={session.condition.id} />
           </div>
+          {resumeCode ? (
+            <div className="mt-2 font-mono text-[10px] tracking-[0.12em] text-slate-800">
+              Resume code {resumeCode}
+            </div>
+          ) : null}
           {session.condition.persona_tag ? (
             <div className="mt-2 text-[10px] font-semibold tracking-[0.12em] text-slate-800">
               {session.condition.persona_tag}
@@ -455,6 +612,7 @@ export default function NegotiatePage() {
             {draftOffer ? (
               <OfferBuilder
                 issues={issues}
+                weights={weights}
                 draft={draftOffer}
                 disabled={isAwaitingAgent}
                 onChange={setCurrentOfferDraft}
@@ -566,9 +724,9 @@ export default function NegotiatePage() {
                                 </div>
                                 <div className="text-right text-sm">
                                   <span className="font-semibold text-sky-700">
-                                    {row.allocation.human}
+                                    {row.choice ?? row.allocation.human}
                                   </span>{" "}
-                                  units ·{" "}
+                                  {row.choice ? "" : "units "}·{" "}
                                   <span className="font-semibold text-sky-900">
                                     {row.humanPoints}
                                   </span>{" "}
@@ -576,9 +734,9 @@ export default function NegotiatePage() {
                                 </div>
                                 <div className="text-right text-sm">
                                   <span className="font-semibold text-amber-700">
-                                    {row.allocation.agent}
+                                    {row.choice ?? row.allocation.agent}
                                   </span>{" "}
-                                  units ·{" "}
+                                  {row.choice ? "" : "units "}·{" "}
                                   <span className="font-semibold text-amber-900">
                                     {row.agentPoints}
                                   </span>{" "}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Sparkles } from "lucide-react";
 
@@ -9,6 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { PERSONA_TAGS } from "@/lib/config";
+import { DEFAULT_DOMAIN_ID, listDomains } from "@/lib/domains";
 import { useSessionStore } from "@/store/useSessionStore";
 import type { ConditionId } from "@/lib/types";
 import { usePageView } from "@/hooks/usePageView";
@@ -17,8 +19,74 @@ import { cn } from "@/lib/utils";
 export default function HomePage() {
   usePageView("/");
   const router = useRouter();
-  const { initSession } = useSessionStore();
+  const { initSession, updateParticipant } = useSessionStore();
   const [selectedPersona, setSelectedPersona] = useState<string>("neutral");
+  const [selectedDomain, setSelectedDomain] = useState<string>(DEFAULT_DOMAIN_ID);
+  // Study links (?study=<id>, optionally &arm=<id>) skip self-selection: the server assigns the arm.
+  // Invitation links add a signed &invite=<token> naming the participant.
+  const [studyLink, setStudyLink] = useState<{
+    studyId: string;
+    armId?: string;
+    invite?: string;
+  } | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const domains = listDomains();
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const studyId = params.get("study");
+    if (studyId) {
+      setStudyLink({
+        studyId,
+        armId: params.get("arm") ?? undefined,
+        invite: params.get("invite") ?? undefined,
+      });
+    }
+  }, []);
+
+  const joinStudy = async () => {
+    if (!studyLink) return;
+    setJoining(true);
+    setJoinError(null);
+    try {
+      const response = await fetch(`/api/studies/${encodeURIComponent(studyLink.studyId)}/enroll`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ arm_id: studyLink.armId, invite: studyLink.invite }),
+      });
+      const data = (await response.json()) as {
+        error?: string;
+        study_id: string;
+        arm_id?: string;
+        domain_id: string;
+        weight_profile?: string;
+        invite_id?: string;
+        participant_id?: string;
+        resumable?: boolean;
+      };
+      if (data.resumable && studyLink.invite) {
+        router.push(`/resume?invite=${encodeURIComponent(studyLink.invite)}`);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error ?? `Enrollment failed: ${response.status}`);
+      }
+      // The condition is a placeholder until the server assigns the arm at negotiation start.
+      initSession("neutral", undefined, data.domain_id, data.weight_profile, {
+        study_id: data.study_id,
+        arm_id: data.arm_id,
+        invite_id: data.invite_id,
+      });
+      if (data.participant_id) {
+        updateParticipant({ participant_id: data.participant_id });
+      }
+      router.push("/consent");
+    } catch (error) {
+      setJoinError(error instanceof Error ? error.message : "Unknown error");
+      setJoining(false);
+    }
+  };
 
   const startSession = () => {
     const pool = ["neutral", ...PERSONA_TAGS];
@@ -27,7 +95,14 @@ export default function HomePage() {
         ? pool[Math.floor(Math.random() * pool.length)]
         : selectedPersona;
     const condition: ConditionId = resolvedPersona === "neutral" ? "neutral" : "persona";
-    initSession(condition, condition === "persona" ? resolvedPersona : undefined);
+    // Counterbalanced links can pin the preference profile with ?profile=<id>.
+    const weightProfile = new URLSearchParams(window.location.search).get("profile");
+    initSession(
+      condition,
+      condition === "persona" ? resolvedPersona : undefined,
+      selectedDomain,
+      weightProfile ?? undefined
+    );
     router.push("/consent");
   };
 
@@ -68,46 +143,114 @@ export default function HomePage() {
               Each participant starts a fresh session, so multiple people can negotiate in parallel
               on different devices or browsers.
             </p>
+            <Link href="/resume" className="text-sm font-medium text-primary hover:underline">
+              Resume an interrupted session
+            </Link>
           </div>
         </div>
-        <Card className="glass-panel h-fit">
-          <CardHeader>
-            <CardTitle className="text-xl">Choose agent persona</CardTitle>
-            <CardDescription>Select the tone before starting a new session.</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            {personaOptions.map((option) => (
-              <button
-                key={option.id}
-                type="button"
-                onClick={() => setSelectedPersona(option.id)}
-                className={cn(
-                  "w-full rounded-2xl border-2 px-4 py-3 text-left transition-all",
-                  "bg-background/70 hover:border-primary/70 hover:bg-white/85",
-                  selectedPersona === option.id
-                    ? "border-primary bg-primary/10 shadow-soft ring-2 ring-primary/30"
-                    : "border-border/70"
-                )}
-              >
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-semibold text-foreground">{option.label}</span>
-                  <span
-                    className={cn(
-                      "text-[11px] font-semibold uppercase tracking-[0.18em]",
-                      selectedPersona === option.id ? "text-primary" : "text-muted-foreground"
-                    )}
-                  >
-                    {selectedPersona === option.id ? "Selected" : "Select"}
-                  </span>
+        {studyLink ? (
+          <Card className="glass-panel h-fit">
+            <CardHeader>
+              <CardTitle className="text-xl">Join the study</CardTitle>
+              <CardDescription>
+                You were invited to a study session. Your negotiation setup is assigned
+                automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {joinError ? (
+                <div className="rounded-xl border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                  {joinError}
+                </div>
+              ) : null}
+              <Button className="w-full" size="lg" onClick={joinStudy} disabled={joining}>
+                {joining ? "Starting..." : "Begin Session"}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="glass-panel h-fit">
+            <CardHeader>
+              <CardTitle className="text-xl">Choose agent persona</CardTitle>
+              <CardDescription>
+                Select the tone{domains.length > 1 ? " and domain" : ""} before starting a new
+                session.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {personaOptions.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setSelectedPersona(option.id)}
+                  className={cn(
+                    "w-full rounded-2xl border-2 px-4 py-3 text-left transition-all",
+                    "bg-background/70 hover:border-primary/70 hover:bg-white/85",
+                    selectedPersona === option.id
+                      ? "border-primary bg-primary/10 shadow-soft ring-2 ring-primary/30"
+                      : "border-border/70"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-foreground">{option.label}</span>
+                    <span
+                      className={cn(
+                        "text-[11px] font-semibold uppercase tracking-[0.18em]",
+                        selectedPersona === option.id ? "text-primary" : "text-muted-foreground"
+                      )}
+                    >
+                      {selectedPersona === option.id ? "Selected" : "Select"}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">{option.description}</p>
+                </button>
+              ))}
+              {domains.length > 1 ? (
+                <div className="space-y-3 pt-3">
+                  <div className="text-[11px] font-semibold uppercase tracking-[0.18em] text-muted-foreground">
+                    Negotiation domain
+                  </div>
+                  {domains.map((domain) => (
+                    <button
+                      key={domain.domain_id}
+                      type="button"
+                      onClick={() => setSelectedDomain(domain.domain_id)}
+                      className={cn(
+                        "w-full rounded-2xl border-2 px-4 py-3 text-left transition-all",
+                        "bg-background/70 hover:border-primary/70 hover:bg-white/85",
+                        selectedDomain === domain.domain_id
+                          ? "border-primary bg-primary/10 shadow-soft ring-2 ring-primary/30"
+                          : "border-border/70"
+                      )}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold text-foreground">
+                          {domain.label}
+                        </span>
+                        <span
+                          className={cn(
+                            "text-[11px] font-semibold uppercase tracking-[0.18em]",
+                            selectedDomain === domain.domain_id
+                              ? "text-primary"
+                              : "text-muted-foreground"
+                          )}
+                        >
+                          {selectedDomain === domain.domain_id ? "Selected" : "Select"}
+                        </span>
+                      </div>
+                      {domain.description ? (
+                        <p className="mt-1 text-xs text-muted-foreground">{domain.description}</p>
+                      ) : null}
+                    </button>
+                  ))}
                 </div>
-                <p className="mt-1 text-xs text-muted-foreground">{option.description}</p>
-              </button>
-            ))}
-            <Button className="mt-4 w-full" size="lg" onClick={startSession}>
-              Begin New Session
-            </Button>
-          </CardContent>
-        </Card>
+              ) : null}
+              <Button className="mt-4 w-full" size="lg" onClick={startSession}>
+                Begin New Session
+              </Button>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </LayoutShell>
   );
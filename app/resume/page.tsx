@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import LayoutShell from "@/components/LayoutShell";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ExperimentSession, NegotiationStateView } from "@/lib/types";
+import { useSessionStore, type StudyAssignmentView } from "@/store/useSessionStore";
+
+/** Page the participant left off on, judged from the restored log and the server state. */
+function resumePath(session: ExperimentSession, state: NegotiationStateView | null) {
+  if (session.survey || session.outcome.reason === "abort") return "/done";
+  if (session.outcome.reason) return "/survey";
+  if (state) return "/negotiate";
+  const logged = new Set(session.events.map((event) => event.type));
+  if (logged.has("instruction_ack")) return "/negotiate";
+  return logged.has("consent") ? "/instructions" : "/consent";
+}
+
+export default function ResumePage() {
+  const router = useRouter();
+  const { restoreSession, applyStudyAssignment, addEvent } = useSessionStore();
+  const [participantId, setParticipantId] = useState("");
+  const [resumeCode, setResumeCode] = useState("");
+  const [resuming, setResuming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resume = useCallback(
+    async (lookup: { invite: string } | { participant_id: string; resume_code?: string }) => {
+      setResuming(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/sessions/resume", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(lookup),
+        });
+        const data = (await response.json()) as {
+          session?: ExperimentSession;
+          state?: NegotiationStateView | null;
+          study?: StudyAssignmentView | null;
+          error?: string;
+        };
+        if (!response.ok || !data.session) {
+          throw new Error(data.error ?? `Resume failed: ${response.status}`);
+        }
+        const state = data.state ?? null;
+        restoreSession(data.session, state);
+        if (data.study) {
+          applyStudyAssignment(data.study);
+        }
+        addEvent("resume", {
+          via: "invite" in lookup ? "invite" : "participant_id",
+          deadline_remaining: state?.deadline_remaining,
+        });
+        router.replace(resumePath(data.session, state));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+        setResuming(false);
+      }
+    },
+    [addEvent, applyStudyAssignment, restoreSession, router]
+  );
+
+  useEffect(() => {
+    // Invitation links that were already used land here and resume straight away.
+    const invite = new URLSearchParams(window.location.search).get("invite");
+    if (invite) {
+      void resume({ invite });
+    }
+  }, [resume]);
+
+  return (
+    <LayoutShell className="max-w-xl">
+      <Card className="glass-panel">
+        <CardHeader>
+          <CardTitle className="text-2xl">Resume your session</CardTitle>
+          <CardDescription>
+            Continue a negotiation that was interrupted, on this or another device. The negotiation
+            clock kept running while you were away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (participantId.trim()) {
+                void resume({
+                  participant_id: participantId.trim(),
+                  resume_code: resumeCode.trim() || undefined,
+                });
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="participant-id">Participant ID</Label>
+              <Input
+                id="participant-id"
+                value={participantId}
+                onChange={(event) => setParticipantId(event.target.value)}
+                placeholder="Shown on the consent page"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="resume-code">Resume code (study sessions)</Label>
+              <Input
+                id="resume-code"
+                value={resumeCode}
+                onChange={(event) => setResumeCode(event.target.value)}
+                placeholder="Shown next to your ID during the negotiation"
+                className="font-mono"
+              />
+            </div>
+            {error ? (
+              <div className="rounded-xl border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                {error}
+              </div>
+            ) : null}
+            <Button type="submit" size="lg" className="w-full" disabled={resuming}>
+              {resuming ? "Restoring..." : "Resume Session"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </LayoutShell>
+  );
+}
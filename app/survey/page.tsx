@@ -8,7 +8,10 @@ import LayoutShell from "@/components/LayoutShell";
 import SurveyForm, { type SurveyValues } from "@/components/SurveyForm";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
-import { DEFAULT_DOMAIN, UTILITY_WEIGHTS } from "@/lib/config";
+import { DEFAULT_DOMAIN } from "@/lib/config";
+import { sessionWeights } from "@/lib/domains";
+import { formatIssueEntry, isChoiceIssue, issuePoints, roundPoints } from "@/lib/issues";
+import type { OfferAllocation } from "@/lib/types";
 import { computeUtilities, nowIso } from "@/lib/utils";
 import { usePageView } from "@/hooks/usePageView";
 import { useSessionStore } from "@/store/useSessionStore";
@@ -77,6 +80,7 @@ export default function SurveyPage() {
   };
 
   const issues = session?.config.issues ?? DEFAULT_DOMAIN.issues;
+  const weights = sessionWeights(session?.config);
   const agreedOffer = session?.outcome.agreed_offer;
   const allocationForDisplay = useMemo(() => {
     if (agreedOffer?.allocation) {
@@ -85,11 +89,12 @@ export default function SurveyPage() {
     return issues.reduce((acc, issue) => {
       acc[issue.key] = { human: 0, agent: 0 };
       return acc;
-    }, {} as Record<string, { human: number; agent: number }>);
+    }, {} as OfferAllocation);
   }, [agreedOffer, issues]);
   const totals = useMemo(() => {
     return issues.reduce(
       (acc, issue) => {
+        if (isChoiceIssue(issue)) return acc;
         const allocation = allocationForDisplay[issue.key];
         acc.human += allocation?.human ?? 0;
         acc.agent += allocation?.agent ?? 0;
@@ -100,7 +105,7 @@ export default function SurveyPage() {
     );
   }, [allocationForDisplay, issues]);
   const points = agreedOffer?.allocation
-    ? computeUtilities(agreedOffer.allocation, UTILITY_WEIGHTS)
+    ? computeUtilities(agreedOffer.allocation, weights, issues)
     : { human: 0, agent: 0, joint: 0 };
   const pieData = [
     { name: "You", value: totals.human },
@@ -217,10 +222,11 @@ export default function SurveyPage() {
               <div className="space-y-2">
                 {issues.map((issue) => {
                   const allocation = allocationForDisplay[issue.key];
-                  const humanWeight = UTILITY_WEIGHTS.human[issue.key] ?? 1;
-                  const agentWeight = UTILITY_WEIGHTS.agent[issue.key] ?? 1;
-                  const humanPoints = (allocation?.human ?? 0) * humanWeight;
-                  const agentPoints = (allocation?.agent ?? 0) * agentWeight;
+                  const points = issuePoints(issue, allocation, weights);
+                  const humanPoints = roundPoints(points.human);
+                  const agentPoints = roundPoints(points.agent);
+                  const choice =
+                    isChoiceIssue(issue) && allocation ? formatIssueEntry(issue, allocation) : null;
                   return (
                     <div
                       key={issue.key}
@@ -228,10 +234,10 @@ export default function SurveyPage() {
                     >
                       <div className="text-sm font-semibold text-foreground">{issue.label}</div>
                       <div className="text-right text-xs text-primary">
-                        {allocation?.human ?? 0} units · {humanPoints} pts
+                        {choice ?? `${allocation?.human ?? 0} units`} · {humanPoints} pts
                       </div>
                       <div className="text-right text-xs text-amber-700">
-                        {allocation?.agent ?? 0} units · {agentPoints} pts
+                        {choice ?? `${allocation?.agent ?? 0} units`} · {agentPoints} pts
                       </div>
                     </div>
                   );
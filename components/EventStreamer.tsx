@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect } from "react";
+
+import { useSessionStore } from "@/store/useSessionStore";
+
+const FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Streams logged events to the server while a session runs: every few seconds, and by
+ * beacon when the tab is hidden or closed, so abandoned sessions still leave a log.
+ * Renders nothing.
+ */
+export default function EventStreamer() {
+  const flushEvents = useSessionStore((state) => state.flushEvents);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => flushEvents(), FLUSH_INTERVAL_MS);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        flushEvents({ beacon: true });
+      }
+    };
+    const onPageHide = () => flushEvents({ beacon: true });
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("pagehide", onPageHide);
+    };
+  }, [flushEvents]);
+
+  return null;
+}
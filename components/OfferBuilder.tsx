@@ -5,12 +5,19 @@ import { Loader2, Minus, Plus, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
-import { UTILITY_WEIGHTS } from "@/lib/config";
-import type { Issue, OfferAllocation } from "@/lib/types";
+import {
+  describeIssueValue,
+  isChoiceIssue,
+  issueOptions,
+  issuePoints,
+  roundPoints,
+} from "@/lib/issues";
+import type { Issue, OfferAllocation, UtilityWeights } from "@/lib/types";
 import { clamp, computeUtilities } from "@/lib/utils";
 
 export default function OfferBuilder({
   issues,
+  weights,
   draft,
   onChange,
   disabled,
@@ -19,6 +26,7 @@ export default function OfferBuilder({
   isProposing,
 }: {
   issues: Issue[];
+  weights: UtilityWeights;
   draft: OfferAllocation;
   onChange: (allocation: OfferAllocation) => void;
   disabled?: boolean;
@@ -28,6 +36,7 @@ export default function OfferBuilder({
 }) {
   const totals = issues.reduce(
     (acc, issue) => {
+      if (isChoiceIssue(issue)) return acc;
       const allocation = draft[issue.key] ?? { human: 0, agent: issue.total };
       acc.human += allocation.human;
       acc.agent += allocation.agent;
@@ -36,7 +45,7 @@ export default function OfferBuilder({
     },
     { human: 0, agent: 0, total: 0 }
   );
-  const utilities = computeUtilities(draft, UTILITY_WEIGHTS);
+  const utilities = computeUtilities(draft, weights, issues);
 
   const updateIssue = (issue: Issue, humanValue: number) => {
     const clamped = clamp(humanValue, 0, issue.total);
@@ -45,6 +54,10 @@ export default function OfferBuilder({
     onChange(next);
   };
 
+  const selectOption = (issue: Issue, option: string) => {
+    onChange({ ...draft, [issue.key]: { human: 0, agent: 0, option } });
+  };
+
   return (
     <Card className="glass-panel">
       <CardHeader className="pb-4">
@@ -93,10 +106,52 @@ export default function OfferBuilder({
         </div>
         {issues.map((issue) => {
           const allocation = draft[issue.key] ?? { human: 0, agent: issue.total };
-          const humanWeight = UTILITY_WEIGHTS.human[issue.key] ?? 1;
-          const agentWeight = UTILITY_WEIGHTS.agent[issue.key] ?? 1;
-          const humanPoints = allocation.human * humanWeight;
-          const agentPoints = allocation.agent * agentWeight;
+          const humanWeight = weights.human[issue.key] ?? 1;
+          const agentWeight = weights.agent[issue.key] ?? 1;
+          const points = issuePoints(issue, allocation, weights);
+          const humanPoints = roundPoints(points.human);
+          const agentPoints = roundPoints(points.agent);
+          if (isChoiceIssue(issue)) {
+            return (
+              <div key={issue.key} className="rounded-xl border border-border/60 bg-background/70 p-4">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <div className="text-sm font-semibold text-foreground">{issue.label}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Pick one option for both sides
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <span className="rounded-full bg-sky-50 px-2 py-1 text-sky-700">
+                      You {humanPoints} pts
+                    </span>
+                    <span className="rounded-full bg-amber-50 px-2 py-1 text-amber-700">
+                      Agent {agentPoints} pts
+                    </span>
+                  </div>
+                </div>
+                <div className="mt-2 text-xs text-muted-foreground">
+                  You: {describeIssueValue(issue, weights, "human")}
+                </div>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {issueOptions(issue).map((option) => (
+                    <Button
+                      key={option.key}
+                      type="button"
+                      size="sm"
+                      variant={allocation.option === option.key ? "default" : "outline"}
+                      disabled={disabled}
+                      aria-pressed={allocation.option === option.key}
+                      onClick={() => selectOption(issue, option.key)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            );
+          }
+          const curved = issue.curve?.kind === "diminishing";
           return (
             <div key={issue.key} className="rounded-xl border border-border/60 bg-background/70 p-4">
               <div className="flex flex-wrap items-start justify-between gap-3">
@@ -115,13 +170,19 @@ export default function OfferBuilder({
               </div>
               <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
                 <span className="whitespace-nowrap">
-                  You: {allocation.human} units × {humanWeight} pts ={" "}
-                  <span className="font-semibold text-sky-700">{humanPoints} pts</span>
+                  You: {allocation.human} units{" "}
+                  {curved
+                    ? `(${describeIssueValue(issue, weights, "human")})`
+                    : `× ${humanWeight} pts`}{" "}
+                  = <span className="font-semibold text-sky-700">{humanPoints} pts</span>
                 </span>
                 <span className="text-muted-foreground">•</span>
                 <span className="whitespace-nowrap">
-                  Agent: {allocation.agent} units × {agentWeight} pts ={" "}
-                  <span className="font-semibold text-amber-700">{agentPoints} pts</span>
+                  Agent: {allocation.agent} units{" "}
+                  {curved
+                    ? `(${describeIssueValue(issue, weights, "agent")})`
+                    : `× ${agentWeight} pts`}{" "}
+                  = <span className="font-semibold text-amber-700">{agentPoints} pts</span>
                 </span>
               </div>
               <div className="mt-3 flex items-center gap-3">
@@ -3,6 +3,7 @@
 import { UserRound, Wand2 } from "lucide-react";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatIssueEntry } from "@/lib/issues";
 import type { Issue, Offer } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
@@ -41,9 +42,7 @@ export default function OfferCard({
           return (
             <div key={issue.key} className="flex items-center justify-between rounded-lg bg-muted/50 px-3 py-2">
               <span className="font-medium text-foreground">{issue.label}</span>
-              <span className="text-muted-foreground">
-                Human {allocation.human} / Agent {allocation.agent}
-              </span>
+              <span className="text-muted-foreground">{formatIssueEntry(issue, allocation)}</span>
             </div>
           );
         })}
@@ -17,33 +17,7 @@ import {
 } from "recharts";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-type SummaryMetrics = {
-  sessions?: number;
-  agreement_rate: number | null;
-  avg_joint_utility: number | null;
-  avg_efficiency: number | null;
-  avg_fairness_index: number | null;
-  avg_nash_product?: number | null;
-  avg_nash_ratio: number | null;
-  avg_nash_distance?: number | null;
-  avg_pareto_distance?: number | null;
-  pareto_efficiency_rate: number | null;
-  avg_human_share?: number | null;
-  avg_human_utility_ratio?: number | null;
-  avg_agent_utility_ratio?: number | null;
-  avg_ks_gap?: number | null;
-  avg_acceptor_ratio?: number | null;
-  avg_offer_nash_distance?: number | null;
-  avg_offer_pareto_distance?: number | null;
-  avg_duration?: number | null;
-  avg_turns?: number | null;
-  avg_response: number | null;
-  avg_human_concession?: number | null;
-  avg_agent_concession?: number | null;
-  avg_burstiness?: number | null;
-  avg_cri?: number | null;
-};
+import type { SummaryMetrics } from "@/lib/analytics";
 
 type SummaryRow = SummaryMetrics & {
   condition_id: string;
@@ -165,6 +139,22 @@ const METRIC_SECTIONS: Array<{ title: string; metrics: MetricDefinition[] }> = [
         domain: [0, 1],
         tickFormatter: formatPercent,
       },
+      { key: "avg_human_surplus", title: "Human Surplus over BATNA", format: formatNumber },
+      { key: "avg_agent_surplus", title: "Agent Surplus over BATNA", format: formatNumber },
+      {
+        key: "human_below_batna_rate",
+        title: "Human Below-BATNA Rate",
+        format: formatPercent,
+        domain: [0, 1],
+        tickFormatter: formatPercent,
+      },
+      {
+        key: "agent_below_batna_rate",
+        title: "Agent Below-BATNA Rate",
+        format: formatPercent,
+        domain: [0, 1],
+        tickFormatter: formatPercent,
+      },
       {
         key: "avg_fairness_index",
         title: "Fairness Index",
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { downloadCsv } from "@/lib/utils";
+
+type CodeResult = {
+  code: string;
+  valid: boolean;
+  session_id?: string;
+  participant_id?: string;
+  study_id?: string | null;
+  arm_id?: string | null;
+  outcome_reason?: string | null;
+  stored_at?: string;
+};
+
+/** Checks pasted completion codes against stored sessions, e.g. before granting credit. */
+export default function CompletionCodeChecker() {
+  const [input, setInput] = useState("");
+  const [results, setResults] = useState<CodeResult[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkCodes = async () => {
+    const codes = input
+      .split(/[\n,;]+/)
+      .map((value) => value.trim())
+      .filter(Boolean);
+    if (!codes.length) return;
+    setChecking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/admin/completion-codes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ codes }),
+      });
+      const data = (await response.json()) as {
+        ok: boolean;
+        results?: CodeResult[];
+        error?: string;
+      };
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error ?? `Check failed: ${response.status}`);
+      }
+      setResults(data.results ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const validCount = results.filter((result) => result.valid).length;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border/60 bg-background/70 p-4">
+      <div className="text-base font-semibold text-foreground">Verify completion codes</div>
+      {error ? <div className="text-sm text-destructive">{error}</div> : null}
+      <div className="space-y-2">
+        <Label htmlFor="completion-codes">Codes (one per line)</Label>
+        <Textarea
+          id="completion-codes"
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          placeholder="7KQ2-M9XD"
+          className="font-mono text-xs"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={() => void checkCodes()} disabled={checking}>
+          {checking ? "Checking..." : "Check codes"}
+        </Button>
+        {results.length ? (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                downloadCsv("completion-codes.csv", [
+                  ["code", "valid", "participant_id", "session_id", "study_id", "arm_id"],
+                  ...results.map((result) => [
+                    result.code,
+                    result.valid ? "yes" : "no",
+                    result.participant_id,
+                    result.session_id,
+                    result.study_id,
+                    result.arm_id,
+                  ]),
+                ])
+              }
+            >
+              Download CSV
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {validCount} of {results.length} valid
+            </span>
+          </>
+        ) : null}
+      </div>
+      {results.length ? (
+        <div className="max-h-60 space-y-1 overflow-y-auto text-xs">
+          {results.map((result, index) => (
+            <div
+              key={`${result.code}-${index}`}
+              className="flex items-center justify-between gap-3 rounded-md border border-border/40 px-2 py-1"
+            >
+              <span className="font-mono text-foreground">{result.code}</span>
+              {result.valid ? (
+                <span className="text-muted-foreground">
+                  {result.participant_id} · {result.outcome_reason ?? "no outcome"}
+                  {result.study_id ? ` · ${result.study_id}/${result.arm_id}` : ""}
+                </span>
+              ) : (
+                <span className="text-destructive">
+                  {result.session_id
+                    ? `not credited · ${result.outcome_reason ?? "no outcome"}`
+                    : "not found"}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import type { ComparisonGrouping, MetricComparison } from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+
+type ConditionComparisonsProps = {
+  comparisons: MetricComparison[];
+};
+
+type ComparisonPair = {
+  key: string;
+  grouping: ComparisonGrouping;
+  groupA: string;
+  groupB: string;
+  rows: MetricComparison[];
+};
+
+const GROUPING_LABELS: Record<ComparisonGrouping, string> = {
+  condition: "Condition",
+  persona: "Persona",
+  arm: "Study arm",
+};
+
+const numberFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 3,
+});
+
+function formatNumber(value: number | null) {
+  return value === null ? "–" : numberFormatter.format(value);
+}
+
+function formatInterval(low: number | null, high: number | null) {
+  return low === null || high === null ? "" : `[${formatNumber(low)}, ${formatNumber(high)}]`;
+}
+
+function formatP(value: number | null) {
+  if (value === null) return "–";
+  return value < 0.001 ? "<0.001" : value.toFixed(3);
+}
+
+export default function ConditionComparisons({ comparisons }: ConditionComparisonsProps) {
+  const pairs = useMemo(() => {
+    const byKey = new Map<string, ComparisonPair>();
+    comparisons.forEach((row) => {
+      const key = `${row.grouping}|${row.group_a}|${row.group_b}`;
+      const pair = byKey.get(key) ?? {
+        key,
+        grouping: row.grouping,
+        groupA: row.group_a,
+        groupB: row.group_b,
+        rows: [],
+      };
+      pair.rows.push(row);
+      byKey.set(key, pair);
+    });
+    return [...byKey.values()];
+  }, [comparisons]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [significantOnly, setSignificantOnly] = useState(false);
+  // Falls back to the first pair when a refresh or filter change removes the selected one.
+  const active = pairs.find((pair) => pair.key === selected) ?? pairs[0];
+  const rows = active ? active.rows.filter((row) => !significantOnly || row.significant) : [];
+
+  if (!active) {
+    return (
+      <div className="rounded-xl border border-dashed border-border/70 bg-muted/30 px-4 py-6 text-sm text-muted-foreground">
+        Comparisons need sessions from at least two conditions, personas or study arms.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          aria-label="Comparison"
+          className="h-10 rounded-lg border border-input bg-background/70 px-3 text-sm shadow-sm"
+          value={active.key}
+          onChange={(event) => setSelected(event.target.value)}
+        >
+          {pairs.map((pair) => (
+            <option key={pair.key} value={pair.key}>
+              {GROUPING_LABELS[pair.grouping]}: {pair.groupA} vs {pair.groupB}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={significantOnly}
+            onChange={(event) => setSignificantOnly(event.target.checked)}
+          />
+          Significant only
+        </label>
+        <div className="text-xs text-muted-foreground">
+          Mean ± SD with 95% bootstrap CI; difference is {active.groupA} − {active.groupB}.
+          Permutation p-values, Holm-adjusted across the {active.rows.length} metrics.
+        </div>
+      </div>
+      <div
+        className="overflow-auto rounded-xl border border-border/60 bg-background/80"
+        style={{ maxHeight: "520px" }}
+      >
+        <table className="min-w-full border-collapse text-left text-xs">
+          <thead className="sticky top-0 bg-slate-900 text-slate-50">
+            <tr>
+              {[
+                "Metric",
+                active.groupA,
+                active.groupB,
+                "Difference",
+                "Cohen's d",
+                "p",
+                "p (Holm)",
+              ].map((column, index) => (
+                <th
+                  key={`${column}-${index}`}
+                  className={cn(
+                    "border-b border-slate-800 px-3 py-2 text-[11px] font-semibold uppercase tracking-[0.12em]",
+                    index === 0 ? "text-left" : "text-right"
+                  )}
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-[11px]">
+            {rows.map((row, rowIndex) => (
+              <tr
+                key={row.metric}
+                className={cn(
+                  row.significant
+                    ? "bg-emerald-50"
+                    : rowIndex % 2 === 0
+                      ? "bg-background"
+                      : "bg-muted/30",
+                  "border-b border-border/60"
+                )}
+              >
+                <td className="px-3 py-2 align-top font-medium text-foreground">{row.label}</td>
+                {[
+                  {
+                    mean: row.mean_a,
+                    sd: row.sd_a,
+                    low: row.ci_a_low,
+                    high: row.ci_a_high,
+                    n: row.n_a,
+                  },
+                  {
+                    mean: row.mean_b,
+                    sd: row.sd_b,
+                    low: row.ci_b_low,
+                    high: row.ci_b_high,
+                    n: row.n_b,
+                  },
+                ].map((group, index) => (
+                  <td key={index} className="px-3 py-2 text-right align-top text-foreground/90">
+                    <div>
+                      {formatNumber(group.mean)} ± {formatNumber(group.sd)}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {formatInterval(group.low, group.high)} n={group.n}
+                    </div>
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-right align-top text-foreground/90">
+                  <div>{formatNumber(row.diff)}</div>
+                  <div className="text-muted-foreground">
+                    {formatInterval(row.diff_ci_low, row.diff_ci_high)}
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-right align-top text-foreground/90">
+                  {formatNumber(row.cohens_d)}
+                </td>
+                <td className="px-3 py-2 text-right align-top text-foreground/90">
+                  {formatP(row.p_value)}
+                </td>
+                <td className="px-3 py-2 text-right align-top text-foreground/90">
+                  {row.significant ? (
+                    <Badge className="bg-emerald-100 text-emerald-700">{formatP(row.p_holm)}</Badge>
+                  ) : (
+                    formatP(row.p_holm)
+                  )}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-3 py-4 text-center text-muted-foreground">
+                  No metric differs significantly for this comparison.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Study, StudyInvite } from "@/lib/types";
+import { downloadCsv } from "@/lib/utils";
+
+type AdminInvite = StudyInvite & {
+  url: string;
+  submitted: boolean;
+  completion_code: string | null;
+};
+
+const selectClassName =
+  "flex h-10 w-full rounded-lg border border-input bg-background/70 px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+function inviteStatus(invite: AdminInvite) {
+  if (invite.submitted) return "submitted";
+  return invite.redeemed_at ? "started" : "issued";
+}
+
+/** Issues invitation links for a study and shows which invites have been used. */
+export default function InvitePanel({ study }: { study: Study }) {
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [roster, setRoster] = useState("");
+  const [count, setCount] = useState("10");
+  const [armId, setArmId] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const invitesUrl = `/api/admin/studies/${encodeURIComponent(study.study_id)}/invites`;
+
+  const loadInvites = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(invitesUrl, { cache: "no-store" });
+      const data = (await response.json()) as {
+        ok: boolean;
+        invites?: AdminInvite[];
+        error?: string;
+      };
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error ?? `Failed to load invites: ${response.status}`);
+      }
+      setInvites(data.invites ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [invitesUrl]);
+
+  useEffect(() => {
+    void loadInvites();
+  }, [loadInvites]);
+
+  const createInvites = async () => {
+    const participantIds = roster
+      .split(/[\s,;]+/)
+      .map((value) => value.trim())
+      .filter(Boolean);
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(invitesUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(participantIds.length
+            ? { participant_ids: participantIds }
+            : { count: Number(count) }),
+          arm_id: armId || undefined,
+        }),
+      });
+      const data = (await response.json()) as { ok: boolean; error?: string };
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error ?? `Failed to create invites: ${response.status}`);
+      }
+      setRoster("");
+      await loadInvites();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setLoading(false);
+    }
+  };
+
+  const used = invites.filter((invite) => invite.redeemed_at).length;
+  const submitted = invites.filter((invite) => invite.submitted).length;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+      <div className="grid gap-3 md:grid-cols-[2fr_1fr_1fr]">
+        <div className="space-y-2">
+          <Label htmlFor={`roster-${study.study_id}`}>Participant ids (one per line)</Label>
+          <Textarea
+            id={`roster-${study.study_id}`}
+            value={roster}
+            onChange={(event) => setRoster(event.target.value)}
+            placeholder="Leave empty to generate ids"
+            className="min-h-[72px] font-mono text-xs"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`count-${study.study_id}`}>Generated invites</Label>
+          <Input
+            id={`count-${study.study_id}`}
+            type="number"
+            min={1}
+            value={count}
+            disabled={Boolean(roster.trim())}
+            onChange={(event) => setCount(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`invite-arm-${study.study_id}`}>Arm</Label>
+          <select
+            id={`invite-arm-${study.study_id}`}
+            className={selectClassName}
+            value={armId}
+            onChange={(event) => setArmId(event.target.value)}
+          >
+            <option value="">Assigned by the study</option>
+            {study.arms.map((arm) => (
+              <option key={arm.arm_id} value={arm.arm_id}>
+                {arm.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={() => void createInvites()} disabled={loading}>
+          Create invites
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!invites.length}
+          onClick={() =>
+            downloadCsv(`invites-${study.study_id}.csv`, [
+              ["participant_id", "arm_id", "url", "status", "completion_code"],
+              ...invites.map((invite) => [
+                invite.participant_id,
+                invite.arm_id,
+                invite.url,
+                inviteStatus(invite),
+                invite.completion_code,
+              ]),
+            ])
+          }
+        >
+          Download CSV
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {invites.length} issued · {used} used · {submitted} submitted
+        </span>
+      </div>
+      {invites.length ? (
+        <div className="max-h-60 space-y-1 overflow-y-auto text-xs">
+          {invites.map((invite) => (
+            <div
+              key={invite.invite_id}
+              className="flex items-center justify-between gap-3 rounded-md border border-border/40 px-2 py-1"
+            >
+              <span className="font-mono text-foreground">{invite.participant_id}</span>
+              <span className="text-muted-foreground">
+                {inviteStatus(invite)}
+                {invite.arm_id ? ` · ${invite.arm_id}` : ""}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => void navigator.clipboard?.writeText(invite.url)}
+              >
+                Copy link
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
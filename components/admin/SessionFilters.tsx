@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/** Query parameters understood by `/api/admin/sessions` and `/api/admin/analytics`. */
+export type SessionFilterValues = {
+  from: string;
+  to: string;
+  condition: string;
+  persona: string;
+  outcome: string;
+  min_turns: string;
+  max_turns: string;
+  min_duration: string;
+  max_duration: string;
+  has_survey: string;
+  participant_id: string;
+  q: string;
+  /** Empty leaves simulated sessions out, as the server does by default. */
+  simulated: string;
+};
+
+export const EMPTY_SESSION_FILTERS: SessionFilterValues = {
+  from: "",
+  to: "",
+  condition: "",
+  persona: "",
+  outcome: "",
+  min_turns: "",
+  max_turns: "",
+  min_duration: "",
+  max_duration: "",
+  has_survey: "",
+  participant_id: "",
+  q: "",
+  simulated: "",
+};
+
+const OUTCOMES = ["agreement", "timeout", "turn_limit", "abort", "incomplete"];
+
+const selectClassName =
+  "h-10 w-full rounded-lg border border-input bg-background/70 px-3 text-sm shadow-sm";
+
+/** Adds the filters that are set to `params`. */
+export function appendSessionFilters(params: URLSearchParams, filters: SessionFilterValues) {
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value.trim()) {
+      params.set(key, value.trim());
+    }
+  });
+  return params;
+}
+
+export function activeFilterCount(filters: SessionFilterValues) {
+  return Object.values(filters).filter((value) => value.trim()).length;
+}
+
+/** Filter form for the admin analytics and session list; changes apply on submit. */
+export default function SessionFilters({
+  value,
+  personas,
+  onApply,
+}: {
+  value: SessionFilterValues;
+  personas: string[];
+  onApply: (filters: SessionFilterValues) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+
+  const field = (key: keyof SessionFilterValues) => ({
+    id: `filter-${key}`,
+    value: draft[key],
+    onChange: (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setDraft((prev) => ({ ...prev, [key]: event.target.value })),
+  });
+
+  return (
+    <form
+      className="space-y-4 rounded-xl border border-border/60 bg-background/70 p-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onApply(draft);
+      }}
+    >
+      <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="filter-from">Created from</Label>
+          <Input type="date" {...field("from")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-to">Created to</Label>
+          <Input type="date" {...field("to")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-condition">Condition</Label>
+          <select className={selectClassName} {...field("condition")}>
+            <option value="">Any</option>
+            <option value="neutral">neutral</option>
+            <option value="persona">persona</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-persona">Persona</Label>
+          <select className={selectClassName} {...field("persona")}>
+            <option value="">Any</option>
+            {personas.map((persona) => (
+              <option key={persona} value={persona}>
+                {persona}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-outcome">Outcome</Label>
+          <select className={selectClassName} {...field("outcome")}>
+            <option value="">Any</option>
+            {OUTCOMES.map((outcome) => (
+              <option key={outcome} value={outcome}>
+                {outcome}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-min_turns">Turns</Label>
+          <div className="flex gap-2">
+            <Input type="number" min={0} placeholder="min" {...field("min_turns")} />
+            <Input
+              type="number"
+              min={0}
+              placeholder="max"
+              aria-label="Maximum turns"
+              {...field("max_turns")}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-min_duration">Duration (s)</Label>
+          <div className="flex gap-2">
+            <Input type="number" min={0} placeholder="min" {...field("min_duration")} />
+            <Input
+              type="number"
+              min={0}
+              placeholder="max"
+              aria-label="Maximum duration"
+              {...field("max_duration")}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-has_survey">Survey</Label>
+          <select className={selectClassName} {...field("has_survey")}>
+            <option value="">Any</option>
+            <option value="true">Completed</option>
+            <option value="false">Missing</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-simulated">Simulated sessions</Label>
+          <select className={selectClassName} {...field("simulated")}>
+            <option value="">Leave out</option>
+            <option value="include">Include</option>
+            <option value="only">Only simulated</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-participant_id">Participant ID</Label>
+          <Input placeholder="contains..." {...field("participant_id")} />
+        </div>
+        <div className="space-y-1 md:col-span-2">
+          <Label htmlFor="filter-q">Chat search</Label>
+          <Input placeholder="Text in any chat message" {...field("q")} />
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => {
+            setDraft(EMPTY_SESSION_FILTERS);
+            onApply(EMPTY_SESSION_FILTERS);
+          }}
+        >
+          Clear filters
+        </Button>
+        <Button type="submit">Apply filters</Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,396 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Pause, Play, SkipBack, SkipForward } from "lucide-react";
+import {
+  CartesianGrid,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import type { ReplayStep, SessionReplay as Replay } from "@/lib/server/sessionReplay";
+import type { Issue } from "@/lib/types";
+import { clamp, cn, formatDuration, summarizeOffer } from "@/lib/utils";
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+// Real gaps between events drive playback, but idle stretches are shortened so a
+// participant reading the instructions for minutes does not stall the replay.
+const MIN_STEP_MS = 250;
+const MAX_STEP_MS = 3000;
+
+const COLORS = {
+  human: "#2563eb",
+  agent: "#f97316",
+  frontier: "#94a3b8",
+  nash: "#22c55e",
+  current: "#0f172a",
+};
+
+const STEP_LABELS: Record<ReplayStep["type"], string> = {
+  page_view: "Page view",
+  consent: "Consent",
+  instruction_ack: "Instructions acknowledged",
+  chat_send: "Participant message",
+  chat_receive: "Agent message",
+  offer_propose: "Participant offer",
+  offer_receive: "Agent offer",
+  offer_accept: "Offer accepted",
+  offer_reject: "Offer rejected",
+  timer_tick: "Timer",
+  error: "Error",
+  resume: "Resumed",
+  end: "Session ended",
+};
+
+function formatElapsed(ms: number) {
+  return formatDuration(ms / 1000);
+}
+
+function describeStep(step: ReplayStep) {
+  const payload = step.payload;
+  switch (step.type) {
+    case "page_view":
+      return payload.action === "exit"
+        ? `Left ${payload.path}${
+            typeof payload.duration_ms === "number"
+              ? ` after ${formatElapsed(payload.duration_ms)}`
+              : ""
+          }`
+        : `Opened ${payload.path}`;
+    case "offer_accept":
+    case "offer_reject":
+      return `${payload.by === "agent" ? "Agent" : "Participant"} ${
+        step.type === "offer_accept" ? "accepted" : "rejected"
+      } the ${step.offer?.by === "agent" ? "agent" : "participant"} offer`;
+    case "timer_tick":
+      return `${payload.remaining}s remaining`;
+    case "error":
+      return `${payload.source}: ${payload.message}`;
+    case "resume":
+      return `Resumed via ${payload.via === "invite" ? "invitation" : "participant ID"}`;
+    case "end":
+      return `Reason: ${payload.reason ?? "unknown"}`;
+    default:
+      return STEP_LABELS[step.type];
+  }
+}
+
+function StepBody({ step, issues }: { step: ReplayStep; issues: Issue[] }) {
+  if (step.type === "chat_send" || step.type === "chat_receive") {
+    const human = step.type === "chat_send";
+    return (
+      <div className={cn("flex", human ? "justify-end" : "justify-start")}>
+        <div
+          className={cn(
+            "max-w-[85%] rounded-2xl px-3 py-2 text-sm",
+            human ? "bg-primary/10 text-primary" : "bg-accent/10 text-accent"
+          )}
+        >
+          {String(step.payload.content ?? "")}
+        </div>
+      </div>
+    );
+  }
+
+  const offer = step.offer;
+  return (
+    <div className="space-y-1">
+      <div
+        className={cn(
+          "text-sm",
+          step.type === "error" ? "text-destructive" : "text-foreground",
+          step.type === "offer_accept" && "font-semibold text-emerald-600",
+          step.type === "offer_reject" && "font-semibold text-rose-600"
+        )}
+      >
+        {step.type === "offer_propose" || step.type === "offer_receive"
+          ? `${STEP_LABELS[step.type]}${offer ? `, turn ${offer.turn}` : ""}`
+          : describeStep(step)}
+      </div>
+      {offer ? (
+        <>
+          <div className="text-xs text-muted-foreground">
+            {summarizeOffer(offer.allocation, issues)}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span style={{ color: COLORS.human }}>Human {offer.utilities.human}</span>
+            <span style={{ color: COLORS.agent }}>Agent {offer.utilities.agent}</span>
+            <span className="text-muted-foreground">Joint {offer.utilities.joint}</span>
+            {offer.pareto_optimal ? (
+              <Badge className="bg-emerald-100 text-emerald-700">Pareto-optimal</Badge>
+            ) : null}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+/** Steps through one stored session's events, alongside its offers in utility space. */
+export default function SessionReplay({ filename }: { filename: string }) {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const currentRef = useRef<HTMLDivElement | null>(null);
+
+  const loadReplay = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/sessions/${encodeURIComponent(filename)}/replay`, {
+        cache: "no-store",
+      });
+      const data = (await response.json()) as { ok: boolean; replay?: Replay; error?: string };
+      if (!response.ok || !data.replay) {
+        throw new Error(data.error ?? `Load failed: ${response.status}`);
+      }
+      setReplay(data.replay);
+      setPosition(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }, [filename]);
+
+  useEffect(() => {
+    void loadReplay();
+  }, [loadReplay]);
+
+  const steps = useMemo(() => replay?.steps ?? [], [replay]);
+  const lastIndex = Math.max(steps.length - 1, 0);
+  const isPlaying = playing && position < lastIndex;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const gap = steps[position + 1].elapsed_ms - steps[position].elapsed_ms;
+    const timer = window.setTimeout(
+      () => setPosition((value) => Math.min(value + 1, lastIndex)),
+      clamp(gap, MIN_STEP_MS, MAX_STEP_MS) / speed
+    );
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, lastIndex, position, speed, steps]);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: "nearest" });
+  }, [position]);
+
+  const trajectory = useMemo(() => {
+    const points = steps
+      .slice(0, position + 1)
+      .filter((step) => step.type === "offer_propose" || step.type === "offer_receive")
+      .map((step) => ({
+        human: step.offer?.utilities.human ?? 0,
+        agent: step.offer?.utilities.agent ?? 0,
+        turn: step.offer?.turn ?? 0,
+        by: step.offer?.by ?? "human",
+      }));
+    return {
+      human: points.filter((point) => point.by === "human"),
+      agent: points.filter((point) => point.by === "agent"),
+    };
+  }, [position, steps]);
+
+  if (error) {
+    return (
+      <div className="rounded-xl border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+        {error}
+      </div>
+    );
+  }
+  if (!replay) {
+    return <div className="text-sm text-muted-foreground">Loading replay...</div>;
+  }
+  if (!steps.length) {
+    return <div className="text-sm text-muted-foreground">This session has no events.</div>;
+  }
+
+  const current = steps[position];
+  const currentOffer = current.offer
+    ? [{ human: current.offer.utilities.human, agent: current.offer.utilities.agent }]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span className="font-mono text-foreground">{replay.session_id}</span>
+        <span>Participant: {replay.participant_id}</span>
+        <span>
+          Condition: {replay.condition_id}
+          {replay.persona_tag ? ` (${replay.persona_tag})` : ""}
+        </span>
+        <span>Domain: {replay.domain_id}</span>
+        <span>Outcome: {replay.outcome.reason ?? "incomplete"}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPosition((value) => Math.max(value - 1, 0))}
+          disabled={position === 0}
+          aria-label="Previous event"
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => {
+            if (position >= lastIndex) setPosition(0);
+            setPlaying(!isPlaying);
+          }}
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPosition((value) => Math.min(value + 1, lastIndex))}
+          disabled={position >= lastIndex}
+          aria-label="Next event"
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+        <select
+          aria-label="Playback speed"
+          className="h-9 rounded-lg border border-input bg-background/70 px-2 text-sm shadow-sm"
+          value={speed}
+          onChange={(event) => setSpeed(Number(event.target.value))}
+        >
+          {SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}x
+            </option>
+          ))}
+        </select>
+        <div className="text-sm text-muted-foreground">
+          Event {position + 1} of {steps.length} · {formatElapsed(current.elapsed_ms)} /{" "}
+          {formatElapsed(steps[lastIndex].elapsed_ms)}
+        </div>
+      </div>
+
+      <Slider
+        aria-label="Replay position"
+        min={0}
+        max={lastIndex}
+        step={1}
+        value={[position]}
+        onValueChange={([value]) => setPosition(value)}
+      />
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_1.1fr]">
+        <div className="max-h-[420px] space-y-2 overflow-y-auto rounded-xl border border-border/60 bg-background/70 p-3">
+          {steps.slice(0, position + 1).map((step) => (
+            <div
+              key={step.event_id}
+              ref={step.index === position ? currentRef : undefined}
+              onClick={() => setPosition(step.index)}
+              className={cn(
+                "cursor-pointer rounded-lg border px-3 py-2 transition",
+                step.index === position
+                  ? "border-primary/60 bg-primary/5"
+                  : "border-transparent hover:border-border"
+              )}
+            >
+              <div className="mb-1 flex items-center justify-between text-[11px] uppercase text-muted-foreground">
+                <span>{STEP_LABELS[step.type]}</span>
+                <span>{formatElapsed(step.elapsed_ms)}</span>
+              </div>
+              <StepBody step={step} issues={replay.issues} />
+            </div>
+          ))}
+        </div>
+
+        <div className="h-[420px] rounded-xl border border-border/60 bg-background/70 p-3">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 10, right: 16, left: 0, bottom: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis
+                type="number"
+                dataKey="human"
+                name="Human utility"
+                tick={{ fill: "#475569", fontSize: 11 }}
+                label={{ value: "Human utility", position: "insideBottom", offset: -8 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="agent"
+                name="Agent utility"
+                tick={{ fill: "#475569", fontSize: 11 }}
+                label={{ value: "Agent utility", angle: -90, position: "insideLeft" }}
+              />
+              <ZAxis range={[50, 50]} />
+              <ZAxis zAxisId="frontier" range={[12, 12]} />
+              <Tooltip cursor={{ strokeDasharray: "3 3" }} />
+              <Legend verticalAlign="top" height={28} />
+              {replay.reservation.human > 0 ? (
+                <ReferenceLine
+                  x={replay.reservation.human}
+                  stroke={COLORS.human}
+                  strokeDasharray="4 4"
+                />
+              ) : null}
+              {replay.reservation.agent > 0 ? (
+                <ReferenceLine
+                  y={replay.reservation.agent}
+                  stroke={COLORS.agent}
+                  strokeDasharray="4 4"
+                />
+              ) : null}
+              <Scatter
+                name="Pareto frontier"
+                data={replay.frontier}
+                zAxisId="frontier"
+                fill={COLORS.frontier}
+                line={{ stroke: COLORS.frontier }}
+                shape="circle"
+                isAnimationActive={false}
+              />
+              {replay.nash ? (
+                <Scatter
+                  name="Nash point"
+                  data={[replay.nash]}
+                  fill={COLORS.nash}
+                  shape="diamond"
+                  isAnimationActive={false}
+                />
+              ) : null}
+              <Scatter
+                name="Participant offers"
+                data={trajectory.human}
+                fill={COLORS.human}
+                line={{ stroke: COLORS.human }}
+                isAnimationActive={false}
+              />
+              <Scatter
+                name="Agent offers"
+                data={trajectory.agent}
+                fill={COLORS.agent}
+                line={{ stroke: COLORS.agent }}
+                isAnimationActive={false}
+              />
+              <Scatter
+                name="Current offer"
+                data={currentOffer}
+                fill={COLORS.current}
+                shape="star"
+                isAnimationActive={false}
+              />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,488 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import InvitePanel from "@/components/admin/InvitePanel";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { listDomains } from "@/lib/domains";
+import type { Study } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+export type AdminStudy = Study & {
+  /** Stored (completed) sessions per arm. */
+  arm_counts: Record<string, number>;
+  /** Participants assigned per arm, including running and abandoned sessions. */
+  assigned_counts: Record<string, number>;
+  stratum_counts: Record<string, Record<string, number>>;
+};
+
+export type StudyOptions = {
+  personas: string[];
+  strategies: string[];
+  providers: string[];
+  algorithms: string[];
+  strata: string[];
+};
+
+type StudyManagerProps = {
+  studies: AdminStudy[];
+  options: StudyOptions;
+  onChanged: () => Promise<void> | void;
+};
+
+type ArmDraft = {
+  label: string;
+  persona_tag: string;
+  strategy: string;
+  provider: string;
+  model: string;
+  target_sessions: string;
+};
+
+const selectClassName =
+  "flex h-10 w-full rounded-lg border border-input bg-background/70 px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+function emptyArm(index: number): ArmDraft {
+  return {
+    label: `Arm ${index + 1}`,
+    persona_tag: "neutral",
+    strategy: "",
+    provider: "",
+    model: "",
+    target_sessions: "20",
+  };
+}
+
+function describeAssignment(study: Study) {
+  const assignment = study.assignment;
+  if (!assignment) return "least_filled";
+  return [
+    assignment.algorithm,
+    assignment.block_size ? `block ${assignment.block_size}` : null,
+    assignment.strata?.length ? `by ${assignment.strata.join(", ")}` : null,
+    `seed ${assignment.seed}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function describeArm(arm: Study["arms"][number]) {
+  return [
+    arm.persona_tag ?? "neutral",
+    arm.strategy ?? "llm",
+    arm.provider ? `${arm.provider}${arm.model ? `/${arm.model}` : ""}` : arm.model,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export default function StudyManager({ studies, options, onChanged }: StudyManagerProps) {
+  const domains = listDomains();
+  const [name, setName] = useState("");
+  const [domainId, setDomainId] = useState(domains[0]?.domain_id ?? "");
+  const [weightProfile, setWeightProfile] = useState("");
+  const [arms, setArms] = useState<ArmDraft[]>([emptyArm(0), emptyArm(1)]);
+  const [algorithm, setAlgorithm] = useState("block");
+  const [blockSize, setBlockSize] = useState("");
+  const [strata, setStrata] = useState<string[]>([]);
+  const [seed, setSeed] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [origin, setOrigin] = useState("");
+  const [invitesFor, setInvitesFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const domain = domains.find((entry) => entry.domain_id === domainId);
+
+  const updateArm = (index: number, updates: Partial<ArmDraft>) => {
+    setArms((prev) => prev.map((arm, i) => (i === index ? { ...arm, ...updates } : arm)));
+  };
+
+  const createStudy = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/admin/studies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          domain_id: domainId,
+          weight_profile: weightProfile || undefined,
+          assignment: {
+            algorithm,
+            block_size: blockSize ? Number(blockSize) : undefined,
+            strata,
+            seed: seed || undefined,
+          },
+          arms: arms.map((arm) => ({
+            label: arm.label,
+            persona_tag: arm.persona_tag,
+            strategy: arm.strategy || undefined,
+            provider: arm.provider || undefined,
+            model: arm.model || undefined,
+            target_sessions: Number(arm.target_sessions),
+          })),
+        }),
+      });
+      const data = (await response.json()) as { ok: boolean; error?: string };
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error ?? `Create failed: ${response.status}`);
+      }
+      setName("");
+      setArms([emptyArm(0), emptyArm(1)]);
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setStatus = async (study: Study, status: Study["status"]) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/studies/${encodeURIComponent(study.study_id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const data = (await response.json()) as { ok: boolean; error?: string };
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error ?? `Update failed: ${response.status}`);
+      }
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error ? (
+        <div className="rounded-xl border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="space-y-4">
+        {studies.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No studies created yet.</div>
+        ) : null}
+        {studies.map((study) => {
+          const link = `${origin}/?study=${study.study_id}`;
+          return (
+            <div
+              key={study.study_id}
+              className="space-y-3 rounded-xl border border-border/60 bg-background/70 p-4"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-foreground">{study.name}</span>
+                    <Badge
+                      className={
+                        study.status === "open"
+                          ? "bg-emerald-100 text-emerald-700"
+                          : "bg-slate-200 text-slate-700"
+                      }
+                    >
+                      {study.status}
+                    </Badge>
+                  </div>
+                  <div className="font-mono text-xs text-muted-foreground">
+                    {study.study_id} · {study.domain_id}
+                    {study.weight_profile ? ` · ${study.weight_profile}` : ""}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Assignment: {describeAssignment(study)}
+                  </div>
+                  <div className="break-all font-mono text-xs text-foreground">{link}</div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => void navigator.clipboard?.writeText(link)}
+                  >
+                    Copy link
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setInvitesFor(invitesFor === study.study_id ? null : study.study_id)
+                    }
+                  >
+                    Invites
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      void setStatus(study, study.status === "open" ? "closed" : "open")
+                    }
+                  >
+                    {study.status === "open" ? "Close" : "Reopen"}
+                  </Button>
+                </div>
+              </div>
+              <div className="grid gap-2 md:grid-cols-2">
+                {study.arms.map((arm) => {
+                  const count = study.arm_counts[arm.arm_id] ?? 0;
+                  const assigned = study.assigned_counts[arm.arm_id] ?? 0;
+                  return (
+                    <div
+                      key={arm.arm_id}
+                      className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2"
+                    >
+                      <div>
+                        <div className="text-sm font-semibold text-foreground">
+                          {arm.label}{" "}
+                          <span className="font-mono text-xs text-muted-foreground">
+                            {arm.arm_id}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">{describeArm(arm)}</div>
+                      </div>
+                      <div className="text-right">
+                        <div
+                          className={cn(
+                            "text-sm font-semibold",
+                            count >= arm.target_sessions ? "text-emerald-600" : "text-foreground"
+                          )}
+                        >
+                          {count}/{arm.target_sessions}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{assigned} assigned</div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {study.assignment?.algorithm === "stratified_block" &&
+              Object.keys(study.stratum_counts).length ? (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  {Object.entries(study.stratum_counts).map(([stratum, counts]) => (
+                    <div key={stratum}>
+                      <span className="font-mono">{stratum}</span>:{" "}
+                      {study.arms
+                        .map((arm) => `${arm.arm_id} ${counts[arm.arm_id] ?? 0}`)
+                        .join(", ")}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              {invitesFor === study.study_id ? <InvitePanel study={study} /> : null}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-4 rounded-xl border border-dashed border-border/70 p-4">
+        <div className="text-base font-semibold text-foreground">New study</div>
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="study-name">Name</Label>
+            <Input
+              id="study-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Spring 2026 persona study"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="study-domain">Domain</Label>
+            <select
+              id="study-domain"
+              className={selectClassName}
+              value={domainId}
+              onChange={(event) => {
+                setDomainId(event.target.value);
+                setWeightProfile("");
+              }}
+            >
+              {domains.map((entry) => (
+                <option key={entry.domain_id} value={entry.domain_id}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="study-profile">Weight profile</Label>
+            <select
+              id="study-profile"
+              className={selectClassName}
+              value={weightProfile}
+              onChange={(event) => setWeightProfile(event.target.value)}
+              disabled={!domain?.weight_profiles?.length}
+            >
+              <option value="">
+                {domain?.weight_profiles?.length ? "Random per participant" : "Domain weights"}
+              </option>
+              {domain?.weight_profiles?.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="study-algorithm">Assignment</Label>
+            <select
+              id="study-algorithm"
+              className={selectClassName}
+              value={algorithm}
+              onChange={(event) => setAlgorithm(event.target.value)}
+            >
+              {options.algorithms.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="study-block-size">Block size</Label>
+            <Input
+              id="study-block-size"
+              type="number"
+              min={1}
+              placeholder={`${arms.length} (one per arm)`}
+              value={blockSize}
+              onChange={(event) => setBlockSize(event.target.value)}
+              disabled={algorithm === "least_filled"}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="study-seed">Seed</Label>
+            <Input
+              id="study-seed"
+              placeholder="Random"
+              value={seed}
+              onChange={(event) => setSeed(event.target.value)}
+            />
+          </div>
+        </div>
+        {algorithm === "stratified_block" ? (
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="text-muted-foreground">Stratify by</span>
+            {options.strata.map((field) => (
+              <label key={field} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={strata.includes(field)}
+                  onChange={(event) =>
+                    setStrata((prev) =>
+                      event.target.checked
+                        ? [...prev, field]
+                        : prev.filter((value) => value !== field)
+                    )
+                  }
+                />
+                {field}
+              </label>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="space-y-3">
+          {arms.map((arm, index) => (
+            <div
+              key={index}
+              className="grid gap-2 rounded-lg border border-border/50 p-3 md:grid-cols-[1.2fr_1.2fr_1fr_1fr_1fr_0.6fr_auto]"
+            >
+              <Input
+                aria-label="Arm label"
+                value={arm.label}
+                onChange={(event) => updateArm(index, { label: event.target.value })}
+              />
+              <select
+                aria-label="Persona"
+                className={selectClassName}
+                value={arm.persona_tag}
+                onChange={(event) => updateArm(index, { persona_tag: event.target.value })}
+              >
+                <option value="neutral">neutral</option>
+                {options.personas.map((persona) => (
+                  <option key={persona} value={persona}>
+                    {persona}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Strategy"
+                className={selectClassName}
+                value={arm.strategy}
+                onChange={(event) => updateArm(index, { strategy: event.target.value })}
+              >
+                <option value="">LLM decides</option>
+                {options.strategies.map((strategy) => (
+                  <option key={strategy} value={strategy}>
+                    {strategy}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="LLM provider"
+                className={selectClassName}
+                value={arm.provider}
+                onChange={(event) => updateArm(index, { provider: event.target.value })}
+              >
+                <option value="">Default provider</option>
+                {options.providers.map((provider) => (
+                  <option key={provider} value={provider}>
+                    {provider}
+                  </option>
+                ))}
+              </select>
+              <Input
+                aria-label="Model"
+                placeholder="Default model"
+                value={arm.model}
+                onChange={(event) => updateArm(index, { model: event.target.value })}
+              />
+              <Input
+                aria-label="Target sessions"
+                type="number"
+                min={1}
+                value={arm.target_sessions}
+                onChange={(event) => updateArm(index, { target_sessions: event.target.value })}
+              />
+              <Button
+                variant="outline"
+                onClick={() => setArms((prev) => prev.filter((_, i) => i !== index))}
+                disabled={arms.length === 1}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setArms((prev) => [...prev, emptyArm(prev.length)])}
+          >
+            Add arm
+          </Button>
+          <Button onClick={() => void createStudy()} disabled={saving || !name.trim()}>
+            {saving ? "Creating..." : "Create study"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,18 @@
-import { UTILITY_WEIGHTS } from "@/lib/config";
-import type { Issue, Offer, OfferAllocation } from "@/lib/types";
+import {
+  isChoiceIssue,
+  issueOptions,
+  resolveIssueOption,
+  roundPoints,
+  validateIssueEntry,
+} from "@/lib/issues";
+import { callLlm, type LlmCallOptions } from "@/lib/llm";
+import type {
+  Issue,
+  Offer,
+  OfferAllocation,
+  ReservationValues,
+  UtilityWeights,
+} from "@/lib/types";
 import { computeUtilities, offerToPlainText, summarizeOffer } from "@/lib/utils";
 
 const SYSTEM_PROMPT_CHAT =
@@ -8,18 +21,54 @@ const SYSTEM_PROMPT_CHAT =
 const SYSTEM_PROMPT_OFFER =
   "You are a negotiation agent in a multi-issue bargaining game. Output JSON only. Do not include markdown, code fences, or any extra text.";
 
-function formatWeightSummaryCompact(issues: Issue[]) {
+function formatIssueWeightCompact(issue: Issue, weight: number, role: "human" | "agent") {
+  if (isChoiceIssue(issue)) {
+    const values = issueOptions(issue)
+      .map((option) => `${option.key}:${roundPoints(option.value[role] * weight)}`)
+      .join("/");
+    return `${issue.key}=${values}`;
+  }
+  return issue.curve?.kind === "diminishing"
+    ? `${issue.key}=${weight}x${issue.curve.rate}^(n-1)`
+    : `${issue.key}=${weight}`;
+}
+
+function formatWeightSummaryCompact(issues: Issue[], weights: UtilityWeights) {
   const human = issues
-    .map((issue) => `${issue.key}=${UTILITY_WEIGHTS.human[issue.key] ?? 1}`)
+    .map((issue) => formatIssueWeightCompact(issue, weights.human[issue.key] ?? 1, "human"))
     .join(",");
   const agent = issues
-    .map((issue) => `${issue.key}=${UTILITY_WEIGHTS.agent[issue.key] ?? 1}`)
+    .map((issue) => formatIssueWeightCompact(issue, weights.agent[issue.key] ?? 1, "agent"))
     .join(",");
   return `weights human{${human}} agent{${agent}}`;
 }
 
+function formatRoleLine(reservation?: ReservationValues) {
+  const walkAway = reservation?.agent ?? 0;
+  if (walkAway <= 0) {
+    return "Role: negotiation agent. Goal: maximize agent utility. No deal by deadline/turn limit = 0.";
+  }
+  return `Role: negotiation agent. Goal: maximize agent utility. No deal by deadline/turn limit = ${walkAway} agent pts; never accept less.`;
+}
+
 function formatIssuesSummaryCompact(issues: Issue[]) {
-  return issues.map((issue) => `${issue.key}=${issue.total}`).join(",");
+  return issues
+    .map((issue) =>
+      isChoiceIssue(issue)
+        ? `${issue.key}=${issueOptions(issue)
+            .map((option) => option.key)
+            .join("|")}`
+        : `${issue.key}=${issue.total}`
+    )
+    .join(",");
+}
+
+/** Extra offer rule for domains with categorical or binary issues; empty otherwise. */
+function formatChoiceRule(issues: Issue[]) {
+  const choice = issues.find(isChoiceIssue);
+  if (!choice) return "";
+  const example = issueOptions(choice)[0]?.key ?? "option";
+  return `Issues listed as a|b|c take one option for both sides: ${choice.key}=${example} (object form {"option":"${example}"}).`;
 }
 
 function summarizeOfferByKey(offer: OfferAllocation, issues: Issue[]) {
@@ -27,6 +76,7 @@ function summarizeOfferByKey(offer: OfferAllocation, issues: Issue[]) {
     .map((issue) => {
       const entry = offer[issue.key];
       if (!entry) return "";
+      if (isChoiceIssue(issue)) return `${issue.key}=${entry.option ?? "?"}`;
       return `${issue.key} H${entry.human}/A${entry.agent}`;
     })
     .filter(Boolean)
@@ -61,6 +111,24 @@ function parseCompactOffer(text: string, issues: Issue[]) {
 
   for (const part of parts) {
     const cleaned = part.replace(/[.;]+$/g, "").replace(/^["']|["']$/g, "");
+    const optionMatch = cleaned.match(/^([a-zA-Z0-9_-]+)[:=]([a-zA-Z][a-zA-Z0-9_-]*)$/);
+    const choiceIssue = optionMatch
+      ? issues.find((issue) => issue.key === resolveIssueKey(optionMatch[1], issues))
+      : undefined;
+    if (optionMatch && choiceIssue && isChoiceIssue(choiceIssue)) {
+      if (seen.has(choiceIssue.key)) {
+        throw new Error(`Compact offer repeated issue "${choiceIssue.key}".`);
+      }
+      const option = resolveIssueOption(choiceIssue, optionMatch[2]);
+      if (!option) {
+        throw new Error(
+          `Compact offer used unknown option "${optionMatch[2]}" for "${choiceIssue.key}".`
+        );
+      }
+      allocation[choiceIssue.key] = { human: 0, agent: 0, option: option.key };
+      seen.add(choiceIssue.key);
+      continue;
+    }
     const match = cleaned.match(/^([a-zA-Z0-9_-]+)[:=]H(\d+)[\/-]?A(\d+)$/i);
     if (!match) {
       throw new Error(`Invalid compact offer segment "${part}".`);
@@ -72,6 +140,9 @@ function parseCompactOffer(text: string, issues: Issue[]) {
     if (seen.has(key)) {
       throw new Error(`Compact offer repeated issue "${key}".`);
     }
+    if (issues.some((issue) => issue.key === key && isChoiceIssue(issue))) {
+      throw new Error(`Compact offer must pick an option for "${key}".`);
+    }
     const human = Number.parseInt(match[2], 10);
     const agent = Number.parseInt(match[3], 10);
     if (Number.isNaN(human) || Number.isNaN(agent)) {
@@ -89,7 +160,7 @@ function parseCompactOffer(text: string, issues: Issue[]) {
     if (!entry || !seen.has(issue.key)) {
       throw new Error(`Compact offer missing issue "${issue.key}".`);
     }
-    if (entry.human + entry.agent !== issue.total) {
+    if (!isChoiceIssue(issue) && entry.human + entry.agent !== issue.total) {
       throw new Error(`Compact offer "${issue.key}" must sum to ${issue.total}.`);
     }
   });
@@ -100,6 +171,8 @@ function parseCompactOffer(text: string, issues: Issue[]) {
 export function buildGeminiOfferRepairPrompt(params: {
   personaTag?: string;
   issues: Issue[];
+  weights: UtilityWeights;
+  reservation?: ReservationValues;
   humanOffer?: Offer | null;
   historySummary?: string;
   decisionSummary?: string;
@@ -121,6 +194,7 @@ export function buildGeminiOfferRepairPrompt(params: {
     params.errorMessage ? `Parse_error=${params.errorMessage}` : "",
     rawSnippet,
     `Return JSON only with decision="counter" and an offer object using keys: ${issueKeys}.`,
+    formatChoiceRule(params.issues),
     "Do not use offer_compact. No extra text.",
   ]
     .filter(Boolean)
@@ -128,12 +202,20 @@ export function buildGeminiOfferRepairPrompt(params: {
   return { system: base.system, prompt };
 }
 
-export function buildFallbackOfferAllocation(issues: Issue[]) {
+export function buildFallbackOfferAllocation(issues: Issue[], weights: UtilityWeights) {
   const allocation: OfferAllocation = {};
   issues.forEach((issue) => {
-    const humanWeight = UTILITY_WEIGHTS.human[issue.key] ?? 1;
-    const agentWeight = UTILITY_WEIGHTS.agent[issue.key] ?? 1;
-    if (agentWeight > humanWeight) {
+    const humanWeight = weights.human[issue.key] ?? 1;
+    const agentWeight = weights.agent[issue.key] ?? 1;
+    if (isChoiceIssue(issue)) {
+      // Best option for the agent, ties broken by what the human gets.
+      const [best] = [...issueOptions(issue)].sort(
+        (a, b) =>
+          b.value.agent * agentWeight - a.value.agent * agentWeight ||
+          b.value.human * humanWeight - a.value.human * humanWeight
+      );
+      allocation[issue.key] = { human: 0, agent: 0, option: best?.key };
+    } else if (agentWeight > humanWeight) {
       allocation[issue.key] = { human: 0, agent: issue.total };
     } else if (humanWeight > agentWeight) {
       allocation[issue.key] = { human: issue.total, agent: 0 };
@@ -163,11 +245,11 @@ function extractJsonBlock(text: string) {
   return withoutFences.slice(start, end + 1);
 }
 
-function validateOfferAllocation(value: unknown, issues: Issue[]) {
+export function validateOfferAllocation(value: unknown, issues: Issue[]) {
   if (!value || typeof value !== "object") {
-    throw new Error("Gemini offer payload is missing or invalid.");
+    throw new Error("Offer payload is missing or invalid.");
   }
-  const raw = value as Record<string, { human?: number; agent?: number }>;
+  const raw = value as Record<string, { human?: number; agent?: number; option?: string }>;
   const normalizedKeyMap = new Map<string, string>();
   Object.keys(raw).forEach((key) => {
     normalizedKeyMap.set(normalizeIssueToken(key), key);
@@ -182,22 +264,11 @@ function validateOfferAllocation(value: unknown, issues: Issue[]) {
     if (!entry) {
       throw new Error(`Offer missing allocation for issue "${issue.key}".`);
     }
-    const human = entry.human;
-    const agent = entry.agent;
-    if (!Number.isInteger(human) || !Number.isInteger(agent)) {
-      throw new Error(`Offer values for "${issue.key}" must be integers.`);
-    }
-    const humanValue = Number(human);
-    const agentValue = Number(agent);
-    if (humanValue < 0 || agentValue < 0) {
-      throw new Error(`Offer values for "${issue.key}" must be non-negative.`);
-    }
-    if (humanValue + agentValue !== issue.total) {
-      throw new Error(
-        `Offer values for "${issue.key}" must sum to ${issue.total}.`
-      );
-    }
-    allocation[issue.key] = { human: humanValue, agent: agentValue };
+    // Models sometimes send a bare option string for choice issues.
+    allocation[issue.key] = validateIssueEntry(
+      issue,
+      typeof entry === "string" ? { option: entry } : entry
+    );
   });
   return allocation;
 }
@@ -243,6 +314,8 @@ export function parseGeminiOfferResponse(
 export function buildGeminiOfferPrompt(params: {
   personaTag?: string;
   issues: Issue[];
+  weights: UtilityWeights;
+  reservation?: ReservationValues;
   humanOffer?: Offer | null;
   historySummary?: string;
   decisionSummary?: string;
@@ -251,7 +324,7 @@ export function buildGeminiOfferPrompt(params: {
   turn?: number;
   maxTurns?: number;
 }) {
-  const weightsSummary = formatWeightSummaryCompact(params.issues);
+  const weightsSummary = formatWeightSummaryCompact(params.issues, params.weights);
   const issuesSummary = formatIssuesSummaryCompact(params.issues);
   const deadline = params.deadlineRemaining ? `deadline=${params.deadlineRemaining}s` : "";
   const turnInfo =
@@ -271,7 +344,7 @@ export function buildGeminiOfferPrompt(params: {
     : "";
 
   const prompt = [
-    "Role: negotiation agent. Goal: maximize agent utility. No deal by deadline/turn limit = 0.",
+    formatRoleLine(params.reservation),
     `persona=${params.personaTag ?? "neutral"}`,
     `issues{${issuesSummary}}`,
     weightsSummary,
@@ -283,6 +356,7 @@ export function buildGeminiOfferPrompt(params: {
     turnInfo,
     "Decision: accept or counter.",
     "Offer rules: use issue keys; integers only; each issue sums to total.",
+    formatChoiceRule(params.issues),
     "Output JSON only. Use compact offers to save tokens.",
     "{\"decision\":\"accept\"|\"counter\",\"message\":\"<=8 words\",\"offer_compact\":\"snacks=H6/A2,breaks=H3/A7,music=H4/A2,tickets=H2/A6\"}",
     "If you use offer (object) instead of offer_compact, it must use issue keys.",
@@ -297,6 +371,8 @@ export function buildGeminiOfferPrompt(params: {
 export function buildGeminiChatPrompt(params: {
   personaTag?: string;
   issues: Issue[];
+  weights: UtilityWeights;
+  reservation?: ReservationValues;
   currentOffer?: OfferAllocation | null;
   humanOffer?: Offer | null;
   historySummary?: string;
@@ -307,7 +383,7 @@ export function buildGeminiChatPrompt(params: {
   turn?: number;
   maxTurns?: number;
 }) {
-  const weightsSummary = formatWeightSummaryCompact(params.issues);
+  const weightsSummary = formatWeightSummaryCompact(params.issues, params.weights);
   const issuesSummary = formatIssuesSummaryCompact(params.issues);
   const history = params.historySummary ? `history: ${params.historySummary}` : "";
   const chatContext = params.chatContext?.length
@@ -326,7 +402,7 @@ export function buildGeminiChatPrompt(params: {
     : "";
 
   const prompt = [
-    "Role: negotiation agent. Goal: maximize agent utility. No deal by deadline/turn limit = 0.",
+    formatRoleLine(params.reservation),
     `persona=${params.personaTag ?? "neutral"}`,
     `issues{${issuesSummary}}`,
     weightsSummary,
@@ -351,39 +427,62 @@ export function buildGeminiChatPrompt(params: {
   return { system: SYSTEM_PROMPT_CHAT, prompt };
 }
 
-type GeminiCandidate = {
-  content?: {
-    parts?: Array<{ text?: string }>;
-    text?: string;
-  };
-  finishReason?: string;
-};
-
-type GeminiResult = {
-  text: string;
-  finishReason?: string;
-};
-
-export function extractGeminiResult(data: unknown): GeminiResult {
-  const candidates = (data as { candidates?: GeminiCandidate[] })?.candidates ?? [];
-  if (candidates.length === 0) {
-    return { text: "" };
-  }
+/**
+ * Prompt for strategy-controlled turns: the numbers are already decided by `lib/strategy`,
+ * the model only phrases the message in the session's persona.
+ */
+export function buildGeminiDecisionMessagePrompt(params: {
+  personaTag?: string;
+  issues: Issue[];
+  decision: "accept" | "counter";
+  offer?: OfferAllocation | null;
+  humanOffer?: Offer | null;
+  chatContext?: Array<{ role: string; content: string }>;
+  turn?: number;
+  maxTurns?: number;
+}) {
+  const chatContext = params.chatContext?.length
+    ? `chat: ${params.chatContext.map((entry) => `${entry.role}:${entry.content}`).join(" | ")}`
+    : "";
+  const turnInfo =
+    params.turn && params.maxTurns ? `turn=${params.turn}/${params.maxTurns}` : "";
+  const decisionLine =
+    params.decision === "accept"
+      ? "decision=accept the last human offer"
+      : `decision=counter with offer: ${
+          params.offer ? offerToPlainText(params.offer, params.issues) : "none"
+        }`;
 
-  const results = candidates.map((candidate) => {
-    const parts = candidate.content?.parts ?? [];
-    const partsText = parts.map((part) => part.text ?? "").join("");
-    const contentText = candidate.content?.text ?? "";
-    const text = (partsText || contentText || "").trim();
-    return { text, finishReason: candidate.finishReason };
-  });
+  const prompt = [
+    "Role: negotiation agent. The decision is already made; you only write the message.",
+    `persona=${params.personaTag ?? "neutral"}`,
+    params.humanOffer
+      ? `last_human_offer=${summarizeOffer(params.humanOffer.allocation, params.issues)}`
+      : "",
+    decisionLine,
+    chatContext,
+    turnInfo,
+    "Do not change, add or negotiate numbers beyond the decision above.",
+    "Message must reference the decision in natural language.",
+    "Respond in 1-2 sentences (<=30 words). No JSON/tables.",
+  ]
+    .filter(Boolean)
+    .join("\n");
 
-  results.sort((a, b) => b.text.length - a.text.length);
-  return results[0] ?? { text: "" };
+  return { system: SYSTEM_PROMPT_CHAT, prompt };
 }
 
-export function extractGeminiText(data: unknown) {
-  return extractGeminiResult(data).text;
+export function buildDecisionFallbackMessage(
+  decision: "accept" | "counter",
+  offer: OfferAllocation | null | undefined,
+  issues: Issue[]
+) {
+  if (decision === "accept") {
+    return "That works for me. I accept your offer.";
+  }
+  return offer
+    ? `Here is my counteroffer: ${summarizeOffer(offer, issues)}.`
+    : "Counteroffer based on priorities.";
 }
 
 export function isLikelyTruncated(text: string) {
@@ -393,177 +492,10 @@ export function isLikelyTruncated(text: string) {
   return false;
 }
 
-type GeminiApiErrorDetails = {
-  status?: number;
-  code?: string;
-  body?: string;
-};
-
-class GeminiApiError extends Error {
-  status?: number;
-  code?: string;
-  body?: string;
-  constructor(message: string, details?: GeminiApiErrorDetails) {
-    super(message);
-    this.name = "GeminiApiError";
-    this.status = details?.status;
-    this.code = details?.code;
-    this.body = details?.body;
-  }
-}
-
-const DEFAULT_MODEL_SEQUENCE = [
-  "gemini-3-flash-preview",
-  "gemini-2.5-flash",
-  "gemini-2.0-flash",
-];
-
-function normalizeModelName(name: string) {
-  return name.replace(/^models\//, "");
-}
-
-function buildModelSequence(preferred?: string, fallback?: string[]) {
-  const base = (fallback && fallback.length ? fallback : DEFAULT_MODEL_SEQUENCE).map(normalizeModelName);
-  if (!preferred) return base;
-  const normalized = normalizeModelName(preferred);
-  return [normalized, ...base.filter((entry) => entry !== normalized)];
-}
-
-function shouldFallback(error: unknown) {
-  if (!(error instanceof GeminiApiError)) return false;
-  if (error.status && [429, 503, 502, 504].includes(error.status)) return true;
-  const body = `${error.message} ${error.body ?? ""} ${error.code ?? ""}`.toLowerCase();
-  if (error.status === 404) {
-    return (
-      body.includes("not found for api version") ||
-      body.includes("not supported for generatecontent") ||
-      body.includes("not_found")
-    );
-  }
-  return (
-    body.includes("resource_exhausted") ||
-    body.includes("quota") ||
-    body.includes("rate limit") ||
-    body.includes("unavailable") ||
-    body.includes("overloaded")
-  );
-}
-
-export async function callGemini(
-  system: string,
-  prompt: string,
-  options?: {
-    temperature?: number;
-    maxOutputTokens?: number;
-    timeoutMs?: number;
-    failOnMaxTokens?: boolean;
-    responseMimeType?: string;
-    model?: string;
-    fallbackModels?: string[];
-  }
-) {
-  const apiKey = process.env.GOOGLE_AI_STUDIO_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing GOOGLE_AI_STUDIO_API_KEY (check .env.local)");
-  }
-
-  const timeoutMs = options?.timeoutMs ?? 60000;
-  const temperature = options?.temperature ?? 0.4;
-  const maxOutputTokens = options?.maxOutputTokens ?? 320000;
-  const responseMimeType = options?.responseMimeType;
-  const failOnMaxTokens = options?.failOnMaxTokens ?? true;
-  const modelSequence = buildModelSequence(options?.model, options?.fallbackModels);
-
-  let lastError: unknown = null;
-
-  for (const model of modelSequence) {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          signal: controller.signal,
-          body: JSON.stringify({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            systemInstruction: { parts: [{ text: system }] },
-            safetySettings: [
-              { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH" },
-              { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_ONLY_HIGH" },
-              { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_ONLY_HIGH" },
-              { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_ONLY_HIGH" },
-            ],
-            generationConfig: {
-              temperature,
-              maxOutputTokens,
-              ...(responseMimeType ? { responseMimeType } : {}),
-            },
-          }),
-        }
-      );
-      clearTimeout(timeout);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        let code: string | undefined;
-        let message = errorText;
-        try {
-          const parsed = JSON.parse(errorText);
-          code = parsed?.error?.status;
-          message = parsed?.error?.message ?? errorText;
-        } catch {
-          // keep raw text
-        }
-        const apiError = new GeminiApiError(
-          `Gemini API error (${response.status})`,
-          {
-            status: response.status,
-            code,
-            body: message,
-          }
-        );
-        if (shouldFallback(apiError)) {
-          lastError = apiError;
-          continue;
-        }
-        throw apiError;
-      }
-
-      const data = await response.json();
-      const { text, finishReason } = extractGeminiResult(data);
-      if (!text.trim()) {
-        lastError = new GeminiApiError("Gemini returned an empty response.", {
-          status: response.status,
-        });
-        continue;
-      }
-      if (finishReason === "MAX_TOKENS" && failOnMaxTokens) {
-        lastError = new GeminiApiError("Gemini response hit MAX_TOKENS limit.", {
-          status: response.status,
-        });
-        continue;
-      }
-      return { text, model };
-    } catch (error) {
-      clearTimeout(timeout);
-      if (error instanceof Error && error.name === "AbortError") {
-        lastError = error;
-        continue;
-      }
-      if (shouldFallback(error)) {
-        lastError = error;
-        continue;
-      }
-      throw error;
-    }
-  }
-
-  if (lastError instanceof Error) {
-    throw new Error(
-      `Gemini API failed across fallback models. Last error: ${lastError.message}`
-    );
-  }
-  throw new Error("Gemini API failed across fallback models.");
+/**
+ * Entry point kept for the `/api/gemini` proxy and older callers. Defaults to Gemini;
+ * pass `provider: "mock"` to run against the scripted fixtures instead.
+ */
+export async function callGemini(system: string, prompt: string, options?: LlmCallOptions) {
+  return callLlm(system, prompt, { provider: "gemini", ...options });
 }
@@ -0,0 +1,60 @@
+import { issueEntries } from "@/lib/issues";
+import type { Issue, OfferAllocation } from "@/lib/types";
+
+/**
+ * Enumerates every complete integer split of the issues (one entry per option for choice
+ * issues). The classroom domain has a few thousand combinations, so callers that need it
+ * repeatedly should cache by issue set.
+ */
+export function enumerateAllocations(issues: Issue[]) {
+  const results: OfferAllocation[] = [];
+  const recurse = (index: number, current: OfferAllocation) => {
+    if (index >= issues.length) {
+      results.push(JSON.parse(JSON.stringify(current)));
+      return;
+    }
+    const issue = issues[index];
+    for (const entry of issueEntries(issue)) {
+      current[issue.key] = entry;
+      recurse(index + 1, current);
+    }
+  };
+  recurse(0, {});
+  return results;
+}
+
+export function issueSetKey(issues: Issue[]) {
+  return JSON.stringify(
+    issues.map((issue) => ({
+      key: issue.key,
+      total: issue.total,
+      type: issue.type,
+      options: issue.options,
+      curve: issue.curve,
+    }))
+  );
+}
+
+/**
+ * Points not dominated on both utilities, ordered from the best for the human to the best
+ * for the agent.
+ */
+export function paretoFrontier<T extends { utilities: { human: number; agent: number } }>(
+  points: T[]
+) {
+  const sorted = [...points].sort((a, b) => {
+    if (b.utilities.human !== a.utilities.human) {
+      return b.utilities.human - a.utilities.human;
+    }
+    return b.utilities.agent - a.utilities.agent;
+  });
+  const frontier: T[] = [];
+  let maxAgent = -Infinity;
+  for (const point of sorted) {
+    if (point.utilities.agent > maxAgent) {
+      frontier.push(point);
+      maxAgent = point.utilities.agent;
+    }
+  }
+  return frontier;
+}
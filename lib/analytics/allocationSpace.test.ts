@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { getAllocationStats } from "@/lib/analytics/allocationSpace";
+import type { Issue, UtilityWeights } from "@/lib/types";
+
+// Two units each of two issues the roles value in opposite ways. With h_a and h_b the human's
+// units, human = 3 h_a + h_b and agent = (2 - h_a) + 3 (2 - h_b), giving nine allocations:
+//   h_a\h_b   0       1       2
+//   0       (0, 8)  (1, 5)  (2, 2)
+//   1       (3, 7)  (4, 4)  (5, 1)
+//   2       (6, 6)  (7, 3)  (8, 0)
+const issues: Issue[] = [
+  { key: "a", label: "A", total: 2 },
+  { key: "b", label: "B", total: 2 },
+];
+const weights: UtilityWeights = { human: { a: 3, b: 1 }, agent: { a: 1, b: 3 } };
+
+function utilityPairs(points: Array<{ utilities: { human: number; agent: number } }>) {
+  return points.map((point) => [point.utilities.human, point.utilities.agent]);
+}
+
+describe("getAllocationStats", () => {
+  const stats = getAllocationStats(issues, weights);
+
+  it("enumerates the whole space", () => {
+    expect(stats.sampled).toBe(false);
+    expect(stats.spaceSize).toBe(9);
+    expect(stats.allocations).toHaveLength(9);
+  });
+
+  it("finds the Pareto frontier from the human's best point to the agent's", () => {
+    expect(utilityPairs(stats.frontier)).toEqual([
+      [8, 0],
+      [7, 3],
+      [6, 6],
+      [3, 7],
+      [0, 8],
+    ]);
+    expect(stats.frontierSet.has("6|6")).toBe(true);
+    expect(stats.frontierSet.has("4|4")).toBe(false);
+  });
+
+  it("finds the Nash and fair points", () => {
+    expect(stats.nash.bestValue).toBe(36);
+    expect(stats.nash.best?.allocation).toEqual({
+      a: { human: 2, agent: 0 },
+      b: { human: 0, agent: 2 },
+    });
+    // (4, 4) and (6, 6) are both equal splits; the larger joint utility wins.
+    expect(stats.fair?.utilities).toEqual({ human: 6, agent: 6, joint: 12 });
+  });
+
+  it("reports the maximum utilities", () => {
+    expect(stats.maxJoint).toBe(12);
+    expect(stats.maxHuman).toBe(8);
+    expect(stats.maxAgent).toBe(8);
+  });
+
+  it("caches per issue set and weights", () => {
+    expect(getAllocationStats(issues, weights)).toBe(stats);
+    expect(getAllocationStats(issues, { human: { a: 1, b: 1 }, agent: { a: 1, b: 1 } })).not.toBe(
+      stats
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { enumerateAllocations, issueSetKey, paretoFrontier } from "@/lib/allocations";
+import { createRng, BOOTSTRAP_SEED } from "@/lib/analytics/statistics";
+import { issueEntries, maxJointIssuePoints } from "@/lib/issues";
+import type { Issue, OfferAllocation, UtilityWeights } from "@/lib/types";
+import { computeUtilities } from "@/lib/utils";
+
+export type WeightedUtility = { human: number; agent: number; joint: number };
+
+export type AllocationPoint = { allocation: OfferAllocation; utilities: WeightedUtility };
+
+export type AllocationStats = {
+  allocations: AllocationPoint[];
+  /** From the best point for the human to the best for the agent. */
+  frontier: AllocationPoint[];
+  /** `human|agent` utility pairs on the frontier. */
+  frontierSet: Set<string>;
+  nash: { best: AllocationPoint | null; bestValue: number };
+  fair: AllocationPoint | null;
+  maxJoint: number | null;
+  maxHuman: number | null;
+  maxAgent: number | null;
+  /** The space was too large to enumerate, so the points are a random sample. */
+  sampled: boolean;
+  spaceSize: number;
+};
+
+// Larger allocation spaces are sampled instead of enumerated.
+export const ALLOCATION_SAMPLE_THRESHOLD = 500000;
+const ALLOCATION_SAMPLE_SIZE = 20000;
+
+export function computeWeightedUtility(
+  allocation: OfferAllocation | null | undefined,
+  weights: UtilityWeights,
+  issues: Issue[]
+): WeightedUtility {
+  return computeUtilities(allocation || {}, weights, issues);
+}
+
+export function computeMaxJointUtility(issues: Issue[], weights: UtilityWeights) {
+  if (!issues.length) return null;
+  return issues.reduce((sum, issue) => sum + maxJointIssuePoints(issue, weights), 0);
+}
+
+function allocationSpaceSize(issues: Issue[]) {
+  if (!issues.length) return 0;
+  let product = 1;
+  for (const issue of issues) {
+    product *= issueEntries(issue).length;
+    if (product > ALLOCATION_SAMPLE_THRESHOLD) return product;
+  }
+  return product;
+}
+
+function sampleAllocations(issues: Issue[], sampleSize: number, rng: () => number) {
+  return Array.from({ length: sampleSize }, () => {
+    const allocation: OfferAllocation = {};
+    issues.forEach((issue) => {
+      const entries = issueEntries(issue);
+      allocation[issue.key] = entries[Math.floor(rng() * entries.length)];
+    });
+    return allocation;
+  });
+}
+
+export function computeNashPoint(points: AllocationPoint[]) {
+  let best: AllocationPoint | null = null;
+  let bestValue = -Infinity;
+  for (const point of points) {
+    const value = point.utilities.human * point.utilities.agent;
+    if (value > bestValue) {
+      bestValue = value;
+      best = point;
+    }
+  }
+  return { best, bestValue };
+}
+
+/** The most equal split of utility, preferring the larger joint utility on ties. */
+export function computeFairPoint(points: AllocationPoint[]) {
+  let best: AllocationPoint | null = null;
+  let bestGap = Infinity;
+  let bestJoint = -Infinity;
+  for (const point of points) {
+    const gap = Math.abs(point.utilities.human - point.utilities.agent);
+    if (gap < bestGap || (gap === bestGap && point.utilities.joint > bestJoint)) {
+      best = point;
+      bestGap = gap;
+      bestJoint = point.utilities.joint;
+    }
+  }
+  return best;
+}
+
+export function computeParetoDistance(
+  utilities: { human: number; agent: number },
+  frontier: AllocationPoint[]
+) {
+  if (!frontier.length) return null;
+  let min = Infinity;
+  frontier.forEach((point) => {
+    const distance = Math.sqrt(
+      (utilities.human - point.utilities.human) ** 2 +
+        (utilities.agent - point.utilities.agent) ** 2
+    );
+    if (distance < min) {
+      min = distance;
+    }
+  });
+  return Number.isFinite(min) ? min : null;
+}
+
+const allocationCache = new Map<string, AllocationStats>();
+
+/** Frontier, Nash and fair points of an issue set under the given weights; cached. */
+export function getAllocationStats(issues: Issue[], weights: UtilityWeights): AllocationStats {
+  const key = `${issueSetKey(issues)}|${JSON.stringify(weights)}`;
+  const cached = allocationCache.get(key);
+  if (cached) return cached;
+
+  const spaceSize = allocationSpaceSize(issues);
+  const sampled = spaceSize > ALLOCATION_SAMPLE_THRESHOLD;
+  const rawAllocations = sampled
+    ? sampleAllocations(issues, ALLOCATION_SAMPLE_SIZE, createRng(BOOTSTRAP_SEED))
+    : enumerateAllocations(issues);
+  const allocations = rawAllocations.map((allocation) => ({
+    allocation,
+    utilities: computeWeightedUtility(allocation, weights, issues),
+  }));
+  const frontier = paretoFrontier(allocations);
+  const stats: AllocationStats = {
+    allocations,
+    frontier,
+    frontierSet: new Set(
+      frontier.map((point) => `${point.utilities.human}|${point.utilities.agent}`)
+    ),
+    nash: computeNashPoint(allocations),
+    fair: computeFairPoint(allocations),
+    maxJoint: computeMaxJointUtility(issues, weights),
+    maxHuman: allocations.reduce((max, point) => Math.max(max, point.utilities.human), 0),
+    maxAgent: allocations.reduce((max, point) => Math.max(max, point.utilities.agent), 0),
+    sampled,
+    spaceSize,
+  };
+  allocationCache.set(key, stats);
+  return stats;
+}
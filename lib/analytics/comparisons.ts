@@ -0,0 +1,181 @@
+import {
+  sessionMetricValues,
+  type SessionMetricKey,
+  type SessionMetrics,
+} from "@/lib/analytics/sessionMetrics";
+import {
+  BOOTSTRAP_ITERATIONS,
+  BOOTSTRAP_SEED,
+  bootstrapCI,
+  bootstrapDiffCI,
+  cohensD,
+  holmAdjust,
+  permutationPValue,
+} from "@/lib/analytics/statistics";
+
+export type ComparisonGrouping = "condition" | "persona" | "arm";
+
+/** One metric compared between two groups of sessions; A - B for the difference. */
+export type MetricComparison = {
+  grouping: ComparisonGrouping;
+  group_a: string;
+  group_b: string;
+  metric: SessionMetricKey;
+  label: string;
+  n_a: number;
+  mean_a: number | null;
+  sd_a: number | null;
+  ci_a_low: number | null;
+  ci_a_high: number | null;
+  n_b: number;
+  mean_b: number | null;
+  sd_b: number | null;
+  ci_b_low: number | null;
+  ci_b_high: number | null;
+  diff: number | null;
+  diff_ci_low: number | null;
+  diff_ci_high: number | null;
+  cohens_d: number | null;
+  /** Two-sided permutation test of the difference in means. */
+  p_value: number | null;
+  /** Holm-adjusted over all metrics of the same pair of groups. */
+  p_holm: number | null;
+  significant: boolean;
+};
+
+export const COMPARISON_ALPHA = 0.05;
+
+// The metrics behind the summary columns, in the same order.
+const COMPARED_METRICS: Array<{ key: SessionMetricKey; label: string }> = [
+  { key: "agreement_rate", label: "Agreement Rate" },
+  { key: "joint_utility", label: "Joint Utility" },
+  { key: "efficiency", label: "Efficiency" },
+  { key: "fairness_index", label: "Fairness Index" },
+  { key: "nash_product", label: "Nash Product" },
+  { key: "nash_ratio", label: "Nash Ratio" },
+  { key: "nash_distance", label: "Nash Distance" },
+  { key: "pareto_distance", label: "Pareto Distance" },
+  { key: "pareto_efficiency_rate", label: "Pareto Efficiency Rate" },
+  { key: "human_share", label: "Human Share" },
+  { key: "human_utility_ratio", label: "Human Utility Ratio" },
+  { key: "agent_utility_ratio", label: "Agent Utility Ratio" },
+  { key: "ks_gap", label: "KS Gap" },
+  { key: "human_surplus", label: "Human Surplus" },
+  { key: "agent_surplus", label: "Agent Surplus" },
+  { key: "human_below_batna_rate", label: "Human Below-BATNA Rate" },
+  { key: "agent_below_batna_rate", label: "Agent Below-BATNA Rate" },
+  { key: "acceptor_ratio", label: "Acceptor Ratio" },
+  { key: "offer_nash_distance", label: "Offer Nash Distance" },
+  { key: "offer_pareto_distance", label: "Offer Pareto Distance" },
+  { key: "duration", label: "Duration (s)" },
+  { key: "turns", label: "Turns" },
+  { key: "response_latency", label: "Offer Response (s)" },
+  { key: "human_concession", label: "Human Concession" },
+  { key: "agent_concession", label: "Agent Concession" },
+  { key: "chat_burstiness", label: "Burstiness" },
+  { key: "cri", label: "CRI" },
+];
+
+type SessionGroup = { name: string; sessions: SessionMetrics[] };
+
+/** Every compared metric between two groups, with Holm correction across the metrics. */
+export function compareGroups(
+  grouping: ComparisonGrouping,
+  groupA: SessionGroup,
+  groupB: SessionGroup
+): MetricComparison[] {
+  const rows = COMPARED_METRICS.flatMap(({ key, label }) => {
+    const valuesA = sessionMetricValues(groupA.sessions, key);
+    const valuesB = sessionMetricValues(groupB.sessions, key);
+    if (!valuesA.length && !valuesB.length) return [];
+    const statsA = bootstrapCI(valuesA);
+    const statsB = bootstrapCI(valuesB, BOOTSTRAP_ITERATIONS, BOOTSTRAP_SEED + 5);
+    const diffCI = bootstrapDiffCI(valuesA, valuesB);
+    return [
+      {
+        grouping,
+        group_a: groupA.name,
+        group_b: groupB.name,
+        metric: key,
+        label,
+        n_a: valuesA.length,
+        mean_a: statsA.mean,
+        sd_a: statsA.std,
+        ci_a_low: statsA.ci_low,
+        ci_a_high: statsA.ci_high,
+        n_b: valuesB.length,
+        mean_b: statsB.mean,
+        sd_b: statsB.std,
+        ci_b_low: statsB.ci_low,
+        ci_b_high: statsB.ci_high,
+        diff: statsA.mean !== null && statsB.mean !== null ? statsA.mean - statsB.mean : null,
+        diff_ci_low: diffCI.ci_low,
+        diff_ci_high: diffCI.ci_high,
+        cohens_d: cohensD(valuesA, valuesB),
+        p_value: permutationPValue(valuesA, valuesB),
+        p_holm: null,
+        significant: false,
+      } satisfies MetricComparison,
+    ];
+  });
+  const adjusted = holmAdjust(rows.map((row) => row.p_value));
+  return rows.map((row, index) => {
+    const pHolm = adjusted[index];
+    return { ...row, p_holm: pHolm, significant: pHolm !== null && pHolm < COMPARISON_ALPHA };
+  });
+}
+
+function groupBy(sessions: SessionMetrics[], key: (metrics: SessionMetrics) => string) {
+  const groups = new Map<string, SessionMetrics[]>();
+  sessions.forEach((metrics) => {
+    const name = key(metrics);
+    if (!name) return;
+    groups.set(name, [...(groups.get(name) ?? []), metrics]);
+  });
+  return groups;
+}
+
+function pairs(groups: SessionGroup[]) {
+  return groups.flatMap((groupA, index) =>
+    groups.slice(index + 1).map((groupB) => [groupA, groupB] as const)
+  );
+}
+
+/**
+ * Pairwise comparisons between the arms of an experiment: every pair of conditions (neutral
+ * first), neutral against each persona tag, and every pair of study arms.
+ */
+export function buildComparisons(sessions: SessionMetrics[]): MetricComparison[] {
+  const conditionOrder = ["neutral", "persona"];
+  const conditions = [...groupBy(sessions, (metrics) => metrics.condition_id)]
+    .map(([name, members]) => ({ name, sessions: members }))
+    .sort((a, b) => {
+      const rankA = conditionOrder.indexOf(a.name);
+      const rankB = conditionOrder.indexOf(b.name);
+      if (rankA !== rankB) {
+        return (rankA === -1 ? Infinity : rankA) - (rankB === -1 ? Infinity : rankB);
+      }
+      return a.name.localeCompare(b.name);
+    });
+  const neutral = conditions.find((group) => group.name === "neutral");
+  const personas = [...groupBy(sessions, (metrics) => metrics.persona_tag)]
+    .map(([name, members]) => ({ name, sessions: members }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  // Arm ids are only unique within a study, so mixed studies keep the study in the name.
+  const singleStudy = new Set(sessions.map((metrics) => metrics.study_id)).size === 1;
+  const arms = [
+    ...groupBy(
+      sessions,
+      (metrics) =>
+        metrics.arm_id && (singleStudy ? metrics.arm_id : `${metrics.study_id}/${metrics.arm_id}`)
+    ),
+  ]
+    .map(([name, members]) => ({ name, sessions: members }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return [
+    ...pairs(conditions).flatMap(([groupA, groupB]) => compareGroups("condition", groupA, groupB)),
+    ...(neutral ? personas.flatMap((persona) => compareGroups("persona", neutral, persona)) : []),
+    ...pairs(arms).flatMap(([groupA, groupB]) => compareGroups("arm", groupA, groupB)),
+  ];
+}
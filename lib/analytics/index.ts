@@ -0,0 +1,12 @@
+/**
+ * Negotiation analytics shared by the admin analytics API, the Excel report and the admin
+ * dashboard: utilities and the allocation space (frontier, Nash and fair points), offer and
+ * concession series, per-session metrics, and the bootstrap and permutation statistics used to
+ * compare groups.
+ * Import from `@/lib/analytics`; the files behind it are not part of the API.
+ */
+export * from "@/lib/analytics/allocationSpace";
+export * from "@/lib/analytics/comparisons";
+export * from "@/lib/analytics/offers";
+export * from "@/lib/analytics/sessionMetrics";
+export * from "@/lib/analytics/statistics";
@@ -0,0 +1,302 @@
+import { computeWeightedUtility, type AllocationStats } from "@/lib/analytics/allocationSpace";
+import { average } from "@/lib/analytics/statistics";
+import { isChoiceIssue } from "@/lib/issues";
+import type {
+  ExperimentEvent,
+  ExperimentSession,
+  Issue,
+  Offer,
+  OfferAllocation,
+  UtilityWeights,
+} from "@/lib/types";
+
+type Role = "human" | "agent";
+
+export type TimedOffer = Offer & { t: string };
+
+export type ChatMessage = { role: Role; t: string; content: string };
+
+export type ConcessionRow = {
+  by: Role;
+  turn: number;
+  created_at: string;
+  own_utility: number;
+  opponent_utility: number;
+  joint_utility: number;
+  /** Previous own utility minus this one; null for a role's first offer. */
+  concession: number | null;
+  concession_pos: number | null;
+  toughen: number | null;
+  abs_move: number | null;
+  is_repeat_offer: boolean | null;
+  cumulative_concession: number | null;
+  own_share: number | null;
+};
+
+export type AnchorMetrics = {
+  anchor_own_u: number | null;
+  anchor_opp_u: number | null;
+  anchor_share: number | null;
+  dist_nash_L1: number | null;
+  dist_fair_L1: number | null;
+};
+
+export type ConcessionShapeMetrics = {
+  concede_sum: number;
+  toughen_sum: number;
+  concede_rate: number;
+  toughen_rate: number;
+  rigidity_flat_rate: number;
+  burstiness: number;
+  endload2: number;
+  endload3: number | null;
+  repeat_offer_rate: number;
+};
+
+// Own-utility moves smaller than this count as standing still.
+const EPS_DELTA = 1e-6;
+
+export function getEvents(session: ExperimentSession) {
+  return Array.isArray(session.events) ? session.events : [];
+}
+
+export function collectOffers(events: ExperimentEvent[]) {
+  return events
+    .filter((event) => event.type === "offer_propose" || event.type === "offer_receive")
+    .map((event) => {
+      const offer = (event.payload as { offer?: Offer })?.offer;
+      if (!offer?.allocation) return null;
+      return {
+        ...offer,
+        by: offer.by ?? (event.type === "offer_propose" ? "human" : "agent"),
+        t: event.t,
+      };
+    })
+    .filter((offer): offer is TimedOffer => Boolean(offer));
+}
+
+export function collectChats(events: ExperimentEvent[]): ChatMessage[] {
+  return events
+    .filter((event) => event.type === "chat_send" || event.type === "chat_receive")
+    .map((event) => ({
+      role: event.type === "chat_send" ? "human" : "agent",
+      t: event.t,
+      content: String((event.payload as { content?: string })?.content ?? ""),
+    }));
+}
+
+/** Seconds from each human offer to the agent's counter-offer on the next turn. */
+export function computeOfferLatencies(offers: TimedOffer[]) {
+  const pairs: number[] = [];
+  const byTurn = new Map<string, TimedOffer>();
+  offers.forEach((offer) => {
+    byTurn.set(`${offer.turn}-${offer.by}`, offer);
+  });
+  offers
+    .filter((offer) => offer.by === "human")
+    .forEach((offer) => {
+      const agentOffer = byTurn.get(`${offer.turn + 1}-agent`);
+      if (agentOffer?.created_at && offer.created_at) {
+        const latency = (Date.parse(agentOffer.created_at) - Date.parse(offer.created_at)) / 1000;
+        if (!Number.isNaN(latency)) {
+          pairs.push(latency);
+        }
+      }
+    });
+  return pairs;
+}
+
+function getOfferTime(offer: TimedOffer) {
+  const parsed = Date.parse(offer.created_at ?? offer.t ?? "");
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+export function sortOffers(offers: TimedOffer[]) {
+  return [...offers].sort((a, b) => {
+    const turnDiff = (a.turn ?? 0) - (b.turn ?? 0);
+    if (turnDiff !== 0) return turnDiff;
+    return getOfferTime(a) - getOfferTime(b);
+  });
+}
+
+/** Identifies identical allocations, e.g. to spot repeated offers. */
+export function buildAllocationKey(allocation: OfferAllocation | undefined, issues: Issue[]) {
+  return issues
+    .map((issue) => {
+      const split = allocation?.[issue.key] ?? { human: 0, agent: 0 };
+      if (isChoiceIssue(issue)) return `${issue.key}:${split.option ?? ""}`;
+      return `${issue.key}:${split.human}-${split.agent}`;
+    })
+    .join("|");
+}
+
+type RoleOffer = {
+  turn: number;
+  created_at: string;
+  own_utility: number;
+  opponent_utility: number;
+  joint_utility: number;
+  allocation_key: string;
+};
+
+function offersByRole(offers: TimedOffer[], weights: UtilityWeights, issues: Issue[]) {
+  const byRole: Record<Role, RoleOffer[]> = { human: [], agent: [] };
+  sortOffers(offers).forEach((offer) => {
+    if (!offer?.allocation || !offer?.by) return;
+    const utilities = computeWeightedUtility(offer.allocation, weights, issues);
+    byRole[offer.by].push({
+      turn: offer.turn,
+      created_at: offer.created_at ?? offer.t ?? "",
+      own_utility: offer.by === "human" ? utilities.human : utilities.agent,
+      opponent_utility: offer.by === "human" ? utilities.agent : utilities.human,
+      joint_utility: utilities.joint,
+      allocation_key: buildAllocationKey(offer.allocation, issues),
+    });
+  });
+  return byRole;
+}
+
+/** Per role and in turn order, how much each offer gives up in the offerer's own utility. */
+export function computeConcessions(
+  offers: TimedOffer[],
+  weights: UtilityWeights,
+  issues: Issue[]
+): ConcessionRow[] {
+  const rows: ConcessionRow[] = [];
+  Object.entries(offersByRole(offers, weights, issues)).forEach(([by, roleOffers]) => {
+    let previous: RoleOffer | null = null;
+    let cumulative = 0;
+    roleOffers.forEach((offer) => {
+      const concession = previous === null ? null : previous.own_utility - offer.own_utility;
+      cumulative += concession ?? 0;
+      rows.push({
+        by: by as Role,
+        turn: offer.turn,
+        created_at: offer.created_at,
+        own_utility: offer.own_utility,
+        opponent_utility: offer.opponent_utility,
+        joint_utility: offer.joint_utility,
+        concession,
+        concession_pos: concession === null ? null : Math.max(concession, 0),
+        toughen: concession === null ? null : Math.max(-concession, 0),
+        abs_move: concession === null ? null : Math.abs(concession),
+        is_repeat_offer:
+          previous === null ? null : previous.allocation_key === offer.allocation_key,
+        cumulative_concession: previous === null ? null : cumulative,
+        own_share: offer.joint_utility ? offer.own_utility / offer.joint_utility : null,
+      });
+      previous = offer;
+    });
+  });
+  return rows;
+}
+
+/** Each side's first offer: how much it claims and how far it sits from Nash and fair. */
+export function computeAnchors(
+  offers: TimedOffer[],
+  weights: UtilityWeights,
+  issues: Issue[],
+  allocationStats: AllocationStats | null
+): Record<Role, AnchorMetrics> {
+  const sorted = sortOffers(offers);
+  const nash = allocationStats?.nash.best?.utilities ?? null;
+  const fair = allocationStats?.fair?.utilities ?? null;
+
+  const forRole = (role: Role): AnchorMetrics => {
+    const offer = sorted.find((candidate) => candidate.by === role);
+    if (!offer?.allocation) {
+      return {
+        anchor_own_u: null,
+        anchor_opp_u: null,
+        anchor_share: null,
+        dist_nash_L1: null,
+        dist_fair_L1: null,
+      };
+    }
+    const utilities = computeWeightedUtility(offer.allocation, weights, issues);
+    const own = role === "human" ? utilities.human : utilities.agent;
+    const opp = role === "human" ? utilities.agent : utilities.human;
+    const distance = (point: { human: number; agent: number } | null) =>
+      point
+        ? Math.abs(utilities.human - point.human) + Math.abs(utilities.agent - point.agent)
+        : null;
+    return {
+      anchor_own_u: own,
+      anchor_opp_u: opp,
+      anchor_share: own / (own + opp + 1e-9),
+      dist_nash_L1: distance(nash),
+      dist_fair_L1: distance(fair),
+    };
+  };
+
+  return { human: forRole("human"), agent: forRole("agent") };
+}
+
+/** How each side moved between its own consecutive offers. */
+export function computeConcessionShapeMetrics(
+  offers: TimedOffer[],
+  weights: UtilityWeights,
+  issues: Issue[]
+): Record<Role, ConcessionShapeMetrics> {
+  const forRole = (roleOffers: RoleOffer[]): ConcessionShapeMetrics => {
+    const absMoves: number[] = [];
+    let concedeSum = 0;
+    let toughenSum = 0;
+    let concedeCount = 0;
+    let toughenCount = 0;
+    let flatCount = 0;
+    let repeatCount = 0;
+    for (let i = 1; i < roleOffers.length; i += 1) {
+      const delta = roleOffers[i - 1].own_utility - roleOffers[i].own_utility;
+      absMoves.push(Math.abs(delta));
+      if (delta > EPS_DELTA) {
+        concedeSum += delta;
+        concedeCount += 1;
+      } else if (delta < -EPS_DELTA) {
+        toughenSum += Math.abs(delta);
+        toughenCount += 1;
+      } else {
+        flatCount += 1;
+      }
+      if (roleOffers[i - 1].allocation_key === roleOffers[i].allocation_key) {
+        repeatCount += 1;
+      }
+    }
+
+    const denom = Math.max(1, absMoves.length);
+    const totalAbs = absMoves.reduce((sum, val) => sum + val, 0);
+    const meanAbs = average(absMoves) ?? 0;
+    const tail = (count: number) =>
+      absMoves.slice(-count).reduce((sum, val) => sum + val, 0) / (totalAbs + 1e-9);
+    return {
+      concede_sum: concedeSum,
+      toughen_sum: toughenSum,
+      concede_rate: concedeCount / denom,
+      toughen_rate: toughenCount / denom,
+      rigidity_flat_rate: flatCount / denom,
+      burstiness: absMoves.length ? Math.max(...absMoves) / (meanAbs + 1e-9) : 0,
+      endload2: absMoves.length ? tail(2) : 0,
+      endload3: absMoves.length > 2 ? tail(3) : null,
+      repeat_offer_rate: repeatCount / denom,
+    };
+  };
+
+  const byRole = offersByRole(offers, weights, issues);
+  return { human: forRole(byRole.human), agent: forRole(byRole.agent) };
+}
+
+/** Burstiness of message timing, (σ - μ) / (σ + μ) over the gaps between messages. */
+export function computeChatBurstiness(chats: Array<{ t: string }>) {
+  const times = chats
+    .map((chat) => Date.parse(chat.t))
+    .filter((time) => !Number.isNaN(time))
+    .sort((a, b) => a - b);
+  if (times.length < 2) return null;
+  const intervals = times.slice(1).map((time, idx) => (time - times[idx]) / 1000);
+  const mean = intervals.reduce((sum, value) => sum + value, 0) / intervals.length;
+  if (mean === 0) return null;
+  const variance =
+    intervals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / intervals.length;
+  const std = Math.sqrt(variance);
+  return (std - mean) / (std + mean);
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+
+import { buildOfferRows, computeSessionMetrics } from "@/lib/analytics/sessionMetrics";
+import { SESSION_SCHEMA_VERSION } from "@/lib/sessionSchema";
+import type {
+  ExperimentEvent,
+  ExperimentSession,
+  Issue,
+  Offer,
+  OfferAllocation,
+} from "@/lib/types";
+
+// The space of allocationSpace.test.ts: human = 3 h_a + h_b, agent = (2 - h_a) + 3 (2 - h_b);
+// Nash point (6, 6), frontier (8, 0) (7, 3) (6, 6) (3, 7) (0, 8), maximum joint utility 12.
+function split(humanA: number, humanB: number): OfferAllocation {
+  return {
+    a: { human: humanA, agent: 2 - humanA },
+    b: { human: humanB, agent: 2 - humanB },
+  };
+}
+
+function at(seconds: number) {
+  return new Date(Date.UTC(2026, 0, 1, 12, 0, seconds)).toISOString();
+}
+
+function offerEvent(turn: number, by: Offer["by"], allocation: OfferAllocation, seconds: number) {
+  const offer: Offer = { turn, by, allocation, created_at: at(seconds) };
+  return {
+    id: `offer-${turn}`,
+    t: at(seconds),
+    type: by === "human" ? "offer_propose" : "offer_receive",
+    payload: { offer },
+  } satisfies ExperimentEvent;
+}
+
+// Human (8, 0), agent (0, 8), human (7, 3), agent (4, 4), which the human accepts.
+const agreedOffer: Offer = { turn: 4, by: "agent", allocation: split(1, 1), created_at: at(25) };
+const events: ExperimentEvent[] = [
+  offerEvent(1, "human", split(2, 2), 0),
+  offerEvent(2, "agent", split(0, 0), 10),
+  offerEvent(3, "human", split(2, 1), 20),
+  offerEvent(4, "agent", split(1, 1), 25),
+  { id: "accept", t: at(30), type: "offer_accept", payload: { offer: agreedOffer, by: "human" } },
+];
+
+function buildSession(outcome: ExperimentSession["outcome"]): ExperimentSession {
+  return {
+    schema_version: SESSION_SCHEMA_VERSION,
+    session_id: "session-1",
+    created_at: at(0),
+    participant: { participant_id: "participant-1" },
+    config: {
+      domain_id: "test",
+      issues: [
+        { key: "a", label: "A", total: 2 },
+        { key: "b", label: "B", total: 2 },
+      ],
+      deadline_seconds: 300,
+      max_turns: 10,
+      weights: { human: { a: 3, b: 1 }, agent: { a: 1, b: 3 } },
+      reservation: { human: 2, agent: 5 },
+    },
+    condition: { id: "persona", persona_tag: "tough" },
+    events,
+    outcome,
+  };
+}
+
+describe("computeSessionMetrics", () => {
+  it("scores an agreement against the allocation space and the reservation values", () => {
+    const metrics = computeSessionMetrics(
+      buildSession({
+        reason: "agreement",
+        agreed_offer: agreedOffer,
+        turns: 4,
+        duration_seconds: 30,
+      })
+    );
+
+    expect(metrics).toMatchObject({
+      condition_id: "persona",
+      persona_tag: "tough",
+      agreement: true,
+      turns: 4,
+      duration_seconds: 30,
+      utilities: { human: 4, agent: 4, joint: 8 },
+      max_joint_utility: 12,
+      max_human_utility: 8,
+      max_agent_utility: 8,
+      fairness_index: 1,
+      nash_product: 16,
+      pareto_efficient: false,
+      human_share: 0.5,
+      human_utility_ratio: 0.5,
+      agent_utility_ratio: 0.5,
+      ks_gap: 0,
+      human_surplus: 2,
+      agent_surplus: -1,
+      human_below_batna: false,
+      agent_below_batna: true,
+      acceptor: "human",
+      acceptor_ratio: 0.5,
+      offer_latencies: [10, 5],
+      avg_response: 7.5,
+      allocation_sampled: false,
+    });
+    expect(metrics.efficiency).toBeCloseTo(8 / 12, 10);
+    expect(metrics.nash_ratio).toBeCloseTo(16 / 36, 10);
+    // (4, 4) is closest to (6, 6) on both counts.
+    expect(metrics.nash_distance).toBeCloseTo(Math.sqrt(8), 10);
+    expect(metrics.pareto_distance).toBeCloseTo(Math.sqrt(8), 10);
+    // Only the last offer is off the frontier.
+    expect(metrics.avg_offer_pareto_distance).toBeCloseTo(Math.sqrt(8) / 4, 10);
+  });
+
+  it("derives concessions from each side's own utility", () => {
+    const metrics = computeSessionMetrics(
+      buildSession({
+        reason: "agreement",
+        agreed_offer: agreedOffer,
+        turns: 4,
+        duration_seconds: 30,
+      })
+    );
+
+    // The human goes from 8 to 7 and the agent from 8 to 4.
+    expect(
+      metrics.concessions.map((row) => [row.by, row.turn, row.own_utility, row.concession])
+    ).toEqual([
+      ["human", 1, 8, null],
+      ["human", 3, 7, 1],
+      ["agent", 2, 8, null],
+      ["agent", 4, 4, 4],
+    ]);
+    expect(metrics.cri).toBeCloseTo((4 - 1) / (4 + 1), 10);
+  });
+
+  it("leaves agreement-only metrics empty without a deal", () => {
+    const metrics = computeSessionMetrics(
+      buildSession({ reason: "timeout", turns: 4, duration_seconds: 300 })
+    );
+
+    expect(metrics).toMatchObject({
+      agreement: false,
+      outcome_reason: "timeout",
+      utilities: { human: null, agent: null, joint: null },
+      fairness_index: null,
+      efficiency: null,
+      nash_product: null,
+      pareto_distance: null,
+      pareto_efficient: null,
+      // Without a deal each side keeps its walk-away value.
+      human_surplus: 0,
+      agent_surplus: 0,
+      human_below_batna: null,
+      agent_below_batna: null,
+    });
+  });
+});
+
+describe("buildOfferRows", () => {
+  it("adds the chosen option of choice issues next to the unit columns", () => {
+    const session = buildSession({ reason: "abort", turns: 1, duration_seconds: 5 });
+    const issues: Issue[] = [
+      { key: "a", label: "A", total: 2 },
+      { key: "room", label: "Room", total: 1, type: "binary" },
+    ];
+    const allocation = { a: { human: 2, agent: 0 }, room: { human: 0, agent: 0, option: "yes" } };
+    session.config.issues = issues;
+    session.events = [offerEvent(1, "human", allocation, 0)];
+
+    const [row] = buildOfferRows(computeSessionMetrics(session), issues);
+
+    expect(row).toMatchObject({
+      session_id: "session-1",
+      turn: 1,
+      by: "human",
+      a_human: 2,
+      a_agent: 0,
+      room_human: 0,
+      room_agent: 0,
+      room_option: "yes",
+    });
+    expect(row).not.toHaveProperty("a_option");
+  });
+});
@@ -0,0 +1,373 @@
+import {
+  computeMaxJointUtility,
+  computeParetoDistance,
+  computeWeightedUtility,
+  getAllocationStats,
+  type WeightedUtility,
+} from "@/lib/analytics/allocationSpace";
+import {
+  collectChats,
+  collectOffers,
+  computeAnchors,
+  computeChatBurstiness,
+  computeConcessions,
+  computeConcessionShapeMetrics,
+  computeOfferLatencies,
+  getEvents,
+  type AnchorMetrics,
+  type ChatMessage,
+  type ConcessionRow,
+  type ConcessionShapeMetrics,
+  type TimedOffer,
+} from "@/lib/analytics/offers";
+import { average } from "@/lib/analytics/statistics";
+import { sessionReservation, sessionWeights } from "@/lib/domains";
+import { isChoiceIssue } from "@/lib/issues";
+import type { ExperimentSession, Issue, ReservationValues } from "@/lib/types";
+
+type Role = "human" | "agent";
+
+type NullableUtility = { human: number | null; agent: number | null; joint: number | null };
+
+/**
+ * Everything the admin analytics and the Excel report derive from one session, scored with
+ * the weights and reservation values the session was played with. Values that need an
+ * agreement (or an issue set) are null without one.
+ */
+export type SessionMetrics = {
+  session_id: string;
+  condition_id: string;
+  /** Empty for sessions without a persona. */
+  persona_tag: string;
+  /** Study and arm; empty for sessions outside a study. */
+  study_id: string;
+  arm_id: string;
+  outcome_reason: string;
+  agreement: boolean;
+  turns: number | null;
+  duration_seconds: number | null;
+  /** Utilities of the agreed allocation. */
+  utilities: NullableUtility;
+  max_joint_utility: number | null;
+  max_human_utility: number | null;
+  max_agent_utility: number | null;
+  fairness_index: number | null;
+  efficiency: number | null;
+  nash_product: number | null;
+  nash_ratio: number | null;
+  nash_distance: number | null;
+  pareto_distance: number | null;
+  pareto_efficient: boolean | null;
+  human_share: number | null;
+  human_utility_ratio: number | null;
+  agent_utility_ratio: number | null;
+  /** Gap between the utility ratios; 0 is the Kalai-Smorodinsky proportional split. */
+  ks_gap: number | null;
+  reservation: ReservationValues;
+  /** Utility minus reservation; 0 without a deal, since each side keeps its walk-away value. */
+  human_surplus: number | null;
+  agent_surplus: number | null;
+  human_below_batna: boolean | null;
+  agent_below_batna: boolean | null;
+  acceptor: Role | null;
+  acceptor_ratio: number | null;
+  offer_latencies: number[];
+  avg_response: number | null;
+  /** Concession reciprocity: (agent - human) / (agent + human) positive concessions. */
+  cri: number | null;
+  chat_burstiness: number | null;
+  avg_offer_nash_distance: number | null;
+  avg_offer_pareto_distance: number | null;
+  anchors: Record<Role, AnchorMetrics>;
+  concession_shape: Record<Role, ConcessionShapeMetrics>;
+  offers: Array<TimedOffer & { utilities: WeightedUtility }>;
+  chats: ChatMessage[];
+  concessions: ConcessionRow[];
+  /** The allocation space was sampled, so frontier-based values are approximate. */
+  allocation_sampled: boolean;
+};
+
+export function computeSessionMetrics(session: ExperimentSession): SessionMetrics {
+  const events = getEvents(session);
+  const outcome = session.outcome ?? {};
+  const issues = session.config?.issues ?? [];
+  const weights = sessionWeights(session.config);
+  const allocationStats = issues.length ? getAllocationStats(issues, weights) : null;
+  const maxJoint = allocationStats?.maxJoint ?? computeMaxJointUtility(issues, weights);
+  const maxHuman = allocationStats?.maxHuman ?? null;
+  const maxAgent = allocationStats?.maxAgent ?? null;
+  const rawOffers = collectOffers(events);
+  const offers = rawOffers.map((offer) => ({
+    ...offer,
+    utilities: computeWeightedUtility(offer.allocation, weights, issues),
+  }));
+
+  const agreement = outcome.reason === "agreement";
+  const agreedAllocation = outcome.agreed_offer?.allocation ?? null;
+  const utilities: NullableUtility = agreedAllocation
+    ? computeWeightedUtility(agreedAllocation, weights, issues)
+    : { human: null, agent: null, joint: null };
+  const agreed =
+    utilities.human !== null && utilities.agent !== null
+      ? { human: utilities.human, agent: utilities.agent }
+      : null;
+
+  const nashProduct = agreed ? agreed.human * agreed.agent : null;
+  const nashMax = allocationStats?.nash.bestValue ?? null;
+  const nashPoint = allocationStats?.nash.best?.utilities ?? null;
+  const humanRatio = agreed && maxHuman ? agreed.human / maxHuman : null;
+  const agentRatio = agreed && maxAgent ? agreed.agent / maxAgent : null;
+
+  const reservation = sessionReservation(session.config);
+  const humanSurplus = agreement ? (agreed ? agreed.human - reservation.human : null) : 0;
+  const agentSurplus = agreement ? (agreed ? agreed.agent - reservation.agent : null) : 0;
+
+  const acceptEvent = [...events].reverse().find((event) => event.type === "offer_accept");
+  const acceptBy = (acceptEvent?.payload as { by?: string } | undefined)?.by;
+  const acceptor = acceptBy === "human" || acceptBy === "agent" ? acceptBy : null;
+
+  const latencies = computeOfferLatencies(rawOffers);
+  const concessions = computeConcessions(rawOffers, weights, issues);
+  const conceded = { human: 0, agent: 0 };
+  concessions.forEach((row) => {
+    conceded[row.by] += Math.max(row.concession ?? 0, 0);
+  });
+  const concededTotal = conceded.human + conceded.agent;
+
+  const offerDistances = (distance: (utility: WeightedUtility) => number | null) =>
+    allocationStats
+      ? average(
+          offers
+            .map((offer) => distance(offer.utilities))
+            .filter((value): value is number => value !== null)
+        )
+      : null;
+
+  return {
+    session_id: session.session_id,
+    condition_id: session.condition?.id ?? "unknown",
+    persona_tag: session.condition?.persona_tag ?? "",
+    study_id: session.study_id ?? "",
+    arm_id: session.arm_id ?? "",
+    outcome_reason: outcome.reason ?? "",
+    agreement,
+    turns: typeof outcome.turns === "number" ? outcome.turns : null,
+    duration_seconds:
+      typeof outcome.duration_seconds === "number" ? outcome.duration_seconds : null,
+    utilities,
+    max_joint_utility: maxJoint,
+    max_human_utility: maxHuman,
+    max_agent_utility: maxAgent,
+    fairness_index:
+      agreed && utilities.joint
+        ? 1 - Math.abs(agreed.human - agreed.agent) / utilities.joint
+        : null,
+    efficiency: maxJoint && utilities.joint ? utilities.joint / maxJoint : null,
+    nash_product: nashProduct,
+    nash_ratio: nashMax && nashProduct !== null ? nashProduct / nashMax : null,
+    nash_distance:
+      nashPoint && agreed
+        ? Math.sqrt((agreed.human - nashPoint.human) ** 2 + (agreed.agent - nashPoint.agent) ** 2)
+        : null,
+    pareto_distance:
+      allocationStats && agreed ? computeParetoDistance(agreed, allocationStats.frontier) : null,
+    pareto_efficient:
+      allocationStats && agreed
+        ? allocationStats.frontierSet.has(`${agreed.human}|${agreed.agent}`)
+        : null,
+    human_share: agreed && utilities.joint ? agreed.human / utilities.joint : null,
+    human_utility_ratio: humanRatio,
+    agent_utility_ratio: agentRatio,
+    ks_gap: humanRatio !== null && agentRatio !== null ? Math.abs(humanRatio - agentRatio) : null,
+    reservation,
+    human_surplus: humanSurplus,
+    agent_surplus: agentSurplus,
+    human_below_batna: agreement && humanSurplus !== null ? humanSurplus < 0 : null,
+    agent_below_batna: agreement && agentSurplus !== null ? agentSurplus < 0 : null,
+    acceptor,
+    acceptor_ratio: acceptor === "human" ? humanRatio : acceptor === "agent" ? agentRatio : null,
+    offer_latencies: latencies,
+    avg_response: average(latencies),
+    cri: concededTotal > 0 ? (conceded.agent - conceded.human) / concededTotal : null,
+    chat_burstiness: computeChatBurstiness(collectChats(events)),
+    avg_offer_nash_distance: offerDistances((utility) =>
+      nashPoint
+        ? Math.sqrt((utility.human - nashPoint.human) ** 2 + (utility.agent - nashPoint.agent) ** 2)
+        : null
+    ),
+    avg_offer_pareto_distance: offerDistances((utility) =>
+      allocationStats ? computeParetoDistance(utility, allocationStats.frontier) : null
+    ),
+    anchors: computeAnchors(rawOffers, weights, issues, allocationStats),
+    concession_shape: computeConcessionShapeMetrics(rawOffers, weights, issues),
+    offers,
+    chats: collectChats(events),
+    concessions,
+    allocation_sampled: allocationStats?.sampled ?? false,
+  };
+}
+
+/**
+ * One flat row per offer for the offer tables of the admin analytics and the Excel report:
+ * utilities and each issue's split, plus the chosen option of categorical and binary issues.
+ */
+export function buildOfferRows(metrics: SessionMetrics, issues: Issue[]) {
+  return metrics.offers.map((offer) => {
+    const row: Record<string, string | number> = {
+      session_id: metrics.session_id,
+      condition_id: metrics.condition_id,
+      turn: offer.turn,
+      by: offer.by,
+      created_at: offer.created_at ?? offer.t ?? "",
+      human_utility: offer.utilities.human,
+      agent_utility: offer.utilities.agent,
+      joint_utility: offer.utilities.joint,
+    };
+    for (const issue of issues) {
+      const allocation = offer.allocation?.[issue.key] ?? { human: 0, agent: 0 };
+      row[`${issue.key}_human`] = allocation.human;
+      row[`${issue.key}_agent`] = allocation.agent;
+      if (isChoiceIssue(issue)) {
+        row[`${issue.key}_option`] = allocation.option ?? "";
+      }
+    }
+    return row;
+  });
+}
+
+function flag(value: boolean | null) {
+  return value === null ? null : value ? 1 : 0;
+}
+
+type MetricValue = number | null | number[];
+
+/**
+ * Per-session observations of each metric that is compared across groups. Most sessions give
+ * one value or none (e.g. no agreement); latencies and concessions give one per offer.
+ */
+const SESSION_METRICS = {
+  agreement_rate: (metrics) => flag(metrics.agreement),
+  turns_to_agreement: (metrics) => (metrics.agreement ? metrics.turns : null),
+  joint_utility: (metrics) => metrics.utilities.joint,
+  efficiency: (metrics) => metrics.efficiency,
+  fairness_index: (metrics) => metrics.fairness_index,
+  nash_product: (metrics) => metrics.nash_product,
+  nash_ratio: (metrics) => metrics.nash_ratio,
+  nash_distance: (metrics) => metrics.nash_distance,
+  pareto_distance: (metrics) => metrics.pareto_distance,
+  pareto_efficiency_rate: (metrics) => flag(metrics.pareto_efficient),
+  pareto_efficiency_gap: (metrics) =>
+    metrics.pareto_efficient === null ? null : metrics.pareto_efficient ? 0 : 1,
+  human_share: (metrics) => metrics.human_share,
+  human_utility_ratio: (metrics) => metrics.human_utility_ratio,
+  agent_utility_ratio: (metrics) => metrics.agent_utility_ratio,
+  ks_gap: (metrics) => metrics.ks_gap,
+  human_surplus: (metrics) => metrics.human_surplus,
+  agent_surplus: (metrics) => metrics.agent_surplus,
+  human_below_batna_rate: (metrics) => flag(metrics.human_below_batna),
+  agent_below_batna_rate: (metrics) => flag(metrics.agent_below_batna),
+  acceptor_ratio: (metrics) => metrics.acceptor_ratio,
+  offer_nash_distance: (metrics) => metrics.avg_offer_nash_distance,
+  offer_pareto_distance: (metrics) => metrics.avg_offer_pareto_distance,
+  duration: (metrics) => metrics.duration_seconds,
+  turns: (metrics) => metrics.turns,
+  response_latency: (metrics) => metrics.offer_latencies,
+  human_concession: (metrics) => roleConcessions(metrics, "human"),
+  agent_concession: (metrics) => roleConcessions(metrics, "agent"),
+  chat_burstiness: (metrics) => metrics.chat_burstiness,
+  cri: (metrics) => metrics.cri,
+} satisfies Record<string, (metrics: SessionMetrics) => MetricValue>;
+
+function roleConcessions(metrics: SessionMetrics, role: Role) {
+  return metrics.concessions
+    .filter((row) => row.by === role && row.concession !== null)
+    .map((row) => row.concession as number);
+}
+
+const ANCHOR_METRICS = {
+  anchor_share: "anchor_share",
+  anchor_own_u: "anchor_own_u",
+  anchor_dist_nash_L1: "dist_nash_L1",
+  anchor_dist_fair_L1: "dist_fair_L1",
+} as const satisfies Record<string, keyof AnchorMetrics>;
+
+/** Per-role metrics, e.g. `human_anchor_share` or `agent_rigidity_flat_rate`. */
+export type RoleMetricKey = `${Role}_${keyof typeof ANCHOR_METRICS | keyof ConcessionShapeMetrics}`;
+
+export type SessionMetricKey = keyof typeof SESSION_METRICS | RoleMetricKey;
+
+function metricValue(metrics: SessionMetrics, key: SessionMetricKey): MetricValue {
+  if (key in SESSION_METRICS) {
+    return SESSION_METRICS[key as keyof typeof SESSION_METRICS](metrics);
+  }
+  const role: Role = key.startsWith("human_") ? "human" : "agent";
+  const name = key.slice(role.length + 1);
+  if (name in ANCHOR_METRICS) {
+    return metrics.anchors[role][ANCHOR_METRICS[name as keyof typeof ANCHOR_METRICS]];
+  }
+  return metrics.concession_shape[role][name as keyof ConcessionShapeMetrics];
+}
+
+/** All observations of a metric across sessions, skipping sessions without a value. */
+export function metricValues(sessions: SessionMetrics[], key: SessionMetricKey) {
+  return sessions.flatMap((metrics) => {
+    const value = metricValue(metrics, key);
+    return (Array.isArray(value) ? value : [value]).filter(
+      (entry): entry is number => typeof entry === "number" && !Number.isNaN(entry)
+    );
+  });
+}
+
+/**
+ * One value per session that has the metric: per-offer metrics (latencies, concessions) are
+ * averaged within the session first, so sessions are the independent units of a comparison.
+ */
+export function sessionMetricValues(sessions: SessionMetrics[], key: SessionMetricKey) {
+  return sessions
+    .map((metrics) => average(metricValues([metrics], key)))
+    .filter((value): value is number => value !== null);
+}
+
+// Summary fields of the analytics API and the metric each one averages.
+const SUMMARY_FIELDS = {
+  agreement_rate: "agreement_rate",
+  avg_joint_utility: "joint_utility",
+  avg_efficiency: "efficiency",
+  avg_fairness_index: "fairness_index",
+  avg_nash_product: "nash_product",
+  avg_nash_ratio: "nash_ratio",
+  avg_nash_distance: "nash_distance",
+  avg_pareto_distance: "pareto_distance",
+  pareto_efficiency_rate: "pareto_efficiency_rate",
+  avg_human_share: "human_share",
+  avg_human_utility_ratio: "human_utility_ratio",
+  avg_agent_utility_ratio: "agent_utility_ratio",
+  avg_ks_gap: "ks_gap",
+  avg_human_surplus: "human_surplus",
+  avg_agent_surplus: "agent_surplus",
+  human_below_batna_rate: "human_below_batna_rate",
+  agent_below_batna_rate: "agent_below_batna_rate",
+  avg_acceptor_ratio: "acceptor_ratio",
+  avg_offer_nash_distance: "offer_nash_distance",
+  avg_offer_pareto_distance: "offer_pareto_distance",
+  avg_duration: "duration",
+  avg_turns: "turns",
+  avg_response: "response_latency",
+  avg_human_concession: "human_concession",
+  avg_agent_concession: "agent_concession",
+  avg_burstiness: "chat_burstiness",
+  avg_cri: "cri",
+} as const satisfies Record<string, SessionMetricKey>;
+
+export type SummaryMetrics = { sessions: number } & {
+  -readonly [K in keyof typeof SUMMARY_FIELDS]: number | null;
+};
+
+/** Group means as reported by the admin analytics (per condition, persona and overall). */
+export function summarizeSessionMetrics(sessions: SessionMetrics[]): SummaryMetrics {
+  const summary = { sessions: sessions.length } as SummaryMetrics;
+  (Object.keys(SUMMARY_FIELDS) as Array<keyof typeof SUMMARY_FIELDS>).forEach((field) => {
+    summary[field] = average(metricValues(sessions, SUMMARY_FIELDS[field]));
+  });
+  return summary;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { bootstrapCI, holmAdjust, permutationPValue } from "@/lib/analytics/statistics";
+
+describe("bootstrapCI", () => {
+  it("returns nulls without values", () => {
+    expect(bootstrapCI([])).toEqual({ mean: null, std: null, ci_low: null, ci_high: null });
+  });
+
+  it("collapses the interval for constant values", () => {
+    expect(bootstrapCI([2, 2, 2])).toEqual({ mean: 2, std: 0, ci_low: 2, ci_high: 2 });
+    expect(bootstrapCI([5])).toEqual({ mean: 5, std: 0, ci_low: 5, ci_high: 5 });
+  });
+
+  it("gives the sample mean and standard deviation and an interval around the mean", () => {
+    const stats = bootstrapCI([1, 2, 3, 4]);
+    expect(stats.mean).toBe(2.5);
+    // Squared deviations 2.25 + 0.25 + 0.25 + 2.25 = 5, over n - 1 = 3.
+    expect(stats.std).toBeCloseTo(Math.sqrt(5 / 3), 10);
+    expect(stats.ci_low).toBeGreaterThanOrEqual(1);
+    expect(stats.ci_low).toBeLessThan(2.5);
+    expect(stats.ci_high).toBeGreaterThan(2.5);
+    expect(stats.ci_high).toBeLessThanOrEqual(4);
+  });
+
+  it("is reproducible for a seed and ignores NaN", () => {
+    expect(bootstrapCI([1, 2, 3, 4, NaN], 500, 7)).toEqual(bootstrapCI([1, 2, 3, 4], 500, 7));
+  });
+});
+
+describe("permutationPValue", () => {
+  it("returns null when a group is empty", () => {
+    expect(permutationPValue([], [1, 2])).toBeNull();
+    expect(permutationPValue([1, 2], [])).toBeNull();
+  });
+
+  it("is 1 when every relabeling ties the observed difference", () => {
+    expect(permutationPValue([1, 1], [1, 1])).toBe(1);
+  });
+
+  it("approaches the exact p-value of fully separated groups", () => {
+    // Only the observed split and its mirror image reach the observed difference: 2 / C(6, 3).
+    const p = permutationPValue([1, 2, 3], [10, 11, 12], 2000);
+    expect(p).toBeGreaterThan(0.07);
+    expect(p).toBeLessThan(0.13);
+  });
+
+  it("never returns 0", () => {
+    expect(permutationPValue([0, 0, 0, 0, 0, 0], [9, 9, 9, 9, 9, 9], 10)).toBeGreaterThanOrEqual(
+      1 / 11
+    );
+  });
+});
+
+describe("holmAdjust", () => {
+  it("multiplies by the remaining family size and keeps the adjusted values monotone", () => {
+    // Sorted 0.01, 0.03, 0.04 -> 3 * 0.01, 2 * 0.03, max(0.06, 1 * 0.04).
+    const adjusted = holmAdjust([0.01, 0.04, 0.03, null]);
+    expect(adjusted[0]).toBeCloseTo(0.03, 10);
+    expect(adjusted[1]).toBeCloseTo(0.06, 10);
+    expect(adjusted[2]).toBeCloseTo(0.06, 10);
+    expect(adjusted[3]).toBeNull();
+  });
+
+  it("caps adjusted values at 1", () => {
+    expect(holmAdjust([0.5, 0.6])).toEqual([1, 1]);
+  });
+
+  it("leaves an empty family empty", () => {
+    expect(holmAdjust([])).toEqual([]);
+    expect(holmAdjust([null])).toEqual([null]);
+  });
+});
@@ -0,0 +1,163 @@
+export type BootstrapStats = {
+  mean: number | null;
+  std: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+};
+
+export const BOOTSTRAP_ITERATIONS = 2000;
+export const BOOTSTRAP_SEED = 1337;
+
+/** Deterministic LCG, so bootstrap intervals and samples are reproducible. */
+export function createRng(seed = 1) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+export function average(values: number[]) {
+  if (!values.length) return null;
+  return values.reduce((sum, val) => sum + val, 0) / values.length;
+}
+
+/** Sample standard deviation; 0 for fewer than two values. */
+export function standardDeviation(values: number[]) {
+  if (values.length < 2) return 0;
+  const mean = average(values) ?? 0;
+  const variance = values.reduce((sum, val) => sum + (val - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function finite(values: number[]) {
+  return values.filter((val) => typeof val === "number" && !Number.isNaN(val));
+}
+
+function percentileInterval(sorted: number[]) {
+  return {
+    ci_low: sorted[Math.floor(0.025 * (sorted.length - 1))],
+    ci_high: sorted[Math.floor(0.975 * (sorted.length - 1))],
+  };
+}
+
+/** Mean, standard deviation and a 95% percentile bootstrap interval of the mean. */
+export function bootstrapCI(
+  values: number[],
+  iterations = BOOTSTRAP_ITERATIONS,
+  seed = BOOTSTRAP_SEED
+): BootstrapStats {
+  const clean = finite(values);
+  const n = clean.length;
+  if (n === 0) {
+    return { mean: null, std: null, ci_low: null, ci_high: null };
+  }
+  const rng = createRng(seed);
+  const means: number[] = [];
+  for (let i = 0; i < iterations; i += 1) {
+    let sum = 0;
+    for (let j = 0; j < n; j += 1) {
+      sum += clean[Math.floor(rng() * n)];
+    }
+    means.push(sum / n);
+  }
+  means.sort((a, b) => a - b);
+  return { mean: average(clean), std: standardDeviation(clean), ...percentileInterval(means) };
+}
+
+/** 95% percentile bootstrap interval of mean(A) - mean(B). */
+export function bootstrapDiffCI(
+  valuesA: number[],
+  valuesB: number[],
+  iterations = BOOTSTRAP_ITERATIONS,
+  seed = BOOTSTRAP_SEED
+) {
+  const cleanA = finite(valuesA);
+  const cleanB = finite(valuesB);
+  if (!cleanA.length || !cleanB.length) {
+    return { ci_low: null, ci_high: null };
+  }
+  const rng = createRng(seed + 11);
+  const diffs: number[] = [];
+  for (let i = 0; i < iterations; i += 1) {
+    let sumA = 0;
+    let sumB = 0;
+    for (let j = 0; j < cleanA.length; j += 1) {
+      sumA += cleanA[Math.floor(rng() * cleanA.length)];
+    }
+    for (let j = 0; j < cleanB.length; j += 1) {
+      sumB += cleanB[Math.floor(rng() * cleanB.length)];
+    }
+    diffs.push(sumA / cleanA.length - sumB / cleanB.length);
+  }
+  diffs.sort((a, b) => a - b);
+  return percentileInterval(diffs);
+}
+
+/** Standardized mean difference with the pooled standard deviation. */
+export function cohensD(valuesA: number[], valuesB: number[]) {
+  const cleanA = finite(valuesA);
+  const cleanB = finite(valuesB);
+  if (!cleanA.length || !cleanB.length) return null;
+  const dof = cleanA.length + cleanB.length - 2;
+  const pooled =
+    dof > 0
+      ? Math.sqrt(
+          ((cleanA.length - 1) * standardDeviation(cleanA) ** 2 +
+            (cleanB.length - 1) * standardDeviation(cleanB) ** 2) /
+            dof
+        )
+      : 0;
+  if (!pooled) return 0;
+  return ((average(cleanA) ?? 0) - (average(cleanB) ?? 0)) / pooled;
+}
+
+/**
+ * Two-sided permutation test of mean(A) - mean(B): the share of random relabelings of the
+ * pooled values with a difference at least as large as the observed one. The observed split
+ * counts as one relabeling, so the p-value is never 0.
+ */
+export function permutationPValue(
+  valuesA: number[],
+  valuesB: number[],
+  iterations = BOOTSTRAP_ITERATIONS,
+  seed = BOOTSTRAP_SEED
+) {
+  const cleanA = finite(valuesA);
+  const cleanB = finite(valuesB);
+  if (!cleanA.length || !cleanB.length) return null;
+  const pooled = [...cleanA, ...cleanB];
+  const total = pooled.reduce((sum, val) => sum + val, 0);
+  const observed = Math.abs((average(cleanA) ?? 0) - (average(cleanB) ?? 0));
+  // Tolerance so relabelings that tie the observed difference are not lost to rounding.
+  const threshold = observed - 1e-12 * Math.max(1, observed);
+  const rng = createRng(seed + 17);
+  let extreme = 0;
+  for (let i = 0; i < iterations; i += 1) {
+    // Partial Fisher-Yates shuffle: the first cleanA.length values form the new group A.
+    let sumA = 0;
+    for (let j = 0; j < cleanA.length; j += 1) {
+      const k = j + Math.floor(rng() * (pooled.length - j));
+      [pooled[j], pooled[k]] = [pooled[k], pooled[j]];
+      sumA += pooled[j];
+    }
+    const diff = sumA / cleanA.length - (total - sumA) / cleanB.length;
+    if (Math.abs(diff) >= threshold) extreme += 1;
+  }
+  return (extreme + 1) / (iterations + 1);
+}
+
+/** Holm step-down adjustment for a family of tests; missing p-values stay null. */
+export function holmAdjust(pValues: Array<number | null>) {
+  const ranked = pValues
+    .map((p, index) => ({ p, index }))
+    .filter((entry): entry is { p: number; index: number } => entry.p !== null)
+    .sort((a, b) => a.p - b.p);
+  const adjusted: Array<number | null> = pValues.map(() => null);
+  let running = 0;
+  ranked.forEach(({ p, index }, rank) => {
+    running = Math.max(running, Math.min(1, (ranked.length - rank) * p));
+    adjusted[index] = running;
+  });
+  return adjusted;
+}
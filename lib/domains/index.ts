@@ -0,0 +1,106 @@
+import classTrip from "@/lib/domains/class-trip-01.json";
+import classroomPerks from "@/lib/domains/classroom-perks-01.json";
+import classroomPerksBatna from "@/lib/domains/classroom-perks-02.json";
+import schoolFair from "@/lib/domains/school-fair-01.json";
+import type { ExperimentSession, Issue, ReservationValues, UtilityWeights } from "@/lib/types";
+
+export type WeightProfile = {
+  id: string;
+  label?: string;
+  weights: UtilityWeights;
+};
+
+export type NegotiationDomain = {
+  domain_id: string;
+  label: string;
+  description?: string;
+  scenario: string;
+  issues: Issue[];
+  weights: UtilityWeights;
+  /** Alternative preference profiles; sessions are randomized across them when present. */
+  weight_profiles?: WeightProfile[];
+  /** Walk-away utility per role; no deal is worth 0 when omitted. */
+  reservation?: ReservationValues;
+  deadline_seconds: number;
+  max_turns: number;
+};
+
+/**
+ * Every domain lives in its own JSON file next to this registry. Weights are asymmetric
+ * on purpose: each side values a different issue most, so trading (logrolling) beats
+ * an even split for both parties.
+ */
+const DOMAINS: NegotiationDomain[] = [
+  classroomPerks,
+  classroomPerksBatna,
+  classTrip,
+  // JSON imports widen `type` and `curve.kind` to string.
+  schoolFair as NegotiationDomain,
+];
+
+export const DEFAULT_DOMAIN_ID = "classroom-perks-01";
+
+const domainsById = new Map(DOMAINS.map((domain) => [domain.domain_id, domain]));
+
+export function listDomains() {
+  return DOMAINS;
+}
+
+export function isDomainId(value: unknown): value is string {
+  return typeof value === "string" && domainsById.has(value);
+}
+
+/** Looks up a domain by id, falling back to the default domain for unknown ids. */
+export function getDomain(domainId?: string | null): NegotiationDomain {
+  return (
+    (domainId ? domainsById.get(domainId) : undefined) ??
+    (domainsById.get(DEFAULT_DOMAIN_ID) as NegotiationDomain)
+  );
+}
+
+const NO_RESERVATION: ReservationValues = { human: 0, agent: 0 };
+
+export function getWeightProfile(domain: NegotiationDomain, profileId?: string | null) {
+  if (!profileId) return null;
+  return domain.weight_profiles?.find((profile) => profile.id === profileId) ?? null;
+}
+
+/**
+ * Picks the weight profile for a new session: the requested one if the domain has it
+ * (for counterbalanced links), otherwise a uniformly random one. Domains without
+ * profiles always use their base weights.
+ */
+export function pickWeightProfile(domain: NegotiationDomain, requested?: string | null) {
+  const profiles = domain.weight_profiles ?? [];
+  if (!profiles.length) return null;
+  return (
+    getWeightProfile(domain, requested) ??
+    profiles[Math.floor(Math.random() * profiles.length)]
+  );
+}
+
+/** The slice of a domain (and chosen profile) that is copied into `session.config`. */
+export function domainSessionConfig(domain: NegotiationDomain, profile?: WeightProfile | null) {
+  return {
+    domain_id: domain.domain_id,
+    issues: domain.issues,
+    deadline_seconds: domain.deadline_seconds,
+    max_turns: domain.max_turns,
+    weights: profile?.weights ?? domain.weights,
+    reservation: domain.reservation ?? NO_RESERVATION,
+    ...(profile ? { weight_profile: profile.id } : {}),
+  };
+}
+
+/** Weights a session was played with, falling back to its domain for older records. */
+export function sessionWeights(config?: Partial<ExperimentSession["config"]> | null) {
+  return config?.weights ?? getDomain(config?.domain_id).weights;
+}
+
+/**
+ * Walk-away utilities a session was played with. Records from before reservation values
+ * existed were played under "no deal = 0", so they do not pick up the current domain values.
+ */
+export function sessionReservation(config?: Partial<ExperimentSession["config"]> | null) {
+  return config?.reservation ?? NO_RESERVATION;
+}
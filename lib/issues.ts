@@ -0,0 +1,167 @@
+import type { Issue, IssueAllocation, IssueOption, UtilityWeights } from "@/lib/types";
+
+type Role = "human" | "agent";
+
+const BINARY_OPTIONS: IssueOption[] = [
+  { key: "yes", label: "Yes", value: { human: 1, agent: 1 } },
+  { key: "no", label: "No", value: { human: 0, agent: 0 } },
+];
+
+export function issueType(issue: Issue) {
+  return issue.type ?? "divisible";
+}
+
+/** Categorical and binary issues settle on one option shared by both roles. */
+export function isChoiceIssue(issue: Issue) {
+  return issueType(issue) !== "divisible";
+}
+
+/**
+ * Options of a choice issue. Binary issues always offer `yes` and `no`; without explicit
+ * values, `yes` is worth the issue weight to both roles and `no` is worth nothing.
+ */
+export function issueOptions(issue: Issue): IssueOption[] {
+  const type = issueType(issue);
+  if (type === "binary") {
+    return BINARY_OPTIONS.map(
+      (fallback) => issue.options?.find((option) => option.key === fallback.key) ?? fallback
+    );
+  }
+  return type === "categorical" ? (issue.options ?? []) : [];
+}
+
+function normalizeToken(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Matches an option by key or label, ignoring case and punctuation. */
+export function resolveIssueOption(issue: Issue, raw: string) {
+  const normalized = normalizeToken(raw);
+  return issueOptions(issue).find(
+    (option) =>
+      normalizeToken(option.key) === normalized || normalizeToken(option.label) === normalized
+  );
+}
+
+export function roundPoints(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Points for `units` of a divisible issue; with a diminishing curve unit n is worth weight × rate^(n-1). */
+export function unitPoints(issue: Issue, units: number, weight: number) {
+  const rate = issue.curve?.kind === "diminishing" ? issue.curve.rate : 1;
+  if (rate >= 1 || rate <= 0) return units * weight;
+  return (weight * (1 - Math.pow(rate, units))) / (1 - rate);
+}
+
+/** Unrounded points each role gets from one issue entry. */
+export function issuePoints(
+  issue: Issue,
+  entry: IssueAllocation | undefined,
+  weights: UtilityWeights
+) {
+  if (!entry) return { human: 0, agent: 0 };
+  const humanWeight = weights.human[issue.key] ?? 1;
+  const agentWeight = weights.agent[issue.key] ?? 1;
+  if (isChoiceIssue(issue)) {
+    const option = issueOptions(issue).find((candidate) => candidate.key === entry.option);
+    return option
+      ? { human: option.value.human * humanWeight, agent: option.value.agent * agentWeight }
+      : { human: 0, agent: 0 };
+  }
+  return {
+    human: unitPoints(issue, entry.human, humanWeight),
+    agent: unitPoints(issue, entry.agent, agentWeight),
+  };
+}
+
+/** Every valid entry for one issue in a stable order, used to enumerate the outcome space. */
+export function issueEntries(issue: Issue): IssueAllocation[] {
+  if (isChoiceIssue(issue)) {
+    return issueOptions(issue).map((option) => ({ human: 0, agent: 0, option: option.key }));
+  }
+  return Array.from({ length: issue.total + 1 }, (_, human) => ({
+    human,
+    agent: issue.total - human,
+  }));
+}
+
+/** Highest joint points any single entry of the issue reaches. */
+export function maxJointIssuePoints(issue: Issue, weights: UtilityWeights) {
+  return issueEntries(issue).reduce((best, entry) => {
+    const points = issuePoints(issue, entry, weights);
+    return Math.max(best, points.human + points.agent);
+  }, 0);
+}
+
+/** Starting entry for a draft: an even split, or the first option of a choice issue. */
+export function defaultIssueEntry(issue: Issue, split: "equal" | "agent"): IssueAllocation {
+  if (isChoiceIssue(issue)) {
+    return { human: 0, agent: 0, option: issueOptions(issue)[0]?.key };
+  }
+  const human = split === "equal" ? Math.floor(issue.total / 2) : 0;
+  return { human, agent: issue.total - human };
+}
+
+/** Validates one issue entry and returns a normalized copy; errors name the issue key. */
+export function validateIssueEntry(
+  issue: Issue,
+  entry: { human?: unknown; agent?: unknown; option?: unknown }
+): IssueAllocation {
+  if (isChoiceIssue(issue)) {
+    const option =
+      typeof entry.option === "string" ? resolveIssueOption(issue, entry.option) : undefined;
+    if (!option) {
+      const keys = issueOptions(issue)
+        .map((candidate) => candidate.key)
+        .join(", ");
+      throw new Error(`Offer for "${issue.key}" must pick one option: ${keys}.`);
+    }
+    return { human: 0, agent: 0, option: option.key };
+  }
+  const { human, agent } = entry;
+  if (!Number.isInteger(human) || !Number.isInteger(agent)) {
+    throw new Error(`Offer values for "${issue.key}" must be integers.`);
+  }
+  const humanValue = Number(human);
+  const agentValue = Number(agent);
+  if (humanValue < 0 || agentValue < 0) {
+    throw new Error(`Offer values for "${issue.key}" must be non-negative.`);
+  }
+  if (humanValue + agentValue !== issue.total) {
+    throw new Error(`Offer values for "${issue.key}" must sum to ${issue.total}.`);
+  }
+  return { human: humanValue, agent: agentValue };
+}
+
+export function isValidIssueEntry(issue: Issue, entry: IssueAllocation | undefined) {
+  if (!entry) return false;
+  try {
+    validateIssueEntry(issue, entry);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** "Human 3 / Agent 5" for divisible issues, the option label for choice issues. */
+export function formatIssueEntry(issue: Issue, entry: IssueAllocation) {
+  if (isChoiceIssue(issue)) {
+    return resolveIssueOption(issue, entry.option ?? "")?.label ?? "—";
+  }
+  return `Human ${entry.human} / Agent ${entry.agent}`;
+}
+
+/** Short description of what an issue is worth to one role, for preference cards. */
+export function describeIssueValue(issue: Issue, weights: UtilityWeights, role: Role) {
+  const weight = weights[role][issue.key] ?? 1;
+  if (isChoiceIssue(issue)) {
+    return issueOptions(issue)
+      .map((option) => `${option.label} ${roundPoints(option.value[role] * weight)} pts`)
+      .join(" · ");
+  }
+  if (issue.curve?.kind === "diminishing" && issue.curve.rate < 1) {
+    return `${weight} pts first unit, ×${issue.curve.rate} each extra`;
+  }
+  return `${weight} pts/unit`;
+}
@@ -0,0 +1,56 @@
+import { toLlmApiError } from "@/lib/llm/errors";
+import { modelsFromEnv } from "@/lib/llm/openai";
+import type { LlmProvider } from "@/lib/llm/types";
+
+type AnthropicContentBlock = {
+  type?: string;
+  text?: string;
+};
+
+export const anthropicProvider: LlmProvider = {
+  id: "anthropic",
+  defaultModels: modelsFromEnv(process.env.ANTHROPIC_MODELS, [
+    "claude-sonnet-4-5",
+    "claude-haiku-4-5",
+  ]),
+  maxOutputTokens: 8192,
+  configError: () =>
+    process.env.ANTHROPIC_API_KEY ? null : "Missing ANTHROPIC_API_KEY (check .env.local)",
+  async generate({ model, system, prompt, temperature, maxOutputTokens, signal }) {
+    const baseUrl = (process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com").replace(
+      /\/+$/,
+      ""
+    );
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": process.env.ANTHROPIC_API_KEY ?? "",
+        "anthropic-version": "2023-06-01",
+      },
+      signal,
+      body: JSON.stringify({
+        model,
+        system,
+        messages: [{ role: "user", content: prompt }],
+        temperature,
+        max_tokens: maxOutputTokens,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await toLlmApiError("anthropic", "Anthropic", response);
+    }
+
+    const data = (await response.json()) as {
+      content?: AnthropicContentBlock[];
+      stop_reason?: string;
+    };
+    const text = (data.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("")
+      .trim();
+    return { text, truncated: data.stop_reason === "max_tokens" };
+  },
+};
@@ -0,0 +1,47 @@
+import type { LlmProviderId } from "@/lib/llm/types";
+
+type LlmApiErrorDetails = {
+  provider?: LlmProviderId;
+  status?: number;
+  code?: string;
+  body?: string;
+};
+
+export class LlmApiError extends Error {
+  provider?: LlmProviderId;
+  status?: number;
+  code?: string;
+  body?: string;
+  constructor(message: string, details?: LlmApiErrorDetails) {
+    super(message);
+    this.name = "LlmApiError";
+    this.provider = details?.provider;
+    this.status = details?.status;
+    this.code = details?.code;
+    this.body = details?.body;
+  }
+}
+
+/**
+ * Builds an LlmApiError from a non-2xx response, pulling the message/code out of the
+ * JSON error envelope that Gemini, OpenAI-compatible and Anthropic APIs all roughly share.
+ */
+export async function toLlmApiError(provider: LlmProviderId, label: string, response: Response) {
+  const errorText = await response.text();
+  let code: string | undefined;
+  let message = errorText;
+  try {
+    const parsed = JSON.parse(errorText);
+    const error = typeof parsed?.error === "object" ? parsed.error : null;
+    code = error?.status ?? error?.code ?? error?.type;
+    message = error?.message ?? (typeof parsed?.error === "string" ? parsed.error : errorText);
+  } catch {
+    // keep raw text
+  }
+  return new LlmApiError(`${label} API error (${response.status})`, {
+    provider,
+    status: response.status,
+    code: code === undefined ? undefined : String(code),
+    body: message,
+  });
+}
@@ -0,0 +1,88 @@
+import { toLlmApiError } from "@/lib/llm/errors";
+import type { LlmProvider } from "@/lib/llm/types";
+
+type GeminiCandidate = {
+  content?: {
+    parts?: Array<{ text?: string }>;
+    text?: string;
+  };
+  finishReason?: string;
+};
+
+type GeminiResult = {
+  text: string;
+  finishReason?: string;
+};
+
+export function extractGeminiResult(data: unknown): GeminiResult {
+  const candidates = (data as { candidates?: GeminiCandidate[] })?.candidates ?? [];
+  if (candidates.length === 0) {
+    return { text: "" };
+  }
+
+  const results = candidates.map((candidate) => {
+    const parts = candidate.content?.parts ?? [];
+    const partsText = parts.map((part) => part.text ?? "").join("");
+    const contentText = candidate.content?.text ?? "";
+    const text = (partsText || contentText || "").trim();
+    return { text, finishReason: candidate.finishReason };
+  });
+
+  results.sort((a, b) => b.text.length - a.text.length);
+  return results[0] ?? { text: "" };
+}
+
+export function extractGeminiText(data: unknown) {
+  return extractGeminiResult(data).text;
+}
+
+export const geminiProvider: LlmProvider = {
+  id: "gemini",
+  defaultModels: ["gemini-3-flash-preview", "gemini-2.5-flash", "gemini-2.0-flash"],
+  configError: () =>
+    process.env.GOOGLE_AI_STUDIO_API_KEY
+      ? null
+      : "Missing GOOGLE_AI_STUDIO_API_KEY (check .env.local)",
+  async generate({
+    model,
+    system,
+    prompt,
+    temperature,
+    maxOutputTokens,
+    responseMimeType,
+    signal,
+  }) {
+    const apiKey = process.env.GOOGLE_AI_STUDIO_API_KEY;
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal,
+        body: JSON.stringify({
+          contents: [{ role: "user", parts: [{ text: prompt }] }],
+          systemInstruction: { parts: [{ text: system }] },
+          safetySettings: [
+            { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH" },
+            { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_ONLY_HIGH" },
+            { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_ONLY_HIGH" },
+            { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_ONLY_HIGH" },
+          ],
+          generationConfig: {
+            temperature,
+            maxOutputTokens,
+            ...(responseMimeType ? { responseMimeType } : {}),
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await toLlmApiError("gemini", "Gemini", response);
+    }
+
+    const data = await response.json();
+    const { text, finishReason } = extractGeminiResult(data);
+    return { text, truncated: finishReason === "MAX_TOKENS" };
+  },
+};
@@ -0,0 +1,186 @@
+import { anthropicProvider } from "@/lib/llm/anthropic";
+import { LlmApiError } from "@/lib/llm/errors";
+import { geminiProvider } from "@/lib/llm/gemini";
+import { mockProvider } from "@/lib/llm/mock";
+import { localProvider, openaiProvider } from "@/lib/llm/openai";
+import type {
+  LlmCallOptions,
+  LlmCallResult,
+  LlmProvider,
+  LlmProviderId,
+  LlmSelection,
+} from "@/lib/llm/types";
+
+export { LlmApiError } from "@/lib/llm/errors";
+export { resetMockLlm } from "@/lib/llm/mock";
+export type {
+  LlmCallOptions,
+  LlmCallResult,
+  LlmProvider,
+  LlmProviderId,
+  LlmSelection,
+} from "@/lib/llm/types";
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+  mock: mockProvider,
+};
+
+export const LLM_PROVIDER_IDS = Object.keys(PROVIDERS) as LlmProviderId[];
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === "string" && Object.hasOwn(PROVIDERS, value);
+}
+
+export function getLlmProvider(id: LlmProviderId) {
+  return PROVIDERS[id];
+}
+
+let warnedMockDefault = false;
+
+function defaultProviderId(): LlmProviderId {
+  if (process.env.GOOGLE_AI_STUDIO_API_KEY || process.env.NODE_ENV === "production") {
+    return "gemini";
+  }
+  if (!warnedMockDefault) {
+    warnedMockDefault = true;
+    console.warn("[llm] GOOGLE_AI_STUDIO_API_KEY is not set, using the mock provider");
+  }
+  return "mock";
+}
+
+/**
+ * Resolves which backend (and optionally which model) drives the agent for a condition.
+ * `LLM_PROVIDER_<CONDITION>` / `LLM_MODEL_<CONDITION>` win over the global
+ * `LLM_PROVIDER` / `LLM_MODEL`, so backends can be compared as an experimental factor.
+ * Without any configuration, development servers without a Gemini key use the mock provider.
+ */
+export function resolveLlmSelection(conditionId?: string): LlmSelection {
+  const suffix = conditionId ? `_${conditionId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}` : "";
+  const rawProvider =
+    (suffix ? process.env[`LLM_PROVIDER${suffix}`] : undefined) ?? process.env.LLM_PROVIDER;
+  const model = (suffix ? process.env[`LLM_MODEL${suffix}`] : undefined) ?? process.env.LLM_MODEL;
+  let provider = defaultProviderId();
+  if (rawProvider) {
+    if (isLlmProviderId(rawProvider)) {
+      provider = rawProvider;
+    } else {
+      console.warn(`[llm] unknown provider "${rawProvider}", using ${provider}`);
+    }
+  }
+  return { provider, model: model || undefined };
+}
+
+function normalizeModelName(name: string) {
+  return name.replace(/^models\//, "");
+}
+
+function buildModelSequence(provider: LlmProvider, preferred?: string, fallback?: string[]) {
+  const base = (fallback && fallback.length ? fallback : provider.defaultModels).map(
+    normalizeModelName
+  );
+  if (!preferred) return base;
+  const normalized = normalizeModelName(preferred);
+  return [normalized, ...base.filter((entry) => entry !== normalized)];
+}
+
+function shouldFallback(error: unknown) {
+  if (!(error instanceof LlmApiError)) return false;
+  if (error.status && [429, 503, 502, 504, 529].includes(error.status)) return true;
+  const body = `${error.message} ${error.body ?? ""} ${error.code ?? ""}`.toLowerCase();
+  if (error.status === 404) {
+    return (
+      body.includes("not found") ||
+      body.includes("not supported for generatecontent") ||
+      body.includes("not_found")
+    );
+  }
+  return (
+    body.includes("resource_exhausted") ||
+    body.includes("quota") ||
+    body.includes("rate limit") ||
+    body.includes("rate_limit") ||
+    body.includes("unavailable") ||
+    body.includes("overloaded")
+  );
+}
+
+/**
+ * Sends one system + user prompt to the selected provider, walking its model fallback
+ * chain on rate limits, unavailable/unknown models, empty answers and MAX_TOKENS cut-offs.
+ */
+export async function callLlm(
+  system: string,
+  prompt: string,
+  options?: LlmCallOptions
+): Promise<LlmCallResult> {
+  const provider = getLlmProvider(options?.provider ?? "gemini");
+  const configError = provider.configError();
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  const timeoutMs = options?.timeoutMs ?? 60000;
+  const temperature = options?.temperature ?? 0.4;
+  const requestedTokens = options?.maxOutputTokens ?? 320000;
+  const maxOutputTokens = provider.maxOutputTokens
+    ? Math.min(requestedTokens, provider.maxOutputTokens)
+    : requestedTokens;
+  const responseMimeType = options?.responseMimeType;
+  const failOnMaxTokens = options?.failOnMaxTokens ?? true;
+  const modelSequence = buildModelSequence(provider, options?.model, options?.fallbackModels);
+
+  let lastError: unknown = null;
+
+  for (const model of modelSequence) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const { text, truncated } = await provider.generate({
+        model,
+        system,
+        prompt,
+        temperature,
+        maxOutputTokens,
+        responseMimeType,
+        signal: controller.signal,
+      });
+      clearTimeout(timeout);
+
+      if (!text.trim()) {
+        lastError = new LlmApiError(`${provider.id} returned an empty response.`, {
+          provider: provider.id,
+        });
+        continue;
+      }
+      if (truncated && failOnMaxTokens) {
+        lastError = new LlmApiError(`${provider.id} response hit MAX_TOKENS limit.`, {
+          provider: provider.id,
+        });
+        continue;
+      }
+      return { text, model, provider: provider.id };
+    } catch (error) {
+      clearTimeout(timeout);
+      if (error instanceof Error && error.name === "AbortError") {
+        lastError = error;
+        continue;
+      }
+      if (shouldFallback(error)) {
+        lastError = error;
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  if (lastError instanceof Error) {
+    throw new Error(
+      `${provider.id} API failed across fallback models. Last error: ${lastError.message}`
+    );
+  }
+  throw new Error(`${provider.id} API failed across fallback models.`);
+}
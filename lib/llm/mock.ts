@@ -0,0 +1,130 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+
+import { LlmApiError } from "@/lib/llm/errors";
+import type { LlmProvider } from "@/lib/llm/types";
+
+/**
+ * One canned answer. `text` is returned verbatim (so malformed JSON, code fences and
+ * `offer_compact` strings all reach the real parser); `error` raises an LlmApiError so the
+ * fallback chain in `callLlm` is exercised too.
+ */
+type MockResponse = {
+  text?: string;
+  finish_reason?: "STOP" | "MAX_TOKENS";
+  error?: { status: number; message?: string; code?: string };
+  delay_ms?: number;
+};
+
+type MockRule = {
+  /** Substring matched against the system + user prompt. Omit to match everything. */
+  match?: string;
+  responses: MockResponse[];
+  /** What to do after the last response: start over (default) or keep repeating it. */
+  exhausted?: "cycle" | "repeat_last";
+};
+
+type MockFixture = {
+  description?: string;
+  rules: MockRule[];
+};
+
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "llm");
+const fixtureCache = new Map<string, MockFixture>();
+const cursors = new Map<string, number>();
+
+function resolveFixturePath(name: string) {
+  if (path.isAbsolute(name) || name.endsWith(".json")) {
+    return path.resolve(name);
+  }
+  return path.join(FIXTURE_DIR, `${name}.json`);
+}
+
+function loadFixture(name: string) {
+  const filePath = resolveFixturePath(name);
+  const cached = fixtureCache.get(filePath);
+  if (cached) return { filePath, fixture: cached };
+  if (!existsSync(filePath)) {
+    throw new Error(`Mock LLM fixture not found: ${filePath}`);
+  }
+  const fixture = JSON.parse(readFileSync(filePath, "utf8")) as MockFixture;
+  if (!Array.isArray(fixture.rules) || fixture.rules.length === 0) {
+    throw new Error(`Mock LLM fixture has no rules: ${filePath}`);
+  }
+  fixtureCache.set(filePath, fixture);
+  return { filePath, fixture };
+}
+
+function currentFixtureName() {
+  return process.env.LLM_MOCK_FIXTURE || "default";
+}
+
+/** Rewinds every scripted sequence so a run can be replayed from the first response. */
+export function resetMockLlm() {
+  cursors.clear();
+  fixtureCache.clear();
+}
+
+function nextResponse(system: string, prompt: string) {
+  const { filePath, fixture } = loadFixture(currentFixtureName());
+  const haystack = `${system}\n${prompt}`;
+  const ruleIndex = fixture.rules.findIndex((rule) => !rule.match || haystack.includes(rule.match));
+  if (ruleIndex === -1) {
+    throw new Error(`Mock LLM fixture ${filePath} has no rule matching this prompt.`);
+  }
+  const rule = fixture.rules[ruleIndex];
+  if (!rule.responses.length) {
+    throw new Error(`Mock LLM rule ${ruleIndex} in ${filePath} has no responses.`);
+  }
+  const cursorKey = `${filePath}#${ruleIndex}`;
+  const position = cursors.get(cursorKey) ?? 0;
+  const index =
+    rule.exhausted === "repeat_last"
+      ? Math.min(position, rule.responses.length - 1)
+      : position % rule.responses.length;
+  cursors.set(cursorKey, position + 1);
+  return rule.responses[index];
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      const error = new Error("Mock LLM request aborted.");
+      error.name = "AbortError";
+      reject(error);
+    });
+  });
+}
+
+export const mockProvider: LlmProvider = {
+  id: "mock",
+  defaultModels: ["mock-primary", "mock-secondary"],
+  configError: () => {
+    try {
+      loadFixture(currentFixtureName());
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : "Mock LLM fixture could not be loaded.";
+    }
+  },
+  async generate({ system, prompt, signal }) {
+    const response = nextResponse(system, prompt);
+    if (response.delay_ms) {
+      await wait(response.delay_ms, signal);
+    }
+    if (response.error) {
+      throw new LlmApiError(`Mock API error (${response.error.status})`, {
+        provider: "mock",
+        status: response.error.status,
+        code: response.error.code,
+        body: response.error.message,
+      });
+    }
+    return {
+      text: (response.text ?? "").trim(),
+      truncated: response.finish_reason === "MAX_TOKENS",
+    };
+  },
+};
@@ -0,0 +1,108 @@
+import { toLlmApiError } from "@/lib/llm/errors";
+import type { LlmProvider, LlmProviderId } from "@/lib/llm/types";
+
+type ChatCompletionChoice = {
+  message?: { content?: string | null };
+  finish_reason?: string | null;
+};
+
+function trimTrailingSlash(value: string) {
+  return value.replace(/\/+$/, "");
+}
+
+/**
+ * Shared client for the `/chat/completions` shape. Used for OpenAI itself and for local
+ * servers (Ollama, llama.cpp) which expose the same endpoint under `/v1`.
+ */
+function createChatCompletionsProvider(config: {
+  id: LlmProviderId;
+  label: string;
+  baseUrl: () => string;
+  apiKey: () => string | undefined;
+  requiresApiKey: boolean;
+  defaultModels: string[];
+  maxOutputTokens: number;
+  maxTokensField: "max_tokens" | "max_completion_tokens";
+}): LlmProvider {
+  return {
+    id: config.id,
+    defaultModels: config.defaultModels,
+    maxOutputTokens: config.maxOutputTokens,
+    configError: () => {
+      if (config.requiresApiKey && !config.apiKey()) {
+        return `Missing ${config.label} API key (check .env.local)`;
+      }
+      return null;
+    },
+    async generate({
+      model,
+      system,
+      prompt,
+      temperature,
+      maxOutputTokens,
+      responseMimeType,
+      signal,
+    }) {
+      const apiKey = config.apiKey();
+      const response = await fetch(`${trimTrailingSlash(config.baseUrl())}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        signal,
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: system },
+            { role: "user", content: prompt },
+          ],
+          temperature,
+          [config.maxTokensField]: maxOutputTokens,
+          ...(responseMimeType === "application/json"
+            ? { response_format: { type: "json_object" } }
+            : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw await toLlmApiError(config.id, config.label, response);
+      }
+
+      const data = (await response.json()) as { choices?: ChatCompletionChoice[] };
+      const choice = data.choices?.[0];
+      const text = (choice?.message?.content ?? "").trim();
+      return { text, truncated: choice?.finish_reason === "length" };
+    },
+  };
+}
+
+export function modelsFromEnv(value: string | undefined, fallback: string[]) {
+  const models = (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return models.length ? models : fallback;
+}
+
+export const openaiProvider = createChatCompletionsProvider({
+  id: "openai",
+  label: "OpenAI",
+  baseUrl: () => process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+  apiKey: () => process.env.OPENAI_API_KEY,
+  requiresApiKey: true,
+  defaultModels: modelsFromEnv(process.env.OPENAI_MODELS, ["gpt-4o-mini", "gpt-4o"]),
+  maxOutputTokens: 16384,
+  maxTokensField: "max_completion_tokens",
+});
+
+export const localProvider = createChatCompletionsProvider({
+  id: "local",
+  label: "Local LLM",
+  baseUrl: () => process.env.LOCAL_LLM_BASE_URL ?? "http://localhost:11434/v1",
+  apiKey: () => process.env.LOCAL_LLM_API_KEY,
+  requiresApiKey: false,
+  defaultModels: modelsFromEnv(process.env.LOCAL_LLM_MODELS, ["llama3.1:8b"]),
+  maxOutputTokens: 4096,
+  maxTokensField: "max_tokens",
+});
@@ -0,0 +1,50 @@
+export type LlmProviderId = "gemini" | "openai" | "anthropic" | "local" | "mock";
+
+export type LlmRequest = {
+  model: string;
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxOutputTokens: number;
+  responseMimeType?: string;
+  signal: AbortSignal;
+};
+
+export type LlmCompletion = {
+  text: string;
+  /** True when the provider stopped because it ran out of output tokens. */
+  truncated: boolean;
+};
+
+export type LlmProvider = {
+  id: LlmProviderId;
+  /** Fallback chain used when the caller does not pass `fallbackModels`. */
+  defaultModels: string[];
+  /** Hard cap for providers that reject oversized `max_tokens` values. */
+  maxOutputTokens?: number;
+  /** Returns a human-readable reason when the provider cannot be used (e.g. missing API key). */
+  configError: () => string | null;
+  generate: (request: LlmRequest) => Promise<LlmCompletion>;
+};
+
+export type LlmSelection = {
+  provider: LlmProviderId;
+  model?: string;
+};
+
+export type LlmCallOptions = {
+  provider?: LlmProviderId;
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+  failOnMaxTokens?: boolean;
+  responseMimeType?: string;
+  model?: string;
+  fallbackModels?: string[];
+};
+
+export type LlmCallResult = {
+  text: string;
+  model: string;
+  provider: LlmProviderId;
+};
@@ -1,22 +1,27 @@
 import { v4 as uuidv4 } from "uuid";
 
-import { DEFAULT_DOMAIN } from "@/lib/config";
+import { domainSessionConfig, getDomain, pickWeightProfile } from "@/lib/domains";
+import { SESSION_SCHEMA_VERSION } from "@/lib/sessionSchema";
 import type { ConditionId, ExperimentEvent, ExperimentEventType, ExperimentSession } from "@/lib/types";
 import { nowIso, shortId } from "@/lib/utils";
 
-export function createSession(conditionId: ConditionId, personaTag?: string): ExperimentSession {
+export function createSession(
+  conditionId: ConditionId,
+  personaTag?: string,
+  domainId?: string,
+  weightProfile?: string,
+  study?: { study_id: string; arm_id?: string; invite_id?: string }
+): ExperimentSession {
+  const domain = getDomain(domainId);
   return {
+    ...study,
+    schema_version: SESSION_SCHEMA_VERSION,
     session_id: uuidv4(),
     created_at: nowIso(),
     participant: {
       participant_id: shortId(),
     },
-    config: {
-      domain_id: DEFAULT_DOMAIN.domain_id,
-      issues: DEFAULT_DOMAIN.issues,
-      deadline_seconds: DEFAULT_DOMAIN.deadline_seconds,
-      max_turns: DEFAULT_DOMAIN.max_turns,
-    },
+    config: domainSessionConfig(domain, pickWeightProfile(domain, weightProfile)),
     condition: {
       id: conditionId,
       persona_tag: personaTag,
@@ -0,0 +1,141 @@
+import "server-only";
+
+import type {
+  AssignmentAlgorithm,
+  DemographicField,
+  ExperimentSession,
+  SessionAssignment,
+  Study,
+  StudyArm,
+  StudyAssignmentConfig,
+} from "@/lib/types";
+
+export const ASSIGNMENT_ALGORITHMS: AssignmentAlgorithm[] = [
+  "block",
+  "stratified_block",
+  "least_filled",
+];
+
+export const DEMOGRAPHIC_FIELDS: DemographicField[] = ["age_range", "gender"];
+
+/** Assignments made so far in a study, kept next to the study definition. */
+export type AssignmentLedger = {
+  /** Arm and assignment record per session, so a restarted session keeps its arm. */
+  sessions: Record<string, SessionAssignment & { arm_id: string }>;
+  /** Next sequence position per stratum (`all` when not stratified). */
+  positions: Record<string, number>;
+};
+
+export function emptyLedger(): AssignmentLedger {
+  return { sessions: {}, positions: {} };
+}
+
+/** Assigned participants per stratum and arm, for checking balance within strata. */
+export function countByStratum(ledger: AssignmentLedger) {
+  const counts: Record<string, Record<string, number>> = {};
+  Object.values(ledger.sessions).forEach(({ arm_id: armId, stratum }) => {
+    const key = stratum ?? "pinned";
+    counts[key] ??= {};
+    counts[key][armId] = (counts[key][armId] ?? 0) + 1;
+  });
+  return counts;
+}
+
+export function isAssignmentAlgorithm(value: unknown): value is AssignmentAlgorithm {
+  return typeof value === "string" && (ASSIGNMENT_ALGORITHMS as string[]).includes(value);
+}
+
+export function studyAssignment(study: Study): StudyAssignmentConfig {
+  return study.assignment ?? { algorithm: "least_filled", seed: study.study_id };
+}
+
+function hashSeed(seed: string) {
+  // FNV-1a, so string seeds map to a stable 32-bit state.
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small, fast and well mixed even for neighbouring seeds. */
+function createRng(seed: string) {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+function shuffle<T>(items: T[], rng: () => number) {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Stratum label such as `age_range=18-24|gender=female`; missing answers are `unknown`. */
+export function stratumKey(
+  fields: DemographicField[] | undefined,
+  participant: Partial<ExperimentSession["participant"]>
+) {
+  if (!fields?.length) return "all";
+  return fields.map((field) => `${field}=${participant[field] || "unknown"}`).join("|");
+}
+
+/**
+ * Arm at `index` of a permuted-block sequence. Each block holds every arm
+ * `blockSize / arms` times in an order shuffled from the seed, stratum and block number,
+ * so the whole sequence can be reproduced from the study settings alone.
+ */
+export function blockArmAt(
+  arms: StudyArm[],
+  config: StudyAssignmentConfig,
+  stratum: string,
+  index: number
+) {
+  const blockSize = config.block_size ?? arms.length;
+  const block = Math.floor(index / blockSize);
+  const repeats = Math.max(1, Math.round(blockSize / arms.length));
+  const slots = arms.flatMap((arm) => Array.from({ length: repeats }, () => arm));
+  const order = shuffle(slots, createRng(`${config.seed}:${stratum}:${block}`));
+  return order[index % blockSize];
+}
+
+/**
+ * Picks the arm for the next participant. `open` holds the arms still below their target;
+ * block positions that land on a full arm are skipped. Returns the arm and the sequence
+ * position it was taken from.
+ */
+export function pickArm(params: {
+  arms: StudyArm[];
+  open: StudyArm[];
+  config: StudyAssignmentConfig;
+  stratum: string;
+  position: number;
+  assignedCounts: Record<string, number>;
+}) {
+  const { arms, open, config, stratum, position, assignedCounts } = params;
+  if (config.algorithm === "least_filled") {
+    const fill = (arm: StudyArm) => (assignedCounts[arm.arm_id] ?? 0) / arm.target_sessions;
+    const lowest = Math.min(...open.map(fill));
+    const tied = open.filter((arm) => fill(arm) === lowest);
+    const rng = createRng(`${config.seed}:${position}`);
+    return { arm: tied[Math.floor(rng() * tied.length)], index: position };
+  }
+  // Positions that land on a full arm are skipped; within a few blocks an open arm comes up.
+  const limit = position + (config.block_size ?? arms.length) * arms.length;
+  for (let index = position; index < limit; index += 1) {
+    const arm = blockArmAt(arms, config, stratum, index);
+    if (open.includes(arm)) {
+      return { arm, index };
+    }
+  }
+  return { arm: open[0], index: position };
+}
@@ -0,0 +1,196 @@
+import "server-only";
+
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+  findNegotiation,
+  restoreNegotiation,
+  type NegotiationState,
+} from "@/lib/server/negotiationState";
+import { getBucket } from "@/lib/server/sessionStorage";
+import type { ExperimentSession } from "@/lib/types";
+import { nowIso } from "@/lib/utils";
+
+const checkpointsDir = path.join(process.cwd(), "data", "checkpoints");
+const checkpointPrefixRaw = process.env.CHECKPOINT_BUCKET_PREFIX ?? "checkpoints";
+const checkpointObjectPrefix = `${checkpointPrefixRaw.replace(/^\/+|\/+$/g, "")}/`;
+
+/**
+ * Server copy of a running session, so it survives a crashed browser or a device switch.
+ * The events are kept in the session's event log (see `lib/server/eventLog`).
+ */
+export type SessionCheckpoint = {
+  session: ExperimentSession;
+  /** Server negotiation at the last checkpoint, restored if the server restarted since. */
+  negotiation?: NegotiationState;
+  updated_at: string;
+  submitted_at?: string;
+};
+
+export class CheckpointError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CheckpointError";
+    this.status = status;
+  }
+}
+
+function checkpointFilename(sessionId: string) {
+  if (!/^[A-Za-z0-9-]{1,64}$/.test(sessionId)) {
+    throw new CheckpointError("Invalid session id.");
+  }
+  return `${sessionId}.json`;
+}
+
+async function writeCheckpoint(checkpoint: SessionCheckpoint) {
+  const filename = checkpointFilename(checkpoint.session.session_id);
+  const raw = JSON.stringify(checkpoint);
+  const bucket = getBucket();
+  if (bucket) {
+    await bucket.file(`${checkpointObjectPrefix}${filename}`).save(raw, {
+      contentType: "application/json",
+    });
+    return;
+  }
+  await fs.mkdir(checkpointsDir, { recursive: true });
+  await fs.writeFile(path.join(checkpointsDir, filename), raw);
+}
+
+export async function readCheckpoint(sessionId: string): Promise<SessionCheckpoint | null> {
+  const filename = checkpointFilename(sessionId);
+  const bucket = getBucket();
+  if (bucket) {
+    const file = bucket.file(`${checkpointObjectPrefix}${filename}`);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [contents] = await file.download();
+    return JSON.parse(contents.toString("utf8")) as SessionCheckpoint;
+  }
+  try {
+    return JSON.parse(
+      await fs.readFile(path.join(checkpointsDir, filename), "utf8")
+    ) as SessionCheckpoint;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// Checkpoints written before snapshots were validated may lack the fields the scans read.
+function parseListedCheckpoint(name: string, raw: string): SessionCheckpoint[] {
+  try {
+    const checkpoint = JSON.parse(raw) as Partial<SessionCheckpoint> | null;
+    const session = checkpoint?.session;
+    if (
+      typeof session?.session_id === "string" &&
+      typeof session.participant?.participant_id === "string"
+    ) {
+      return [checkpoint as SessionCheckpoint];
+    }
+  } catch {
+    // Reported below like any other malformed entry.
+  }
+  console.warn(`[checkpoints] skipped malformed checkpoint ${name}`);
+  return [];
+}
+
+export async function listCheckpoints(): Promise<SessionCheckpoint[]> {
+  const bucket = getBucket();
+  if (bucket) {
+    const [files] = await bucket.getFiles({ prefix: checkpointObjectPrefix });
+    const parsed = await Promise.all(
+      files
+        .filter((file) => file.name.endsWith(".json"))
+        .map(async (file) => {
+          const [contents] = await file.download();
+          return parseListedCheckpoint(file.name, contents.toString("utf8"));
+        })
+    );
+    return parsed.flat();
+  }
+  let names: string[] = [];
+  try {
+    names = await fs.readdir(checkpointsDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+  const parsed = await Promise.all(
+    names
+      .filter((name) => name.endsWith(".json"))
+      .map(async (name) =>
+        parseListedCheckpoint(name, await fs.readFile(path.join(checkpointsDir, name), "utf8"))
+      )
+  );
+  return parsed.flat();
+}
+
+// A checkpoint is read, updated and written back; one update at a time per session.
+const checkpointLocks = new Map<string, Promise<unknown>>();
+
+function withCheckpointLock<T>(sessionId: string, task: () => Promise<T>) {
+  const previous = checkpointLocks.get(sessionId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  checkpointLocks.set(sessionId, next);
+  void next.finally(() => {
+    if (checkpointLocks.get(sessionId) === next) {
+      checkpointLocks.delete(sessionId);
+    }
+  });
+  return next;
+}
+
+/**
+ * Replaces the session snapshot (without its events, which live in the event log) and
+ * records the server's negotiation next to it.
+ */
+export function saveCheckpoint(session: ExperimentSession) {
+  return withCheckpointLock(session.session_id, async () => {
+    const existing = await readCheckpoint(session.session_id);
+    const checkpoint: SessionCheckpoint = {
+      session: { ...session, events: [] },
+      negotiation: findNegotiation(session.session_id) ?? existing?.negotiation,
+      updated_at: nowIso(),
+      ...(existing?.submitted_at ? { submitted_at: existing.submitted_at } : {}),
+    };
+    await writeCheckpoint(checkpoint);
+    return checkpoint;
+  });
+}
+
+/** Flags the checkpoint of a stored session, so it is no longer offered for resuming. */
+export async function markCheckpointSubmitted(sessionId: string) {
+  await withCheckpointLock(sessionId, async () => {
+    const existing = await readCheckpoint(sessionId);
+    if (!existing || existing.submitted_at) return;
+    await writeCheckpoint({ ...existing, submitted_at: nowIso() });
+  });
+}
+
+/** Latest unsubmitted checkpoint of a participant, or null. */
+export async function findParticipantCheckpoint(participantId: string) {
+  const checkpoints = (await listCheckpoints()).filter(
+    (checkpoint) =>
+      checkpoint.session.participant.participant_id === participantId && !checkpoint.submitted_at
+  );
+  checkpoints.sort((a, b) => (a.updated_at < b.updated_at ? 1 : -1));
+  return checkpoints[0] ?? null;
+}
+
+/**
+ * Brings a checkpointed negotiation back into memory when the server lost it, and returns
+ * the negotiation (null when the session had not reached the negotiation yet).
+ */
+export async function restoreCheckpointedNegotiation(
+  sessionId: string,
+  checkpoint?: SessionCheckpoint | null
+) {
+  const inMemory = findNegotiation(sessionId);
+  if (inMemory) return inMemory;
+  const source = checkpoint === undefined ? await readCheckpoint(sessionId) : checkpoint;
+  return source?.negotiation ? restoreNegotiation(source.negotiation) : null;
+}
@@ -0,0 +1,214 @@
+import "server-only";
+
+import { promises as fs } from "fs";
+import path from "path";
+
+import { getBucket } from "@/lib/server/sessionStorage";
+import {
+  appendLoggedEvents,
+  listLoggedEvents,
+  readLoggedEvents,
+  sqliteEnabled,
+} from "@/lib/server/sqliteStore";
+import { parseEvent } from "@/lib/sessionSchema";
+import type { ExperimentEvent } from "@/lib/types";
+
+const eventsDir = path.join(process.cwd(), "data", "events");
+const eventsPrefixRaw = process.env.EVENTS_BUCKET_PREFIX ?? "events";
+const eventsObjectPrefix = `${eventsPrefixRaw.replace(/^\/+|\/+$/g, "")}/`;
+
+export const MAX_EVENTS_PER_BATCH = 500;
+
+/**
+ * Steps of the participant flow, in order, for drop-off analysis. A session has reached a
+ * step once the matching event is logged; `submitted` means a stored session exists.
+ */
+export const FUNNEL_STAGES = [
+  "consent",
+  "instructions",
+  "negotiation",
+  "first_offer",
+  "ended",
+  "survey",
+  "submitted",
+] as const;
+
+export type FunnelStage = (typeof FUNNEL_STAGES)[number];
+
+export class EventLogError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "EventLogError";
+    this.status = status;
+  }
+}
+
+function assertSessionId(sessionId: string) {
+  if (!/^[A-Za-z0-9-]{1,64}$/.test(sessionId)) {
+    throw new EventLogError("Invalid session id.");
+  }
+}
+
+/** Union of event lists by event id, in time order; later copies of an id are dropped. */
+export function mergeEvents(...lists: ExperimentEvent[][]) {
+  const byId = new Map<string, ExperimentEvent>();
+  lists.flat().forEach((event) => {
+    if (!byId.has(event.id)) {
+      byId.set(event.id, event);
+    }
+  });
+  return [...byId.values()].sort((a, b) => (a.t < b.t ? -1 : a.t > b.t ? 1 : 0));
+}
+
+/**
+ * Appends a batch to the session's log. The log is never rewritten: locally it is a JSONL
+ * file, in the bucket every batch is a new object, in SQLite every event is a row. Resent
+ * events are dropped on read (SQLite skips them on insert).
+ */
+export async function appendEvents(sessionId: string, events: unknown[]) {
+  assertSessionId(sessionId);
+  if (events.length > MAX_EVENTS_PER_BATCH) {
+    throw new EventLogError(`At most ${MAX_EVENTS_PER_BATCH} events can be sent per batch.`);
+  }
+  const valid: ExperimentEvent[] = [];
+  events.forEach((input, index) => {
+    const parsed = parseEvent(input);
+    if (!parsed.ok) {
+      const issue = parsed.issues[0];
+      throw new EventLogError(`Invalid event ${index} (${issue.path}): ${issue.message}`);
+    }
+    valid.push(parsed.event);
+  });
+  if (!valid.length) return 0;
+
+  if (sqliteEnabled()) {
+    appendLoggedEvents(sessionId, valid);
+    return valid.length;
+  }
+  const bucket = getBucket();
+  if (bucket) {
+    const batchName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await bucket
+      .file(`${eventsObjectPrefix}${sessionId}/${batchName}`)
+      .save(JSON.stringify(valid), {
+        contentType: "application/json",
+      });
+    return valid.length;
+  }
+  await fs.mkdir(eventsDir, { recursive: true });
+  await fs.appendFile(
+    path.join(eventsDir, `${sessionId}.jsonl`),
+    `${valid.map((event) => JSON.stringify(event)).join("\n")}\n`
+  );
+  return valid.length;
+}
+
+function parseJsonl(raw: string) {
+  return raw
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as ExperimentEvent];
+      } catch {
+        // A line cut short by a crash mid-append; the rest of the log is still usable.
+        return [];
+      }
+    });
+}
+
+export async function readEventLog(sessionId: string): Promise<ExperimentEvent[]> {
+  assertSessionId(sessionId);
+  if (sqliteEnabled()) {
+    return readLoggedEvents(sessionId);
+  }
+  const bucket = getBucket();
+  if (bucket) {
+    const [files] = await bucket.getFiles({ prefix: `${eventsObjectPrefix}${sessionId}/` });
+    const batches = await Promise.all(
+      files.map(async (file) => {
+        const [contents] = await file.download();
+        return JSON.parse(contents.toString("utf8")) as ExperimentEvent[];
+      })
+    );
+    return mergeEvents(...batches);
+  }
+  try {
+    return mergeEvents(
+      parseJsonl(await fs.readFile(path.join(eventsDir, `${sessionId}.jsonl`), "utf8"))
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/** Every session's streamed events, keyed by session id. */
+export async function listEventLogs(): Promise<Map<string, ExperimentEvent[]>> {
+  if (sqliteEnabled()) {
+    return listLoggedEvents();
+  }
+  const logs = new Map<string, ExperimentEvent[]>();
+  const bucket = getBucket();
+  if (bucket) {
+    const [files] = await bucket.getFiles({ prefix: eventsObjectPrefix });
+    await Promise.all(
+      files.map(async (file) => {
+        const sessionId = file.name.slice(eventsObjectPrefix.length).split("/")[0];
+        const [contents] = await file.download();
+        const batch = JSON.parse(contents.toString("utf8")) as ExperimentEvent[];
+        logs.set(sessionId, [...(logs.get(sessionId) ?? []), ...batch]);
+      })
+    );
+  } else {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(eventsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith(".jsonl"))
+        .map(async (name) => {
+          const raw = await fs.readFile(path.join(eventsDir, name), "utf8");
+          logs.set(name.replace(/\.jsonl$/, ""), parseJsonl(raw));
+        })
+    );
+  }
+  for (const [sessionId, events] of logs) {
+    logs.set(sessionId, mergeEvents(events));
+  }
+  return logs;
+}
+
+/** Furthest step of the participant flow a session's events show. */
+export function furthestStage(events: ExperimentEvent[], submitted: boolean): FunnelStage {
+  if (submitted) return "submitted";
+  const reached = (stage: FunnelStage) => {
+    switch (stage) {
+      case "survey":
+        return events.some(
+          (event) => event.type === "page_view" && event.payload.path === "/survey"
+        );
+      case "ended":
+        return events.some((event) => event.type === "end");
+      case "first_offer":
+        return events.some((event) => event.type === "offer_propose");
+      case "negotiation":
+        return events.some((event) => event.type === "instruction_ack");
+      case "instructions":
+        return events.some((event) => event.type === "consent");
+      default:
+        return true;
+    }
+  };
+  return (
+    [...FUNNEL_STAGES].reverse().find((stage) => stage !== "submitted" && reached(stage)) ??
+    "consent"
+  );
+}
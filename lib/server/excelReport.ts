@@ -0,0 +1,937 @@
+import "server-only";
+
+import ExcelJS from "exceljs";
+
+import {
+  average,
+  BOOTSTRAP_ITERATIONS,
+  BOOTSTRAP_SEED,
+  bootstrapCI,
+  bootstrapDiffCI,
+  buildOfferRows,
+  cohensD,
+  computeSessionMetrics,
+  metricValues,
+  type SessionMetricKey,
+  type SessionMetrics,
+} from "@/lib/analytics";
+import type { VersionedSessionEntry } from "@/lib/server/sessionStore";
+import { formatDuration } from "@/lib/utils";
+
+type Cell = string | number | boolean | null | undefined;
+type Row = Record<string, Cell>;
+type Direction = "higher" | "lower" | "context";
+
+const COLORS = {
+  headerBg: "FF1F4B99",
+  headerText: "FFFFFFFF",
+  zebra: "FFF7F9FC",
+  neutralFill: "FFE2E8F0",
+  personaFill: "FFDBEAFE",
+  neutralText: "FF0F172A",
+  personaText: "FF1D4ED8",
+  positive: "FF15803D",
+  negative: "FFB91C1C",
+  caution: "FFB45309",
+};
+
+const PERCENT = "0.0%";
+const DECIMAL = "0.00";
+const CENTERED: Partial<ExcelJS.Alignment> = { horizontal: "center", vertical: "middle" };
+
+// Per-condition averages; `key` names the per-session value collected under that name.
+const SUMMARY_COLUMNS: Array<{ header: string; key: SessionMetricKey; numFmt: string }> = [
+  { header: "Agreement Rate", key: "agreement_rate", numFmt: PERCENT },
+  { header: "Avg Joint Utility", key: "joint_utility", numFmt: DECIMAL },
+  { header: "Avg Efficiency", key: "efficiency", numFmt: PERCENT },
+  { header: "Avg Fairness Index", key: "fairness_index", numFmt: PERCENT },
+  { header: "Avg Nash Product", key: "nash_product", numFmt: DECIMAL },
+  { header: "Avg Nash Ratio", key: "nash_ratio", numFmt: PERCENT },
+  { header: "Avg Nash Distance", key: "nash_distance", numFmt: DECIMAL },
+  { header: "Pareto Efficiency Rate", key: "pareto_efficiency_rate", numFmt: PERCENT },
+  { header: "Avg Human Share", key: "human_share", numFmt: PERCENT },
+  { header: "Avg Human Surplus", key: "human_surplus", numFmt: DECIMAL },
+  { header: "Avg Agent Surplus", key: "agent_surplus", numFmt: DECIMAL },
+  { header: "Human Below-BATNA Rate", key: "human_below_batna_rate", numFmt: PERCENT },
+  { header: "Agent Below-BATNA Rate", key: "agent_below_batna_rate", numFmt: PERCENT },
+  { header: "Avg Duration (s)", key: "duration", numFmt: "0.0" },
+  { header: "Avg Turns", key: "turns", numFmt: "0.0" },
+  { header: "Avg Offer Response (s)", key: "response_latency", numFmt: "0.0" },
+  { header: "Avg Human Concession", key: "human_concession", numFmt: DECIMAL },
+  { header: "Avg Agent Concession", key: "agent_concession", numFmt: DECIMAL },
+  { header: "Human Anchor Share", key: "human_anchor_share", numFmt: PERCENT },
+  { header: "Agent Anchor Share", key: "agent_anchor_share", numFmt: PERCENT },
+  { header: "Human Anchor Own Utility", key: "human_anchor_own_u", numFmt: DECIMAL },
+  { header: "Agent Anchor Own Utility", key: "agent_anchor_own_u", numFmt: DECIMAL },
+  { header: "Human Anchor Dist Nash L1", key: "human_anchor_dist_nash_L1", numFmt: DECIMAL },
+  { header: "Agent Anchor Dist Nash L1", key: "agent_anchor_dist_nash_L1", numFmt: DECIMAL },
+  { header: "Human Anchor Dist Fair L1", key: "human_anchor_dist_fair_L1", numFmt: DECIMAL },
+  { header: "Agent Anchor Dist Fair L1", key: "agent_anchor_dist_fair_L1", numFmt: DECIMAL },
+  { header: "Human Concede Sum", key: "human_concede_sum", numFmt: DECIMAL },
+  { header: "Agent Concede Sum", key: "agent_concede_sum", numFmt: DECIMAL },
+  { header: "Human Toughen Sum", key: "human_toughen_sum", numFmt: DECIMAL },
+  { header: "Agent Toughen Sum", key: "agent_toughen_sum", numFmt: DECIMAL },
+  { header: "Human Concede Rate", key: "human_concede_rate", numFmt: PERCENT },
+  { header: "Agent Concede Rate", key: "agent_concede_rate", numFmt: PERCENT },
+  { header: "Human Toughen Rate", key: "human_toughen_rate", numFmt: PERCENT },
+  { header: "Agent Toughen Rate", key: "agent_toughen_rate", numFmt: PERCENT },
+  { header: "Human Rigidity Flat Rate", key: "human_rigidity_flat_rate", numFmt: PERCENT },
+  { header: "Agent Rigidity Flat Rate", key: "agent_rigidity_flat_rate", numFmt: PERCENT },
+  { header: "Human Burstiness", key: "human_burstiness", numFmt: DECIMAL },
+  { header: "Agent Burstiness", key: "agent_burstiness", numFmt: DECIMAL },
+  { header: "Human Endload2", key: "human_endload2", numFmt: PERCENT },
+  { header: "Agent Endload2", key: "agent_endload2", numFmt: PERCENT },
+  { header: "Human Endload3", key: "human_endload3", numFmt: PERCENT },
+  { header: "Agent Endload3", key: "agent_endload3", numFmt: PERCENT },
+  { header: "Human Repeat Offer Rate", key: "human_repeat_offer_rate", numFmt: PERCENT },
+  { header: "Agent Repeat Offer Rate", key: "agent_repeat_offer_rate", numFmt: PERCENT },
+];
+
+const DASHBOARD_METRICS: Array<{ key: SessionMetricKey; label: string; direction: Direction }> = [
+  { key: "agreement_rate", label: "Agreement Rate", direction: "higher" },
+  { key: "joint_utility", label: "Avg Joint Utility", direction: "higher" },
+  { key: "efficiency", label: "Avg Efficiency", direction: "higher" },
+  { key: "fairness_index", label: "Avg Fairness Index", direction: "higher" },
+  { key: "nash_ratio", label: "Avg Nash Ratio", direction: "higher" },
+  { key: "nash_distance", label: "Avg Nash Distance", direction: "lower" },
+  { key: "pareto_efficiency_rate", label: "Pareto Efficiency Rate", direction: "higher" },
+  { key: "human_share", label: "Avg Human Share", direction: "context" },
+  { key: "response_latency", label: "Avg Offer Response (s)", direction: "lower" },
+];
+
+const COMPARISON_METRICS: Array<{ key: SessionMetricKey; label: string }> = [
+  { key: "agreement_rate", label: "Agreement Rate" },
+  { key: "turns_to_agreement", label: "Turns to Agreement" },
+  { key: "joint_utility", label: "Joint Utility" },
+  { key: "nash_product", label: "Nash Product" },
+  { key: "pareto_efficiency_gap", label: "Pareto Efficiency Gap" },
+  { key: "human_anchor_share", label: "Human Anchor Share" },
+  { key: "agent_anchor_share", label: "Agent Anchor Share" },
+  { key: "human_burstiness", label: "Human Burstiness" },
+  { key: "agent_burstiness", label: "Agent Burstiness" },
+  { key: "human_rigidity_flat_rate", label: "Human Rigidity Flat Rate" },
+  { key: "agent_rigidity_flat_rate", label: "Agent Rigidity Flat Rate" },
+  { key: "human_endload2", label: "Human Endload2" },
+  { key: "agent_endload2", label: "Agent Endload2" },
+];
+
+// Percent formats for the per-session columns that hold shares and rates.
+const SESSION_PERCENT_COLUMNS = [
+  "efficiency",
+  "fairness_index",
+  "nash_ratio",
+  "human_share",
+  "human_anchor_share",
+  "agent_anchor_share",
+  "human_concede_rate",
+  "agent_concede_rate",
+  "human_toughen_rate",
+  "agent_toughen_rate",
+  "human_rigidity_flat_rate",
+  "agent_rigidity_flat_rate",
+  "human_endload2",
+  "agent_endload2",
+  "human_endload3",
+  "agent_endload3",
+  "human_repeat_offer_rate",
+  "agent_repeat_offer_rate",
+];
+
+const LEGEND_ROWS = [
+  {
+    metric: "Agreement Rate",
+    definition: "Share of sessions ending in agreement.",
+    range: "0-1",
+    direction: "Higher is better",
+    notes: "1 = all sessions reached agreement.",
+  },
+  {
+    metric: "Weighted Joint Utility",
+    definition: "Human + agent weighted utility at agreement.",
+    range: ">= 0",
+    direction: "Higher is better",
+    notes: "Depends on issue weights.",
+  },
+  {
+    metric: "Efficiency",
+    definition: "Joint utility / maximum possible joint utility.",
+    range: "0-1",
+    direction: "Higher is better",
+    notes: "1 = maximal joint outcome.",
+  },
+  {
+    metric: "Fairness Index",
+    definition: "1 - |human - agent| / joint utility.",
+    range: "0-1",
+    direction: "Higher is better",
+    notes: "1 = perfectly balanced utilities.",
+  },
+  {
+    metric: "Surplus over BATNA",
+    definition: "Utility at agreement minus the role's reservation (walk-away) value.",
+    range: "Any",
+    direction: "Higher is better",
+    notes: "No deal counts as 0 surplus; negative = deal worse than walking away.",
+  },
+  {
+    metric: "Below-BATNA Rate",
+    definition: "Share of agreements where a role got less than its reservation value.",
+    range: "0-1",
+    direction: "Lower is better",
+    notes: "Only agreements are counted.",
+  },
+  {
+    metric: "Nash Product",
+    definition: "Human utility * agent utility at agreement.",
+    range: ">= 0",
+    direction: "Higher is better",
+    notes: "Sensitive to both parties' gains.",
+  },
+  {
+    metric: "Nash Ratio",
+    definition: "Nash product / maximum Nash product.",
+    range: "0-1",
+    direction: "Higher is better",
+    notes: "1 = Nash-optimal outcome.",
+  },
+  {
+    metric: "Nash Distance",
+    definition: "Distance to the Nash point in utility space.",
+    range: ">= 0",
+    direction: "Lower is better",
+    notes: "0 = Nash-optimal outcome.",
+  },
+  {
+    metric: "Pareto Efficiency Rate",
+    definition: "Share of agreements on the Pareto frontier.",
+    range: "0-1",
+    direction: "Higher is better",
+    notes: "1 = all agreements Pareto efficient.",
+  },
+  {
+    metric: "Human Share",
+    definition: "Human utility / joint utility.",
+    range: "0-1",
+    direction: "Context dependent",
+    notes: "Higher = more for human; not always better.",
+  },
+  {
+    metric: "Anchor Share",
+    definition: "Share of utility claimed by the offerer in their first offer.",
+    range: "0-1",
+    direction: "Context dependent",
+    notes: "Higher = more aggressive initial anchor.",
+  },
+  {
+    metric: "Anchor Dist Nash L1",
+    definition: "L1 distance from first offer to Nash utilities.",
+    range: ">= 0",
+    direction: "Lower is better",
+    notes: "0 = first offer at Nash point.",
+  },
+  {
+    metric: "Anchor Dist Fair L1",
+    definition: "L1 distance from first offer to fair split utilities.",
+    range: ">= 0",
+    direction: "Lower is better",
+    notes: "0 = first offer at fair split.",
+  },
+  {
+    metric: "Concede Sum",
+    definition: "Total positive concessions across offers.",
+    range: ">= 0",
+    direction: "Context dependent",
+    notes: "Higher = more total concessions.",
+  },
+  {
+    metric: "Toughen Sum",
+    definition: "Total toughening (negative concessions).",
+    range: ">= 0",
+    direction: "Context dependent",
+    notes: "Higher = more aggressive moves.",
+  },
+  {
+    metric: "Concede Rate",
+    definition: "Share of deltas that are concessions.",
+    range: "0-1",
+    direction: "Context dependent",
+    notes: "Higher = more frequent concessions.",
+  },
+  {
+    metric: "Toughen Rate",
+    definition: "Share of deltas that are toughening.",
+    range: "0-1",
+    direction: "Context dependent",
+    notes: "Higher = more frequent toughening.",
+  },
+  {
+    metric: "Rigidity Flat Rate",
+    definition: "Share of deltas near zero (no movement).",
+    range: "0-1",
+    direction: "Higher is more rigid",
+    notes: "Higher = more rigid/flat offers.",
+  },
+  {
+    metric: "Burstiness",
+    definition: "Max |delta| / mean |delta| across offers.",
+    range: ">= 0",
+    direction: "Context dependent",
+    notes: "Higher = moves concentrated in bursts.",
+  },
+  {
+    metric: "Endload2",
+    definition: "Share of total movement in last 2 deltas.",
+    range: "0-1",
+    direction: "Context dependent",
+    notes: "Higher = more end-loaded concessions.",
+  },
+  {
+    metric: "Endload3",
+    definition: "Share of total movement in last 3 deltas.",
+    range: "0-1",
+    direction: "Context dependent",
+    notes: "Higher = more end-loaded concessions.",
+  },
+  {
+    metric: "Repeat Offer Rate",
+    definition: "Share of consecutive offers that are identical.",
+    range: "0-1",
+    direction: "Context dependent",
+    notes: "Higher = more repetition.",
+  },
+  {
+    metric: "Offer Response (s)",
+    definition: "Time from human offer to agent response.",
+    range: ">= 0",
+    direction: "Lower is better",
+    notes: "Proxy for system responsiveness.",
+  },
+  {
+    metric: "Concession",
+    definition: "Drop in own utility from previous offer.",
+    range: "Any",
+    direction: "Context dependent",
+    notes: "Higher = more concession in that turn.",
+  },
+  {
+    metric: "Cumulative Concession",
+    definition: "Sum of concessions over the session.",
+    range: "Any",
+    direction: "Context dependent",
+    notes: "Higher = larger total concession.",
+  },
+];
+
+function yesNo(value: boolean | null) {
+  return value === null ? "" : value ? "yes" : "no";
+}
+
+function solidFill(argb: string): ExcelJS.Fill {
+  return { type: "pattern", pattern: "solid", fgColor: { argb } };
+}
+
+function columnLetter(index: number) {
+  let result = "";
+  let current = index;
+  while (current > 0) {
+    const remainder = (current - 1) % 26;
+    result = String.fromCharCode(65 + remainder) + result;
+    current = Math.floor((current - 1) / 26);
+  }
+  return result || "A";
+}
+
+function styleHeader(row: ExcelJS.Row) {
+  row.font = { bold: true, color: { argb: COLORS.headerText }, size: 11 };
+  row.fill = solidFill(COLORS.headerBg);
+  row.alignment = { vertical: "middle", horizontal: "center" };
+}
+
+// Header styling, zebra rows, column widths, a frozen header and an autofilter.
+function finishSheet(worksheet: ExcelJS.Worksheet) {
+  styleHeader(worksheet.getRow(1));
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber > 1 && rowNumber % 2 === 0) {
+      row.fill = solidFill(COLORS.zebra);
+    }
+  });
+  worksheet.columns.forEach((column) => {
+    let maxLength = 10;
+    column.eachCell?.({ includeEmpty: true }, (cell) => {
+      const value = cell.value ? cell.value.toString() : "";
+      maxLength = Math.max(maxLength, value.length + 2);
+    });
+    column.width = Math.min(maxLength, 40);
+  });
+  worksheet.properties.defaultRowHeight = 18;
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+  if (worksheet.columns.length) {
+    worksheet.autoFilter = { from: "A1", to: `${columnLetter(worksheet.columns.length)}1` };
+  }
+}
+
+function formatColumns(
+  worksheet: ExcelJS.Worksheet,
+  formats: Record<string, { numFmt?: string; alignment?: Partial<ExcelJS.Alignment> }>
+) {
+  Object.entries(formats).forEach(([key, config]) => {
+    const column = worksheet.getColumn(key);
+    if (config.numFmt) column.numFmt = config.numFmt;
+    if (config.alignment) column.alignment = config.alignment;
+  });
+}
+
+// A sheet with one column per key of the first row, as the raw data tables use.
+function addTableSheet(workbook: ExcelJS.Workbook, name: string, rows: Row[]) {
+  const worksheet = workbook.addWorksheet(name);
+  // Rows from different domains carry different issue columns, so take every key in order.
+  const keys = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  worksheet.columns = keys.map((key) => ({ header: key, key }));
+  rows.forEach((row) => worksheet.addRow(row));
+  finishSheet(worksheet);
+  return worksheet;
+}
+
+function buildBar(value: Cell, maxValue: number, width = 18) {
+  if (typeof value !== "number" || maxValue <= 0) return "";
+  const filled = Math.min(width, Math.round((Math.max(0, value) / maxValue) * width));
+  return `${"#".repeat(filled)}${"-".repeat(width - filled)}`;
+}
+
+function directionColor(direction: string) {
+  if (direction === "higher" || direction === "Higher is better") return COLORS.positive;
+  if (direction === "lower" || direction === "Lower is better") return COLORS.negative;
+  return COLORS.caution;
+}
+
+/**
+ * Builds the multi-sheet negotiation report (summary per condition, per-session metrics, raw
+ * offers, chat, survey and concessions, a dashboard, plot data, bootstrap comparisons and a
+ * legend) for the given sessions.
+ */
+export async function buildExcelReport(entries: VersionedSessionEntry[]) {
+  const sessionRows: Row[] = [];
+  const offerRows: Row[] = [];
+  const chatRows: Row[] = [];
+  const surveyRows: Row[] = [];
+  const concessionRows: Row[] = [];
+  const conditionGroups: Record<string, SessionMetrics[]> = {};
+  const personaGroups: Record<string, SessionMetrics[]> = {};
+  const concessionCurveMap = new Map<
+    string,
+    {
+      condition_id: string;
+      persona_tag: string;
+      by: string;
+      turn: number;
+      concessions: number[];
+      cumulative: number[];
+      own_utilities: number[];
+      opponent_utilities: number[];
+    }
+  >();
+
+  for (const { filename, session } of entries) {
+    try {
+      const metrics = computeSessionMetrics(session);
+      const { offers, chats, utilities, reservation, anchors } = metrics;
+      const outcome = session.outcome ?? {};
+      const conditionId = metrics.condition_id;
+      const personaTag = metrics.persona_tag;
+
+      (conditionGroups[conditionId] ??= []).push(metrics);
+      if (personaTag) {
+        (personaGroups[personaTag] ??= []).push(metrics);
+      }
+
+      metrics.concessions.forEach((row) => {
+        concessionRows.push({
+          session_id: session.session_id,
+          condition_id: conditionId,
+          persona_tag: personaTag,
+          ...row,
+        });
+        if (row.concession === null) return;
+        const key = `${conditionId}|${personaTag}|${row.by}|${row.turn}`;
+        const entry = concessionCurveMap.get(key) || {
+          condition_id: conditionId,
+          persona_tag: personaTag,
+          by: row.by,
+          turn: row.turn,
+          concessions: [],
+          cumulative: [],
+          own_utilities: [],
+          opponent_utilities: [],
+        };
+        entry.concessions.push(row.concession);
+        entry.cumulative.push(row.cumulative_concession ?? 0);
+        entry.own_utilities.push(row.own_utility);
+        entry.opponent_utilities.push(row.opponent_utility);
+        concessionCurveMap.set(key, entry);
+      });
+
+      sessionRows.push({
+        session_id: session.session_id,
+        participant_id: session.participant?.participant_id ?? "",
+        condition_id: conditionId,
+        persona_tag: personaTag,
+        domain_id: session.config?.domain_id ?? "",
+        weight_profile: session.config?.weight_profile ?? "",
+        study_id: session.study_id ?? "",
+        arm_id: session.arm_id ?? "",
+        assignment: session.assignment
+          ? [session.assignment.algorithm, session.assignment.stratum].filter(Boolean).join(" ")
+          : "",
+        simulation: session.simulation
+          ? `${session.simulation.human} vs ${session.simulation.agent}`
+          : "",
+        created_at: session.created_at,
+        outcome_reason: metrics.outcome_reason,
+        agreement: metrics.agreement ? "yes" : "no",
+        duration_seconds: outcome.duration_seconds ?? "",
+        duration_label: formatDuration(outcome.duration_seconds ?? 0),
+        turns: outcome.turns ?? "",
+        offers_total: offers.length,
+        offers_human: offers.filter((offer) => offer.by === "human").length,
+        offers_agent: offers.filter((offer) => offer.by === "agent").length,
+        chats_total: chats.length,
+        chats_human: chats.filter((chat) => chat.role === "human").length,
+        chats_agent: chats.filter((chat) => chat.role === "agent").length,
+        weighted_human_utility: utilities.human ?? "",
+        weighted_agent_utility: utilities.agent ?? "",
+        weighted_joint_utility: utilities.joint ?? "",
+        human_reservation: reservation.human,
+        agent_reservation: reservation.agent,
+        human_surplus: metrics.human_surplus ?? "",
+        agent_surplus: metrics.agent_surplus ?? "",
+        human_below_batna: yesNo(metrics.human_below_batna),
+        agent_below_batna: yesNo(metrics.agent_below_batna),
+        fairness_index: metrics.fairness_index ?? "",
+        efficiency: metrics.efficiency ?? "",
+        max_joint_utility: metrics.max_joint_utility ?? "",
+        nash_product: metrics.nash_product ?? "",
+        nash_ratio: metrics.nash_ratio ?? "",
+        nash_distance: metrics.nash_distance ?? "",
+        pareto_efficient: yesNo(metrics.pareto_efficient),
+        human_share: metrics.human_share ?? "",
+        file: filename,
+        ...Object.fromEntries(
+          (["human", "agent"] as const).flatMap((role) => [
+            [`${role}_anchor_share`, anchors[role].anchor_share ?? ""],
+            [`${role}_anchor_own_u`, anchors[role].anchor_own_u ?? ""],
+            [`${role}_anchor_dist_nash_L1`, anchors[role].dist_nash_L1 ?? ""],
+            [`${role}_anchor_dist_fair_L1`, anchors[role].dist_fair_L1 ?? ""],
+            ...Object.entries(metrics.concession_shape[role]).map(([key, value]) => [`${role}_${key}`, value ?? ""]),
+          ])
+        ),
+      });
+
+      offerRows.push(...buildOfferRows(metrics, session.config?.issues ?? []));
+
+      chats.forEach((chat) => {
+        chatRows.push({
+          session_id: session.session_id,
+          condition_id: conditionId,
+          role: chat.role,
+          t: chat.t,
+          content_length: chat.content.length,
+          content: chat.content,
+        });
+      });
+
+      if (session.survey) {
+        surveyRows.push({
+          session_id: session.session_id,
+          condition_id: conditionId,
+          fairness: session.survey.fairness,
+          trust: session.survey.trust,
+          cooperativeness: session.survey.cooperativeness,
+          human_likeness: session.survey.human_likeness,
+          satisfaction: session.survey.satisfaction,
+          negotiate_again: session.survey.negotiate_again,
+          comment: session.survey.comment ?? "",
+        });
+      }
+    } catch (error) {
+      // One malformed record should not cost the whole report.
+      console.warn(
+        `[report] skipped ${filename}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  const conditionOrder = ["neutral", "persona"];
+  const orderedConditions = [
+    ...conditionOrder.filter((key) => conditionGroups[key]),
+    ...Object.keys(conditionGroups).filter((key) => !conditionOrder.includes(key)),
+  ];
+  const conditionValues = (conditionId: string, key: SessionMetricKey) =>
+    metricValues(conditionGroups[conditionId] ?? [], key);
+  const conditionAverage = (conditionId: string, key: SessionMetricKey) =>
+    average(conditionValues(conditionId, key));
+
+  const concessionCurveRows = Array.from(concessionCurveMap.values()).map((entry) => ({
+    condition_id: entry.condition_id,
+    persona_tag: entry.persona_tag,
+    by: entry.by,
+    turn: entry.turn,
+    avg_concession: average(entry.concessions) ?? "",
+    avg_cumulative_concession: average(entry.cumulative) ?? "",
+    avg_own_utility: average(entry.own_utilities) ?? "",
+    avg_opponent_utility: average(entry.opponent_utilities) ?? "",
+    n: entry.concessions.length,
+  }));
+
+  const workbook = new ExcelJS.Workbook();
+
+  const summarySheet = workbook.addWorksheet("Summary");
+  summarySheet.columns = [
+    { header: "Condition", key: "condition" },
+    { header: "Sessions", key: "sessions" },
+    ...SUMMARY_COLUMNS.map(({ header, key }) => ({ header, key })),
+  ];
+  orderedConditions.forEach((conditionId) => {
+    summarySheet.addRow({
+      condition: conditionId,
+      sessions: conditionGroups[conditionId].length,
+      ...Object.fromEntries(
+        SUMMARY_COLUMNS.map(({ key }) => [key, conditionAverage(conditionId, key) ?? ""])
+      ),
+    });
+  });
+  finishSheet(summarySheet);
+  formatColumns(summarySheet, {
+    sessions: { numFmt: "0", alignment: CENTERED },
+    ...Object.fromEntries(
+      SUMMARY_COLUMNS.map(({ key, numFmt }) => [key, { numFmt, alignment: CENTERED }])
+    ),
+  });
+  summarySheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const conditionCell = row.getCell("condition");
+    const persona = conditionCell.value === "persona";
+    if (!persona && conditionCell.value !== "neutral") return;
+    row.eachCell((cell) => {
+      cell.fill = solidFill(persona ? COLORS.personaFill : COLORS.neutralFill);
+    });
+    conditionCell.font = {
+      color: { argb: persona ? COLORS.personaText : COLORS.neutralText },
+      bold: true,
+    };
+  });
+
+  const sessionSheet = addTableSheet(workbook, "Sessions", sessionRows);
+  if (sessionRows.length) {
+    formatColumns(
+      sessionSheet,
+      Object.fromEntries(SESSION_PERCENT_COLUMNS.map((key) => [key, { numFmt: PERCENT }]))
+    );
+    sessionSheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const conditionCell = row.getCell("condition_id");
+      conditionCell.font = {
+        color: { argb: conditionCell.value === "persona" ? "FF2563EB" : "FF334155" },
+        bold: true,
+      };
+      const outcomeCell = row.getCell("outcome_reason");
+      outcomeCell.font = {
+        color: { argb: outcomeCell.value === "agreement" ? "FF16A34A" : "FFDC2626" },
+        bold: true,
+      };
+    });
+  }
+
+  addTableSheet(workbook, "Offers", offerRows);
+  const chatSheet = addTableSheet(workbook, "Chat", chatRows);
+  if (chatRows.length) {
+    formatColumns(chatSheet, { content: { alignment: { wrapText: true, vertical: "top" } } });
+  }
+  addTableSheet(workbook, "Survey", surveyRows);
+  addTableSheet(workbook, "Concessions", concessionRows);
+  addTableSheet(workbook, "ConcessionCurves", concessionCurveRows);
+
+  const dashboardSheet = workbook.addWorksheet("Dashboard");
+  dashboardSheet.columns = [
+    { header: "Metric", key: "metric" },
+    { header: "Neutral", key: "neutral" },
+    { header: "Persona", key: "persona" },
+    { header: "Direction", key: "direction" },
+    { header: "Neutral Bar", key: "neutral_bar" },
+    { header: "Persona Bar", key: "persona_bar" },
+  ];
+  DASHBOARD_METRICS.forEach((metric) => {
+    const values = orderedConditions.map((id) => conditionAverage(id, metric.key));
+    const maxValue = Math.max(
+      ...values.filter((value): value is number => typeof value === "number" && value >= 0)
+    );
+    const neutral = conditionGroups.neutral ? conditionAverage("neutral", metric.key) : null;
+    const persona = conditionGroups.persona ? conditionAverage("persona", metric.key) : null;
+    dashboardSheet.addRow({
+      metric: metric.label,
+      neutral: neutral ?? "",
+      persona: persona ?? "",
+      direction: metric.direction,
+      neutral_bar: buildBar(neutral, maxValue),
+      persona_bar: buildBar(persona, maxValue),
+    });
+  });
+  finishSheet(dashboardSheet);
+  formatColumns(dashboardSheet, {
+    neutral: { numFmt: DECIMAL, alignment: CENTERED },
+    persona: { numFmt: DECIMAL, alignment: CENTERED },
+    neutral_bar: { alignment: { horizontal: "left", vertical: "middle" } },
+    persona_bar: { alignment: { horizontal: "left", vertical: "middle" } },
+  });
+  DASHBOARD_METRICS.forEach((metric, index) => {
+    const row = dashboardSheet.getRow(index + 2);
+    const numFmt = SUMMARY_COLUMNS.find((column) => column.key === metric.key)?.numFmt;
+    if (numFmt) {
+      row.getCell("neutral").numFmt = numFmt;
+      row.getCell("persona").numFmt = numFmt;
+    }
+    row.getCell("direction").font = {
+      color: { argb: directionColor(metric.direction) },
+      bold: true,
+    };
+    row.getCell("neutral").fill = solidFill(COLORS.neutralFill);
+    row.getCell("persona").fill = solidFill(COLORS.personaFill);
+    row.getCell("neutral_bar").fill = solidFill(COLORS.neutralFill);
+    row.getCell("persona_bar").fill = solidFill(COLORS.personaFill);
+  });
+
+  // Concession and utility per turn for neutral vs persona, with text bars for a quick look.
+  const turns = Array.from(
+    new Set(concessionCurveRows.map((row) => row.turn).filter(Boolean))
+  ).sort((a, b) => a - b);
+  const concessionLookup = new Map(
+    concessionCurveRows.map((row) => [`${row.condition_id}|${row.by}|${row.turn}`, row])
+  );
+  const plotRows = turns.map((turn) => {
+    const row: Row = { turn };
+    ["neutral", "persona"].forEach((conditionId) => {
+      ["human", "agent"].forEach((role) => {
+        const curve = concessionLookup.get(`${conditionId}|${role}|${turn}`);
+        row[`${conditionId}_${role}_concession`] = curve?.avg_concession ?? "";
+        row[`${conditionId}_${role}_utility`] = curve?.avg_own_utility ?? "";
+      });
+    });
+    return row;
+  });
+  const concessionValues = plotRows.flatMap((row) =>
+    Object.entries(row)
+      .filter(([key, value]) => key.endsWith("_concession") && typeof value === "number")
+      .map(([, value]) => value as number)
+  );
+  const concessionMax = concessionValues.length ? Math.max(...concessionValues) : 0;
+
+  const plotsSheet = workbook.addWorksheet("Plots");
+  const plotSeries = ["neutral_human", "neutral_agent", "persona_human", "persona_agent"];
+  const seriesLabel = (series: string) =>
+    series
+      .split("_")
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join(" ");
+  plotsSheet.columns = [
+    { header: "Turn", key: "turn" },
+    ...plotSeries.map((series) => ({
+      header: `${seriesLabel(series)} Concession`,
+      key: `${series}_concession`,
+    })),
+    ...plotSeries.map((series) => ({
+      header: `${seriesLabel(series)} Utility`,
+      key: `${series}_utility`,
+    })),
+    ...plotSeries.map((series) => ({ header: `${seriesLabel(series)} Bar`, key: `${series}_bar` })),
+  ];
+  plotRows.forEach((row) => {
+    plotsSheet.addRow({
+      ...row,
+      ...Object.fromEntries(
+        plotSeries.map((series) => [
+          `${series}_bar`,
+          buildBar(row[`${series}_concession`], concessionMax),
+        ])
+      ),
+    });
+  });
+
+  // Mean and 95% bootstrap interval per condition and role, under the per-turn table.
+  const intervalRows = (
+    title: string,
+    metrics: Array<{
+      label: string;
+      key: "anchor_share" | "rigidity_flat_rate" | "burstiness";
+      seed: number;
+    }>
+  ) => {
+    plotsSheet.addRow([]);
+    const header = plotsSheet.addRow([
+      title,
+      "Condition",
+      "Role",
+      "Mean",
+      "CI Low",
+      "CI High",
+      "N",
+    ]);
+    orderedConditions.forEach((conditionId) => {
+      (["human", "agent"] as const).forEach((role) => {
+        metrics.forEach(({ label, key, seed }) => {
+          const values = conditionValues(conditionId, `${role}_${key}`);
+          const stats = bootstrapCI(values, BOOTSTRAP_ITERATIONS, BOOTSTRAP_SEED + seed);
+          plotsSheet.addRow([
+            label,
+            conditionId,
+            role,
+            stats.mean ?? "",
+            stats.ci_low ?? "",
+            stats.ci_high ?? "",
+            values.length,
+          ]);
+        });
+      });
+    });
+    return header.number;
+  };
+  const plotHeaderRows = orderedConditions.length
+    ? [
+        intervalRows("Anchoring Metrics (mean + 95% CI)", [
+          { label: "Anchor Share", key: "anchor_share", seed: 21 },
+        ]),
+        intervalRows("Rigidity & Burstiness (mean + 95% CI)", [
+          { label: "Rigidity Flat Rate", key: "rigidity_flat_rate", seed: 31 },
+          { label: "Burstiness", key: "burstiness", seed: 41 },
+        ]),
+      ]
+    : [];
+  finishSheet(plotsSheet);
+  formatColumns(
+    plotsSheet,
+    Object.fromEntries(
+      plotSeries.flatMap((series) => [
+        [`${series}_concession`, { numFmt: DECIMAL, alignment: CENTERED }],
+        [`${series}_utility`, { numFmt: DECIMAL, alignment: CENTERED }],
+      ])
+    )
+  );
+  plotSeries.forEach((series) => {
+    const fill = solidFill(series.startsWith("neutral") ? COLORS.neutralFill : COLORS.personaFill);
+    ["concession", "utility", "bar"].forEach((suffix) => {
+      plotsSheet.getColumn(`${series}_${suffix}`).eachCell((cell, rowNumber) => {
+        if (rowNumber > 1) cell.fill = fill;
+      });
+    });
+  });
+  plotHeaderRows.forEach((rowNumber) => styleHeader(plotsSheet.getRow(rowNumber)));
+
+  // Neutral against the persona condition as a whole, then against each persona tag.
+  const comparisonPairs = [
+    { groupA: "neutral", groupB: "persona", label: "neutral_vs_persona", personaB: false },
+    ...Object.keys(personaGroups)
+      .sort((a, b) => a.localeCompare(b))
+      .map((personaTag) => ({
+        groupA: "neutral",
+        groupB: personaTag,
+        label: `neutral_vs_${personaTag}`,
+        personaB: true,
+      })),
+  ];
+  const comparisonRows: Row[] = [];
+  comparisonPairs.forEach((pair) => {
+    COMPARISON_METRICS.forEach((metric) => {
+      const valuesA = conditionValues(pair.groupA, metric.key);
+      const valuesB = metricValues(
+        (pair.personaB ? personaGroups : conditionGroups)[pair.groupB] ?? [],
+        metric.key
+      );
+      if (!valuesA.length && !valuesB.length) return;
+      const statsA = bootstrapCI(valuesA);
+      const statsB = bootstrapCI(valuesB, BOOTSTRAP_ITERATIONS, BOOTSTRAP_SEED + 5);
+      const diffCI = bootstrapDiffCI(valuesA, valuesB);
+      comparisonRows.push({
+        metric_name: metric.label,
+        groupA_name: pair.groupA,
+        groupB_name: pair.groupB,
+        group_label: pair.label,
+        nA: valuesA.length,
+        meanA: statsA.mean,
+        stdA: statsA.std,
+        ciA_low: statsA.ci_low,
+        ciA_high: statsA.ci_high,
+        nB: valuesB.length,
+        meanB: statsB.mean,
+        stdB: statsB.std,
+        ciB_low: statsB.ci_low,
+        ciB_high: statsB.ci_high,
+        diff_mean: statsA.mean !== null && statsB.mean !== null ? statsA.mean - statsB.mean : null,
+        bootstrap_CI_diff_low: diffCI.ci_low,
+        bootstrap_CI_diff_high: diffCI.ci_high,
+        cohens_d: cohensD(valuesA, valuesB),
+      });
+    });
+  });
+
+  const comparisonsSheet = workbook.addWorksheet("Comparisons");
+  comparisonsSheet.columns = [
+    { header: "Metric", key: "metric_name" },
+    { header: "Group A", key: "groupA_name" },
+    { header: "Group B", key: "groupB_name" },
+    { header: "Comparison", key: "group_label" },
+    { header: "nA", key: "nA" },
+    { header: "Mean A", key: "meanA" },
+    { header: "Std A", key: "stdA" },
+    { header: "CI A Low", key: "ciA_low" },
+    { header: "CI A High", key: "ciA_high" },
+    { header: "nB", key: "nB" },
+    { header: "Mean B", key: "meanB" },
+    { header: "Std B", key: "stdB" },
+    { header: "CI B Low", key: "ciB_low" },
+    { header: "CI B High", key: "ciB_high" },
+    { header: "Diff Mean (A-B)", key: "diff_mean" },
+    { header: "Diff CI Low", key: "bootstrap_CI_diff_low" },
+    { header: "Diff CI High", key: "bootstrap_CI_diff_high" },
+    { header: "Cohen's d", key: "cohens_d" },
+  ];
+  comparisonRows.forEach((row) => comparisonsSheet.addRow(row));
+  finishSheet(comparisonsSheet);
+  formatColumns(
+    comparisonsSheet,
+    Object.fromEntries(
+      comparisonsSheet.columns
+        .slice(4)
+        .map((column) => [
+          String(column.key),
+          { numFmt: column.key === "nA" || column.key === "nB" ? "0" : "0.000" },
+        ])
+    )
+  );
+
+  const legendSheet = workbook.addWorksheet("Legend");
+  legendSheet.columns = [
+    { header: "Metric", key: "metric" },
+    { header: "Definition", key: "definition" },
+    { header: "Range", key: "range" },
+    { header: "Direction", key: "direction" },
+    { header: "Notes", key: "notes" },
+  ];
+  LEGEND_ROWS.forEach((row) => legendSheet.addRow(row));
+  finishSheet(legendSheet);
+  legendSheet.eachRow((row, rowNumber) => {
+    row.height = rowNumber === 1 ? 22 : 18;
+    row.eachCell((cell, colNumber) => {
+      cell.alignment = {
+        vertical: "middle",
+        horizontal: rowNumber === 1 ? "center" : "left",
+        wrapText: colNumber === 2 || colNumber === 5,
+      };
+    });
+    if (rowNumber === 1) return;
+    const directionCell = row.getCell("direction");
+    directionCell.font = {
+      color: { argb: directionColor(String(directionCell.value)) },
+      bold: true,
+    };
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,268 @@
+import "server-only";
+
+import crypto from "crypto";
+
+import {
+  StudyError,
+  findStudyArm,
+  readStudyFile,
+  studyFilename,
+  withStudyLock,
+  writeStudyFile,
+} from "@/lib/server/studies";
+import type { NegotiationEndReason, Study, StudyInvite } from "@/lib/types";
+import { nowIso } from "@/lib/utils";
+
+const INVITES_SUFFIX = ".invites.json";
+const MAX_INVITES_PER_REQUEST = 500;
+const DEV_SECRET = "agent-bargaining-dev-invite-secret";
+
+type InviteLedger = { invites: Record<string, StudyInvite> };
+
+/** Fields carried by a signed invitation token. */
+type InvitePayload = { i: string; s: string; p: string; a?: string };
+
+export class InviteError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "InviteError";
+    this.status = status;
+  }
+}
+
+function inviteSecret() {
+  const secret = process.env.INVITE_SECRET;
+  if (secret) return secret;
+  // A known secret would let anyone mint completion codes, so production must set one.
+  if (process.env.NODE_ENV === "production") {
+    throw new InviteError("INVITE_SECRET is not configured.", 500);
+  }
+  return DEV_SECRET;
+}
+
+function sign(value: string) {
+  return crypto.createHmac("sha256", inviteSecret()).update(value).digest();
+}
+
+function randomId(bytes: number) {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+function encodeInvite(studyId: string, invite: StudyInvite) {
+  const payload: InvitePayload = {
+    i: invite.invite_id,
+    s: studyId,
+    p: invite.participant_id,
+    ...(invite.arm_id ? { a: invite.arm_id } : {}),
+  };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body).toString("base64url")}`;
+}
+
+/** Checks the signature of an invitation token and returns what it carries. */
+export function verifyInviteToken(token: string) {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length) {
+    throw new InviteError("Invalid invitation link.", 403);
+  }
+  const expected = sign(body);
+  const received = Buffer.from(signature, "base64url");
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    throw new InviteError("Invalid invitation link.", 403);
+  }
+  const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as InvitePayload;
+  return {
+    invite_id: payload.i,
+    study_id: payload.s,
+    participant_id: payload.p,
+    arm_id: payload.a,
+  };
+}
+
+/** Participant-facing link of an invite, e.g. `https://host/?study=<id>&invite=<token>`. */
+export function inviteUrl(origin: string, studyId: string, invite: StudyInvite) {
+  const params = new URLSearchParams({ study: studyId, invite: encodeInvite(studyId, invite) });
+  return `${origin.replace(/\/+$/, "")}/?${params.toString()}`;
+}
+
+async function getInviteLedger(studyId: string) {
+  return (
+    (await readStudyFile<InviteLedger>(studyFilename(studyId, INVITES_SUFFIX))) ?? {
+      invites: {},
+    }
+  );
+}
+
+export async function listInvites(studyId: string) {
+  const ledger = await getInviteLedger(studyId);
+  return Object.values(ledger.invites).sort((a, b) => (a.issued_at < b.issued_at ? -1 : 1));
+}
+
+function participantIdOf(value: string) {
+  const participantId = value.trim();
+  if (!/^[A-Za-z0-9._@-]{1,64}$/.test(participantId)) {
+    throw new StudyError(
+      `Invalid participant id "${participantId}". Use up to 64 letters, digits, . _ @ or -.`
+    );
+  }
+  return participantId;
+}
+
+/**
+ * Issues invites for a roster of participant ids, or for `count` generated ids. Ids that
+ * already have an invite in the study keep their existing one.
+ */
+export function createInvites(params: {
+  study: Study;
+  participantIds?: string[];
+  count?: number;
+  armId?: string;
+}) {
+  const { study } = params;
+  if (params.armId) {
+    findStudyArm(study, params.armId);
+  }
+  const ids = params.participantIds?.length
+    ? Array.from(new Set(params.participantIds.map(participantIdOf)))
+    : Array.from({ length: params.count ?? 0 }, () => `p-${randomId(6)}`);
+  if (!ids.length) {
+    throw new StudyError("Provide participant ids or a number of invites to create.");
+  }
+  if (ids.length > MAX_INVITES_PER_REQUEST) {
+    throw new StudyError(`At most ${MAX_INVITES_PER_REQUEST} invites can be created at once.`);
+  }
+  return withStudyLock(study.study_id, async () => {
+    const ledger = await getInviteLedger(study.study_id);
+    const existing = new Map(
+      Object.values(ledger.invites).map((invite) => [invite.participant_id, invite])
+    );
+    const invites = ids.map((participantId) => {
+      const current = existing.get(participantId);
+      if (current) return current;
+      const invite: StudyInvite = {
+        invite_id: randomId(9),
+        participant_id: participantId,
+        ...(params.armId ? { arm_id: params.armId } : {}),
+        issued_at: nowIso(),
+      };
+      ledger.invites[invite.invite_id] = invite;
+      return invite;
+    });
+    await writeStudyFile(studyFilename(study.study_id, INVITES_SUFFIX), ledger);
+    return invites;
+  });
+}
+
+/** Verifies an invitation token against the study and rejects invites already used. */
+export async function checkInvite(studyId: string, token: string) {
+  const payload = verifyInviteToken(token);
+  if (payload.study_id !== studyId) {
+    throw new InviteError("This invitation belongs to a different study.", 403);
+  }
+  const ledger = await getInviteLedger(studyId);
+  const invite = ledger.invites[payload.invite_id];
+  if (!invite) {
+    throw new InviteError("This invitation was not issued by the study.", 403);
+  }
+  if (invite.redeemed_at) {
+    throw new InviteError("This invitation has already been used.", 409);
+  }
+  return invite;
+}
+
+/** The invite behind a token, used or not; resuming looks up the session it started. */
+export async function findInvite(token: string) {
+  const payload = verifyInviteToken(token);
+  const ledger = await getInviteLedger(payload.study_id);
+  const invite = ledger.invites[payload.invite_id];
+  if (!invite) {
+    throw new InviteError("This invitation was not issued by the study.", 403);
+  }
+  return { study_id: payload.study_id, invite };
+}
+
+/**
+ * Marks an invite as used by a session. Starting the same session again is allowed;
+ * any other session is refused.
+ */
+export function redeemInvite(studyId: string, inviteId: string, sessionId: string) {
+  return withStudyLock(studyId, async () => {
+    const ledger = await getInviteLedger(studyId);
+    const invite = ledger.invites[inviteId];
+    if (!invite) {
+      throw new InviteError("This invitation was not issued by the study.", 403);
+    }
+    if (invite.session_id === sessionId) {
+      return invite;
+    }
+    if (invite.redeemed_at) {
+      throw new InviteError("This invitation has already been used.", 409);
+    }
+    invite.redeemed_at = nowIso();
+    invite.session_id = sessionId;
+    await writeStudyFile(studyFilename(studyId, INVITES_SUFFIX), ledger);
+    return invite;
+  });
+}
+
+/**
+ * Undoes the redemption by a session that could not start (e.g. its arm was full), so the
+ * participant can use the invitation again.
+ */
+export function releaseInvite(studyId: string, inviteId: string, sessionId: string) {
+  return withStudyLock(studyId, async () => {
+    const ledger = await getInviteLedger(studyId);
+    const invite = ledger.invites[inviteId];
+    if (!invite || invite.session_id !== sessionId) return;
+    delete invite.redeemed_at;
+    delete invite.session_id;
+    await writeStudyFile(studyFilename(studyId, INVITES_SUFFIX), ledger);
+  });
+}
+
+// Outcomes that complete the task; an aborted session earns no completion code.
+const CREDITED_OUTCOMES: NegotiationEndReason[] = ["agreement", "timeout", "turn_limit"];
+
+export function earnsCompletionCode(reason: NegotiationEndReason | undefined) {
+  return reason !== undefined && CREDITED_OUTCOMES.includes(reason);
+}
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or retyped.
+const CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+// 40 bits of the signature of `value`, as eight base32 characters, e.g. `7KQ2-M9XD`.
+function signedCode(value: string) {
+  const digest = sign(value);
+  let bits = digest.readUIntBE(0, 5);
+  let code = "";
+  for (let i = 0; i < 8; i += 1) {
+    code = CODE_ALPHABET[bits % 32] + code;
+    bits = Math.floor(bits / 32);
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/** Completion code of a session, e.g. `7KQ2-M9XD`, derived from its id and the secret. */
+export function completionCode(sessionId: string) {
+  return signedCode(`completion:${sessionId}`);
+}
+
+/**
+ * Code that lets a study participant resume their session on another device. It is shown
+ * during the negotiation; the participant ID alone is not secret enough for study data.
+ */
+export function resumeCode(sessionId: string) {
+  return signedCode(`resume:${sessionId}`);
+}
+
+/** Upper-cases a typed code and maps look-alike letters, so `7kq2 m9xd` matches `7KQ2-M9XD`. */
+export function normalizeCompletionCode(value: string) {
+  const compact = value
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+  return compact.length === 8 ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact;
+}
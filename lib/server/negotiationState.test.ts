@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { getDomain } from "@/lib/domains";
+import {
+  applyServerOutcome,
+  recordAgentResponse,
+  recordHumanOffer,
+  startNegotiation,
+} from "@/lib/server/negotiationState";
+import type { ExperimentSession, OfferAllocation } from "@/lib/types";
+
+vi.mock("server-only", () => ({}));
+
+const domain = getDomain("classroom-perks-01");
+
+function evenSplit(): OfferAllocation {
+  return Object.fromEntries(
+    domain.issues.map((issue) => [
+      issue.key,
+      { human: Math.ceil(issue.total / 2), agent: Math.floor(issue.total / 2) },
+    ])
+  );
+}
+
+function start(sessionId: string) {
+  return startNegotiation({
+    sessionId,
+    conditionId: "neutral",
+    domainId: domain.domain_id,
+  });
+}
+
+describe("turn limit", () => {
+  // A human offer whose answer was lost leaves the human on the even turns, so the human's
+  // offer takes the last turn.
+  function playToLastTurn(sessionId: string) {
+    const state = start(sessionId);
+    recordHumanOffer(state, evenSplit());
+    while (state.offers.length < state.config.max_turns) {
+      recordHumanOffer(state, evenSplit());
+      if (state.offers.length < state.config.max_turns) {
+        recordAgentResponse(state, { decision: "counter", allocation: evenSplit() });
+      }
+    }
+    return state;
+  }
+
+  it("ends the negotiation instead of countering the offer on the last turn", () => {
+    const state = playToLastTurn("turn-limit-counter");
+    expect(state.offers.at(-1)?.by).toBe("human");
+
+    const counter = recordAgentResponse(state, { decision: "counter", allocation: evenSplit() });
+
+    expect(counter).toBeNull();
+    expect(state.offers).toHaveLength(state.config.max_turns);
+    expect(state.outcome?.reason).toBe("turn_limit");
+    expect(state.decisions.at(-1)?.type).toBe("offer_reject");
+  });
+
+  it("still lets the agent accept the offer on the last turn", () => {
+    const state = playToLastTurn("turn-limit-accept");
+
+    recordAgentResponse(state, { decision: "accept" });
+
+    expect(state.offers).toHaveLength(state.config.max_turns);
+    expect(state.outcome?.reason).toBe("agreement");
+    expect(state.outcome?.agreed_offer).toBe(state.offers.at(-1));
+  });
+});
+
+describe("applyServerOutcome", () => {
+  it("replaces the submitted config and condition with the server's", () => {
+    const state = start("server-config");
+    const submitted = {
+      session_id: "server-config",
+      condition: { id: "persona", persona_tag: "tampered" },
+      config: {
+        ...state.config,
+        weights: { human: {}, agent: {} },
+        reservation: { human: 0, agent: 0 },
+        max_turns: 99,
+      },
+      outcome: { turns: 0, duration_seconds: 0 },
+    } as unknown as ExperimentSession;
+
+    const stored = applyServerOutcome(submitted);
+
+    expect(stored.config).toEqual(state.config);
+    expect(stored.condition).toEqual(state.condition);
+  });
+});
@@ -0,0 +1,433 @@
+import "server-only";
+
+import { v4 as uuidv4 } from "uuid";
+
+import { validateOfferAllocation } from "@/lib/agent";
+import { domainSessionConfig, getDomain, getWeightProfile, isDomainId } from "@/lib/domains";
+import { createEvent } from "@/lib/logger";
+import { armConditionId } from "@/lib/server/studies";
+import type {
+  ChatMessage,
+  ConditionId,
+  ExperimentEvent,
+  ExperimentSession,
+  NegotiationEndReason,
+  NegotiationOutcome,
+  NegotiationStateView,
+  Offer,
+  OfferAllocation,
+  SessionAssignment,
+  Study,
+  StudyArm,
+  UtilityWeights,
+} from "@/lib/types";
+import { computeUtilities, nowIso, summarizeDecisions, summarizeHistory } from "@/lib/utils";
+
+/** Everything the server tracks for one negotiation; plain JSON, so it can be checkpointed. */
+export type NegotiationState = {
+  session_id: string;
+  condition: ExperimentSession["condition"];
+  config: ExperimentSession["config"];
+  weights: UtilityWeights;
+  offers: Offer[];
+  chat: ChatMessage[];
+  decisions: ExperimentEvent[];
+  study?: { study_id: string; arm: StudyArm; assignment: SessionAssignment };
+  invite?: { invite_id: string; participant_id: string };
+  started_at: string;
+  deadline_ends_at: string;
+  outcome?: NegotiationOutcome;
+};
+
+export class NegotiationStateError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "NegotiationStateError";
+    this.status = status;
+  }
+}
+
+// Proposals sent in the last seconds before the deadline can arrive slightly late.
+const DEADLINE_GRACE_MS = 5000;
+const STATE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const states = new Map<string, NegotiationState>();
+const negotiationLocks = new Map<string, Promise<unknown>>();
+
+function pruneExpired() {
+  const now = Date.now();
+  for (const [sessionId, state] of states) {
+    if (Date.parse(state.deadline_ends_at) + STATE_TTL_MS < now) {
+      states.delete(sessionId);
+    }
+  }
+}
+
+function deadlineRemaining(state: NegotiationState) {
+  return Math.max(0, Math.floor((Date.parse(state.deadline_ends_at) - Date.now()) / 1000));
+}
+
+function deadlinePassed(state: NegotiationState, graceMs = 0) {
+  return Date.now() > Date.parse(state.deadline_ends_at) + graceMs;
+}
+
+function finish(state: NegotiationState, reason: NegotiationEndReason, agreedOffer?: Offer) {
+  if (state.outcome) return state.outcome;
+  state.outcome = {
+    reason,
+    ended_at: nowIso(),
+    agreed_offer: agreedOffer,
+    utilities: agreedOffer
+      ? computeUtilities(agreedOffer.allocation, state.weights, state.config.issues)
+      : undefined,
+  };
+  return state.outcome;
+}
+
+function lastOfferBy(state: NegotiationState, by: Offer["by"]) {
+  return [...state.offers].reverse().find((offer) => offer.by === by) ?? null;
+}
+
+/**
+ * Opens (or returns the already open) negotiation for a session. The server loads the
+ * domain config from the registry and starts the clock; nothing the client sends later
+ * can move either. For study sessions the study and arm decide the condition and domain.
+ */
+export function startNegotiation(params: {
+  sessionId: string;
+  conditionId: ConditionId;
+  personaTag?: string;
+  domainId?: string;
+  weightProfile?: string;
+  study?: { study: Study; arm: StudyArm; assignment: SessionAssignment };
+  invite?: { invite_id: string; participant_id: string };
+}) {
+  pruneExpired();
+  const existing = states.get(params.sessionId);
+  if (existing) return existing;
+  if (params.study) {
+    const { study, arm } = params.study;
+    params = {
+      ...params,
+      conditionId: armConditionId(arm),
+      personaTag: arm.persona_tag,
+      domainId: study.domain_id,
+      weightProfile: study.weight_profile ?? params.weightProfile,
+    };
+  }
+  if (params.domainId !== undefined && !isDomainId(params.domainId)) {
+    throw new NegotiationStateError(`Unknown domain "${params.domainId}".`, 400);
+  }
+  const domain = getDomain(params.domainId);
+  // Only the profile id is taken from the client; the weights themselves come from the registry.
+  const profile = getWeightProfile(domain, params.weightProfile);
+  if (params.weightProfile && !profile) {
+    throw new NegotiationStateError(`Unknown weight profile "${params.weightProfile}".`, 400);
+  }
+  const config = domainSessionConfig(domain, profile);
+  const startedAt = Date.now();
+  const state: NegotiationState = {
+    session_id: params.sessionId,
+    condition: {
+      id: params.conditionId,
+      persona_tag: params.conditionId === "persona" ? params.personaTag : undefined,
+    },
+    config,
+    weights: config.weights,
+    offers: [],
+    chat: [],
+    decisions: [],
+    ...(params.study
+      ? {
+          study: {
+            study_id: params.study.study.study_id,
+            arm: params.study.arm,
+            assignment: params.study.assignment,
+          },
+        }
+      : {}),
+    ...(params.invite ? { invite: params.invite } : {}),
+    started_at: new Date(startedAt).toISOString(),
+    deadline_ends_at: new Date(
+      startedAt + domain.deadline_seconds * 1000
+    ).toISOString(),
+  };
+  states.set(params.sessionId, state);
+  return state;
+}
+
+export function findNegotiation(sessionId: string) {
+  return states.get(sessionId) ?? null;
+}
+
+/**
+ * Puts a checkpointed negotiation back after a server restart. A negotiation already in
+ * memory is newer than any checkpoint and is kept.
+ */
+export function restoreNegotiation(snapshot: NegotiationState) {
+  pruneExpired();
+  const existing = states.get(snapshot.session_id);
+  if (existing) return existing;
+  states.set(snapshot.session_id, snapshot);
+  return snapshot;
+}
+
+export function getNegotiation(sessionId: string) {
+  const state = states.get(sessionId);
+  if (!state) {
+    throw new NegotiationStateError("Negotiation has not been started for this session.", 404);
+  }
+  return state;
+}
+
+/** Whether the server saw this session's negotiation through to an outcome. */
+export function negotiationEnded(sessionId: string) {
+  const state = states.get(sessionId);
+  if (!state) return false;
+  if (!state.outcome && deadlinePassed(state, DEADLINE_GRACE_MS)) {
+    finish(state, "timeout");
+  }
+  return Boolean(state.outcome);
+}
+
+/**
+ * Runs the task after every earlier task for the same session, so a move that awaits the
+ * model cannot interleave with the next one.
+ */
+export function withNegotiationLock<T>(sessionId: string, task: () => Promise<T>) {
+  const previous = negotiationLocks.get(sessionId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  negotiationLocks.set(sessionId, next);
+  void next.finally(() => {
+    if (negotiationLocks.get(sessionId) === next) {
+      negotiationLocks.delete(sessionId);
+    }
+  });
+  return next;
+}
+
+/** Rejects any further move once the negotiation is over, closing it on deadline expiry. */
+export function assertNegotiationOpen(state: NegotiationState) {
+  if (!state.outcome && deadlinePassed(state, DEADLINE_GRACE_MS)) {
+    finish(state, "timeout");
+  }
+  if (state.outcome) {
+    throw new NegotiationStateError(
+      `Negotiation already ended (${state.outcome.reason}).`,
+      409
+    );
+  }
+}
+
+/** Validates the proposal against the session issues and records it with a server-assigned turn. */
+export function recordHumanOffer(state: NegotiationState, allocation: unknown) {
+  assertNegotiationOpen(state);
+  if (state.offers.length >= state.config.max_turns) {
+    finish(state, "turn_limit");
+    throw new NegotiationStateError("Turn limit reached.", 409);
+  }
+  let validated: OfferAllocation;
+  try {
+    validated = validateOfferAllocation(allocation, state.config.issues);
+  } catch (error) {
+    throw new NegotiationStateError(
+      error instanceof Error ? error.message : "Invalid offer.",
+      400
+    );
+  }
+  const previous = state.offers[state.offers.length - 1];
+  if (previous?.by === "agent") {
+    state.decisions.push(createEvent("offer_reject", { offer: previous, by: "human" }));
+  }
+  const offer: Offer = {
+    turn: state.offers.length + 1,
+    by: "human",
+    allocation: validated,
+    created_at: nowIso(),
+  };
+  state.offers.push(offer);
+  return offer;
+}
+
+/**
+ * Records the agent's answer to the latest human offer, ending the negotiation when due.
+ * No counteroffer goes past `max_turns`: on the last turn the agent can only accept or reject.
+ * The negotiation may have ended while the answer was generated; the answer is then dropped.
+ */
+export function recordAgentResponse(
+  state: NegotiationState,
+  response: { decision: "accept" | "counter"; allocation?: OfferAllocation }
+) {
+  assertNegotiationOpen(state);
+  const humanOffer = lastOfferBy(state, "human");
+  if (response.decision === "accept" && humanOffer) {
+    state.decisions.push(createEvent("offer_accept", { offer: humanOffer, by: "agent" }));
+    finish(state, "agreement", humanOffer);
+    return null;
+  }
+  if (humanOffer && state.offers.length >= state.config.max_turns) {
+    // The human's offer used the last turn, so a rejection ends the negotiation.
+    state.decisions.push(createEvent("offer_reject", { offer: humanOffer, by: "agent" }));
+    finish(state, "turn_limit");
+    return null;
+  }
+  if (!response.allocation) {
+    throw new NegotiationStateError("Agent response is missing a counteroffer.", 500);
+  }
+  if (humanOffer) {
+    state.decisions.push(createEvent("offer_reject", { offer: humanOffer, by: "agent" }));
+  }
+  const offer: Offer = {
+    turn: state.offers.length + 1,
+    by: "agent",
+    allocation: response.allocation,
+    created_at: nowIso(),
+  };
+  state.offers.push(offer);
+  if (state.offers.length >= state.config.max_turns) {
+    finish(state, "turn_limit");
+  }
+  return offer;
+}
+
+export function recordChatMessage(
+  state: NegotiationState,
+  role: ChatMessage["role"],
+  content: string
+) {
+  const message: ChatMessage = { id: uuidv4(), role, content, t: nowIso() };
+  state.chat.push(message);
+  return message;
+}
+
+/**
+ * Ends the negotiation on a client request. Agreement is only possible on the agent's
+ * latest offer, and timeouts or turn limits only once the server agrees they happened.
+ * Ending an already ended negotiation returns the recorded outcome unchanged.
+ */
+export function endNegotiation(state: NegotiationState, reason: NegotiationEndReason) {
+  if (state.outcome) return state.outcome;
+  if (reason === "abort") {
+    return finish(state, "abort");
+  }
+  if (reason === "timeout") {
+    // The client timer may fire a moment before the server clock catches up.
+    if (!deadlinePassed(state, -DEADLINE_GRACE_MS)) {
+      throw new NegotiationStateError("Deadline has not passed yet.", 409);
+    }
+    return finish(state, "timeout");
+  }
+  assertNegotiationOpen(state);
+  if (reason === "turn_limit") {
+    if (state.offers.length < state.config.max_turns) {
+      throw new NegotiationStateError("Turn limit has not been reached.", 409);
+    }
+    return finish(state, "turn_limit");
+  }
+  const latest = state.offers[state.offers.length - 1];
+  if (!latest || latest.by !== "agent") {
+    throw new NegotiationStateError("There is no agent offer to accept.", 409);
+  }
+  state.decisions.push(createEvent("offer_accept", { offer: latest, by: "human" }));
+  return finish(state, "agreement", latest);
+}
+
+/** Prompt context derived from the server-side record instead of the request body. */
+export function buildPromptContext(state: NegotiationState) {
+  const humanOffer = lastOfferBy(state, "human");
+  const agentOffer = lastOfferBy(state, "agent");
+  return {
+    personaTag: state.condition.id === "persona" ? state.condition.persona_tag : "neutral",
+    issues: state.config.issues,
+    weights: state.weights,
+    reservation: state.config.reservation,
+    humanOffer,
+    currentOffer: agentOffer?.allocation ?? null,
+    historySummary: summarizeHistory(state.offers, state.config.max_turns),
+    decisionSummary: summarizeDecisions(state.decisions, 10),
+    chatContext: state.chat.slice(-12).map((message) => ({
+      role: message.role,
+      content: message.content,
+    })),
+    deadlineRemaining: deadlineRemaining(state),
+    turn: state.offers.length,
+    maxTurns: state.config.max_turns,
+  };
+}
+
+/** Arm and condition a study session runs with, for the client to mirror. */
+export function toStudyView(state: NegotiationState) {
+  if (!state.study) return null;
+  return {
+    study_id: state.study.study_id,
+    arm_id: state.study.arm.arm_id,
+    condition_id: state.condition.id,
+    persona_tag: state.condition.persona_tag,
+    assignment: state.study.assignment,
+  };
+}
+
+export function toStateView(state: NegotiationState): NegotiationStateView {
+  if (!state.outcome && deadlinePassed(state, DEADLINE_GRACE_MS)) {
+    finish(state, "timeout");
+  }
+  return {
+    session_id: state.session_id,
+    status: state.outcome ? "ended" : "active",
+    offers: state.offers,
+    chat: state.chat,
+    turn: state.offers.length,
+    max_turns: state.config.max_turns,
+    started_at: state.started_at,
+    deadline_ends_at: state.deadline_ends_at,
+    deadline_remaining: deadlineRemaining(state),
+    outcome: state.outcome,
+  };
+}
+
+/**
+ * Replaces the client-reported outcome, condition and config with the server record before a
+ * session is stored, so analytics score it with the weights and reservation values it was
+ * actually played with.
+ */
+export function applyServerOutcome(session: ExperimentSession): ExperimentSession {
+  const state = states.get(session.session_id);
+  if (!state) return session;
+  const outcome = state.outcome;
+  return {
+    ...session,
+    condition: state.condition,
+    config: state.config,
+    ...(state.study
+      ? {
+          study_id: state.study.study_id,
+          arm_id: state.study.arm.arm_id,
+          assignment: state.study.assignment,
+        }
+      : {}),
+    ...(state.invite
+      ? {
+          invite_id: state.invite.invite_id,
+          participant: { ...session.participant, participant_id: state.invite.participant_id },
+        }
+      : {}),
+    outcome: {
+      ...session.outcome,
+      turns: state.offers.length,
+      ...(outcome
+        ? {
+            ended_at: outcome.ended_at,
+            reason: outcome.reason,
+            agreed_offer: outcome.agreed_offer,
+            utilities: outcome.utilities,
+            duration_seconds: Math.max(
+              0,
+              Math.round((Date.parse(outcome.ended_at) - Date.parse(state.started_at)) / 1000)
+            ),
+          }
+        : {}),
+    },
+  };
+}
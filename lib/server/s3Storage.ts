@@ -0,0 +1,131 @@
+import "server-only";
+
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  type _Object,
+} from "@aws-sdk/client-s3";
+import path from "path";
+
+import {
+  matchesQuery,
+  normalizePrefix,
+  sessionFilePrefix,
+  sortNewestFirst,
+  type SessionStorage,
+} from "@/lib/server/sessionStorage";
+import type { ExperimentSession } from "@/lib/types";
+
+const bucketName = process.env.S3_BUCKET;
+const objectPrefix = normalizePrefix(process.env.S3_PREFIX ?? "sessions");
+
+export function s3Configured() {
+  return Boolean(bucketName);
+}
+
+let client: S3Client | null = null;
+
+/**
+ * Client for AWS S3 or any S3-compatible endpoint (MinIO, R2, ...). `S3_ENDPOINT` switches
+ * to path-style URLs, which self-hosted endpoints expect. Without `S3_ACCESS_KEY_ID` the
+ * SDK's default credential chain (`AWS_*` variables, instance roles) is used.
+ */
+function getClient() {
+  if (!client) {
+    const endpoint = process.env.S3_ENDPOINT;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    client = new S3Client({
+      region: process.env.S3_REGION ?? "us-east-1",
+      ...(endpoint ? { endpoint, forcePathStyle: true } : {}),
+      ...(accessKeyId
+        ? {
+            credentials: {
+              accessKeyId,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "",
+            },
+          }
+        : {}),
+    });
+  }
+  return client;
+}
+
+async function listObjects(prefix: string) {
+  const objects: _Object[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await getClient().send(
+      new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+    objects.push(...(page.Contents ?? []));
+    continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+  } while (continuationToken);
+  return objects;
+}
+
+async function getObject(key: string) {
+  try {
+    const response = await getClient().send(new GetObjectCommand({ Bucket: bucketName, Key: key }));
+    return {
+      raw: (await response.Body?.transformToString("utf8")) ?? "",
+      storedAt: response.Metadata?.["stored-at"],
+    };
+  } catch (error) {
+    if ((error as Error).name === "NoSuchKey") return null;
+    throw error;
+  }
+}
+
+export function createS3Storage(): SessionStorage {
+  return {
+    kind: "s3",
+    async write(filename, session, storedAt) {
+      await getClient().send(
+        new PutObjectCommand({
+          Bucket: bucketName,
+          Key: `${objectPrefix}${filename}`,
+          Body: JSON.stringify(session, null, 2),
+          ContentType: "application/json",
+          // Object times cannot be set, so a migrated session keeps its time as metadata.
+          ...(storedAt ? { Metadata: { "stored-at": storedAt } } : {}),
+        })
+      );
+    },
+    async list(query) {
+      const objects = (await listObjects(`${objectPrefix}${sessionFilePrefix(query)}`)).filter(
+        (object) => object.Key?.endsWith(".json")
+      );
+      const sessions = await Promise.all(
+        objects.map(async (object) => {
+          const key = object.Key as string;
+          const stored = await getObject(key);
+          if (!stored) return null;
+          const storedAt = stored.storedAt ?? object.LastModified ?? new Date();
+          return {
+            filename: path.posix.basename(key),
+            stored_at: new Date(storedAt).toISOString(),
+            session: JSON.parse(stored.raw) as ExperimentSession,
+            source: "s3" as const,
+            objectKey: key,
+          };
+        })
+      );
+      return sortNewestFirst(
+        sessions.filter(
+          (entry): entry is NonNullable<typeof entry> =>
+            entry !== null && matchesQuery(entry.session, query)
+        )
+      );
+    },
+    async read(filename) {
+      const stored = await getObject(`${objectPrefix}${filename}`);
+      return stored ? stored.raw : null;
+    },
+  };
+}
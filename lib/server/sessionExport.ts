@@ -0,0 +1,378 @@
+import "server-only";
+
+import archiver from "archiver";
+import { Readable } from "stream";
+
+import { sessionReservation, sessionWeights } from "@/lib/domains";
+import type { VersionedSessionEntry } from "@/lib/server/sessionStore";
+import type { ExperimentEvent, ExperimentSession, Offer } from "@/lib/types";
+import { computeUtilities } from "@/lib/utils";
+
+type Cell = string | number | boolean | null | undefined;
+type Row = Record<string, Cell>;
+
+type ColumnType = "string" | "integer" | "number" | "boolean" | "datetime" | "json";
+
+type ExportColumn = { name: string; type: ColumnType; description: string };
+
+/**
+ * One CSV file of the export. Column names and order are part of the export format:
+ * analysts' scripts select columns by name, so add columns at the end and never rename.
+ */
+type ExportTable = {
+  name: string;
+  description: string;
+  columns: ExportColumn[];
+  rows: (entry: VersionedSessionEntry) => Row[];
+};
+
+const SESSION_KEY: ExportColumn = {
+  name: "session_id",
+  type: "string",
+  description: "Session the row belongs to; joins every table to sessions.csv.",
+};
+
+// Offers in the order they were made, with the time of the event that logged them.
+function sessionOffers(session: ExperimentSession) {
+  return session.events.flatMap((event) => {
+    if (event.type !== "offer_propose" && event.type !== "offer_receive") return [];
+    const offer = (event.payload as { offer?: Offer }).offer;
+    return offer?.allocation ? [{ ...offer, t: event.t }] : [];
+  });
+}
+
+function offerUtilities(session: ExperimentSession, offer: Offer) {
+  return computeUtilities(offer.allocation, sessionWeights(session.config), session.config.issues);
+}
+
+function isChat(event: ExperimentEvent) {
+  return event.type === "chat_send" || event.type === "chat_receive";
+}
+
+function isAgreedOffer(session: ExperimentSession, offer: Offer) {
+  const agreed = session.outcome.agreed_offer;
+  return (
+    session.outcome.reason === "agreement" && agreed?.turn === offer.turn && agreed?.by === offer.by
+  );
+}
+
+export const EXPORT_TABLES: ExportTable[] = [
+  {
+    name: "sessions",
+    description: "One row per session (its canonical version).",
+    columns: [
+      SESSION_KEY,
+      { name: "filename", type: "string", description: "Stored file of this version." },
+      { name: "stored_at", type: "datetime", description: "When this version was stored." },
+      { name: "version", type: "integer", description: "Version number of the stored file." },
+      { name: "version_count", type: "integer", description: "Stored versions of the session." },
+      { name: "created_at", type: "datetime", description: "When the session started." },
+      { name: "participant_id", type: "string", description: "Participant ID." },
+      { name: "age_range", type: "string", description: "Self-reported age range." },
+      { name: "gender", type: "string", description: "Self-reported gender." },
+      { name: "study_id", type: "string", description: "Study, if enrolled through one." },
+      { name: "arm_id", type: "string", description: "Study arm." },
+      { name: "condition_id", type: "string", description: "neutral or persona." },
+      {
+        name: "persona_tag",
+        type: "string",
+        description: "Agent persona in the persona condition.",
+      },
+      { name: "domain_id", type: "string", description: "Negotiation domain." },
+      { name: "simulated", type: "boolean", description: "Headless agent-vs-agent simulation." },
+      {
+        name: "outcome_reason",
+        type: "string",
+        description: "agreement, timeout, turn_limit or abort; empty if unfinished.",
+      },
+      { name: "ended_at", type: "datetime", description: "When the negotiation ended." },
+      { name: "turns", type: "integer", description: "Turns played." },
+      { name: "duration_seconds", type: "number", description: "Negotiation length." },
+      { name: "human_utility", type: "number", description: "Participant utility of the deal." },
+      { name: "agent_utility", type: "number", description: "Agent utility of the deal." },
+      { name: "joint_utility", type: "number", description: "Sum of both utilities." },
+      {
+        name: "human_reservation",
+        type: "number",
+        description: "Participant utility without a deal (BATNA).",
+      },
+      { name: "agent_reservation", type: "number", description: "Agent utility without a deal." },
+      { name: "has_survey", type: "boolean", description: "Post-game survey completed." },
+      { name: "schema_version", type: "integer", description: "Session schema version." },
+    ],
+    rows: ({ session, filename, stored_at, version, version_count }) => {
+      const reservation = sessionReservation(session.config);
+      return [
+        {
+          session_id: session.session_id,
+          filename,
+          stored_at,
+          version,
+          version_count,
+          created_at: session.created_at,
+          participant_id: session.participant.participant_id,
+          age_range: session.participant.age_range,
+          gender: session.participant.gender,
+          study_id: session.study_id,
+          arm_id: session.arm_id,
+          condition_id: session.condition.id,
+          persona_tag: session.condition.persona_tag,
+          domain_id: session.config.domain_id,
+          simulated: Boolean(session.simulation),
+          outcome_reason: session.outcome.reason,
+          ended_at: session.outcome.ended_at,
+          turns: session.outcome.turns,
+          duration_seconds: session.outcome.duration_seconds,
+          human_utility: session.outcome.utilities?.human,
+          agent_utility: session.outcome.utilities?.agent,
+          joint_utility: session.outcome.utilities?.joint,
+          human_reservation: reservation.human,
+          agent_reservation: reservation.agent,
+          has_survey: Boolean(session.survey),
+          schema_version: session.schema_version,
+        },
+      ];
+    },
+  },
+  {
+    name: "offers",
+    description: "One row per offer, in the order offers were made.",
+    columns: [
+      SESSION_KEY,
+      {
+        name: "offer_index",
+        type: "integer",
+        description: "1 for the first offer of the session.",
+      },
+      { name: "turn", type: "integer", description: "Turn the offer was made in." },
+      { name: "by", type: "string", description: "human or agent." },
+      { name: "created_at", type: "datetime", description: "When the offer was made." },
+      { name: "human_utility", type: "number", description: "Participant utility of the offer." },
+      { name: "agent_utility", type: "number", description: "Agent utility of the offer." },
+      { name: "joint_utility", type: "number", description: "Sum of both utilities." },
+      { name: "accepted", type: "boolean", description: "The offer became the agreement." },
+    ],
+    rows: ({ session }) =>
+      sessionOffers(session).map((offer, index) => {
+        const utilities = offerUtilities(session, offer);
+        return {
+          session_id: session.session_id,
+          offer_index: index + 1,
+          turn: offer.turn,
+          by: offer.by,
+          created_at: offer.created_at ?? offer.t,
+          human_utility: utilities.human,
+          agent_utility: utilities.agent,
+          joint_utility: utilities.joint,
+          accepted: isAgreedOffer(session, offer),
+        };
+      }),
+  },
+  {
+    name: "offer_allocations",
+    description: "One row per offer and issue: the proposed split of that issue.",
+    columns: [
+      SESSION_KEY,
+      { name: "offer_index", type: "integer", description: "Joins to offers.csv." },
+      { name: "issue_key", type: "string", description: "Issue key from the domain." },
+      { name: "issue_label", type: "string", description: "Issue name shown to participants." },
+      { name: "human_units", type: "integer", description: "Units for the participant." },
+      { name: "agent_units", type: "integer", description: "Units for the agent." },
+      {
+        name: "option",
+        type: "string",
+        description: "Chosen option of a categorical or binary issue (units are 0 then).",
+      },
+    ],
+    rows: ({ session }) =>
+      sessionOffers(session).flatMap((offer, index) =>
+        session.config.issues.map((issue) => {
+          const entry = offer.allocation[issue.key];
+          return {
+            session_id: session.session_id,
+            offer_index: index + 1,
+            issue_key: issue.key,
+            issue_label: issue.label,
+            human_units: entry?.human,
+            agent_units: entry?.agent,
+            option: entry?.option,
+          };
+        })
+      ),
+  },
+  {
+    name: "chat_messages",
+    description: "One row per chat message.",
+    columns: [
+      SESSION_KEY,
+      { name: "message_index", type: "integer", description: "1 for the first message." },
+      { name: "t", type: "datetime", description: "When the message was logged." },
+      { name: "role", type: "string", description: "human or agent." },
+      { name: "turn", type: "integer", description: "Turn of agent messages sent with offers." },
+      { name: "content", type: "string", description: "Message text." },
+      { name: "length_chars", type: "integer", description: "Characters in the message." },
+    ],
+    rows: ({ session }) =>
+      session.events.filter(isChat).map((event, index) => {
+        const content = String(event.payload.content ?? "");
+        return {
+          session_id: session.session_id,
+          message_index: index + 1,
+          t: event.t,
+          role: event.type === "chat_send" ? "human" : "agent",
+          turn: typeof event.payload.turn === "number" ? event.payload.turn : null,
+          content,
+          length_chars: content.length,
+        };
+      }),
+  },
+  {
+    name: "events",
+    description: "One row per logged event, in logged order.",
+    columns: [
+      SESSION_KEY,
+      { name: "event_index", type: "integer", description: "1 for the first event." },
+      { name: "event_id", type: "string", description: "Event ID, unique within the session." },
+      { name: "t", type: "datetime", description: "When the event happened." },
+      { name: "type", type: "string", description: "Event type, e.g. offer_propose." },
+      { name: "payload_json", type: "json", description: "Event payload as JSON." },
+    ],
+    rows: ({ session }) =>
+      session.events.map((event, index) => ({
+        session_id: session.session_id,
+        event_index: index + 1,
+        event_id: event.id,
+        t: event.t,
+        type: event.type,
+        payload_json: JSON.stringify(event.payload),
+      })),
+  },
+  {
+    name: "survey_responses",
+    description: "One row per completed post-game survey; items are 1-5 ratings.",
+    columns: [
+      SESSION_KEY,
+      { name: "t", type: "datetime", description: "When the survey was submitted." },
+      { name: "fairness", type: "integer", description: "The outcome felt fair." },
+      { name: "trust", type: "integer", description: "Trust in the agent." },
+      { name: "cooperativeness", type: "integer", description: "The agent was cooperative." },
+      { name: "human_likeness", type: "integer", description: "The agent seemed human." },
+      { name: "satisfaction", type: "integer", description: "Satisfaction with the outcome." },
+      { name: "negotiate_again", type: "integer", description: "Would negotiate with it again." },
+      { name: "comment", type: "string", description: "Free-text comment." },
+    ],
+    rows: ({ session }) =>
+      session.survey ? [{ session_id: session.session_id, ...session.survey }] : [],
+  },
+  {
+    name: "concessions",
+    description:
+      "One row per offer, per role in turn order: how much the offerer gave up in its own " +
+      "utility compared with its previous offer.",
+    columns: [
+      SESSION_KEY,
+      { name: "by", type: "string", description: "human or agent." },
+      { name: "turn", type: "integer", description: "Turn of the offer." },
+      { name: "offer_index", type: "integer", description: "Joins to offers.csv." },
+      { name: "own_utility", type: "number", description: "Offerer's utility of the offer." },
+      { name: "opponent_utility", type: "number", description: "The other side's utility." },
+      {
+        name: "concession",
+        type: "number",
+        description: "Previous own utility minus this one; empty for a role's first offer.",
+      },
+      {
+        name: "cumulative_concession",
+        type: "number",
+        description: "Sum of the role's concessions so far.",
+      },
+    ],
+    rows: ({ session }) => {
+      const offers = sessionOffers(session).map((offer, index) => ({
+        offer,
+        index,
+        utilities: offerUtilities(session, offer),
+      }));
+      return (["human", "agent"] as const).flatMap((role) => {
+        let previous: number | null = null;
+        let cumulative = 0;
+        return offers
+          .filter(({ offer }) => offer.by === role)
+          .sort((a, b) => a.offer.turn - b.offer.turn || a.index - b.index)
+          .map(({ offer, index, utilities }) => {
+            const own = role === "human" ? utilities.human : utilities.agent;
+            const concession: number | null = previous === null ? null : previous - own;
+            cumulative += concession ?? 0;
+            previous = own;
+            return {
+              session_id: session.session_id,
+              by: role,
+              turn: offer.turn,
+              offer_index: index + 1,
+              own_utility: own,
+              opponent_utility: role === "human" ? utilities.agent : utilities.human,
+              concession,
+              cumulative_concession: concession === null ? null : cumulative,
+            };
+          });
+      });
+    },
+  },
+];
+
+// Quotes only where needed, so R and pandas read numbers and booleans as such.
+function csvCell(value: Cell) {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(cells: Cell[]) {
+  return `${cells.map(csvCell).join(",")}\n`;
+}
+
+function* tableCsv(table: ExportTable, entries: VersionedSessionEntry[]) {
+  yield csvLine(table.columns.map((column) => column.name));
+  for (const entry of entries) {
+    for (const row of table.rows(entry)) {
+      yield csvLine(table.columns.map((column) => row[column.name]));
+    }
+  }
+}
+
+function dataDictionary() {
+  const lines = [csvLine(["table", "column", "type", "description"])];
+  EXPORT_TABLES.forEach((table) => {
+    lines.push(csvLine([table.name, "", "table", table.description]));
+    table.columns.forEach((column) => {
+      lines.push(csvLine([table.name, column.name, column.type, column.description]));
+    });
+  });
+  return lines.join("");
+}
+
+/**
+ * Zip of one CSV per table plus `data_dictionary.csv` and `manifest.json`. Tables are
+ * written one after another while the archive streams, so no table is built in memory.
+ */
+export function exportSessionsZip(entries: VersionedSessionEntry[], manifest: object) {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  EXPORT_TABLES.forEach((table) => {
+    archive.append(Readable.from(tableCsv(table, entries)), { name: `${table.name}.csv` });
+  });
+  archive.append(dataDictionary(), { name: "data_dictionary.csv" });
+  archive.append(
+    JSON.stringify(
+      {
+        ...manifest,
+        session_count: entries.length,
+        tables: EXPORT_TABLES.map((table) => `${table.name}.csv`),
+      },
+      null,
+      2
+    ),
+    { name: "manifest.json" }
+  );
+  void archive.finalize();
+  return archive;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  matchesFilters,
+  parseSessionFilters,
+  SessionFilterError,
+} from "@/lib/server/sessionFilters";
+import type { ExperimentSession } from "@/lib/types";
+
+vi.mock("server-only", () => ({}));
+
+function session(simulated: boolean) {
+  return {
+    session_id: simulated ? "bot" : "class",
+    created_at: "2026-01-01T12:00:00.000Z",
+    participant: { participant_id: simulated ? "bot-1" : "P-1" },
+    condition: { id: "neutral" },
+    events: [],
+    outcome: { turns: 0, duration_seconds: 0 },
+    ...(simulated
+      ? { simulation: { human: "bot:hard-liner", agent: "live", seconds_per_move: 0 } }
+      : {}),
+  } as unknown as ExperimentSession;
+}
+
+function matching(query: string) {
+  const filters = parseSessionFilters(new URLSearchParams(query));
+  return [session(false), session(true)]
+    .filter((candidate) => matchesFilters(candidate, filters))
+    .map((candidate) => candidate.session_id);
+}
+
+describe("simulated filter", () => {
+  it("leaves simulated sessions out by default", () => {
+    expect(parseSessionFilters(new URLSearchParams()).simulated).toBe("exclude");
+    expect(matching("")).toEqual(["class"]);
+  });
+
+  it("includes them or selects them alone on request", () => {
+    expect(matching("simulated=include")).toEqual(["class", "bot"]);
+    expect(matching("simulated=only")).toEqual(["bot"]);
+  });
+
+  it("does not filter when no filters are given", () => {
+    expect(matchesFilters(session(true))).toBe(true);
+  });
+
+  it("rejects unknown values", () => {
+    expect(() => parseSessionFilters(new URLSearchParams("simulated=yes"))).toThrow(
+      SessionFilterError
+    );
+  });
+});
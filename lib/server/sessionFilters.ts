@@ -0,0 +1,230 @@
+import "server-only";
+
+import type { ExperimentSession } from "@/lib/types";
+
+export class SessionFilterError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "SessionFilterError";
+    this.status = status;
+  }
+}
+
+/**
+ * Admin filters over stored sessions, shared by the session list and analytics. They apply
+ * after the canonical version of each session is picked, so filtering never promotes a
+ * superseded version.
+ */
+export type SessionFilters = {
+  /** Inclusive lower bound on `created_at` (ISO time). */
+  createdFrom?: string;
+  /** Exclusive upper bound on `created_at` (ISO time). */
+  createdBefore?: string;
+  conditionId?: string;
+  personaTag?: string;
+  /** An end reason, or "incomplete" for sessions without one. */
+  outcome?: string;
+  minTurns?: number;
+  maxTurns?: number;
+  minDuration?: number;
+  maxDuration?: number;
+  hasSurvey?: boolean;
+  /** Case-insensitive substring of the participant ID. */
+  participantId?: string;
+  /** Case-insensitive substring of any chat message. */
+  search?: string;
+  /**
+   * Headless simulations and participant bots (`session.simulation` set). The admin routes
+   * leave them out unless `simulated=include` or `simulated=only` is asked for.
+   */
+  simulated?: SimulatedFilter;
+};
+
+export const SIMULATED_FILTERS = ["exclude", "include", "only"] as const;
+
+export type SimulatedFilter = (typeof SIMULATED_FILTERS)[number];
+
+export const SESSION_SORTS = [
+  "stored_at",
+  "created_at",
+  "participant_id",
+  "turns",
+  "duration_seconds",
+] as const;
+
+export type SessionSort = (typeof SESSION_SORTS)[number];
+
+export type SessionPageRequest = {
+  sort: SessionSort;
+  order: "asc" | "desc";
+  /** `next_cursor` of the previous page. */
+  cursor?: string | null;
+  limit: number;
+};
+
+export type SessionPage<T> = {
+  sessions: T[];
+  /** Sessions matching the filters, across all pages. */
+  total: number;
+  next_cursor: string | null;
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+function parseNumber(params: URLSearchParams, name: string) {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new SessionFilterError(`Invalid ${name} "${raw}".`);
+  }
+  return value;
+}
+
+// A date without a time covers that whole day, so `to=2026-03-01` includes March 1st.
+function parseTime(params: URLSearchParams, name: string, endOfDay = false) {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+  const time = new Date(raw);
+  if (Number.isNaN(time.getTime())) {
+    throw new SessionFilterError(`Invalid ${name} "${raw}".`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+    time.setUTCDate(time.getUTCDate() + 1);
+  }
+  return time.toISOString();
+}
+
+function parseText(params: URLSearchParams, name: string) {
+  const value = params.get(name)?.trim();
+  return value ? value : undefined;
+}
+
+/** Reads the filter parameters shared by `/api/admin/sessions` and `/api/admin/analytics`. */
+export function parseSessionFilters(params: URLSearchParams): SessionFilters {
+  const hasSurvey = params.get("has_survey");
+  if (hasSurvey && hasSurvey !== "true" && hasSurvey !== "false") {
+    throw new SessionFilterError(`Invalid has_survey "${hasSurvey}".`);
+  }
+  const simulated = params.get("simulated") || "exclude";
+  if (!SIMULATED_FILTERS.includes(simulated as SimulatedFilter)) {
+    throw new SessionFilterError(`simulated must be one of: ${SIMULATED_FILTERS.join(", ")}`);
+  }
+  return {
+    createdFrom: parseTime(params, "from"),
+    createdBefore: parseTime(params, "to", true),
+    conditionId: parseText(params, "condition"),
+    personaTag: parseText(params, "persona"),
+    outcome: parseText(params, "outcome"),
+    minTurns: parseNumber(params, "min_turns"),
+    maxTurns: parseNumber(params, "max_turns"),
+    minDuration: parseNumber(params, "min_duration"),
+    maxDuration: parseNumber(params, "max_duration"),
+    hasSurvey: hasSurvey ? hasSurvey === "true" : undefined,
+    participantId: parseText(params, "participant_id"),
+    search: parseText(params, "q"),
+    simulated: simulated as SimulatedFilter,
+  };
+}
+
+export function parseSessionPage(params: URLSearchParams): SessionPageRequest {
+  const sort = params.get("sort") ?? "stored_at";
+  if (!SESSION_SORTS.includes(sort as SessionSort)) {
+    throw new SessionFilterError(`sort must be one of: ${SESSION_SORTS.join(", ")}`);
+  }
+  const order = params.get("order") ?? "desc";
+  if (order !== "asc" && order !== "desc") {
+    throw new SessionFilterError('order must be "asc" or "desc".');
+  }
+  const limit = parseNumber(params, "limit") ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new SessionFilterError(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}.`);
+  }
+  return { sort: sort as SessionSort, order, cursor: params.get("cursor"), limit };
+}
+
+function includesText(value: string, search: string) {
+  return value.toLowerCase().includes(search.toLowerCase());
+}
+
+export function matchesFilters(session: ExperimentSession, filters: SessionFilters = {}) {
+  const turns = session.outcome.turns ?? 0;
+  const duration = session.outcome.duration_seconds ?? 0;
+  const { search } = filters;
+  const simulated = Boolean(session.simulation);
+  return (
+    (!filters.createdFrom || session.created_at >= filters.createdFrom) &&
+    (!filters.createdBefore || session.created_at < filters.createdBefore) &&
+    (!filters.conditionId || session.condition.id === filters.conditionId) &&
+    (!filters.personaTag || session.condition.persona_tag === filters.personaTag) &&
+    (!filters.outcome || (session.outcome.reason ?? "incomplete") === filters.outcome) &&
+    (filters.minTurns === undefined || turns >= filters.minTurns) &&
+    (filters.maxTurns === undefined || turns <= filters.maxTurns) &&
+    (filters.minDuration === undefined || duration >= filters.minDuration) &&
+    (filters.maxDuration === undefined || duration <= filters.maxDuration) &&
+    (filters.hasSurvey === undefined || Boolean(session.survey) === filters.hasSurvey) &&
+    (!filters.participantId ||
+      includesText(session.participant.participant_id, filters.participantId)) &&
+    (!filters.simulated ||
+      filters.simulated === "include" ||
+      simulated === (filters.simulated === "only")) &&
+    (!search ||
+      session.events.some(
+        (event) =>
+          (event.type === "chat_send" || event.type === "chat_receive") &&
+          includesText(String(event.payload.content ?? ""), search)
+      ))
+  );
+}
+
+type CursorValue = string | number;
+
+/** Cursors hold the sort value and filename of the last row, so pages stay stable. */
+export function encodeCursor(value: CursorValue, filename: string) {
+  return Buffer.from(JSON.stringify([value, filename])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): [CursorValue, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (typeof decoded[0] === "string" || typeof decoded[0] === "number") &&
+      typeof decoded[1] === "string"
+    ) {
+      return decoded as [CursorValue, string];
+    }
+  } catch {
+    // Reported below.
+  }
+  throw new SessionFilterError("Invalid cursor.");
+}
+
+/** Sorts, then returns the page after `cursor`; for backends that list in memory. */
+export function paginate<T extends { filename: string } & Record<SessionSort, CursorValue>>(
+  rows: T[],
+  page: SessionPageRequest
+): SessionPage<T> {
+  const direction = page.order === "asc" ? 1 : -1;
+  const compare = (value: CursorValue, filename: string, row: T) => {
+    const rowValue = row[page.sort];
+    if (rowValue !== value) return (rowValue < value ? -1 : 1) * direction;
+    if (row.filename === filename) return 0;
+    return (row.filename < filename ? -1 : 1) * direction;
+  };
+  const sorted = [...rows].sort((a, b) => compare(b[page.sort], b.filename, a));
+  const after = page.cursor ? decodeCursor(page.cursor) : null;
+  const remaining = after ? sorted.filter((row) => compare(after[0], after[1], row) > 0) : sorted;
+  const sessions = remaining.slice(0, page.limit);
+  const last = sessions[sessions.length - 1];
+  return {
+    sessions,
+    total: rows.length,
+    next_cursor:
+      remaining.length > page.limit && last ? encodeCursor(last[page.sort], last.filename) : null,
+  };
+}
@@ -0,0 +1,97 @@
+import "server-only";
+
+import {
+  createSessionStorage,
+  StorageError,
+  type SessionStorage,
+  type StorageKind,
+} from "@/lib/server/sessionStorage";
+import { sessionChecksum } from "@/lib/server/sessionVersions";
+
+export type MigrationReport = {
+  from: StorageKind;
+  to: StorageKind;
+  dry_run: boolean;
+  source_count: number;
+  /** Sessions of the source found in the target afterwards, with the same checksum. */
+  verified_count: number;
+  copied: string[];
+  /** Already in the target with the same content. */
+  skipped: string[];
+  /** Already in the target with different content; left untouched. */
+  conflicts: string[];
+  /** Missing from the target or changed after copying. */
+  mismatches: string[];
+  ok: boolean;
+};
+
+async function checksumsByFilename(storage: SessionStorage) {
+  const entries = await storage.list();
+  return new Map(entries.map((entry) => [entry.filename, sessionChecksum(entry.session)]));
+}
+
+/**
+ * Copies every session from one backend to another, keeping filenames and stored times,
+ * then lists the target again and compares counts and checksums. Sessions already in the
+ * target are not written twice, so an interrupted migration can simply be run again.
+ */
+export async function migrateSessions(options: {
+  from: StorageKind;
+  to: StorageKind;
+  dryRun?: boolean;
+}): Promise<MigrationReport> {
+  if (options.from === options.to) {
+    throw new StorageError("Source and target storage are the same.");
+  }
+  const source = createSessionStorage(options.from);
+  const target = createSessionStorage(options.to);
+  const dryRun = Boolean(options.dryRun);
+
+  const entries = await source.list();
+  const existing = await checksumsByFilename(target);
+  const copied: string[] = [];
+  const skipped: string[] = [];
+  const conflicts: string[] = [];
+
+  // Oldest first, so targets that order by insertion keep the original order.
+  for (const entry of [...entries].reverse()) {
+    const existingChecksum = existing.get(entry.filename);
+    if (existingChecksum === sessionChecksum(entry.session)) {
+      skipped.push(entry.filename);
+    } else if (existingChecksum) {
+      conflicts.push(entry.filename);
+    } else {
+      if (!dryRun) {
+        await target.write(entry.filename, entry.session, entry.stored_at);
+      }
+      copied.push(entry.filename);
+    }
+  }
+
+  const mismatches: string[] = [];
+  let verifiedCount = 0;
+  if (!dryRun) {
+    const after = await checksumsByFilename(target);
+    entries.forEach((entry) => {
+      if (conflicts.includes(entry.filename)) return;
+      if (after.get(entry.filename) === sessionChecksum(entry.session)) {
+        verifiedCount += 1;
+      } else {
+        mismatches.push(entry.filename);
+      }
+    });
+  }
+
+  return {
+    from: options.from,
+    to: options.to,
+    dry_run: dryRun,
+    source_count: entries.length,
+    verified_count: verifiedCount,
+    copied,
+    skipped,
+    conflicts,
+    mismatches,
+    ok: !conflicts.length && !mismatches.length,
+  };
+}
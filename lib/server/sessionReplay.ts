@@ -0,0 +1,98 @@
+import "server-only";
+
+import { getAllocationStats } from "@/lib/analytics";
+import { sessionReservation, sessionWeights } from "@/lib/domains";
+import type { ExperimentEventType, ExperimentSession, Issue, Offer } from "@/lib/types";
+import { computeUtilities } from "@/lib/utils";
+
+type UtilityPoint = { human: number; agent: number };
+
+export type ReplayOffer = Offer & {
+  utilities: UtilityPoint & { joint: number };
+  pareto_optimal: boolean;
+};
+
+export type ReplayStep = {
+  index: number;
+  event_id: string;
+  t: string;
+  /** Milliseconds since the first event, which drives playback timing. */
+  elapsed_ms: number;
+  type: ExperimentEventType;
+  payload: Record<string, unknown>;
+  /** Set for offer events, with utilities under the weights the session was played with. */
+  offer?: ReplayOffer;
+};
+
+export type SessionReplay = {
+  filename: string;
+  session_id: string;
+  participant_id: string;
+  condition_id: string;
+  persona_tag: string | null;
+  domain_id: string;
+  issues: Issue[];
+  outcome: ExperimentSession["outcome"];
+  steps: ReplayStep[];
+  /** Pareto frontier in utility space, from the best for the human to the best for the agent. */
+  frontier: UtilityPoint[];
+  nash: UtilityPoint | null;
+  reservation: UtilityPoint;
+};
+
+function isOffer(value: unknown): value is Offer {
+  return Boolean(value && typeof value === "object" && "allocation" in value);
+}
+
+/** Orders a session's events in time and annotates offers for the admin replay viewer. */
+export function buildReplay(filename: string, session: ExperimentSession): SessionReplay {
+  const issues = session.config.issues;
+  const weights = sessionWeights(session.config);
+  const allocationStats = getAllocationStats(issues, weights);
+  const frontier = allocationStats.frontier.map(({ utilities }) => ({
+    human: utilities.human,
+    agent: utilities.agent,
+  }));
+  const nash = allocationStats.nash.best?.utilities ?? null;
+
+  const events = (session.events ?? [])
+    .map((event, index) => ({ event, index, time: Date.parse(event.t) }))
+    .sort((a, b) => a.time - b.time || a.index - b.index);
+  const start = events.length ? events[0].time : 0;
+
+  const steps = events.map(({ event, time }, index): ReplayStep => {
+    const offer = event.payload.offer ?? event.payload.agreed_offer;
+    const step: ReplayStep = {
+      index,
+      event_id: event.id,
+      t: event.t,
+      elapsed_ms: Number.isFinite(time - start) ? time - start : 0,
+      type: event.type,
+      payload: event.payload,
+    };
+    if (isOffer(offer)) {
+      const utilities = computeUtilities(offer.allocation, weights, issues);
+      step.offer = {
+        ...offer,
+        utilities,
+        pareto_optimal: allocationStats.frontierSet.has(`${utilities.human}|${utilities.agent}`),
+      };
+    }
+    return step;
+  });
+
+  return {
+    filename,
+    session_id: session.session_id,
+    participant_id: session.participant.participant_id,
+    condition_id: session.condition.id,
+    persona_tag: session.condition.persona_tag ?? null,
+    domain_id: session.config.domain_id,
+    issues,
+    outcome: session.outcome,
+    steps,
+    frontier,
+    nash: nash && { human: nash.human, agent: nash.agent },
+    reservation: sessionReservation(session.config),
+  };
+}
@@ -0,0 +1,280 @@
+import "server-only";
+
+import { Storage } from "@google-cloud/storage";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { createS3Storage, s3Configured } from "@/lib/server/s3Storage";
+import type { SessionPage, SessionPageRequest } from "@/lib/server/sessionFilters";
+import type { SessionVersionInfo } from "@/lib/server/sessionVersions";
+import {
+  insertSession,
+  querySessionSummaries,
+  querySessions,
+  queryVersionedSessions,
+  readSessionPayload,
+  type SessionQuery,
+  type SessionSummary,
+} from "@/lib/server/sqliteStore";
+import type { ExperimentSession } from "@/lib/types";
+
+const dataDir = path.join(process.cwd(), "data");
+const bucketName = process.env.SESSION_BUCKET_NAME;
+const prefixRaw = process.env.SESSION_BUCKET_PREFIX ?? "sessions";
+
+export const STORAGE_KINDS = ["local", "gcs", "s3", "sqlite"] as const;
+
+export type StorageKind = (typeof STORAGE_KINDS)[number];
+
+export class StorageError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "StorageError";
+    this.status = status;
+  }
+}
+
+export type StoredSessionEntry = {
+  filename: string;
+  stored_at: string;
+  session: ExperimentSession;
+  source: StorageKind;
+  objectKey?: string;
+};
+
+/**
+ * Where submitted sessions live. Every backend keys a session by its filename
+ * (`session-<id>-<ms>.json`), so entries can be copied between backends unchanged.
+ */
+export interface SessionStorage {
+  kind: StorageKind;
+  /** Stores one session; `storedAt` is kept where the backend allows it (migrations). */
+  write(filename: string, session: ExperimentSession, storedAt?: string): Promise<void>;
+  /** Every stored version, newest first; `versions` and `filters` are applied by `sessionStore`. */
+  list(query?: SessionQuery): Promise<StoredSessionEntry[]>;
+  /** The session JSON as stored, or null when there is no such file. */
+  read(filename: string): Promise<string | null>;
+  /**
+   * The versions asked for with their version info and the filters applied, for backends
+   * that can answer it without reading every stored session.
+   */
+  listVersions?(query: SessionQuery): Promise<Array<StoredSessionEntry & SessionVersionInfo>>;
+  /** A page of listing columns without the payloads, for backends that can answer it directly. */
+  listSummaries?(
+    query: SessionQuery,
+    page: SessionPageRequest
+  ): Promise<SessionPage<SessionSummary>>;
+}
+
+export function normalizePrefix(prefix: string) {
+  const normalized = prefix.replace(/^\/+|\/+$/g, "");
+  return normalized ? `${normalized}/` : "";
+}
+
+export function sortNewestFirst(entries: StoredSessionEntry[]) {
+  return entries.sort((a, b) => (a.stored_at < b.stored_at ? 1 : -1));
+}
+
+export function matchesQuery(session: ExperimentSession, query: SessionQuery = {}) {
+  return (
+    (!query.studyId || session.study_id === query.studyId) &&
+    (!query.sessionId || session.session_id === query.sessionId)
+  );
+}
+
+/** Filename prefix shared by the versions of a session, to list only those. */
+export function sessionFilePrefix(query: SessionQuery = {}) {
+  return query.sessionId ? `session-${query.sessionId}-` : "";
+}
+
+let storage: Storage | null = null;
+
+export function getBucket() {
+  if (!bucketName) return null;
+  if (!storage) {
+    storage = new Storage();
+  }
+  return storage.bucket(bucketName);
+}
+
+export function createLocalStorage(dir = dataDir): SessionStorage {
+  return {
+    kind: "local",
+    async write(filename, session, storedAt) {
+      await fs.mkdir(dir, { recursive: true });
+      const filePath = path.join(dir, filename);
+      await fs.writeFile(filePath, JSON.stringify(session, null, 2));
+      if (storedAt) {
+        // The listing reads stored_at from the file time.
+        const time = new Date(storedAt);
+        await fs.utimes(filePath, time, time);
+      }
+    },
+    async list(query) {
+      let entries: Array<import("fs").Dirent> = [];
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+
+      const files = entries
+        .filter(
+          (entry) =>
+            entry.isFile() &&
+            entry.name.endsWith(".json") &&
+            entry.name.startsWith(sessionFilePrefix(query))
+        )
+        .map((entry) => entry.name);
+
+      const sessions = await Promise.all(
+        files.map(async (filename) => {
+          const filePath = path.join(dir, filename);
+          const [raw, stats] = await Promise.all([
+            fs.readFile(filePath, "utf8"),
+            fs.stat(filePath),
+          ]);
+          const data = JSON.parse(raw) as ExperimentSession;
+          return {
+            filename,
+            stored_at: stats.mtime.toISOString(),
+            session: data,
+            source: "local" as const,
+          };
+        })
+      );
+      return sortNewestFirst(sessions.filter((entry) => matchesQuery(entry.session, query)));
+    },
+    async read(filename) {
+      try {
+        return await fs.readFile(path.join(dir, filename), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+  };
+}
+
+export function createGcsStorage(): SessionStorage {
+  const bucket = getBucket();
+  if (!bucket) {
+    throw new StorageError("SESSION_BUCKET_NAME is not set.");
+  }
+  const objectPrefix = normalizePrefix(prefixRaw);
+  return {
+    kind: "gcs",
+    async write(filename, session, storedAt) {
+      await bucket.file(`${objectPrefix}${filename}`).save(JSON.stringify(session, null, 2), {
+        contentType: "application/json",
+        // Object times cannot be set, so a migrated session keeps its time as metadata.
+        ...(storedAt ? { metadata: { metadata: { stored_at: storedAt } } } : {}),
+      });
+    },
+    async list(query) {
+      const [files] = await bucket.getFiles({
+        prefix: `${objectPrefix}${sessionFilePrefix(query)}`,
+      });
+      const jsonFiles = files.filter((file) => file.name.endsWith(".json"));
+      const sessions = await Promise.all(
+        jsonFiles.map(async (file) => {
+          const [contents] = await file.download();
+          const data = JSON.parse(contents.toString("utf8")) as ExperimentSession;
+          const filename = path.posix.basename(file.name);
+          const storedAt =
+            file.metadata.metadata?.stored_at ??
+            file.metadata.updated ??
+            file.metadata.timeCreated ??
+            new Date().toISOString();
+          return {
+            filename,
+            stored_at: new Date(String(storedAt)).toISOString(),
+            session: data,
+            source: "gcs" as const,
+            objectKey: file.name,
+          };
+        })
+      );
+      return sortNewestFirst(sessions.filter((entry) => matchesQuery(entry.session, query)));
+    },
+    async read(filename) {
+      const file = bucket.file(`${objectPrefix}${filename}`);
+      const [exists] = await file.exists();
+      if (!exists) return null;
+      const [contents] = await file.download();
+      return contents.toString("utf8");
+    },
+  };
+}
+
+export function createSqliteStorage(): SessionStorage {
+  return {
+    kind: "sqlite",
+    async write(filename, session, storedAt) {
+      insertSession(filename, storedAt ?? new Date().toISOString(), session);
+    },
+    async list(query) {
+      return querySessions(query).map((entry) => ({ ...entry, source: "sqlite" as const }));
+    },
+    async listVersions(query) {
+      return queryVersionedSessions(query).map((entry) => ({
+        ...entry,
+        source: "sqlite" as const,
+      }));
+    },
+    async read(filename) {
+      return readSessionPayload(filename);
+    },
+    async listSummaries(query, page) {
+      return querySessionSummaries(query, page);
+    },
+  };
+}
+
+export function createSessionStorage(kind: StorageKind): SessionStorage {
+  switch (kind) {
+    case "local":
+      return createLocalStorage();
+    case "gcs":
+      return createGcsStorage();
+    case "s3":
+      if (!s3Configured()) {
+        throw new StorageError("S3_BUCKET is not set.");
+      }
+      return createS3Storage();
+    case "sqlite":
+      return createSqliteStorage();
+  }
+}
+
+export function isStorageKind(value: unknown): value is StorageKind {
+  return STORAGE_KINDS.includes(value as StorageKind);
+}
+
+/**
+ * Backend picked by `SESSION_STORE`. Without it, sessions go to the GCS bucket when
+ * `SESSION_BUCKET_NAME` is set and to `data/` otherwise, as before the setting existed.
+ */
+export function configuredStorageKind(): StorageKind {
+  const configured = process.env.SESSION_STORE;
+  if (configured) {
+    if (!isStorageKind(configured)) {
+      throw new StorageError(`Unknown SESSION_STORE "${configured}".`, 500);
+    }
+    return configured;
+  }
+  return bucketName ? "gcs" : "local";
+}
+
+let configuredStorage: SessionStorage | null = null;
+
+export function getSessionStorage() {
+  if (!configuredStorage) {
+    configuredStorage = createSessionStorage(configuredStorageKind());
+  }
+  return configuredStorage;
+}
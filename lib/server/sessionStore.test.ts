@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { listStoredSessions, readStoredSession } from "@/lib/server/sessionStore";
+import type { SessionStorage, StoredSessionEntry } from "@/lib/server/sessionStorage";
+import { SESSION_SCHEMA_VERSION } from "@/lib/sessionSchema";
+import type { ExperimentSession } from "@/lib/types";
+
+vi.mock("server-only", () => ({}));
+
+const storage = vi.hoisted(() => ({ entries: [] as StoredSessionEntry[] }));
+
+vi.mock("@/lib/server/sessionStorage", () => ({
+  getSessionStorage: (): Partial<SessionStorage> => ({
+    kind: "local",
+    list: async () => storage.entries,
+    read: async (filename) => {
+      const entry = storage.entries.find((candidate) => candidate.filename === filename);
+      return entry ? JSON.stringify(entry.session) : null;
+    },
+  }),
+}));
+
+function session(sessionId: string): ExperimentSession {
+  return {
+    schema_version: SESSION_SCHEMA_VERSION,
+    session_id: sessionId,
+    created_at: "2026-01-01T12:00:00.000Z",
+    participant: { participant_id: `P-${sessionId}` },
+    config: {
+      domain_id: "classroom-perks-01",
+      issues: [{ key: "a", label: "A", total: 2 }],
+      deadline_seconds: 300,
+      max_turns: 10,
+    },
+    condition: { id: "neutral" },
+    events: [],
+    outcome: { turns: 0, duration_seconds: 0 },
+  };
+}
+
+function entry(filename: string, stored: unknown): StoredSessionEntry {
+  return {
+    filename,
+    stored_at: "2026-01-01T12:05:00.000Z",
+    session: stored as ExperimentSession,
+    source: "local",
+  };
+}
+
+describe("stored session validation", () => {
+  beforeEach(() => {
+    storage.entries = [
+      entry("session-valid-1.json", session("valid")),
+      entry("session-broken-1.json", { ...session("broken"), participant: {} }),
+    ];
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  it("skips records that fail the schema when listing", async () => {
+    const entries = await listStoredSessions();
+
+    expect(entries.map((item) => item.session.session_id)).toEqual(["valid"]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("skipped invalid session session-broken-1.json")
+    );
+  });
+
+  it("reports an invalid record instead of returning it", async () => {
+    await expect(readStoredSession("session-valid-1.json")).resolves.toMatchObject({
+      session: { session_id: "valid" },
+    });
+    await expect(readStoredSession("session-broken-1.json")).rejects.toThrow(
+      /Invalid session record: participant\.participant_id/
+    );
+  });
+});
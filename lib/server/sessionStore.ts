@@ -1,27 +1,29 @@
 import "server-only";
 
-import { Storage } from "@google-cloud/storage";
-import { promises as fs } from "fs";
 import path from "path";
 
+import {
+  createLocalStorage,
+  getSessionStorage,
+  type SessionStorage,
+  type StorageKind,
+  type StoredSessionEntry,
+} from "@/lib/server/sessionStorage";
+import {
+  matchesFilters,
+  paginate,
+  type SessionPage,
+  type SessionPageRequest,
+} from "@/lib/server/sessionFilters";
+import {
+  annotateVersions,
+  sessionChecksum,
+  type SessionVersionInfo,
+} from "@/lib/server/sessionVersions";
+import type { SessionQuery, SessionSummary } from "@/lib/server/sqliteStore";
+import { parseSession, type SchemaIssue } from "@/lib/sessionSchema";
 import type { ExperimentSession } from "@/lib/types";
 
-const dataDir = path.join(process.cwd(), "data");
-const bucketName = process.env.SESSION_BUCKET_NAME;
-const prefixRaw = process.env.SESSION_BUCKET_PREFIX ?? "sessions";
-const normalizedPrefix = prefixRaw.replace(/^\/+|\/+$/g, "");
-const objectPrefix = normalizedPrefix ? `${normalizedPrefix}/` : "";
-
-let storage: Storage | null = null;
-
-function getBucket() {
-  if (!bucketName) return null;
-  if (!storage) {
-    storage = new Storage();
-  }
-  return storage.bucket(bucketName);
-}
-
 function safeFilename(input: string) {
   const base = path.basename(input);
   if (base !== input) return null;
@@ -30,97 +32,151 @@ function safeFilename(input: string) {
   return base;
 }
 
-export type StoredSessionEntry = {
-  filename: string;
-  stored_at: string;
-  session: ExperimentSession;
-  source: "gcs" | "local";
-  objectKey?: string;
-};
+export type VersionedSessionEntry = StoredSessionEntry & SessionVersionInfo;
 
 export type StoredSessionResult = {
   stored_as: string;
-  storage: "gcs" | "local";
+  storage: StorageKind;
+  /** Version number among the stored versions of this session. */
+  version: number;
+  /** The same content was already stored; nothing new was written. */
+  duplicate?: boolean;
   warning?: string;
 };
 
-export async function storeSession(payload: ExperimentSession): Promise<StoredSessionResult> {
-  const filename = `session-${payload.session_id}-${Date.now()}.json`;
-  const raw = JSON.stringify(payload, null, 2);
-  const bucket = getBucket();
-
-  if (bucket) {
-    try {
-      const objectName = `${objectPrefix}${filename}`;
-      await bucket.file(objectName).save(raw, {
-        contentType: "application/json",
-      });
-      return { stored_as: filename, storage: "gcs" };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown GCS error";
-      console.warn(`[sessionStore] GCS write failed, falling back to local: ${message}`);
-    }
-  }
+// Versions are numbered from what is stored, so one write at a time per session.
+const storeLocks = new Map<string, Promise<unknown>>();
 
-  await fs.mkdir(dataDir, { recursive: true });
-  await fs.writeFile(path.join(dataDir, filename), raw);
-  return { stored_as: filename, storage: "local" };
+function withStoreLock<T>(sessionId: string, task: () => Promise<T>) {
+  const previous = storeLocks.get(sessionId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  storeLocks.set(sessionId, next);
+  void next.finally(() => {
+    if (storeLocks.get(sessionId) === next) {
+      storeLocks.delete(sessionId);
+    }
+  });
+  return next;
 }
 
-export async function listStoredSessions(): Promise<StoredSessionEntry[]> {
-  const bucket = getBucket();
-  if (bucket) {
-    const [files] = await bucket.getFiles({ prefix: objectPrefix });
-    const jsonFiles = files.filter((file) => file.name.endsWith(".json"));
-    const sessions = await Promise.all(
-      jsonFiles.map(async (file) => {
-        const [contents] = await file.download();
-        const data = JSON.parse(contents.toString("utf8")) as ExperimentSession;
-        const filename = path.posix.basename(file.name);
-        const storedAt =
-          file.metadata.updated ?? file.metadata.timeCreated ?? new Date().toISOString();
-        return {
-          filename,
-          stored_at: new Date(storedAt).toISOString(),
-          session: data,
-          source: "gcs" as const,
-          objectKey: file.name,
-        };
-      })
-    );
-    sessions.sort((a, b) => (a.stored_at < b.stored_at ? 1 : -1));
-    return sessions;
-  }
+/**
+ * Stores a submission as a new version of its session. Resubmitting content that is
+ * already stored (e.g. a retried request) returns the existing version instead.
+ */
+export function storeSession(payload: ExperimentSession): Promise<StoredSessionResult> {
+  return withStoreLock(payload.session_id, async () => {
+    const storage = getSessionStorage();
+    const versions = annotateVersions(await storage.list({ sessionId: payload.session_id }));
+    const checksum = sessionChecksum(payload);
+    const existing = versions.find((entry) => sessionChecksum(entry.session) === checksum);
+    if (existing) {
+      return {
+        stored_as: existing.filename,
+        storage: existing.source,
+        version: existing.version,
+        duplicate: true,
+      };
+    }
 
-  let entries: Array<import("fs").Dirent> = [];
-  try {
-    entries = await fs.readdir(dataDir, { withFileTypes: true });
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
-      throw error;
+    const filename = `session-${payload.session_id}-${Date.now()}.json`;
+    const version = versions.length + 1;
+    if (storage.kind === "gcs" || storage.kind === "s3") {
+      try {
+        await storage.write(filename, payload);
+        return { stored_as: filename, storage: storage.kind, version };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown storage error";
+        console.warn(
+          `[sessionStore] ${storage.kind.toUpperCase()} write failed, falling back to local: ${message}`
+        );
+        await createLocalStorage().write(filename, payload);
+        return { stored_as: filename, storage: "local", version };
+      }
     }
-  }
 
-  const files = entries
-    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
-    .map((entry) => entry.name);
+    await storage.write(filename, payload);
+    return { stored_as: filename, storage: storage.kind, version };
+  });
+}
 
-  const sessions = await Promise.all(
-    files.map(async (filename) => {
-      const filePath = path.join(dataDir, filename);
-      const [raw, stats] = await Promise.all([fs.readFile(filePath, "utf8"), fs.stat(filePath)]);
-      const data = JSON.parse(raw) as ExperimentSession;
-      return {
-        filename,
-        stored_at: stats.mtime.toISOString(),
-        session: data,
-        source: "local" as const,
-      };
-    })
+function describeIssues(issues: SchemaIssue[]) {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join("; ");
+}
+
+// Records edited by hand or written by a newer server would break the analytics and exports.
+function parseStoredEntry<T extends StoredSessionEntry>(entry: T): T[] {
+  const parsed = parseSession(entry.session);
+  if (parsed.ok) {
+    return [{ ...entry, session: parsed.session }];
+  }
+  console.warn(
+    `[sessionStore] skipped invalid session ${entry.filename}: ${describeIssues(parsed.issues)}`
   );
+  return [];
+}
 
-  sessions.sort((a, b) => (a.stored_at < b.stored_at ? 1 : -1));
-  return sessions;
+/**
+ * Stored sessions, newest first, optionally only those of one study or matching the admin
+ * filters, upgraded to the current schema. Records that fail validation are skipped. Only
+ * the canonical version of each session is returned unless `versions: "all"` is asked for.
+ * SQLite applies the study, versions and filters in its query. `storage` defaults to the
+ * configured backend (the offline report passes a folder of session files).
+ */
+export async function listStoredSessions(
+  query: SessionQuery = {},
+  storage: SessionStorage = getSessionStorage()
+): Promise<VersionedSessionEntry[]> {
+  if (storage.listVersions) {
+    return (await storage.listVersions(query)).flatMap(parseStoredEntry);
+  }
+  const stored = await storage.list(query);
+  const entries = annotateVersions(stored.flatMap(parseStoredEntry));
+  return entries.filter(
+    (entry) =>
+      (query.versions === "all" || entry.canonical) && matchesFilters(entry.session, query.filters)
+  );
+}
+
+/** A page of the admin session table; SQLite answers it without reading the payloads. */
+export async function listSessionSummaries(
+  query: SessionQuery,
+  page: SessionPageRequest
+): Promise<SessionPage<SessionSummary>> {
+  const storage = getSessionStorage();
+  if (storage.listSummaries) {
+    return storage.listSummaries(query, page);
+  }
+  const entries = await listStoredSessions(query);
+  const summaries = entries.map(({ filename, stored_at, session, ...info }) => ({
+    filename,
+    stored_at,
+    session_id: session.session_id,
+    created_at: session.created_at,
+    condition_id: session.condition.id,
+    persona_tag: session.condition.persona_tag ?? null,
+    simulated: Boolean(session.simulation),
+    study_id: session.study_id ?? null,
+    arm_id: session.arm_id ?? null,
+    participant_id: session.participant.participant_id,
+    outcome_reason: session.outcome.reason ?? null,
+    turns: session.outcome.turns,
+    duration_seconds: session.outcome.duration_seconds,
+    has_survey: Boolean(session.survey),
+    version: info.version,
+    version_count: info.version_count,
+    canonical: info.canonical,
+  }));
+  return paginate(summaries, page);
+}
+
+/** Every matching summary at once, e.g. to count sessions; SQLite skips the payloads. */
+export async function listAllSessionSummaries(query: SessionQuery = {}) {
+  const page = await listSessionSummaries(query, {
+    sort: "stored_at",
+    order: "desc",
+    limit: Number.MAX_SAFE_INTEGER,
+  });
+  return page.sessions;
 }
 
 export async function readStoredSession(filenameInput: string) {
@@ -128,19 +184,20 @@ export async function readStoredSession(filenameInput: string) {
   if (!filename) {
     throw new Error("Invalid filename");
   }
-  const bucket = getBucket();
-  if (bucket) {
-    const objectName = `${objectPrefix}${filename}`;
-    const file = bucket.file(objectName);
-    const [exists] = await file.exists();
-    if (!exists) {
-      throw new Error("Session not found");
-    }
-    const [contents] = await file.download();
-    return { raw: contents.toString("utf8"), storage: "gcs" as const };
+  const storage = getSessionStorage();
+  const raw = await storage.read(filename);
+  if (raw === null) {
+    throw new Error("Session not found");
   }
-
-  const filePath = path.join(dataDir, filename);
-  const raw = await fs.readFile(filePath, "utf8");
-  return { raw, storage: "local" as const };
+  let parsed: ReturnType<typeof parseSession>;
+  try {
+    parsed = parseSession(JSON.parse(raw));
+  } catch {
+    throw new Error("Session file is not valid JSON");
+  }
+  if (!parsed.ok) {
+    throw new Error(`Invalid session record: ${describeIssues(parsed.issues)}`);
+  }
+  const { session } = parsed;
+  return { raw: JSON.stringify(session, null, 2), session, storage: storage.kind };
 }
@@ -0,0 +1,65 @@
+import "server-only";
+
+import { createHash } from "crypto";
+
+import type { ExperimentSession } from "@/lib/types";
+
+/**
+ * A session may be submitted more than once (the survey and the done page both post to
+ * `/api/submit`). Every stored file is a version of its `session_id`; one per session is
+ * canonical and is the one listings and analytics use.
+ */
+export type SessionVersionInfo = {
+  /** 1 for the first stored version of the session, in stored order. */
+  version: number;
+  version_count: number;
+  canonical: boolean;
+};
+
+type VersionedEntry = { filename: string; stored_at: string; session: ExperimentSession };
+
+/** Checksum of a session's content, independent of how a backend formats the JSON. */
+export function sessionChecksum(session: ExperimentSession) {
+  return createHash("sha256").update(JSON.stringify(session)).digest("hex");
+}
+
+// A version with the survey beats one with only an outcome, which beats neither.
+function completeness(session: ExperimentSession) {
+  return (session.survey ? 2 : 0) + (session.outcome?.reason ? 1 : 0);
+}
+
+function storedOrder(a: VersionedEntry, b: VersionedEntry) {
+  if (a.stored_at !== b.stored_at) return a.stored_at < b.stored_at ? -1 : 1;
+  return a.filename < b.filename ? -1 : a.filename > b.filename ? 1 : 0;
+}
+
+/**
+ * Numbers the versions of each session and marks the canonical one: the most complete
+ * version, and of those the latest. Entries keep their order.
+ */
+export function annotateVersions<T extends VersionedEntry>(
+  entries: T[]
+): Array<T & SessionVersionInfo> {
+  const bySession = new Map<string, T[]>();
+  entries.forEach((entry) => {
+    const versions = bySession.get(entry.session.session_id) ?? [];
+    versions.push(entry);
+    bySession.set(entry.session.session_id, versions);
+  });
+
+  const info = new Map<T, SessionVersionInfo>();
+  bySession.forEach((versions) => {
+    versions.sort(storedOrder);
+    const canonical = versions.reduce((best, entry) =>
+      completeness(entry.session) >= completeness(best.session) ? entry : best
+    );
+    versions.forEach((entry, index) => {
+      info.set(entry, {
+        version: index + 1,
+        version_count: versions.length,
+        canonical: entry === canonical,
+      });
+    });
+  });
+  return entries.map((entry) => ({ ...entry, ...(info.get(entry) as SessionVersionInfo) }));
+}
@@ -0,0 +1,458 @@
+import "server-only";
+
+import {
+  buildDecisionFallbackMessage,
+  buildFallbackOfferAllocation,
+  buildGeminiOfferPrompt,
+  buildGeminiOfferRepairPrompt,
+  parseGeminiOfferResponse,
+} from "@/lib/agent";
+import { PERSONA_TAGS } from "@/lib/config";
+import { getDomain, getWeightProfile, isDomainId, sessionReservation } from "@/lib/domains";
+import { issueEntries, issuePoints } from "@/lib/issues";
+import {
+  callLlm,
+  isLlmProviderId,
+  resolveLlmSelection,
+  type LlmProviderId,
+  type LlmSelection,
+} from "@/lib/llm";
+import { createEvent, createSession } from "@/lib/logger";
+import { isStrategyId, runStrategy, type StrategyId } from "@/lib/strategy";
+import type {
+  ConditionId,
+  ExperimentEvent,
+  ExperimentEventType,
+  ExperimentSession,
+  Issue,
+  NegotiationEndReason,
+  Offer,
+  OfferAllocation,
+  ReservationValues,
+  UtilityWeights,
+} from "@/lib/types";
+import { allocationFromIssues, computeUtilities, shortId, summarizeHistory } from "@/lib/utils";
+
+export type ScriptId = "accept-first" | "hardliner" | "even-split";
+
+export const SCRIPT_IDS: ScriptId[] = ["accept-first", "hardliner", "even-split"];
+
+/**
+ * One automated side of a simulated negotiation:
+ * - `llm` uses the same offer prompt as the live agent, optionally with a persona.
+ * - `strategy` runs one of the rule-based strategies from `lib/strategy`.
+ * - `scripted` is a fixed opponent: `accept-first` takes the first offer, `hardliner`
+ *   always demands its best outcome, `even-split` offers an even split and accepts
+ *   anything at least as good for it.
+ */
+export type PlayerSpec =
+  | { kind: "llm"; persona?: string; provider?: LlmProviderId }
+  | { kind: "strategy"; strategy: StrategyId }
+  | { kind: "scripted"; script: ScriptId };
+
+export class SimulationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "SimulationError";
+    this.status = status;
+  }
+}
+
+function isScriptId(value: unknown): value is ScriptId {
+  return typeof value === "string" && (SCRIPT_IDS as string[]).includes(value);
+}
+
+/** Parses `llm`, `llm:<persona>[@<provider>]`, `strategy:<id>` or `scripted:<id>`. */
+export function parsePlayerSpec(value: unknown): PlayerSpec {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new SimulationError("Player spec must be a non-empty string.");
+  }
+  const trimmed = value.trim();
+  const separator = trimmed.indexOf(":");
+  const kind = separator === -1 ? trimmed : trimmed.slice(0, separator);
+  const rest = separator === -1 ? "" : trimmed.slice(separator + 1);
+  if (kind === "llm") {
+    const [persona, provider] = rest.split("@");
+    if (persona && persona !== "neutral" && !PERSONA_TAGS.includes(persona)) {
+      throw new SimulationError(`Unknown persona "${persona}".`);
+    }
+    if (provider !== undefined && !isLlmProviderId(provider)) {
+      throw new SimulationError(`Unknown LLM provider "${provider}".`);
+    }
+    return {
+      kind: "llm",
+      persona: persona && persona !== "neutral" ? persona : undefined,
+      provider,
+    };
+  }
+  if (kind === "strategy") {
+    if (!isStrategyId(rest)) throw new SimulationError(`Unknown strategy "${rest}".`);
+    return { kind: "strategy", strategy: rest };
+  }
+  if (kind === "scripted") {
+    if (!isScriptId(rest)) throw new SimulationError(`Unknown script "${rest}".`);
+    return { kind: "scripted", script: rest };
+  }
+  throw new SimulationError(`Unknown player kind "${kind}".`);
+}
+
+export function formatPlayerSpec(spec: PlayerSpec) {
+  if (spec.kind === "strategy") return `strategy:${spec.strategy}`;
+  if (spec.kind === "scripted") return `scripted:${spec.script}`;
+  const persona = spec.persona ?? "neutral";
+  return spec.provider ? `llm:${persona}@${spec.provider}` : `llm:${persona}`;
+}
+
+type Role = "human" | "agent";
+
+/**
+ * The negotiation as one player sees it. Every player is shown the game from the agent
+ * side, so the human side gets a mirrored copy; that way the agent prompt, strategies
+ * and scripts work unchanged for both roles.
+ */
+type PlayerView = {
+  issues: Issue[];
+  weights: UtilityWeights;
+  reservation: ReservationValues;
+  offers: Offer[];
+  chat: Array<{ role: string; content: string }>;
+  turn: number;
+  maxTurns: number;
+  deadlineRemaining: number;
+  deadlineSeconds: number;
+};
+
+type Move = {
+  decision: "accept" | "counter";
+  allocation?: OfferAllocation;
+  /** Free-text message; template messages are written after un-mirroring the offer. */
+  message?: string;
+  model: string;
+  provider?: LlmProviderId;
+  strategy?: string;
+};
+
+function otherRole(role: Role): Role {
+  return role === "human" ? "agent" : "human";
+}
+
+function mirrorAllocation(allocation: OfferAllocation): OfferAllocation {
+  const mirrored: OfferAllocation = {};
+  Object.entries(allocation).forEach(([key, entry]) => {
+    mirrored[key] = { ...entry, human: entry.agent, agent: entry.human };
+  });
+  return mirrored;
+}
+
+function mirrorView(view: PlayerView): PlayerView {
+  return {
+    ...view,
+    issues: view.issues.map((issue) =>
+      issue.options
+        ? {
+            ...issue,
+            options: issue.options.map((option) => ({
+              ...option,
+              value: { human: option.value.agent, agent: option.value.human },
+            })),
+          }
+        : issue
+    ),
+    weights: { human: view.weights.agent, agent: view.weights.human },
+    reservation: { human: view.reservation.agent, agent: view.reservation.human },
+    offers: view.offers.map((offer) => ({
+      ...offer,
+      by: otherRole(offer.by),
+      allocation: mirrorAllocation(offer.allocation),
+    })),
+    chat: view.chat.map((entry) => ({
+      role: entry.role === "human" ? "agent" : entry.role === "agent" ? "human" : entry.role,
+      content: entry.content,
+    })),
+  };
+}
+
+/** Best outcome for the agent side of the view, ties broken in the opponent's favour. */
+function bestAllocationForAgent(issues: Issue[], weights: UtilityWeights) {
+  const allocation: OfferAllocation = {};
+  issues.forEach((issue) => {
+    let best = issueEntries(issue)[0];
+    let bestPoints = issuePoints(issue, best, weights);
+    issueEntries(issue).forEach((entry) => {
+      const points = issuePoints(issue, entry, weights);
+      if (
+        points.agent > bestPoints.agent ||
+        (points.agent === bestPoints.agent && points.human > bestPoints.human)
+      ) {
+        best = entry;
+        bestPoints = points;
+      }
+    });
+    allocation[issue.key] = best;
+  });
+  return allocation;
+}
+
+function lastOpponentOffer(view: PlayerView) {
+  const last = view.offers[view.offers.length - 1];
+  return last?.by === "human" ? last : null;
+}
+
+async function llmMove(
+  spec: Extract<PlayerSpec, { kind: "llm" }>,
+  view: PlayerView,
+  llm: LlmSelection
+): Promise<Move> {
+  const context = {
+    personaTag: spec.persona ?? "neutral",
+    issues: view.issues,
+    weights: view.weights,
+    reservation: view.reservation,
+    humanOffer: lastOpponentOffer(view),
+    historySummary: summarizeHistory(view.offers, view.maxTurns),
+    chatContext: view.chat.slice(-12),
+    deadlineRemaining: view.deadlineRemaining,
+    turn: view.turn,
+    maxTurns: view.maxTurns,
+  };
+  const options = {
+    provider: llm.provider,
+    model: llm.model,
+    temperature: 0.3,
+    maxOutputTokens: 700000,
+    responseMimeType: "application/json",
+  };
+  const { system, prompt } = buildGeminiOfferPrompt(context);
+  try {
+    const result = await callLlm(system, prompt, options);
+    try {
+      const parsed = parseGeminiOfferResponse(result.text, view.issues);
+      return { ...parsed, allocation: parsed.offer, model: result.model, provider: llm.provider };
+    } catch (error) {
+      const repair = buildGeminiOfferRepairPrompt({
+        ...context,
+        errorMessage: error instanceof Error ? error.message : "Unknown parse error",
+        rawResponse: result.text,
+      });
+      const repaired = await callLlm(repair.system, repair.prompt, {
+        ...options,
+        temperature: 0.2,
+      });
+      const parsed = parseGeminiOfferResponse(repaired.text, view.issues);
+      return { ...parsed, allocation: parsed.offer, model: repaired.model, provider: llm.provider };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown LLM error";
+    console.warn(`[simulation] using fallback offer: ${message}`);
+    return {
+      decision: "counter",
+      allocation: buildFallbackOfferAllocation(view.issues, view.weights),
+      model: "local-fallback",
+      provider: llm.provider,
+    };
+  }
+}
+
+function strategyMove(spec: Extract<PlayerSpec, { kind: "strategy" }>, view: PlayerView): Move {
+  const result = runStrategy(spec.strategy, {
+    issues: view.issues,
+    weights: view.weights,
+    offers: view.offers,
+    turn: view.turn,
+    maxTurns: view.maxTurns,
+    deadlineRemaining: view.deadlineRemaining,
+    deadlineSeconds: view.deadlineSeconds,
+    reservation: view.reservation.agent,
+  });
+  return {
+    decision: result.decision,
+    allocation: result.offer,
+    model: "strategy",
+    strategy: spec.strategy,
+  };
+}
+
+function scriptedMove(spec: Extract<PlayerSpec, { kind: "scripted" }>, view: PlayerView): Move {
+  const opponentOffer = lastOpponentOffer(view);
+  const ownUtility = (allocation: OfferAllocation) =>
+    computeUtilities(allocation, view.weights, view.issues).agent;
+  const base = { model: "scripted", strategy: spec.script };
+  if (spec.script === "hardliner") {
+    return {
+      ...base,
+      decision: "counter",
+      allocation: bestAllocationForAgent(view.issues, view.weights),
+    };
+  }
+  const evenSplit = allocationFromIssues(view.issues, "equal");
+  if (
+    opponentOffer &&
+    (spec.script === "accept-first" ||
+      ownUtility(opponentOffer.allocation) >= ownUtility(evenSplit))
+  ) {
+    return { ...base, decision: "accept" };
+  }
+  return { ...base, decision: "counter", allocation: evenSplit };
+}
+
+export type SimulationOptions = {
+  domainId?: string;
+  weightProfile?: string;
+  human: PlayerSpec;
+  agent: PlayerSpec;
+  /** Simulated seconds each move takes; drives the deadline and event timestamps. */
+  secondsPerMove?: number;
+};
+
+const DEFAULT_SECONDS_PER_MOVE = 15;
+
+/**
+ * Plays one negotiation between two automated players and returns it as a regular
+ * `ExperimentSession` (tagged with `simulation`), so analytics and reports can read it like
+ * a classroom session once the admin filters include simulated sessions. The human side
+ * always opens; the clock is simulated.
+ */
+export async function runSimulation(options: SimulationOptions): Promise<ExperimentSession> {
+  if (options.domainId !== undefined && !isDomainId(options.domainId)) {
+    throw new SimulationError(`Unknown domain "${options.domainId}".`);
+  }
+  const domain = getDomain(options.domainId);
+  if (options.weightProfile && !getWeightProfile(domain, options.weightProfile)) {
+    throw new SimulationError(`Unknown weight profile "${options.weightProfile}".`);
+  }
+  const secondsPerMove = options.secondsPerMove ?? DEFAULT_SECONDS_PER_MOVE;
+  if (!Number.isFinite(secondsPerMove) || secondsPerMove <= 0) {
+    throw new SimulationError("seconds_per_move must be a positive number.");
+  }
+
+  const players: Record<Role, PlayerSpec> = { human: options.human, agent: options.agent };
+  const agentPersona = players.agent.kind === "llm" ? players.agent.persona : undefined;
+  const conditionId: ConditionId = agentPersona ? "persona" : "neutral";
+  const session = createSession(conditionId, agentPersona, domain.domain_id, options.weightProfile);
+  session.participant.participant_id = `sim-${shortId()}`;
+  session.simulation = {
+    human: formatPlayerSpec(players.human),
+    agent: formatPlayerSpec(players.agent),
+    seconds_per_move: secondsPerMove,
+  };
+
+  const { issues, max_turns: maxTurns, deadline_seconds: deadlineSeconds } = session.config;
+  const weights = session.config.weights ?? domain.weights;
+  const reservation = sessionReservation(session.config);
+  const llm: Record<Role, LlmSelection> = {
+    human: resolveLlmSelection(),
+    agent: resolveLlmSelection(conditionId),
+  };
+  (["human", "agent"] as Role[]).forEach((role) => {
+    const spec = players[role];
+    if (spec.kind === "llm" && spec.provider) {
+      llm[role] = { provider: spec.provider };
+    }
+  });
+
+  const startedAt = Date.parse(session.created_at);
+  const at = (seconds: number) => new Date(startedAt + seconds * 1000).toISOString();
+  const events: ExperimentEvent[] = [];
+  const log = (type: ExperimentEventType, payload: Record<string, unknown>, t: string) => {
+    events.push({ ...createEvent(type, payload), t });
+  };
+  const offers: Offer[] = [];
+  const chat: PlayerView["chat"] = [];
+
+  let mover: Role = "human";
+  let elapsed = 0;
+  let reason: NegotiationEndReason | null = null;
+  let agreedOffer: Offer | undefined;
+
+  while (!reason) {
+    if (elapsed + secondsPerMove > deadlineSeconds) {
+      elapsed = deadlineSeconds;
+      reason = "timeout";
+      break;
+    }
+    elapsed += secondsPerMove;
+    const t = at(elapsed);
+    const baseView: PlayerView = {
+      issues,
+      weights,
+      reservation,
+      offers,
+      chat,
+      turn: offers.length,
+      maxTurns,
+      deadlineRemaining: deadlineSeconds - elapsed,
+      deadlineSeconds,
+    };
+    const mirrored = mover === "human";
+    const view = mirrored ? mirrorView(baseView) : baseView;
+    const spec = players[mover];
+    const move =
+      spec.kind === "llm"
+        ? await llmMove(spec, view, llm[mover])
+        : spec.kind === "strategy"
+          ? strategyMove(spec, view)
+          : scriptedMove(spec, view);
+    const meta = { model: move.model, provider: move.provider, strategy: move.strategy };
+    const chatType = mover === "human" ? "chat_send" : "chat_receive";
+    const pending = offers[offers.length - 1];
+    const opponentOffer = pending && pending.by !== mover ? pending : null;
+
+    if (move.decision === "accept" && opponentOffer) {
+      const content =
+        move.message ?? buildDecisionFallbackMessage("accept", opponentOffer.allocation, issues);
+      log("offer_accept", { offer: opponentOffer, by: mover, ...meta }, t);
+      log(chatType, { content, turn: opponentOffer.turn, ...meta }, t);
+      chat.push({ role: mover, content });
+      agreedOffer = opponentOffer;
+      reason = "agreement";
+      break;
+    }
+
+    if (opponentOffer) {
+      log("offer_reject", { offer: opponentOffer, by: mover }, t);
+    }
+    // Accepting with nothing on the table, or countering without an offer, falls back.
+    const ownAllocation =
+      move.decision === "counter" && move.allocation
+        ? move.allocation
+        : buildFallbackOfferAllocation(view.issues, view.weights);
+    const offer: Offer = {
+      turn: offers.length + 1,
+      by: mover,
+      allocation: mirrored ? mirrorAllocation(ownAllocation) : ownAllocation,
+      created_at: t,
+    };
+    offers.push(offer);
+    log(mover === "human" ? "offer_propose" : "offer_receive", { offer, ...meta }, t);
+    const content =
+      move.decision === "counter" && move.message
+        ? move.message
+        : buildDecisionFallbackMessage("counter", offer.allocation, issues);
+    log(chatType, { content, turn: offer.turn, ...meta }, t);
+    chat.push({ role: mover, content });
+
+    if (offers.length >= maxTurns) {
+      reason = "turn_limit";
+    }
+    mover = otherRole(mover);
+  }
+
+  const endedAt = at(elapsed);
+  log("end", { reason, agreed_offer: agreedOffer }, endedAt);
+  return {
+    ...session,
+    events,
+    outcome: {
+      ended_at: endedAt,
+      reason,
+      agreed_offer: agreedOffer,
+      utilities: agreedOffer
+        ? computeUtilities(agreedOffer.allocation, weights, issues)
+        : undefined,
+      turns: offers.length,
+      duration_seconds: elapsed,
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+import { insertSession, queryVersionedSessions } from "@/lib/server/sqliteStore";
+import { SESSION_SCHEMA_VERSION } from "@/lib/sessionSchema";
+import type { ExperimentSession } from "@/lib/types";
+
+vi.mock("server-only", () => ({}));
+
+vi.hoisted(() => {
+  process.env.SQLITE_PATH = ":memory:";
+});
+
+function session(sessionId: string, extra: Partial<ExperimentSession> = {}): ExperimentSession {
+  return {
+    schema_version: SESSION_SCHEMA_VERSION,
+    session_id: sessionId,
+    created_at: "2026-01-01T12:00:00.000Z",
+    participant: { participant_id: `P-${sessionId}` },
+    config: {
+      domain_id: "classroom-perks-01",
+      issues: [{ key: "a", label: "A", total: 2 }],
+      deadline_seconds: 300,
+      max_turns: 10,
+    },
+    condition: { id: "neutral" },
+    events: [],
+    outcome: { turns: 0, duration_seconds: 0 },
+    study_id: "study-1",
+    arm_id: "arm-a",
+    ...extra,
+  };
+}
+
+describe("queryVersionedSessions", () => {
+  beforeAll(() => {
+    const ended = { reason: "agreement" as const, turns: 4, duration_seconds: 90 };
+    insertSession("session-one-1.json", "2026-01-01T12:05:00.000Z", session("one"));
+    insertSession(
+      "session-one-2.json",
+      "2026-01-01T12:06:00.000Z",
+      session("one", { outcome: ended })
+    );
+    insertSession(
+      "session-bot-1.json",
+      "2026-01-01T12:07:00.000Z",
+      session("bot", {
+        outcome: ended,
+        simulation: { human: "bot:hard-liner", agent: "live", seconds_per_move: 0 },
+      })
+    );
+    insertSession(
+      "session-other-1.json",
+      "2026-01-01T12:08:00.000Z",
+      session("other", { study_id: "study-2" })
+    );
+  });
+
+  it("returns the canonical versions of a study with their version info", () => {
+    const entries = queryVersionedSessions({ studyId: "study-1" });
+
+    expect(entries.map((entry) => entry.filename)).toEqual([
+      "session-bot-1.json",
+      "session-one-2.json",
+    ]);
+    expect(entries[1]).toMatchObject({ version: 2, version_count: 2, canonical: true });
+    expect(entries[1].session.outcome.reason).toBe("agreement");
+  });
+
+  it("applies the admin filters in the query", () => {
+    const filtered = queryVersionedSessions({
+      studyId: "study-1",
+      filters: { simulated: "exclude", outcome: "agreement" },
+    });
+    expect(filtered.map((entry) => entry.session.session_id)).toEqual(["one"]);
+
+    const all = queryVersionedSessions({ studyId: "study-1", versions: "all" });
+    expect(all.map((entry) => entry.filename)).toContain("session-one-1.json");
+  });
+});
@@ -0,0 +1,537 @@
+import "server-only";
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import path from "path";
+
+import {
+  decodeCursor,
+  encodeCursor,
+  type SessionFilters,
+  type SessionPage,
+  type SessionPageRequest,
+} from "@/lib/server/sessionFilters";
+import { annotateVersions, type SessionVersionInfo } from "@/lib/server/sessionVersions";
+import type { ExperimentEvent, ExperimentSession, Offer } from "@/lib/types";
+
+const databasePath = process.env.SQLITE_PATH ?? path.join(process.cwd(), "data", "sessions.db");
+
+/** `SESSION_STORE=sqlite` keeps sessions and streamed events in one SQLite database. */
+export function sqliteEnabled() {
+  return process.env.SESSION_STORE === "sqlite";
+}
+
+/**
+ * Schema changes, applied in order on open. `PRAGMA user_version` records how many have
+ * run, so append new steps here and never edit one that has shipped. A step is SQL, or a
+ * function for data changes that need the TypeScript rules.
+ */
+const MIGRATIONS: Array<string | ((db: Database.Database) => void)> = [
+  `
+  CREATE TABLE sessions (
+    filename TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    stored_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    participant_id TEXT NOT NULL,
+    condition_id TEXT NOT NULL,
+    persona_tag TEXT,
+    domain_id TEXT,
+    study_id TEXT,
+    arm_id TEXT,
+    invite_id TEXT,
+    simulated INTEGER NOT NULL DEFAULT 0,
+    outcome_reason TEXT,
+    turns INTEGER,
+    duration_seconds REAL,
+    human_utility REAL,
+    agent_utility REAL,
+    joint_utility REAL,
+    payload TEXT NOT NULL
+  );
+  CREATE INDEX sessions_session_id ON sessions (session_id);
+  CREATE INDEX sessions_study ON sessions (study_id, arm_id);
+  CREATE INDEX sessions_stored_at ON sessions (stored_at);
+
+  CREATE TABLE events (
+    filename TEXT NOT NULL REFERENCES sessions (filename) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    event_id TEXT NOT NULL,
+    t TEXT NOT NULL,
+    type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (filename, seq)
+  );
+  CREATE INDEX events_type ON events (type);
+
+  CREATE TABLE offers (
+    filename TEXT NOT NULL REFERENCES sessions (filename) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    turn INTEGER NOT NULL,
+    by TEXT NOT NULL,
+    t TEXT NOT NULL,
+    allocation TEXT NOT NULL,
+    PRIMARY KEY (filename, seq)
+  );
+
+  CREATE TABLE chat_messages (
+    filename TEXT NOT NULL REFERENCES sessions (filename) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    t TEXT NOT NULL,
+    content TEXT NOT NULL,
+    PRIMARY KEY (filename, seq)
+  );
+
+  CREATE TABLE surveys (
+    filename TEXT PRIMARY KEY REFERENCES sessions (filename) ON DELETE CASCADE,
+    t TEXT NOT NULL,
+    fairness INTEGER,
+    trust INTEGER,
+    cooperativeness INTEGER,
+    human_likeness INTEGER,
+    satisfaction INTEGER,
+    negotiate_again INTEGER,
+    comment TEXT
+  );
+
+  CREATE TABLE event_log (
+    session_id TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    t TEXT NOT NULL,
+    type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    received_at TEXT NOT NULL,
+    PRIMARY KEY (session_id, event_id)
+  );
+  `,
+  (db) => {
+    db.exec(`
+      ALTER TABLE sessions ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE sessions ADD COLUMN canonical INTEGER NOT NULL DEFAULT 1;
+    `);
+    const sessionIds = db.prepare("SELECT DISTINCT session_id FROM sessions").pluck().all();
+    (sessionIds as string[]).forEach((sessionId) => refreshVersions(db, sessionId));
+  },
+];
+
+let database: Database.Database | null = null;
+
+function migrate(db: Database.Database) {
+  const applied = db.pragma("user_version", { simple: true }) as number;
+  MIGRATIONS.slice(applied).forEach((step, index) => {
+    db.transaction(() => {
+      if (typeof step === "string") {
+        db.exec(step);
+      } else {
+        step(db);
+      }
+      db.pragma(`user_version = ${applied + index + 1}`);
+    })();
+  });
+}
+
+export function getDatabase() {
+  if (!database) {
+    mkdirSync(path.dirname(databasePath), { recursive: true });
+    const db = new Database(databasePath);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    migrate(db);
+    database = db;
+  }
+  return database;
+}
+
+export type SessionQuery = {
+  studyId?: string | null;
+  sessionId?: string;
+  /** Canonical versions only (the default), or every stored version. */
+  versions?: "canonical" | "all";
+  /** Applied after versions are picked: in SQL here, in memory by `sessionStore` otherwise. */
+  filters?: SessionFilters;
+};
+
+export type SessionSummary = {
+  filename: string;
+  stored_at: string;
+  session_id: string;
+  created_at: string;
+  condition_id: string;
+  persona_tag: string | null;
+  simulated: boolean;
+  study_id: string | null;
+  arm_id: string | null;
+  participant_id: string;
+  outcome_reason: string | null;
+  turns: number;
+  duration_seconds: number;
+  has_survey: boolean;
+} & SessionVersionInfo;
+
+function whereClause(query: SessionQuery) {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (query.studyId) {
+    conditions.push("study_id = ?");
+    params.push(query.studyId);
+  }
+  if (query.sessionId) {
+    conditions.push("session_id = ?");
+    params.push(query.sessionId);
+  }
+  return { sql: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+function likePattern(text: string) {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// Conditions on the columns of the summary query below.
+function filterClause(filters: SessionFilters = {}) {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  const add = (condition: string, ...values: Array<string | number>) => {
+    conditions.push(condition);
+    params.push(...values);
+  };
+  if (filters.createdFrom) add("created_at >= ?", filters.createdFrom);
+  if (filters.createdBefore) add("created_at < ?", filters.createdBefore);
+  if (filters.conditionId) add("condition_id = ?", filters.conditionId);
+  if (filters.personaTag) add("persona_tag = ?", filters.personaTag);
+  if (filters.outcome === "incomplete") {
+    add("outcome_reason IS NULL");
+  } else if (filters.outcome) {
+    add("outcome_reason = ?", filters.outcome);
+  }
+  if (filters.minTurns !== undefined) add("turns >= ?", filters.minTurns);
+  if (filters.maxTurns !== undefined) add("turns <= ?", filters.maxTurns);
+  if (filters.minDuration !== undefined) add("duration_seconds >= ?", filters.minDuration);
+  if (filters.maxDuration !== undefined) add("duration_seconds <= ?", filters.maxDuration);
+  if (filters.hasSurvey !== undefined) add("has_survey = ?", filters.hasSurvey ? 1 : 0);
+  if (filters.participantId) {
+    add("participant_id LIKE ? ESCAPE '\\'", likePattern(filters.participantId));
+  }
+  if (filters.simulated === "exclude") add("simulated = 0");
+  if (filters.simulated === "only") add("simulated = 1");
+  if (filters.search) {
+    add(
+      `EXISTS (SELECT 1 FROM chat_messages WHERE chat_messages.filename = summaries.filename
+        AND content LIKE ? ESCAPE '\\')`,
+      likePattern(filters.search)
+    );
+  }
+  return { conditions, params };
+}
+
+/** Renumbers the stored versions of a session and flags the canonical one. */
+function refreshVersions(db: Database.Database, sessionId: string) {
+  const rows = db
+    .prepare("SELECT filename, stored_at, payload FROM sessions WHERE session_id = ?")
+    .all(sessionId) as Array<{ filename: string; stored_at: string; payload: string }>;
+  const update = db.prepare("UPDATE sessions SET version = ?, canonical = ? WHERE filename = ?");
+  annotateVersions(
+    rows.map((row) => ({
+      filename: row.filename,
+      stored_at: row.stored_at,
+      session: JSON.parse(row.payload) as ExperimentSession,
+    }))
+  ).forEach((entry) => {
+    update.run(entry.version, entry.canonical ? 1 : 0, entry.filename);
+  });
+}
+
+function sessionOffers(events: ExperimentEvent[]) {
+  return events.flatMap((event) => {
+    if (event.type !== "offer_propose" && event.type !== "offer_receive") return [];
+    const offer = (event.payload as { offer?: Offer })?.offer;
+    if (!offer?.allocation) return [];
+    return [
+      {
+        turn: offer.turn,
+        by: offer.by ?? (event.type === "offer_propose" ? "human" : "agent"),
+        t: event.t,
+        allocation: offer.allocation,
+      },
+    ];
+  });
+}
+
+function sessionChats(events: ExperimentEvent[]) {
+  return events
+    .filter((event) => event.type === "chat_send" || event.type === "chat_receive")
+    .map((event) => ({
+      role: event.type === "chat_send" ? "human" : "agent",
+      t: event.t,
+      content: String((event.payload as { content?: string })?.content ?? ""),
+    }));
+}
+
+/** Writes a submission and its events, offers, chat and survey rows in one transaction. */
+export function insertSession(filename: string, storedAt: string, session: ExperimentSession) {
+  const db = getDatabase();
+  const events = Array.isArray(session.events) ? session.events : [];
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO sessions (filename, session_id, stored_at, created_at, participant_id,
+        condition_id, persona_tag, domain_id, study_id, arm_id, invite_id, simulated,
+        outcome_reason, turns, duration_seconds, human_utility, agent_utility, joint_utility,
+        payload)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      filename,
+      session.session_id,
+      storedAt,
+      session.created_at,
+      session.participant.participant_id,
+      session.condition.id,
+      session.condition.persona_tag ?? null,
+      session.config.domain_id ?? null,
+      session.study_id ?? null,
+      session.arm_id ?? null,
+      session.invite_id ?? null,
+      session.simulation ? 1 : 0,
+      session.outcome.reason ?? null,
+      session.outcome.turns ?? null,
+      session.outcome.duration_seconds ?? null,
+      session.outcome.utilities?.human ?? null,
+      session.outcome.utilities?.agent ?? null,
+      session.outcome.utilities?.joint ?? null,
+      JSON.stringify(session)
+    );
+    const insertEvent = db.prepare(
+      "INSERT INTO events (filename, seq, event_id, t, type, payload) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    events.forEach((event, index) => {
+      insertEvent.run(
+        filename,
+        index,
+        event.id,
+        event.t,
+        event.type,
+        JSON.stringify(event.payload ?? {})
+      );
+    });
+    const insertOffer = db.prepare(
+      "INSERT INTO offers (filename, seq, turn, by, t, allocation) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    sessionOffers(events).forEach((offer, index) => {
+      insertOffer.run(
+        filename,
+        index,
+        offer.turn,
+        offer.by,
+        offer.t,
+        JSON.stringify(offer.allocation)
+      );
+    });
+    const insertChat = db.prepare(
+      "INSERT INTO chat_messages (filename, seq, role, t, content) VALUES (?, ?, ?, ?, ?)"
+    );
+    sessionChats(events).forEach((message, index) => {
+      insertChat.run(filename, index, message.role, message.t, message.content);
+    });
+    if (session.survey) {
+      const survey = session.survey;
+      db.prepare(
+        `INSERT INTO surveys (filename, t, fairness, trust, cooperativeness, human_likeness,
+          satisfaction, negotiate_again, comment)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        filename,
+        survey.t,
+        survey.fairness,
+        survey.trust,
+        survey.cooperativeness,
+        survey.human_likeness,
+        survey.satisfaction,
+        survey.negotiate_again,
+        survey.comment ?? null
+      );
+    }
+    refreshVersions(db, session.session_id);
+  })();
+}
+
+/** Stored sessions, newest first, every version (see `annotateVersions`). */
+export function querySessions(query: SessionQuery = {}) {
+  const where = whereClause(query);
+  const rows = getDatabase()
+    .prepare(
+      `SELECT filename, stored_at, payload FROM sessions ${where.sql} ORDER BY stored_at DESC`
+    )
+    .all(...where.params) as Array<{ filename: string; stored_at: string; payload: string }>;
+  return rows.map((row) => ({
+    filename: row.filename,
+    stored_at: row.stored_at,
+    session: JSON.parse(row.payload) as ExperimentSession,
+  }));
+}
+
+// The listing columns of every stored version, named as `filterClause` and the sorts expect.
+function summariesFrom(whereSql: string, withPayload = false) {
+  return `FROM (
+    SELECT ${withPayload ? "payload, " : ""}filename, stored_at, session_id, created_at,
+      condition_id, persona_tag, simulated, study_id, arm_id, participant_id, outcome_reason,
+      COALESCE(turns, 0) AS turns, COALESCE(duration_seconds, 0) AS duration_seconds,
+      EXISTS (SELECT 1 FROM surveys WHERE surveys.filename = sessions.filename) AS has_survey,
+      version, canonical, COUNT(*) OVER (PARTITION BY session_id) AS version_count
+    FROM sessions ${whereSql}
+  ) AS summaries`;
+}
+
+/**
+ * Stored sessions with their version info, newest first, with the study, versions and
+ * admin filters applied in SQL, so only the matching payloads are read.
+ */
+export function queryVersionedSessions(query: SessionQuery = {}) {
+  const where = whereClause(query);
+  const filter = filterClause(query.filters);
+  if (query.versions !== "all") {
+    filter.conditions.push("canonical = 1");
+  }
+  const rows = getDatabase()
+    .prepare(
+      `SELECT filename, stored_at, payload, version, version_count, canonical
+      ${summariesFrom(where.sql, true)}
+      ${filter.conditions.length ? `WHERE ${filter.conditions.join(" AND ")}` : ""}
+      ORDER BY stored_at DESC, filename DESC`
+    )
+    .all(...where.params, ...filter.params) as Array<{
+    filename: string;
+    stored_at: string;
+    payload: string;
+    version: number;
+    version_count: number;
+    canonical: number;
+  }>;
+  return rows.map(({ payload, canonical, ...row }) => ({
+    ...row,
+    session: JSON.parse(payload) as ExperimentSession,
+    canonical: Boolean(canonical),
+  }));
+}
+
+/**
+ * One page of listing columns, filtered, sorted and paged in SQL; the session payloads
+ * are not read.
+ */
+export function querySessionSummaries(
+  query: SessionQuery,
+  page: SessionPageRequest
+): SessionPage<SessionSummary> {
+  const db = getDatabase();
+  const where = whereClause(query);
+  const filter = filterClause(query.filters);
+  if (query.versions !== "all") {
+    filter.conditions.push("canonical = 1");
+  }
+  const from = summariesFrom(where.sql);
+  const filterSql = filter.conditions.length ? `WHERE ${filter.conditions.join(" AND ")}` : "";
+  const total = db
+    .prepare(`SELECT COUNT(*) ${from} ${filterSql}`)
+    .pluck()
+    .get(...where.params, ...filter.params) as number;
+
+  // `page.sort` is one of SESSION_SORTS, never user text.
+  const direction = page.order === "asc" ? "ASC" : "DESC";
+  const after = page.order === "asc" ? ">" : "<";
+  const conditions = [...filter.conditions];
+  const params = [...filter.params];
+  if (page.cursor) {
+    const [value, filename] = decodeCursor(page.cursor);
+    conditions.push(`(${page.sort} ${after} ? OR (${page.sort} = ? AND filename ${after} ?))`);
+    params.push(value, value, filename);
+  }
+  const rows = db
+    .prepare(
+      `SELECT * ${from} ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY ${page.sort} ${direction}, filename ${direction} LIMIT ?`
+    )
+    .all(...where.params, ...params, page.limit + 1) as Array<
+    Omit<SessionSummary, "simulated" | "canonical" | "has_survey"> & {
+      simulated: number;
+      canonical: number;
+      has_survey: number;
+    }
+  >;
+  const sessions = rows.slice(0, page.limit).map((row) => ({
+    ...row,
+    simulated: Boolean(row.simulated),
+    canonical: Boolean(row.canonical),
+    has_survey: Boolean(row.has_survey),
+  }));
+  const last = sessions[sessions.length - 1];
+  return {
+    sessions,
+    total,
+    next_cursor:
+      rows.length > page.limit && last ? encodeCursor(last[page.sort], last.filename) : null,
+  };
+}
+
+export function readSessionPayload(filename: string) {
+  const row = getDatabase()
+    .prepare("SELECT payload FROM sessions WHERE filename = ?")
+    .get(filename) as { payload: string } | undefined;
+  return row?.payload ?? null;
+}
+
+/** Appends streamed events; an event id already logged for the session is ignored. */
+export function appendLoggedEvents(sessionId: string, events: ExperimentEvent[]) {
+  const db = getDatabase();
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO event_log (session_id, event_id, t, type, payload, received_at)
+    VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const receivedAt = new Date().toISOString();
+  db.transaction(() => {
+    events.forEach((event) => {
+      insert.run(
+        sessionId,
+        event.id,
+        event.t,
+        event.type,
+        JSON.stringify(event.payload ?? {}),
+        receivedAt
+      );
+    });
+  })();
+}
+
+type LoggedEventRow = {
+  session_id: string;
+  event_id: string;
+  t: string;
+  type: string;
+  payload: string;
+};
+
+function toEvent(row: LoggedEventRow): ExperimentEvent {
+  return {
+    id: row.event_id,
+    t: row.t,
+    type: row.type as ExperimentEvent["type"],
+    payload: JSON.parse(row.payload) as Record<string, unknown>,
+  };
+}
+
+export function readLoggedEvents(sessionId: string) {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM event_log WHERE session_id = ? ORDER BY t, event_id")
+    .all(sessionId) as LoggedEventRow[];
+  return rows.map(toEvent);
+}
+
+export function listLoggedEvents() {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM event_log ORDER BY session_id, t, event_id")
+    .all() as LoggedEventRow[];
+  const logs = new Map<string, ExperimentEvent[]>();
+  rows.forEach((row) => {
+    const events = logs.get(row.session_id) ?? [];
+    events.push(toEvent(row));
+    logs.set(row.session_id, events);
+  });
+  return logs;
+}
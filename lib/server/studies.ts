@@ -0,0 +1,423 @@
+import "server-only";
+
+import { promises as fs } from "fs";
+import path from "path";
+
+import { PERSONA_TAGS } from "@/lib/config";
+import { getDomain, getWeightProfile, isDomainId } from "@/lib/domains";
+import { isLlmProviderId, resolveLlmSelection, type LlmSelection } from "@/lib/llm";
+import {
+  DEMOGRAPHIC_FIELDS,
+  emptyLedger,
+  isAssignmentAlgorithm,
+  pickArm,
+  stratumKey,
+  studyAssignment,
+  type AssignmentLedger,
+} from "@/lib/server/assignment";
+import { getBucket } from "@/lib/server/sessionStorage";
+import { isStrategyId, resolveAgentStrategy } from "@/lib/strategy";
+import type {
+  ConditionId,
+  DemographicField,
+  ExperimentSession,
+  SessionAssignment,
+  Study,
+  StudyArm,
+  StudyAssignmentConfig,
+  StudyStatus,
+} from "@/lib/types";
+import { nowIso, shortId } from "@/lib/utils";
+
+const studiesDir = path.join(process.cwd(), "data", "studies");
+const studyPrefixRaw = process.env.STUDY_BUCKET_PREFIX ?? "studies";
+const studyObjectPrefix = `${studyPrefixRaw.replace(/^\/+|\/+$/g, "")}/`;
+
+const MAX_ARMS = 12;
+const LEDGER_SUFFIX = ".assignments.json";
+
+export class StudyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "StudyError";
+    this.status = status;
+  }
+}
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+}
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parseArm(value: unknown, index: number, usedIds: Set<string>): StudyArm {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const label = optionalString(raw.label) ?? `Arm ${index + 1}`;
+  const persona = optionalString(raw.persona_tag);
+  if (persona && persona !== "neutral" && !PERSONA_TAGS.includes(persona)) {
+    throw new StudyError(
+      `Unknown persona "${persona}" in ${label}. Use neutral or ${PERSONA_TAGS.join(", ")}.`
+    );
+  }
+  const strategy = optionalString(raw.strategy);
+  if (strategy && strategy !== "llm" && !isStrategyId(strategy)) {
+    throw new StudyError(`Unknown strategy "${strategy}" in ${label}.`);
+  }
+  const provider = optionalString(raw.provider);
+  if (provider && !isLlmProviderId(provider)) {
+    throw new StudyError(`Unknown LLM provider "${provider}" in ${label}.`);
+  }
+  const target = raw.target_sessions;
+  if (typeof target !== "number" || !Number.isInteger(target) || target < 1) {
+    throw new StudyError(`Target sample size of ${label} must be a positive integer.`);
+  }
+
+  let armId = slugify(optionalString(raw.arm_id) ?? label) || `arm-${index + 1}`;
+  while (usedIds.has(armId)) {
+    armId = `${armId}-${index + 1}`;
+  }
+  usedIds.add(armId);
+  return {
+    arm_id: armId,
+    label,
+    ...(persona && persona !== "neutral" ? { persona_tag: persona } : {}),
+    ...(strategy && isStrategyId(strategy) ? { strategy } : {}),
+    ...(provider && isLlmProviderId(provider) ? { provider } : {}),
+    ...(optionalString(raw.model) ? { model: optionalString(raw.model) } : {}),
+    target_sessions: target,
+  };
+}
+
+function parseAssignment(value: unknown, armCount: number): StudyAssignmentConfig {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const algorithm = raw.algorithm ?? "block";
+  if (!isAssignmentAlgorithm(algorithm)) {
+    throw new StudyError(`Unknown assignment algorithm "${String(algorithm)}".`);
+  }
+  const seed = optionalString(raw.seed) ?? shortId();
+  if (algorithm === "least_filled") {
+    return { algorithm, seed };
+  }
+  const blockSize = raw.block_size ?? armCount;
+  if (
+    typeof blockSize !== "number" ||
+    !Number.isInteger(blockSize) ||
+    blockSize < armCount ||
+    blockSize % armCount !== 0
+  ) {
+    throw new StudyError(`Block size must be a multiple of the number of arms (${armCount}).`);
+  }
+  if (algorithm === "block") {
+    return { algorithm, block_size: blockSize, seed };
+  }
+  const strata = Array.isArray(raw.strata) ? raw.strata : [];
+  if (!strata.length) {
+    throw new StudyError("Stratified assignment needs at least one stratum field.");
+  }
+  const unknown = strata.filter((field) => !(DEMOGRAPHIC_FIELDS as unknown[]).includes(field));
+  if (unknown.length) {
+    throw new StudyError(
+      `Unknown stratum field "${String(unknown[0])}". Use ${DEMOGRAPHIC_FIELDS.join(", ")}.`
+    );
+  }
+  return { algorithm, block_size: blockSize, strata: strata as DemographicField[], seed };
+}
+
+/** Validates an admin's study definition and assigns the study and arm ids. */
+export function parseStudyInput(body: unknown): Study {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  const name = optionalString(raw.name);
+  if (!name) {
+    throw new StudyError("Study name is required.");
+  }
+  const domainId = optionalString(raw.domain_id);
+  if (domainId && !isDomainId(domainId)) {
+    throw new StudyError(`Unknown domain "${domainId}".`);
+  }
+  const domain = getDomain(domainId);
+  const weightProfile = optionalString(raw.weight_profile);
+  if (weightProfile && !getWeightProfile(domain, weightProfile)) {
+    throw new StudyError(`Unknown weight profile "${weightProfile}".`);
+  }
+  if (!Array.isArray(raw.arms) || raw.arms.length === 0) {
+    throw new StudyError("A study needs at least one arm.");
+  }
+  if (raw.arms.length > MAX_ARMS) {
+    throw new StudyError(`A study can have at most ${MAX_ARMS} arms.`);
+  }
+  const usedIds = new Set<string>();
+  return {
+    study_id: `${slugify(name) || "study"}-${shortId().toLowerCase()}`,
+    name,
+    domain_id: domain.domain_id,
+    ...(weightProfile ? { weight_profile: weightProfile } : {}),
+    arms: raw.arms.map((arm, index) => parseArm(arm, index, usedIds)),
+    assignment: parseAssignment(raw.assignment, raw.arms.length),
+    status: "open",
+    created_at: nowIso(),
+  };
+}
+
+/** Storage name of a study file; companion files (ledgers) add their own suffix. */
+export function studyFilename(studyId: string, suffix = ".json") {
+  if (!/^[a-z0-9-]+$/.test(studyId)) {
+    throw new StudyError("Invalid study id.", 404);
+  }
+  return `${studyId}${suffix}`;
+}
+
+export async function writeStudyFile(filename: string, data: unknown) {
+  const raw = JSON.stringify(data, null, 2);
+  const bucket = getBucket();
+  if (bucket) {
+    await bucket.file(`${studyObjectPrefix}${filename}`).save(raw, {
+      contentType: "application/json",
+    });
+    return;
+  }
+  await fs.mkdir(studiesDir, { recursive: true });
+  await fs.writeFile(path.join(studiesDir, filename), raw);
+}
+
+export async function readStudyFile<T>(filename: string): Promise<T | null> {
+  const bucket = getBucket();
+  if (bucket) {
+    const file = bucket.file(`${studyObjectPrefix}${filename}`);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [contents] = await file.download();
+    return JSON.parse(contents.toString("utf8")) as T;
+  }
+  try {
+    return JSON.parse(await fs.readFile(path.join(studiesDir, filename), "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export async function saveStudy(study: Study) {
+  await writeStudyFile(studyFilename(study.study_id), study);
+  return study;
+}
+
+export async function getStudy(studyId: string): Promise<Study> {
+  const study = await readStudyFile<Study>(studyFilename(studyId));
+  if (!study) {
+    throw new StudyError("Study not found.", 404);
+  }
+  return study;
+}
+
+export async function listStudies(): Promise<Study[]> {
+  // Study ids never contain dots, so `<id>.json` tells definitions apart from ledgers.
+  const isStudyFile = (name: string) => /(^|\/)[a-z0-9-]+\.json$/.test(name);
+  const bucket = getBucket();
+  let studies: Study[];
+  if (bucket) {
+    const [files] = await bucket.getFiles({ prefix: studyObjectPrefix });
+    studies = await Promise.all(
+      files
+        .filter((file) => isStudyFile(file.name))
+        .map(async (file) => {
+          const [contents] = await file.download();
+          return JSON.parse(contents.toString("utf8")) as Study;
+        })
+    );
+  } else {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(studiesDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    studies = await Promise.all(
+      names
+        .filter(isStudyFile)
+        .map(
+          async (name) =>
+            JSON.parse(await fs.readFile(path.join(studiesDir, name), "utf8")) as Study
+        )
+    );
+  }
+  return studies.sort((a, b) => (a.created_at < b.created_at ? 1 : -1));
+}
+
+export async function getAssignmentLedger(studyId: string) {
+  return (
+    (await readStudyFile<AssignmentLedger>(studyFilename(studyId, LEDGER_SUFFIX))) ?? emptyLedger()
+  );
+}
+
+/** Participants assigned to each arm so far, including sessions that are still running. */
+export function countAssignedSessions(study: Study, ledger: AssignmentLedger) {
+  const counts: Record<string, number> = Object.fromEntries(
+    study.arms.map((arm) => [arm.arm_id, 0])
+  );
+  Object.values(ledger.sessions).forEach(({ arm_id }) => {
+    if (arm_id in counts) {
+      counts[arm_id] += 1;
+    }
+  });
+  return counts;
+}
+
+export async function setStudyStatus(studyId: string, status: StudyStatus) {
+  const study = await getStudy(studyId);
+  return saveStudy({ ...study, status });
+}
+
+/**
+ * Stored sessions per arm of a study; sessions of other studies are ignored. Takes full
+ * sessions or their listing summaries, which SQLite reads without the payloads.
+ */
+export function countArmSessions(
+  study: Study,
+  sessions: Array<{ study_id?: string | null; arm_id?: string | null }>
+) {
+  const counts: Record<string, number> = Object.fromEntries(
+    study.arms.map((arm) => [arm.arm_id, 0])
+  );
+  sessions.forEach((session) => {
+    if (session.study_id !== study.study_id || !session.arm_id) return;
+    if (session.arm_id in counts) {
+      counts[session.arm_id] += 1;
+    }
+  });
+  return counts;
+}
+
+export function armConditionId(arm: StudyArm): ConditionId {
+  return arm.persona_tag ? "persona" : "neutral";
+}
+
+/**
+ * Checks that a study link can take a new participant. Returns the pinned arm for
+ * per-arm links; otherwise the arm is assigned when the negotiation starts.
+ */
+export function checkEnrollment(
+  study: Study,
+  counts: Record<string, number>,
+  requestedArmId?: string
+) {
+  if (study.status !== "open") {
+    throw new StudyError("This study is closed.", 409);
+  }
+  const openArms = openStudyArms(study, counts);
+  if (requestedArmId) {
+    const arm = findStudyArm(study, requestedArmId);
+    if (!openArms.includes(arm)) {
+      throw new StudyError("This study arm is full.", 409);
+    }
+    return arm;
+  }
+  if (!openArms.length) {
+    throw new StudyError("This study is full.", 409);
+  }
+  return null;
+}
+
+function openStudyArms(study: Study, counts: Record<string, number>) {
+  return study.arms.filter((arm) => (counts[arm.arm_id] ?? 0) < arm.target_sessions);
+}
+
+// Ledger updates read, change and write a file; one at a time per study on this server.
+const studyLocks = new Map<string, Promise<unknown>>();
+
+export function withStudyLock<T>(studyId: string, task: () => Promise<T>) {
+  const previous = studyLocks.get(studyId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  studyLocks.set(studyId, next);
+  return next;
+}
+
+/**
+ * Assigns a study participant to an arm with the study's algorithm and records it in the
+ * ledger. Asking again for the same session returns the recorded arm.
+ */
+export function assignStudyArm(params: {
+  study: Study;
+  sessionId: string;
+  completedCounts: Record<string, number>;
+  participant: Partial<ExperimentSession["participant"]>;
+  pinnedArmId?: string;
+}): Promise<{ arm: StudyArm; assignment: SessionAssignment }> {
+  const { study, sessionId } = params;
+  const config = studyAssignment(study);
+  return withStudyLock(study.study_id, async () => {
+    const ledger = await getAssignmentLedger(study.study_id);
+    const existing = ledger.sessions[sessionId];
+    if (existing) {
+      const { arm_id: armId, ...assignment } = existing;
+      return { arm: findStudyArm(study, armId), assignment };
+    }
+
+    const pinned = checkEnrollment(study, params.completedCounts, params.pinnedArmId);
+    let arm: StudyArm;
+    let assignment: SessionAssignment;
+    if (pinned) {
+      arm = pinned;
+      assignment = { algorithm: "pinned", seed: config.seed, assigned_at: nowIso() };
+    } else {
+      const stratum =
+        config.algorithm === "stratified_block"
+          ? stratumKey(config.strata, params.participant)
+          : "all";
+      const picked = pickArm({
+        arms: study.arms,
+        open: openStudyArms(study, params.completedCounts),
+        config,
+        stratum,
+        position: ledger.positions[stratum] ?? 0,
+        assignedCounts: countAssignedSessions(study, ledger),
+      });
+      arm = picked.arm;
+      ledger.positions[stratum] = picked.index + 1;
+      assignment = {
+        algorithm: config.algorithm,
+        seed: config.seed,
+        stratum,
+        sequence_index: picked.index,
+        assigned_at: nowIso(),
+      };
+    }
+    ledger.sessions[sessionId] = { arm_id: arm.arm_id, ...assignment };
+    await writeStudyFile(studyFilename(study.study_id, LEDGER_SUFFIX), ledger);
+    return { arm, assignment };
+  });
+}
+
+export function findStudyArm(study: Study, armId?: string) {
+  const arm = study.arms.find((candidate) => candidate.arm_id === armId);
+  if (!arm) {
+    throw new StudyError(`Unknown arm "${armId ?? ""}".`, 404);
+  }
+  return arm;
+}
+
+/**
+ * Agent configuration for a negotiation. Study arms pin their strategy and LLM; ad-hoc
+ * sessions keep the per-condition environment overrides.
+ */
+export function resolveAgentSetup(conditionId: ConditionId, arm?: StudyArm) {
+  if (!arm) {
+    return {
+      strategy: resolveAgentStrategy(conditionId),
+      llm: resolveLlmSelection(conditionId),
+    };
+  }
+  const llm: LlmSelection = arm.provider
+    ? { provider: arm.provider, model: arm.model }
+    : { ...resolveLlmSelection(conditionId), ...(arm.model ? { model: arm.model } : {}) };
+  return { strategy: arm.strategy ?? null, llm };
+}
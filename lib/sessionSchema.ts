@@ -0,0 +1,259 @@
+import { z } from "zod";
+
+import type { ExperimentEvent, ExperimentEventType, ExperimentSession } from "@/lib/types";
+
+/**
+ * Version of the `ExperimentSession` shape written by this code. Records without a
+ * `schema_version` are version 1; `upgradeSession` brings older records up to date.
+ * Bump it together with a new entry in `UPGRADES` whenever the stored shape changes.
+ */
+export const SESSION_SCHEMA_VERSION = 2;
+
+const roleSchema = z.enum(["human", "agent"]);
+
+const offerSchema = z.object({
+  turn: z.number().int().nonnegative(),
+  by: roleSchema,
+  allocation: z.record(
+    z.string(),
+    z.object({ human: z.number(), agent: z.number(), option: z.string().optional() })
+  ),
+  created_at: z.string(),
+});
+
+const endReasonSchema = z.enum(["agreement", "timeout", "turn_limit", "abort"]);
+
+// Payloads may carry extra fields (model, provider, strategy, ...); the listed ones are
+// the fields analysis relies on.
+const EVENT_PAYLOAD_SCHEMAS = {
+  page_view: z.looseObject({
+    path: z.string(),
+    action: z.enum(["enter", "exit"]),
+    started_at: z.string().optional(),
+    duration_ms: z.number().optional(),
+  }),
+  consent: z.looseObject({ accepted: z.boolean() }),
+  instruction_ack: z.looseObject({ acknowledged: z.boolean() }),
+  chat_send: z.looseObject({ content: z.string() }),
+  chat_receive: z.looseObject({ content: z.string(), turn: z.number().optional() }),
+  offer_propose: z.looseObject({ offer: offerSchema }),
+  offer_receive: z.looseObject({ offer: offerSchema }),
+  offer_accept: z.looseObject({ offer: offerSchema, by: roleSchema }),
+  offer_reject: z.looseObject({ offer: offerSchema, by: roleSchema }),
+  timer_tick: z.looseObject({ remaining: z.number() }),
+  error: z.looseObject({ source: z.string(), message: z.string() }),
+  resume: z.looseObject({
+    via: z.enum(["invite", "participant_id"]),
+    deadline_remaining: z.number().optional(),
+  }),
+  end: z.looseObject({
+    reason: endReasonSchema.optional(),
+    agreed_offer: offerSchema.optional(),
+  }),
+} satisfies Record<ExperimentEventType, z.ZodType>;
+
+const EVENT_TYPES = Object.keys(EVENT_PAYLOAD_SCHEMAS) as ExperimentEventType[];
+
+export const experimentEventSchema = z
+  .object({
+    id: z.string().min(1),
+    t: z.string(),
+    type: z.enum(EVENT_TYPES),
+    payload: z.record(z.string(), z.unknown()),
+  })
+  .superRefine((event, ctx) => {
+    const result = EVENT_PAYLOAD_SCHEMAS[event.type].safeParse(event.payload);
+    result.error?.issues.forEach((issue) => {
+      ctx.addIssue({
+        code: "custom",
+        message: `${event.type}: ${issue.message}`,
+        path: ["payload", ...issue.path],
+      });
+    });
+  });
+
+const issueSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  total: z.number(),
+  icon: z.string().optional(),
+  type: z.enum(["divisible", "categorical", "binary"]).optional(),
+  options: z
+    .array(
+      z.object({
+        key: z.string(),
+        label: z.string(),
+        value: z.object({ human: z.number(), agent: z.number() }),
+      })
+    )
+    .optional(),
+  curve: z.object({ kind: z.literal("diminishing"), rate: z.number() }).optional(),
+});
+
+const rolePairSchema = z.object({ human: z.number(), agent: z.number() });
+
+export const experimentSessionSchema = z.object({
+  schema_version: z.literal(SESSION_SCHEMA_VERSION),
+  session_id: z.string().regex(/^[A-Za-z0-9-]{1,64}$/, "Invalid session id"),
+  created_at: z.string(),
+  participant: z.object({
+    participant_id: z.string().min(1),
+    age_range: z.string().optional(),
+    gender: z.string().optional(),
+    notes: z.string().optional(),
+  }),
+  config: z.object({
+    domain_id: z.string(),
+    issues: z.array(issueSchema),
+    deadline_seconds: z.number(),
+    max_turns: z.number(),
+    weights: z
+      .object({
+        human: z.record(z.string(), z.number()),
+        agent: z.record(z.string(), z.number()),
+      })
+      .optional(),
+    weight_profile: z.string().optional(),
+    reservation: rolePairSchema.optional(),
+  }),
+  condition: z.object({
+    id: z.enum(["neutral", "persona"]),
+    persona_tag: z.string().optional(),
+  }),
+  events: z.array(experimentEventSchema),
+  outcome: z.object({
+    ended_at: z.string().optional(),
+    reason: endReasonSchema.optional(),
+    agreed_offer: offerSchema.optional(),
+    utilities: z.object({ human: z.number(), agent: z.number(), joint: z.number() }).optional(),
+    turns: z.number(),
+    duration_seconds: z.number(),
+  }),
+  survey: z
+    .object({
+      t: z.string(),
+      fairness: z.number(),
+      trust: z.number(),
+      cooperativeness: z.number(),
+      human_likeness: z.number(),
+      satisfaction: z.number(),
+      negotiate_again: z.number(),
+      comment: z.string().optional(),
+    })
+    .optional(),
+  study_id: z.string().optional(),
+  arm_id: z.string().optional(),
+  assignment: z
+    .object({
+      algorithm: z.enum(["block", "stratified_block", "least_filled", "pinned"]),
+      seed: z.string(),
+      stratum: z.string().optional(),
+      sequence_index: z.number().optional(),
+      assigned_at: z.string(),
+    })
+    .optional(),
+  invite_id: z.string().optional(),
+  completion_code: z.string().optional(),
+  simulation: z
+    .object({ human: z.string(), agent: z.string(), seconds_per_move: z.number() })
+    .optional(),
+});
+
+type RawSession = Record<string, unknown>;
+
+function asRecord(value: unknown): RawSession {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as RawSession) : {};
+}
+
+/** Version 1 records predate the field and may miss parts later code relies on. */
+function upgradeFromV1(session: RawSession): RawSession {
+  const outcome = asRecord(session.outcome);
+  const events = (Array.isArray(session.events) ? session.events : []).map((raw) => {
+    const event = asRecord(raw);
+    const payload = asRecord(event.payload);
+    const offer = asRecord(payload.offer);
+    if (!payload.offer || (offer.by && offer.created_at)) {
+      return { ...event, payload };
+    }
+    // Early offers did not record who made them or when.
+    return {
+      ...event,
+      payload: {
+        ...payload,
+        offer: {
+          ...offer,
+          by: offer.by ?? (event.type === "offer_receive" ? "agent" : "human"),
+          created_at: offer.created_at ?? event.t,
+        },
+      },
+    };
+  });
+  return {
+    ...session,
+    condition: { id: "neutral", ...asRecord(session.condition) },
+    events,
+    outcome: { turns: 0, duration_seconds: 0, ...outcome },
+    schema_version: 2,
+  };
+}
+
+const UPGRADES: Record<number, (session: RawSession) => RawSession> = {
+  1: upgradeFromV1,
+};
+
+/**
+ * Brings a stored or submitted record to `SESSION_SCHEMA_VERSION`, one version at a time.
+ * Records from a newer version are returned unchanged (and fail validation).
+ */
+export function upgradeSession(input: unknown): unknown {
+  let session = asRecord(input);
+  let version = typeof session.schema_version === "number" ? session.schema_version : 1;
+  while (version < SESSION_SCHEMA_VERSION && UPGRADES[version]) {
+    session = UPGRADES[version](session);
+    version += 1;
+  }
+  return session;
+}
+
+export type SchemaIssue = { path: string; message: string };
+
+function toIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map(String).join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+/** Upgrades, then validates a session; `issues` lists every problem with its path. */
+export function parseSession(
+  input: unknown
+): { ok: true; session: ExperimentSession } | { ok: false; issues: SchemaIssue[] } {
+  const upgraded = asRecord(upgradeSession(input));
+  if (
+    typeof upgraded.schema_version === "number" &&
+    upgraded.schema_version > SESSION_SCHEMA_VERSION
+  ) {
+    return {
+      ok: false,
+      issues: [
+        {
+          path: "schema_version",
+          message: `Version ${upgraded.schema_version} is newer than this server supports (${SESSION_SCHEMA_VERSION}).`,
+        },
+      ],
+    };
+  }
+  const result = experimentSessionSchema.safeParse(upgraded);
+  return result.success
+    ? { ok: true, session: result.data as ExperimentSession }
+    : { ok: false, issues: toIssues(result.error) };
+}
+
+export function parseEvent(
+  input: unknown
+): { ok: true; event: ExperimentEvent } | { ok: false; issues: SchemaIssue[] } {
+  const result = experimentEventSchema.safeParse(input);
+  return result.success
+    ? { ok: true, event: result.data as ExperimentEvent }
+    : { ok: false, issues: toIssues(result.error) };
+}
@@ -0,0 +1,189 @@
+import { enumerateAllocations, issueSetKey } from "@/lib/allocations";
+import type { Issue, Offer, OfferAllocation, UtilityWeights } from "@/lib/types";
+import { clamp, computeUtilities } from "@/lib/utils";
+
+export type StrategyId = "boulware" | "conceder" | "linear" | "tit-for-tat";
+
+export const STRATEGY_IDS: StrategyId[] = ["boulware", "conceder", "linear", "tit-for-tat"];
+
+/**
+ * Concession exponent for the time-dependent tactics (Faratin et al.): the target utility
+ * follows `max - (max - min) * t^(1/e)`. e < 1 holds firm until late (Boulware), e > 1
+ * concedes early (Conceder), e = 1 is linear.
+ */
+const CONCESSION_EXPONENTS: Record<Exclude<StrategyId, "tit-for-tat">, number> = {
+  boulware: 0.2,
+  linear: 1,
+  conceder: 3,
+};
+
+export type StrategyContext = {
+  issues: Issue[];
+  weights: UtilityWeights;
+  /** Full offer history, oldest first, including the human offer being answered. */
+  offers: Offer[];
+  turn: number;
+  maxTurns: number;
+  deadlineRemaining?: number;
+  deadlineSeconds: number;
+  /** Agent walk-away utility; the agent never targets or accepts less than this. */
+  reservation?: number;
+};
+
+export type StrategyResult = {
+  decision: "accept" | "counter";
+  offer?: OfferAllocation;
+  /** Agent utility the strategy was aiming for this turn. */
+  target: number;
+  /** Agent utility of the human offer being answered, if any. */
+  humanOfferUtility: number | null;
+  /** Normalized negotiation time in [0, 1] used for the concession curve. */
+  time: number;
+};
+
+type ScoredAllocation = {
+  allocation: OfferAllocation;
+  human: number;
+  agent: number;
+};
+
+type AllocationSpace = {
+  points: ScoredAllocation[];
+  maxAgent: number;
+  /** Agent utility at the Nash bargaining point; strategies never concede below it. */
+  floor: number;
+};
+
+const spaceCache = new Map<string, AllocationSpace>();
+
+function getAllocationSpace(issues: Issue[], weights: UtilityWeights): AllocationSpace {
+  const key = `${issueSetKey(issues)}|${JSON.stringify(weights)}`;
+  const cached = spaceCache.get(key);
+  if (cached) return cached;
+  const points = enumerateAllocations(issues).map((allocation) => {
+    const utilities = computeUtilities(allocation, weights, issues);
+    return { allocation, human: utilities.human, agent: utilities.agent };
+  });
+  let maxAgent = 0;
+  let nashValue = -Infinity;
+  let floor = 0;
+  points.forEach((point) => {
+    maxAgent = Math.max(maxAgent, point.agent);
+    const product = point.human * point.agent;
+    if (product > nashValue) {
+      nashValue = product;
+      floor = point.agent;
+    }
+  });
+  const space = { points, maxAgent, floor };
+  spaceCache.set(key, space);
+  return space;
+}
+
+/**
+ * Picks the offer that gives the human the most while keeping the agent at or above the
+ * target. Ties go to the allocation closest to the target, then to enumeration order, so
+ * the same inputs always produce the same offer.
+ */
+function offerForTarget(space: AllocationSpace, target: number) {
+  let best: ScoredAllocation | null = null;
+  for (const point of space.points) {
+    if (point.agent < target) continue;
+    if (
+      !best ||
+      point.human > best.human ||
+      (point.human === best.human && point.agent < best.agent)
+    ) {
+      best = point;
+    }
+  }
+  return best;
+}
+
+function normalizedTime(context: StrategyContext) {
+  const turnProgress = context.maxTurns > 0 ? context.turn / context.maxTurns : 0;
+  const timeProgress =
+    context.deadlineSeconds > 0 && typeof context.deadlineRemaining === "number"
+      ? 1 - context.deadlineRemaining / context.deadlineSeconds
+      : 0;
+  return clamp(Math.max(turnProgress, timeProgress), 0, 1);
+}
+
+function timeDependentTarget(
+  space: AllocationSpace,
+  floor: number,
+  exponent: number,
+  time: number
+) {
+  return space.maxAgent - (space.maxAgent - floor) * Math.pow(time, 1 / exponent);
+}
+
+/**
+ * Absolute tit-for-tat: the agent moves its target by however much the human's last offer
+ * moved in the agent's favour (or away from it), starting from its own previous offer.
+ */
+function titForTatTarget(space: AllocationSpace, context: StrategyContext) {
+  const agentUtility = (offer: Offer) =>
+    computeUtilities(offer.allocation, context.weights, context.issues).agent;
+  const humanOffers = context.offers.filter((offer) => offer.by === "human");
+  const lastAgentOffer = [...context.offers].reverse().find((offer) => offer.by === "agent");
+  const previousTarget = lastAgentOffer ? agentUtility(lastAgentOffer) : space.maxAgent;
+  if (humanOffers.length < 2) return previousTarget;
+  const latest = agentUtility(humanOffers[humanOffers.length - 1]);
+  const previous = agentUtility(humanOffers[humanOffers.length - 2]);
+  return previousTarget - (latest - previous);
+}
+
+export function runStrategy(strategy: StrategyId, context: StrategyContext): StrategyResult {
+  const space = getAllocationSpace(context.issues, context.weights);
+  const time = normalizedTime(context);
+  const floor = Math.min(space.maxAgent, Math.max(space.floor, context.reservation ?? 0));
+  const rawTarget =
+    strategy === "tit-for-tat"
+      ? titForTatTarget(space, context)
+      : timeDependentTarget(space, floor, CONCESSION_EXPONENTS[strategy], time);
+  const target = clamp(rawTarget, floor, space.maxAgent);
+
+  const lastOffer = context.offers[context.offers.length - 1];
+  const humanOffer = lastOffer?.by === "human" ? lastOffer : null;
+  const humanOfferUtility = humanOffer
+    ? computeUtilities(humanOffer.allocation, context.weights, context.issues).agent
+    : null;
+  const counter = offerForTarget(space, target);
+
+  // Accept when the human offer meets the current target, or is at least as good for the
+  // agent as the counteroffer it would otherwise send (AC_next).
+  if (
+    humanOfferUtility !== null &&
+    humanOfferUtility >= floor &&
+    (humanOfferUtility >= target || (counter && humanOfferUtility >= counter.agent))
+  ) {
+    return { decision: "accept", target, humanOfferUtility, time };
+  }
+
+  return {
+    decision: "counter",
+    offer: counter?.allocation,
+    target,
+    humanOfferUtility,
+    time,
+  };
+}
+
+export function isStrategyId(value: unknown): value is StrategyId {
+  return typeof value === "string" && (STRATEGY_IDS as string[]).includes(value);
+}
+
+/**
+ * Strategy that controls the agent's numbers for a condition, if any. Reads
+ * `AGENT_STRATEGY_<CONDITION>` then `AGENT_STRATEGY`; unset means the LLM decides.
+ */
+export function resolveAgentStrategy(conditionId?: string): StrategyId | null {
+  const suffix = conditionId ? `_${conditionId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}` : "";
+  const raw =
+    (suffix ? process.env[`AGENT_STRATEGY${suffix}`] : undefined) ?? process.env.AGENT_STRATEGY;
+  if (!raw || raw === "llm") return null;
+  if (isStrategyId(raw)) return raw;
+  console.warn(`[strategy] unknown strategy "${raw}", letting the LLM decide`);
+  return null;
+}
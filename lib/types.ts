@@ -1,10 +1,38 @@
+import type { LlmProviderId } from "@/lib/llm/types";
+import type { StrategyId } from "@/lib/strategy";
+
 export type ConditionId = "neutral" | "persona";
 
+/**
+ * `divisible` issues split `total` units between the roles. `categorical` and `binary`
+ * issues settle on one shared option instead (binary options are always `yes` / `no`).
+ */
+export type IssueType = "divisible" | "categorical" | "binary";
+
+export type IssueOption = {
+  key: string;
+  label: string;
+  /** Points per role for this option, multiplied by the role's issue weight. */
+  value: { human: number; agent: number };
+};
+
+/** Each extra unit is worth `rate` times the previous one (0 < rate <= 1). */
+export type IssueCurve = {
+  kind: "diminishing";
+  rate: number;
+};
+
 export type Issue = {
   key: string;
   label: string;
+  /** Units to split; 1 for categorical and binary issues. */
   total: number;
   icon?: string;
+  /** Defaults to `divisible`. */
+  type?: IssueType;
+  options?: IssueOption[];
+  /** Per-unit utility curve for divisible issues; linear when omitted. */
+  curve?: IssueCurve;
 };
 
 export type OfferAllocation = Record<
@@ -12,9 +40,24 @@ export type OfferAllocation = Record<
   {
     human: number;
     agent: number;
+    /** Chosen option for categorical and binary issues; both unit counts are 0 then. */
+    option?: string;
   }
 >;
 
+export type IssueAllocation = OfferAllocation[string];
+
+export type UtilityWeights = {
+  human: Record<string, number>;
+  agent: Record<string, number>;
+};
+
+/** Utility each role gets if no deal is reached (BATNA). */
+export type ReservationValues = {
+  human: number;
+  agent: number;
+};
+
 export type Offer = {
   turn: number;
   by: "human" | "agent";
@@ -34,6 +77,7 @@ export type ExperimentEventType =
   | "offer_reject"
   | "timer_tick"
   | "error"
+  | "resume"
   | "end";
 
 export type ExperimentEvent = {
@@ -55,6 +99,8 @@ export type SurveyResponse = {
 };
 
 export type ExperimentSession = {
+  /** Shape version (see `lib/sessionSchema`); stored records are upgraded on read. */
+  schema_version: number;
   session_id: string;
   created_at: string;
   participant: {
@@ -68,6 +114,10 @@ export type ExperimentSession = {
     issues: Issue[];
     deadline_seconds: number;
     max_turns: number;
+    /** Weights the participant saw; older records without it use the domain defaults. */
+    weights?: UtilityWeights;
+    weight_profile?: string;
+    reservation?: ReservationValues;
   };
   condition: {
     id: ConditionId;
@@ -87,6 +137,52 @@ export type ExperimentSession = {
     duration_seconds: number;
   };
   survey?: SurveyResponse;
+  /** Study and arm the participant was enrolled in; absent for ad-hoc sessions. */
+  study_id?: string;
+  arm_id?: string;
+  /** How the server picked the arm, so the randomization can be audited and reproduced. */
+  assignment?: SessionAssignment;
+  /** Invitation the participant joined with; the participant id then comes from the invite. */
+  invite_id?: string;
+  /** Code shown on the done page once the server recorded the outcome (see `/api/submit`). */
+  completion_code?: string;
+  /**
+   * Present on sessions played by automated players: headless simulations (see
+   * `lib/server/simulation`) and participant bots (`scripts/participant-bots.mjs`).
+   */
+  simulation?: SimulationInfo;
+};
+
+export type SimulationInfo = {
+  /**
+   * Player spec of each side, e.g. `llm:tough-businesslike`, `strategy:boulware`, or
+   * `bot:hard-liner` for participant bots.
+   */
+  human: string;
+  agent: string;
+  seconds_per_move: number;
+};
+
+export type NegotiationEndReason = NonNullable<ExperimentSession["outcome"]["reason"]>;
+
+export type NegotiationOutcome = {
+  reason: NegotiationEndReason;
+  ended_at: string;
+  agreed_offer?: Offer;
+  utilities?: { human: number; agent: number; joint: number };
+};
+
+export type NegotiationStateView = {
+  session_id: string;
+  status: "active" | "ended";
+  offers: Offer[];
+  chat: ChatMessage[];
+  turn: number;
+  max_turns: number;
+  started_at: string;
+  deadline_ends_at: string;
+  deadline_remaining: number;
+  outcome?: NegotiationOutcome;
 };
 
 export type ChatMessage = {
@@ -95,3 +191,71 @@ export type ChatMessage = {
   content: string;
   t: string;
 };
+
+export type StudyStatus = "open" | "closed";
+
+/** One condition arm of a study: the agent a participant in this arm negotiates with. */
+export type StudyArm = {
+  arm_id: string;
+  label: string;
+  /** Persona of the `persona` condition; without one the arm runs the neutral condition. */
+  persona_tag?: string;
+  /** Rule-based strategy for the agent's numbers; without one the LLM decides. */
+  strategy?: StrategyId;
+  /** LLM backend; without one the deployment default (`LLM_PROVIDER...`) is used. */
+  provider?: LlmProviderId;
+  model?: string;
+  /** Sessions wanted in this arm; the arm stops taking participants once reached. */
+  target_sessions: number;
+};
+
+/** Participant fields a study can stratify on (collected on the consent page). */
+export type DemographicField = "age_range" | "gender";
+
+/**
+ * - `block`: permuted blocks of `block_size` (a multiple of the arm count), seeded per block.
+ * - `stratified_block`: the same, with a separate block sequence per demographic stratum.
+ * - `least_filled`: the arm with the lowest share of its target so far, ties broken by the seed.
+ */
+export type AssignmentAlgorithm = "block" | "stratified_block" | "least_filled";
+
+export type StudyAssignmentConfig = {
+  algorithm: AssignmentAlgorithm;
+  block_size?: number;
+  strata?: DemographicField[];
+  seed: string;
+};
+
+export type SessionAssignment = {
+  /** `pinned` when the study link named the arm. */
+  algorithm: AssignmentAlgorithm | "pinned";
+  seed: string;
+  stratum?: string;
+  /** Position in the stratum's assignment sequence (0-based). */
+  sequence_index?: number;
+  assigned_at: string;
+};
+
+export type Study = {
+  study_id: string;
+  name: string;
+  domain_id: string;
+  weight_profile?: string;
+  arms: StudyArm[];
+  /** Studies created before assignment settings existed use least-filled assignment. */
+  assignment?: StudyAssignmentConfig;
+  status: StudyStatus;
+  created_at: string;
+};
+
+/** A participant invitation of a study; the signed link carries the same ids. */
+export type StudyInvite = {
+  invite_id: string;
+  participant_id: string;
+  /** Arm the invite pins; without one the study's assignment algorithm picks it. */
+  arm_id?: string;
+  issued_at: string;
+  /** Set when a negotiation starts with the invite; it cannot be used by another session. */
+  redeemed_at?: string;
+  session_id?: string;
+};
@@ -1,6 +1,13 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
-import type { ExperimentEvent, Issue, Offer, OfferAllocation } from "@/lib/types";
+import {
+  defaultIssueEntry,
+  formatIssueEntry,
+  isChoiceIssue,
+  issuePoints,
+  roundPoints,
+} from "@/lib/issues";
+import type { ExperimentEvent, Issue, Offer, OfferAllocation, UtilityWeights } from "@/lib/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -33,9 +40,7 @@ export function formatDuration(seconds: number) {
 export function allocationFromIssues(issues: Issue[], split: "equal" | "agent") {
   const allocation: OfferAllocation = {};
   issues.forEach((issue) => {
-    const human = split === "equal" ? Math.floor(issue.total / 2) : 0;
-    const agent = issue.total - human;
-    allocation[issue.key] = { human, agent };
+    allocation[issue.key] = defaultIssueEntry(issue, split);
   });
   return allocation;
 }
@@ -45,7 +50,7 @@ export function summarizeOffer(offer: OfferAllocation, issues: Issue[]) {
     .map((issue) => {
       const entry = offer[issue.key];
       if (!entry) return "";
-      return `${issue.label}: Human ${entry.human} / Agent ${entry.agent}`;
+      return `${issue.label}: ${formatIssueEntry(issue, entry)}`;
     })
     .filter(Boolean)
     .join("; ");
@@ -56,6 +61,9 @@ export function offerToPlainText(offer: OfferAllocation, issues: Issue[]) {
     .map((issue) => {
       const entry = offer[issue.key];
       if (!entry) return "";
+      if (isChoiceIssue(issue)) {
+        return `${issue.label}: ${formatIssueEntry(issue, entry)}`;
+      }
       return `${issue.label} (total ${issue.total}): Human ${entry.human}, Agent ${entry.agent}`;
     })
     .filter(Boolean)
@@ -65,25 +73,26 @@ export function offerToPlainText(offer: OfferAllocation, issues: Issue[]) {
 /**
  * Compute weighted utilities based on asymmetric preferences.
  * This is the core of integrative negotiation - different valuations create trade opportunities.
+ * Issue types and curves are applied per issue (see `lib/issues`); totals are rounded to 0.01.
  */
 export function computeUtilities(
   allocation: OfferAllocation,
-  weights: { human: Record<string, number>; agent: Record<string, number> }
+  weights: UtilityWeights,
+  issues: Issue[]
 ) {
   let humanUtility = 0;
   let agentUtility = 0;
 
-  for (const [issueKey, split] of Object.entries(allocation)) {
-    const humanWeight = weights.human[issueKey] ?? 1;
-    const agentWeight = weights.agent[issueKey] ?? 1;
-    humanUtility += split.human * humanWeight;
-    agentUtility += split.agent * agentWeight;
+  for (const issue of issues) {
+    const points = issuePoints(issue, allocation[issue.key], weights);
+    humanUtility += points.human;
+    agentUtility += points.agent;
   }
 
   return {
-    human: humanUtility,
-    agent: agentUtility,
-    joint: humanUtility + agentUtility,
+    human: roundPoints(humanUtility),
+    agent: roundPoints(agentUtility),
+    joint: roundPoints(humanUtility + agentUtility),
   };
 }
 
@@ -115,12 +124,30 @@ export function downloadJson(filename: string, data: unknown) {
   URL.revokeObjectURL(url);
 }
 
+/** Downloads rows as CSV, quoting every cell so commas and quotes survive. */
+export function downloadCsv(filename: string, rows: (string | number | null | undefined)[][]) {
+  const csv = rows
+    .map((row) => row.map((cell) => `"${String(cell ?? "").replace(/"/g, '""')}"`).join(","))
+    .join("\n");
+  const blob = new Blob([csv], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
 export function summarizeHistory(offers: Offer[], maxItems = 4) {
   const slice = offers.slice(-maxItems);
   return slice
     .map((offer) => {
       return `${offer.by} turn ${offer.turn}: ${Object.entries(offer.allocation)
-        .map(([issue, allocation]) => `${issue} H${allocation.human}/A${allocation.agent}`)
+        .map(([issue, allocation]) =>
+          allocation.option !== undefined
+            ? `${issue}=${allocation.option}`
+            : `${issue} H${allocation.human}/A${allocation.agent}`
+        )
         .join(", ")}`;
     })
     .join(" | ");
@@ -0,0 +1,40 @@
+// Offline half of analyze-sessions.mjs (--input): builds the Excel report from a folder of
+// session files with the same library code as /api/admin/report, without a server.
+// Run through tsx with the react-server condition, so the `server-only` imports resolve:
+//   node --conditions=react-server --import tsx scripts/analyze-sessions-offline.ts \
+//     <input dir> <out.xlsx> [query]
+import fs from "fs";
+import path from "path";
+
+import { buildExcelReport } from "@/lib/server/excelReport";
+import { parseSessionFilters } from "@/lib/server/sessionFilters";
+import { createLocalStorage } from "@/lib/server/sessionStorage";
+import { listStoredSessions } from "@/lib/server/sessionStore";
+
+async function main() {
+  const [input, out, query = ""] = process.argv.slice(2);
+  if (!input || !out) {
+    throw new Error("Usage: analyze-sessions-offline.ts <input dir> <out.xlsx> [query]");
+  }
+  const inputDir = path.resolve(input);
+  if (!fs.existsSync(inputDir) || !fs.statSync(inputDir).isDirectory()) {
+    throw new Error(`--input ${input} is not a directory.`);
+  }
+
+  const params = new URLSearchParams(query);
+  const sessions = await listStoredSessions(
+    { studyId: params.get("study_id"), filters: parseSessionFilters(params) },
+    createLocalStorage(inputDir)
+  );
+  const report = await buildExcelReport(sessions);
+
+  const outputPath = path.resolve(out);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, report);
+  console.log(`Report on ${sessions.length} sessions from ${inputDir} written to ${outputPath}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
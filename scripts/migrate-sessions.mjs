@@ -0,0 +1,71 @@
+const DEFAULT_URL = "http://localhost:3000";
+// Same Basic auth credentials as the admin pages (see middleware.ts).
+const ADMIN_USER = process.env.ADMIN_USER ?? "admin";
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD ?? "admin";
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const parsed = { url: DEFAULT_URL, from: undefined, to: undefined, dryRun: false };
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg === "--url") {
+      parsed.url = args[i + 1];
+      i += 1;
+    } else if (arg === "--from") {
+      parsed.from = args[i + 1];
+      i += 1;
+    } else if (arg === "--to") {
+      parsed.to = args[i + 1];
+      i += 1;
+    } else if (arg === "--dry-run") {
+      parsed.dryRun = true;
+    }
+  }
+  return parsed;
+}
+
+function printList(label, filenames) {
+  if (!filenames.length) return;
+  console.log(`${label}:`);
+  filenames.forEach((filename) => console.log(`  ${filename}`));
+}
+
+async function main() {
+  const { url, from, to, dryRun } = parseArgs();
+  if (!from || !to) {
+    throw new Error("Usage: npm run migrate:sessions -- --from <backend> --to <backend>");
+  }
+  // The server does the copy, so both backends are configured by its environment.
+  const response = await fetch(`${url.replace(/\/+$/, "")}/api/admin/storage/migrate`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Basic ${Buffer.from(`${ADMIN_USER}:${ADMIN_PASSWORD}`).toString("base64")}`,
+    },
+    body: JSON.stringify({ from, to, dry_run: dryRun }),
+  });
+  const report = await response.json().catch(() => null);
+  if (!report || report.error) {
+    throw new Error(report?.error ?? `Migration request failed (${response.status}).`);
+  }
+
+  console.log(`${report.from} -> ${report.to}${report.dry_run ? " (dry run)" : ""}`);
+  console.log(
+    `${report.source_count} in source, ${report.copied.length} ${
+      report.dry_run ? "to copy" : "copied"
+    }, ${report.skipped.length} already present`
+  );
+  if (!report.dry_run) {
+    console.log(`${report.verified_count} verified by checksum in ${report.to}`);
+  }
+  printList("Conflicts (different content in target, not overwritten)", report.conflicts);
+  printList("Mismatches (missing or changed in target)", report.mismatches);
+  if (!report.ok) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
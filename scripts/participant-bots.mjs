@@ -0,0 +1,576 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+const DEFAULT_URL = "http://localhost:3000";
+const DEFAULT_OUTPUT_DIR = "reports";
+const DOMAINS_DIR = "lib/domains";
+const DEFAULT_DOMAIN_ID = "classroom-perks-01";
+const PERSONA_TAGS = ["friendly-cooperative", "tough-businesslike", "curious-analytical"];
+const BINARY_OPTIONS = [
+  { key: "yes", label: "Yes", value: { human: 1, agent: 1 } },
+  { key: "no", label: "No", value: { human: 0, agent: 0 } },
+];
+const PROFILES = ["always-accept", "hard-liner", "random-walker", "mirrors-agent", "chat-heavy"];
+// Think times in seconds for a participant reading an offer and building a reply.
+const THINK_SECONDS = { min: 4, max: 18 };
+const CHAT_LINES = [
+  "Can you explain why you want that split?",
+  "I really care about the first item more than the rest.",
+  "That feels a bit unfair to me.",
+  "What would you need to accept something closer to even?",
+  "Let's try to finish this quickly.",
+  "Ok, I think we are getting closer.",
+];
+const MAX_CONSECUTIVE_ERRORS = 3;
+
+function loadJson(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const parsed = {
+    url: DEFAULT_URL,
+    participants: 5,
+    concurrency: 1,
+    profiles: PROFILES,
+    domain: DEFAULT_DOMAIN_ID,
+    condition: null,
+    speed: 1,
+    store: true,
+    out: null,
+  };
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg === "--url") {
+      parsed.url = args[i + 1];
+      i += 1;
+    } else if (arg === "--participants") {
+      parsed.participants = Number.parseInt(args[i + 1], 10);
+      i += 1;
+    } else if (arg === "--concurrency") {
+      parsed.concurrency = Number.parseInt(args[i + 1], 10);
+      i += 1;
+    } else if (arg === "--profiles") {
+      parsed.profiles = args[i + 1].split(",").map((value) => value.trim());
+      i += 1;
+    } else if (arg === "--domain") {
+      parsed.domain = args[i + 1];
+      i += 1;
+    } else if (arg === "--condition") {
+      parsed.condition = args[i + 1];
+      i += 1;
+    } else if (arg === "--speed") {
+      parsed.speed = Number(args[i + 1]);
+      i += 1;
+    } else if (arg === "--no-submit") {
+      parsed.store = false;
+    } else if (arg === "--out") {
+      parsed.out = args[i + 1];
+      i += 1;
+    }
+  }
+  return parsed;
+}
+
+function loadDomain(domainId) {
+  const filePath = path.join(DOMAINS_DIR, `${domainId}.json`);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Unknown domain "${domainId}".`);
+  }
+  return loadJson(filePath);
+}
+
+function randomItem(items) {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function randomBetween(min, max) {
+  return min + Math.random() * (max - min);
+}
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function createEvent(type, payload) {
+  return { id: crypto.randomUUID(), t: nowIso(), type, payload };
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isChoiceIssue(issue) {
+  return (issue.type ?? "divisible") !== "divisible";
+}
+
+function issueOptions(issue) {
+  if (issue.type === "binary") {
+    return BINARY_OPTIONS.map(
+      (fallback) => issue.options?.find((option) => option.key === fallback.key) ?? fallback
+    );
+  }
+  return issue.type === "categorical" ? (issue.options ?? []) : [];
+}
+
+function unitPoints(issue, units, weight) {
+  const rate = issue.curve?.kind === "diminishing" ? issue.curve.rate : 1;
+  if (rate >= 1 || rate <= 0) return units * weight;
+  return (weight * (1 - Math.pow(rate, units))) / (1 - rate);
+}
+
+function humanUtility(allocation, config) {
+  return config.issues.reduce((sum, issue) => {
+    const entry = allocation?.[issue.key];
+    if (!entry) return sum;
+    const weight = config.weights.human[issue.key] ?? 1;
+    if (isChoiceIssue(issue)) {
+      const option = issueOptions(issue).find((candidate) => candidate.key === entry.option);
+      return sum + (option ? option.value.human * weight : 0);
+    }
+    return sum + unitPoints(issue, entry.human, weight);
+  }, 0);
+}
+
+function bestHumanOption(issue) {
+  return issueOptions(issue).reduce((best, option) =>
+    option.value.human > best.value.human ? option : best
+  ).key;
+}
+
+function buildAllocation(config, pick) {
+  return Object.fromEntries(
+    config.issues.map((issue) => {
+      if (isChoiceIssue(issue)) {
+        return [issue.key, { human: 0, agent: 0, option: pick.option(issue) }];
+      }
+      const human = pick.units(issue);
+      return [issue.key, { human, agent: issue.total - human }];
+    })
+  );
+}
+
+function evenAllocation(config) {
+  return buildAllocation(config, {
+    units: (issue) => Math.floor(issue.total / 2),
+    option: (issue) => bestHumanOption(issue),
+  });
+}
+
+function greedyAllocation(config) {
+  return buildAllocation(config, {
+    units: (issue) => issue.total,
+    option: (issue) => bestHumanOption(issue),
+  });
+}
+
+function randomAllocation(config) {
+  return buildAllocation(config, {
+    units: (issue) => Math.floor(Math.random() * (issue.total + 1)),
+    option: (issue) => randomItem(issueOptions(issue)).key,
+  });
+}
+
+/** The agent's offer with one unit of a random divisible issue moved to the participant. */
+function nudgedAllocation(config, allocation) {
+  const next = structuredClone(allocation);
+  const candidates = config.issues.filter(
+    (issue) => !isChoiceIssue(issue) && next[issue.key]?.agent > 0
+  );
+  if (candidates.length) {
+    const issue = randomItem(candidates);
+    next[issue.key].human += 1;
+    next[issue.key].agent -= 1;
+  }
+  return next;
+}
+
+/**
+ * Each profile decides, once per turn, whether to accept the agent's latest offer and
+ * otherwise what to propose next. `memory` keeps whatever a profile needs between turns.
+ */
+const PROFILE_BEHAVIOUR = {
+  "always-accept": {
+    accept: () => true,
+    propose: (config) => evenAllocation(config),
+  },
+  "hard-liner": {
+    accept: () => false,
+    propose: (config) => greedyAllocation(config),
+  },
+  "random-walker": {
+    accept: () => Math.random() < 0.25,
+    propose: (config) => randomAllocation(config),
+  },
+  "mirrors-agent": {
+    accept: (config, agentOffer, memory) =>
+      Boolean(memory.lastProposal) &&
+      humanUtility(agentOffer, config) >= humanUtility(memory.lastProposal, config),
+    propose: (config, agentOffer) =>
+      agentOffer ? nudgedAllocation(config, agentOffer) : evenAllocation(config),
+  },
+  "chat-heavy": {
+    chatsPerTurn: 3,
+    accept: (config, agentOffer, memory) => memory.turn >= 4,
+    propose: (config) => randomAllocation(config),
+  },
+};
+
+function createMetrics() {
+  return { requests: [], agentResponses: 0, fallbacks: 0, outcomes: [] };
+}
+
+async function callRoute(baseUrl, metrics, route, body) {
+  const startedAt = Date.now();
+  let status = 0;
+  let data = null;
+  try {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    status = response.status;
+    data = await response.json().catch(() => null);
+  } catch (error) {
+    data = { error: error instanceof Error ? error.message : "Network error" };
+  }
+  const ok = status >= 200 && status < 300;
+  metrics.requests.push({ route, status, ok, ms: Date.now() - startedAt });
+  return { ok, status, data: data ?? {} };
+}
+
+function randomSurvey() {
+  const score = () => 1 + Math.floor(Math.random() * 7);
+  return {
+    t: nowIso(),
+    fairness: score(),
+    trust: score(),
+    cooperativeness: score(),
+    human_likeness: score(),
+    satisfaction: score(),
+    negotiate_again: score(),
+  };
+}
+
+async function runParticipant({ baseUrl, metrics, profile, domain, conditionId, speed, store }) {
+  const behaviour = PROFILE_BEHAVIOUR[profile];
+  const weightProfile = domain.weight_profiles?.length ? randomItem(domain.weight_profiles) : null;
+  const config = {
+    domain_id: domain.domain_id,
+    issues: domain.issues,
+    deadline_seconds: domain.deadline_seconds,
+    max_turns: domain.max_turns,
+    weights: weightProfile?.weights ?? domain.weights,
+    reservation: domain.reservation ?? { human: 0, agent: 0 },
+    ...(weightProfile ? { weight_profile: weightProfile.id } : {}),
+  };
+  const personaTag = conditionId === "persona" ? randomItem(PERSONA_TAGS) : undefined;
+  const thinkMs = (min = THINK_SECONDS.min, max = THINK_SECONDS.max) =>
+    (randomBetween(min, max) * 1000) / speed;
+  const session = {
+    // SESSION_SCHEMA_VERSION in lib/sessionSchema.ts; /api/submit validates against it.
+    schema_version: 2,
+    session_id: crypto.randomUUID(),
+    created_at: nowIso(),
+    participant: { participant_id: `bot-${crypto.randomUUID().slice(0, 8)}` },
+    config,
+    condition: { id: conditionId, persona_tag: personaTag },
+    events: [],
+    outcome: { turns: 0, duration_seconds: 0 },
+    simulation: {
+      human: `bot:${profile}`,
+      agent: personaTag ? `condition:persona:${personaTag}` : `condition:${conditionId}`,
+      seconds_per_move: (THINK_SECONDS.min + THINK_SECONDS.max) / 2 / speed,
+    },
+  };
+  const log = (type, payload) => session.events.push(createEvent(type, payload));
+  const errors = [];
+  const fail = (route, result) => {
+    const message = result.data.error ?? `HTTP ${result.status}`;
+    errors.push({ route, status: result.status, message });
+    log("error", { source: "bot", route, status: result.status, message });
+  };
+
+  for (const pagePath of ["/consent", "/instructions", "/negotiate"]) {
+    log("page_view", { path: pagePath, action: "enter", started_at: nowIso() });
+  }
+  log("consent", { accepted: true });
+  log("instruction_ack", { acknowledged: true });
+
+  const started = await callRoute(baseUrl, metrics, "/api/negotiation/start", {
+    session_id: session.session_id,
+    condition_id: conditionId,
+    persona_tag: personaTag,
+    domain_id: domain.domain_id,
+    weight_profile: weightProfile?.id,
+  });
+  if (!started.ok) {
+    fail("/api/negotiation/start", started);
+    metrics.outcomes.push({ profile, reason: "start_failed", errors: errors.length });
+    return { session, errors };
+  }
+
+  let state = started.data.state;
+  const memory = { turn: 0, lastProposal: null };
+  let consecutiveErrors = 0;
+  const startedMs = Date.now();
+  const end = async (reason) => {
+    const result = await callRoute(baseUrl, metrics, "/api/negotiation/end", {
+      session_id: session.session_id,
+      reason,
+    });
+    if (!result.ok) {
+      fail("/api/negotiation/end", result);
+      return;
+    }
+    state = result.data.state ?? state;
+  };
+
+  while (state?.status === "active") {
+    if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      await end("abort");
+      break;
+    }
+    const deadlineMs = Date.parse(state.deadline_ends_at) - Date.now();
+    await sleep(Math.min(thinkMs(), Math.max(0, deadlineMs)));
+    if (Date.now() >= Date.parse(state.deadline_ends_at)) {
+      log("timer_tick", { remaining: 0 });
+      await end("timeout");
+      break;
+    }
+
+    const latest = state.offers[state.offers.length - 1];
+    if (latest?.by === "agent" && behaviour.accept(config, latest.allocation, memory)) {
+      await end("agreement");
+      if (state.outcome?.reason === "agreement") {
+        log("offer_accept", { offer: latest, by: "human" });
+      }
+      break;
+    }
+    if (state.turn >= state.max_turns) {
+      await end("turn_limit");
+      break;
+    }
+
+    for (let i = 0; i < (behaviour.chatsPerTurn ?? 0); i += 1) {
+      const content = randomItem(CHAT_LINES);
+      log("chat_send", { content });
+      const chat = await callRoute(baseUrl, metrics, "/api/chat", {
+        session_id: session.session_id,
+        message: content,
+      });
+      if (!chat.ok) {
+        fail("/api/chat", chat);
+        continue;
+      }
+      log("chat_receive", {
+        content: chat.data.agent_message,
+        turn: state.turn,
+        model: chat.data.model,
+        provider: chat.data.provider,
+      });
+      await sleep(thinkMs(2, 6));
+    }
+
+    const offer = behaviour.propose(config, latest?.by === "agent" ? latest.allocation : null);
+    memory.lastProposal = offer;
+    memory.turn += 1;
+    const reply = await callRoute(baseUrl, metrics, "/api/agent", {
+      session_id: session.session_id,
+      offer,
+    });
+    if (!reply.ok) {
+      fail("/api/agent", reply);
+      consecutiveErrors += 1;
+      continue;
+    }
+    consecutiveErrors = 0;
+    metrics.agentResponses += 1;
+    if (reply.data.model === "local-fallback") {
+      metrics.fallbacks += 1;
+    }
+    state = reply.data.state ?? state;
+    // Like the negotiate page, log the offers as the server recorded them.
+    const { model, provider, strategy } = reply.data;
+    const proposed = [...state.offers].reverse().find((entry) => entry.by === "human");
+    log("offer_propose", { offer: proposed });
+    log("chat_receive", {
+      content: reply.data.agent_message,
+      turn: proposed?.turn,
+      model,
+      provider,
+    });
+    if (reply.data.decision === "accept") {
+      log("offer_accept", { offer: proposed, by: "agent", model, provider, strategy });
+    } else if (reply.data.agent_offer) {
+      const countered = state.offers[state.offers.length - 1];
+      log("offer_receive", { offer: countered, model, provider, strategy });
+    } else {
+      // The proposal used the last turn and was rejected.
+      log("offer_reject", { offer: proposed, by: "agent" });
+    }
+  }
+
+  const outcome = state?.outcome;
+  log("end", { reason: outcome?.reason, agreed_offer: outcome?.agreed_offer });
+  session.outcome = {
+    ...session.outcome,
+    turns: state?.turn ?? 0,
+    duration_seconds: Math.round((Date.now() - startedMs) / 1000),
+    ...(outcome ?? {}),
+  };
+  session.survey = randomSurvey();
+
+  let storedAs = null;
+  if (store) {
+    const submitted = await callRoute(baseUrl, metrics, "/api/submit", session);
+    if (submitted.ok) {
+      storedAs = submitted.data.stored_as;
+    } else {
+      fail("/api/submit", submitted);
+    }
+  }
+  metrics.outcomes.push({
+    profile,
+    reason: outcome?.reason ?? "unfinished",
+    turns: state?.turn ?? 0,
+    errors: errors.length,
+  });
+  console.log(
+    `${session.session_id}  ${profile}  ${outcome?.reason ?? "unfinished"}  turns ${
+      state?.turn ?? 0
+    }  errors ${errors.length}${storedAs ? ` -> ${storedAs}` : ""}`
+  );
+  return { session, errors };
+}
+
+function percentile(sorted, ratio) {
+  if (!sorted.length) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil(ratio * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+function summarize(metrics) {
+  const byRoute = new Map();
+  metrics.requests.forEach((request) => {
+    const list = byRoute.get(request.route) ?? [];
+    list.push(request);
+    byRoute.set(request.route, list);
+  });
+  const routes = Array.from(byRoute.entries()).map(([route, requests]) => {
+    const latencies = requests.map((request) => request.ms).sort((a, b) => a - b);
+    const failed = requests.filter((request) => !request.ok);
+    return {
+      route,
+      requests: requests.length,
+      errors: failed.length,
+      error_rate: failed.length / requests.length,
+      rate_limited: failed.filter((request) => request.status === 429).length,
+      latency_ms: {
+        mean: Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length),
+        p50: percentile(latencies, 0.5),
+        p95: percentile(latencies, 0.95),
+        max: latencies[latencies.length - 1],
+      },
+    };
+  });
+  const profiles = {};
+  metrics.outcomes.forEach((outcome) => {
+    const entry = (profiles[outcome.profile] ??= { participants: 0, reasons: {} });
+    entry.participants += 1;
+    entry.reasons[outcome.reason] = (entry.reasons[outcome.reason] ?? 0) + 1;
+  });
+  return {
+    routes,
+    agent_responses: metrics.agentResponses,
+    fallbacks: metrics.fallbacks,
+    fallback_rate: metrics.agentResponses ? metrics.fallbacks / metrics.agentResponses : 0,
+    profiles,
+  };
+}
+
+function printSummary(summary) {
+  const pct = (value) => `${(value * 100).toFixed(1)}%`;
+  console.log("\nRoute summary");
+  summary.routes.forEach((route) => {
+    const { mean, p50, p95 } = route.latency_ms;
+    console.log(
+      `${route.route.padEnd(24)} ${String(route.requests).padStart(4)} req  errors ${pct(
+        route.error_rate
+      )}  429s ${route.rate_limited}  latency mean ${mean}ms p50 ${p50}ms p95 ${p95}ms`
+    );
+  });
+  console.log(
+    `\nAgent fallbacks (local-fallback): ${summary.fallbacks}/${summary.agent_responses} (${pct(
+      summary.fallback_rate
+    )})`
+  );
+  console.log("\nOutcomes by profile");
+  Object.entries(summary.profiles).forEach(([profile, entry]) => {
+    const reasons = Object.entries(entry.reasons)
+      .map(([reason, count]) => `${reason} ${count}`)
+      .join(", ");
+    console.log(`${profile.padEnd(16)} ${entry.participants} participant(s): ${reasons}`);
+  });
+}
+
+async function main() {
+  const options = parseArgs();
+  const unknown = options.profiles.filter((profile) => !PROFILE_BEHAVIOUR[profile]);
+  if (unknown.length) {
+    throw new Error(`Unknown profile(s): ${unknown.join(", ")}. Use ${PROFILES.join(", ")}.`);
+  }
+  if (options.condition && options.condition !== "neutral" && options.condition !== "persona") {
+    throw new Error(`Unknown condition "${options.condition}". Use neutral or persona.`);
+  }
+  if (!Number.isFinite(options.speed) || options.speed <= 0) {
+    throw new Error("--speed must be a positive number.");
+  }
+  const baseUrl = options.url.replace(/\/+$/, "");
+  const domain = loadDomain(options.domain);
+  const metrics = createMetrics();
+  const queue = Array.from({ length: Math.max(1, options.participants) }, (_, index) => ({
+    profile: options.profiles[index % options.profiles.length],
+    conditionId: options.condition ?? (index % 2 === 0 ? "neutral" : "persona"),
+  }));
+  const sessions = [];
+
+  console.log(
+    `${queue.length} participant bot(s) against ${baseUrl} (${domain.domain_id}, speed x${options.speed})`
+  );
+  const worker = async () => {
+    while (queue.length) {
+      const job = queue.shift();
+      const result = await runParticipant({
+        baseUrl,
+        metrics,
+        domain,
+        speed: options.speed,
+        store: options.store,
+        ...job,
+      });
+      sessions.push(result.session);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+
+  const summary = summarize(metrics);
+  printSummary(summary);
+
+  const outDir = options.out ?? DEFAULT_OUTPUT_DIR;
+  fs.mkdirSync(outDir, { recursive: true });
+  const reportPath = path.join(outDir, `bot-run-${Date.now()}.json`);
+  fs.writeFileSync(
+    reportPath,
+    JSON.stringify({ created_at: nowIso(), options, summary, sessions }, null, 2)
+  );
+  console.log(`\nReport written to ${reportPath}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
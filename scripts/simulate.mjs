@@ -0,0 +1,105 @@
+import fs from "fs";
+import path from "path";
+
+const DEFAULT_URL = "http://localhost:3000";
+// Same Basic auth credentials as the admin pages (see middleware.ts).
+const ADMIN_USER = process.env.ADMIN_USER ?? "admin";
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD ?? "admin";
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const parsed = {
+    url: DEFAULT_URL,
+    domain: undefined,
+    profile: undefined,
+    human: "strategy:linear",
+    agent: "llm",
+    runs: 1,
+    secondsPerMove: undefined,
+    store: true,
+    out: null,
+  };
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg === "--url") {
+      parsed.url = args[i + 1];
+      i += 1;
+    } else if (arg === "--domain") {
+      parsed.domain = args[i + 1];
+      i += 1;
+    } else if (arg === "--profile") {
+      parsed.profile = args[i + 1];
+      i += 1;
+    } else if (arg === "--human") {
+      parsed.human = args[i + 1];
+      i += 1;
+    } else if (arg === "--agent") {
+      parsed.agent = args[i + 1];
+      i += 1;
+    } else if (arg === "--runs") {
+      parsed.runs = Number.parseInt(args[i + 1], 10);
+      i += 1;
+    } else if (arg === "--seconds-per-move") {
+      parsed.secondsPerMove = Number(args[i + 1]);
+      i += 1;
+    } else if (arg === "--no-store") {
+      parsed.store = false;
+    } else if (arg === "--out") {
+      parsed.out = args[i + 1];
+      i += 1;
+    }
+  }
+  return parsed;
+}
+
+async function main() {
+  const { url, domain, profile, human, agent, runs, secondsPerMove, store, out } = parseArgs();
+  const response = await fetch(`${url.replace(/\/+$/, "")}/api/admin/simulations`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Basic ${Buffer.from(`${ADMIN_USER}:${ADMIN_PASSWORD}`).toString("base64")}`,
+    },
+    body: JSON.stringify({
+      domain_id: domain,
+      weight_profile: profile,
+      human,
+      agent,
+      runs,
+      seconds_per_move: secondsPerMove,
+      store,
+    }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.ok) {
+    throw new Error(data?.error ?? `Simulation request failed (${response.status}).`);
+  }
+
+  console.log(`${human} (human) vs ${agent} (agent), ${data.runs.length} run(s)`);
+  data.runs.forEach((run) => {
+    const utilities = run.utilities
+      ? `human ${run.utilities.human} / agent ${run.utilities.agent}`
+      : "no deal";
+    const stored = run.stored_as ? ` -> ${run.stored_as}` : "";
+    console.log(
+      `${run.session_id}  ${run.outcome_reason ?? "-"}  turns ${run.turns}  ${utilities}${stored}`
+    );
+    if (run.warning) {
+      console.warn(`[warn] ${run.session_id}: ${run.warning}`);
+    }
+  });
+
+  if (out) {
+    fs.mkdirSync(out, { recursive: true });
+    data.sessions.forEach((session) => {
+      const filePath = path.join(out, `session-${session.session_id}.json`);
+      fs.writeFileSync(filePath, JSON.stringify(session, null, 2));
+    });
+    console.log(`Sessions written to ${out}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -117,11 +117,11 @@ function extractBestCandidate(data) {
 }
 
 function loadWeights() {
-  const weightsPath = path.join(process.cwd(), "lib", "weights.json");
-  if (!fs.existsSync(weightsPath)) {
+  const domainPath = path.join(process.cwd(), "lib", "domains", "classroom-perks-01.json");
+  if (!fs.existsSync(domainPath)) {
     return { human: {}, agent: {} };
   }
-  return JSON.parse(fs.readFileSync(weightsPath, "utf8"));
+  return JSON.parse(fs.readFileSync(domainPath, "utf8")).weights;
 }
 
 function computeUtilities(allocation, weights) {
@@ -8,8 +8,10 @@ import type {
   ConditionId,
   ExperimentEventType,
   ExperimentSession,
+  NegotiationStateView,
   Offer,
   OfferAllocation,
+  SessionAssignment,
   SurveyResponse,
 } from "@/lib/types";
 import { nowIso } from "@/lib/utils";
@@ -17,9 +19,19 @@ import { nowIso } from "@/lib/utils";
 export type SubmissionState = {
   ok: boolean;
   stored_as?: string;
+  completion_code?: string;
   error?: string;
 };
 
+/** Arm the server assigned to a study session (see `/api/negotiation/start`). */
+export type StudyAssignmentView = {
+  study_id: string;
+  arm_id: string;
+  condition_id: ConditionId;
+  persona_tag?: string;
+  assignment: SessionAssignment;
+};
+
 type SessionStore = {
   session: ExperimentSession | null;
   offers: Offer[];
@@ -29,8 +41,17 @@ type SessionStore = {
   negotiationStartedAt?: string;
   deadlineEndsAt?: string;
   submission?: SubmissionState;
-  initSession: (conditionId: ConditionId, personaTag?: string) => void;
+  /** Events already sent to `/api/events`; later ones go out with the next flush. */
+  flushedEvents: number;
+  initSession: (
+    conditionId: ConditionId,
+    personaTag?: string,
+    domainId?: string,
+    weightProfile?: string,
+    study?: { study_id: string; arm_id?: string; invite_id?: string }
+  ) => void;
   setCondition: (conditionId: ConditionId, personaTag?: string) => void;
+  applyStudyAssignment: (study: StudyAssignmentView) => void;
   updateParticipant: (updates: ExperimentSession["participant"]) => void;
   addEvent: (type: ExperimentEventType, payload: Record<string, unknown>) => void;
   setCurrentOfferDraft: (allocation: OfferAllocation) => void;
@@ -38,6 +59,7 @@ type SessionStore = {
   pushChat: (message: Omit<ChatMessage, "id" | "t"> & { t?: string }) => void;
   setAwaitingAgent: (value: boolean) => void;
   startNegotiation: () => void;
+  applyServerState: (state: NegotiationStateView) => void;
   endSession: (params: {
     reason: "agreement" | "timeout" | "turn_limit" | "abort";
     agreedOffer?: Offer;
@@ -45,12 +67,14 @@ type SessionStore = {
   }) => void;
   attachSurvey: (survey: SurveyResponse) => void;
   setSubmission: (submission: SubmissionState) => void;
+  flushEvents: (options?: { beacon?: boolean }) => void;
+  restoreSession: (session: ExperimentSession, state: NegotiationStateView | null) => void;
   resetSession: () => void;
 };
 
 export const useSessionStore = create<SessionStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       session: null,
       offers: [],
       chat: [],
@@ -59,9 +83,10 @@ export const useSessionStore = create<SessionStore>()(
       negotiationStartedAt: undefined,
       deadlineEndsAt: undefined,
       submission: undefined,
-      initSession: (conditionId, personaTag) =>
+      flushedEvents: 0,
+      initSession: (conditionId, personaTag, domainId, weightProfile, study) =>
         set(() => ({
-          session: createSession(conditionId, personaTag),
+          session: createSession(conditionId, personaTag, domainId, weightProfile, study),
           offers: [],
           chat: [],
           draftOffer: null,
@@ -69,6 +94,7 @@ export const useSessionStore = create<SessionStore>()(
           negotiationStartedAt: undefined,
           deadlineEndsAt: undefined,
           submission: undefined,
+          flushedEvents: 0,
         })),
       setCondition: (conditionId, personaTag) =>
         set((state) => {
@@ -80,6 +106,18 @@ export const useSessionStore = create<SessionStore>()(
             },
           };
         }),
+      applyStudyAssignment: (study) =>
+        set((state) => {
+          if (!state.session || state.session.study_id !== study.study_id) return {};
+          return {
+            session: {
+              ...state.session,
+              arm_id: study.arm_id,
+              assignment: study.assignment,
+              condition: { id: study.condition_id, persona_tag: study.persona_tag },
+            },
+          };
+        }),
       updateParticipant: (updates) =>
         set((state) => {
           if (!state.session) return {};
@@ -144,6 +182,23 @@ export const useSessionStore = create<SessionStore>()(
             deadlineEndsAt,
           };
         }),
+      applyServerState: (serverState) =>
+        set((state) => {
+          if (!state.session || state.session.session_id !== serverState.session_id) return {};
+          return {
+            offers: serverState.offers,
+            chat: serverState.chat,
+            negotiationStartedAt: serverState.started_at,
+            deadlineEndsAt: serverState.deadline_ends_at,
+            session: {
+              ...state.session,
+              outcome: {
+                ...state.session.outcome,
+                turns: serverState.turn,
+              },
+            },
+          };
+        }),
       endSession: ({ reason, agreedOffer, utilities }) =>
         set((state) => {
           if (!state.session) return {};
@@ -179,6 +234,54 @@ export const useSessionStore = create<SessionStore>()(
           };
         }),
       setSubmission: (submission) => set(() => ({ submission })),
+      flushEvents: ({ beacon = false } = {}) => {
+        const { session, flushedEvents } = get();
+        if (!session || session.events.length <= flushedEvents) return;
+        const { events, ...snapshot } = session;
+        const sent = events.length;
+        const body = JSON.stringify({
+          session_id: session.session_id,
+          events: events.slice(flushedEvents),
+          session: { ...snapshot, events: [] },
+        });
+        const markFlushed = () =>
+          set((state) =>
+            state.session?.session_id === session.session_id
+              ? { flushedEvents: Math.max(state.flushedEvents, sent) }
+              : {}
+          );
+        // A hidden tab may never run again, so it hands the batch to the browser instead.
+        if (beacon && typeof navigator !== "undefined" && navigator.sendBeacon) {
+          if (navigator.sendBeacon("/api/events", new Blob([body], { type: "application/json" }))) {
+            markFlushed();
+          }
+          return;
+        }
+        fetch("/api/events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          keepalive: true,
+          body,
+        })
+          .then((response) => {
+            if (response.ok) markFlushed();
+          })
+          .catch(() => {
+            // The next flush resends; the full log also goes out on submit.
+          });
+      },
+      restoreSession: (session, serverState) =>
+        set(() => ({
+          session,
+          offers: serverState?.offers ?? [],
+          chat: serverState?.chat ?? [],
+          draftOffer: null,
+          isAwaitingAgent: false,
+          negotiationStartedAt: serverState?.started_at,
+          deadlineEndsAt: serverState?.deadline_ends_at,
+          submission: undefined,
+          flushedEvents: session.events.length,
+        })),
       resetSession: () =>
         set(() => ({
           session: null,
@@ -189,6 +292,7 @@ export const useSessionStore = create<SessionStore>()(
           negotiationStartedAt: undefined,
           deadlineEndsAt: undefined,
           submission: undefined,
+          flushedEvents: 0,
         })),
     }),
     {
@@ -201,6 +305,7 @@ export const useSessionStore = create<SessionStore>()(
         negotiationStartedAt: state.negotiationStartedAt,
         deadlineEndsAt: state.deadlineEndsAt,
         submission: state.submission,
+        flushedEvents: state.flushedEvents,
       }),
     }
   )